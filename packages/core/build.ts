@@ -30,4 +30,12 @@ if (!cjsResult.success) {
   process.exit(1)
 }
 
+// Emit the OpenAPI document of the gateway routes
+const { createOpenApiDocument } = await import("./src/openapi")
+const { version } = await Bun.file("./package.json").json()
+await Bun.write(
+  "./dist/openapi.json",
+  `${JSON.stringify(createOpenApiDocument({ version }), null, 2)}\n`,
+)
+
 console.log("✓ Core package built successfully")
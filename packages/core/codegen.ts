@@ -0,0 +1,27 @@
+// Regenerate the router, DTO and schema modules from src/codegen/uranium-api.ts
+import { generateRouters } from "./src/codegen/generate"
+import { generateTypes } from "./src/codegen/generate-types"
+import { URANIUM_API } from "./src/codegen/uranium-api"
+
+const files = {
+  ...generateTypes(URANIUM_API),
+  ...generateRouters(URANIUM_API),
+}
+
+for (const [path, source] of Object.entries(files)) {
+  // @ts-expect-error
+  await Bun.write(path, source)
+  console.log(`Generated ${path}`)
+}
+
+// Organize imports and format like the rest of the sources
+// @ts-expect-error
+const result = Bun.spawnSync(
+  ["bunx", "biome", "check", "--write", ...Object.keys(files)],
+  { stdout: "inherit", stderr: "inherit" },
+)
+
+if (result.exitCode !== 0) {
+  console.error("Formatting generated modules failed")
+  process.exit(1)
+}
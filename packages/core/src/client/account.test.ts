@@ -32,9 +32,17 @@ describe("Account Router", () => {
 
       // Verify the call was made correctly
       expect(mockClient.post).toHaveBeenCalledTimes(1)
-      expect(mockClient.post).toHaveBeenCalledWith("/clients-account/me", {
-        deviceId: "device123",
-      })
+      expect(mockClient.post).toHaveBeenCalledWith(
+        "/clients-account/me",
+        { deviceId: "device123" },
+        {
+          operation: {
+            router: "account",
+            operation: "getMe",
+            params: { deviceId: "device123" },
+          },
+        },
+      )
 
       // Verify the result
       expect(result).toEqual(mockUserData)
@@ -1,33 +1,40 @@
+// Generated by `bun run codegen` from src/codegen/uranium-api.ts. Do not edit.
+
 import { NetworkError } from "@uranium/types"
-import type { AxiosInstance } from "axios"
 import type {
   GetCurrentUserResponse_OK,
   GetCurrentUserResponseDto,
 } from "../types/api-types"
+import { toRequestConfig } from "./pipeline"
+import type { HttpTransport } from "./transport"
 import type { RequestOptions } from "./types"
 
 /**
  * Account API router
  * Handles user account operations
+ * @param client - HTTP transport
  */
-export const accountRouter = (client: AxiosInstance) => ({
+export const accountRouter = (client: HttpTransport) => ({
   /**
    * Get current authenticated user information
    * @param deviceId - Device identifier for the request
-   * @param options - Optional request options (retry config override)
+   * @param options - Optional request options (retry, signal, timeout, headers)
    * @returns User entity with account details
-   * @throws {AuthenticationError} If authentication fails
+   * @throws {AuthenticationError} If the API returns AUTH_REQUIRED or AUTH_INVALID
    * @throws {NetworkError} If network request fails
    */
   getMe: async (
     deviceId: string,
-    _options?: RequestOptions,
+    options?: RequestOptions,
   ): Promise<GetCurrentUserResponse_OK> => {
     const response = await client.post<GetCurrentUserResponseDto>(
       "/clients-account/me",
-      {
-        deviceId,
-      },
+      { deviceId },
+      toRequestConfig(options, {
+        router: "account",
+        operation: "getMe",
+        params: { deviceId },
+      }),
     )
 
     if (!response.data.ok) {
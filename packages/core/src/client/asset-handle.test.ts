@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test"
+import { UraniumSDK } from "../index"
+import { FakeUraniumApi } from "../test-utils/fake-api"
+import { mockData } from "../test-utils/mocks"
+import type { AssetEntity } from "../types/api-types"
+import { AssetSVCStatus, FileSource, FileType } from "../types/enums"
+import { NetworkError, NotFoundError } from "../types/errors"
+import { AssetHandle } from "./asset-handle"
+
+const createFile = (name = "sunset.png", type = "image/png") =>
+  new File([new ArrayBuffer(1024)], name, { type })
+
+const createSdk = (api: FakeUraniumApi) =>
+  new UraniumSDK({ apiKey: "test-key", transport: api.transport })
+
+/**
+ * Uploads a file and returns the listed asset
+ */
+const uploadAsset = async (sdk: UraniumSDK, file = createFile()) => {
+  const result = await sdk.upload.upload(file, {
+    contractId: "contract-sandbox",
+    metadata: { title: "Sunset" },
+  })
+  return { result, listed: (await sdk.assets.list()).data[0] as AssetEntity }
+}
+
+describe("AssetHandle", () => {
+  test("should expose the asset fields, links and JSON form", () => {
+    const entity = mockData.asset({
+      status: AssetSVCStatus.NFT_CONFIRMED,
+      mediaUrl: "https://cdn.urnm.test/asset1.png",
+      openSeaUrl: "https://opensea.io/assets/asset1",
+    }) as AssetEntity
+    const asset = createSdk(new FakeUraniumApi()).assets.handle(entity)
+
+    expect(asset).toBeInstanceOf(AssetHandle)
+    expect(asset.id).toBe("asset1")
+    expect(asset.fileId).toBe("file1")
+    expect(asset.isMinted).toBe(true)
+    expect(asset.mediaUrl).toBe("https://cdn.urnm.test/asset1.png")
+    expect(asset.openSeaUrl).toBe("https://opensea.io/assets/asset1")
+    expect(asset.thumbnailUrl).toBeNull()
+    expect(JSON.parse(JSON.stringify(asset))).toEqual(entity)
+    expect(asset.toModel()).toMatchObject({
+      source: FileSource.Upload,
+      mediaType: FileType.Image,
+      isMinted: true,
+    })
+  })
+
+  test("should refresh a listed asset", async () => {
+    const api = new FakeUraniumApi({ statusIntervalMs: 1000 })
+    const sdk = createSdk(api)
+    const { listed } = await uploadAsset(sdk)
+    const asset = sdk.assets.handle(listed)
+
+    api.advanceTime(1000 * AssetSVCStatus.NFT_MINTING)
+    await expect(asset.refresh()).resolves.toBe(asset)
+
+    expect(asset.status).toBe(AssetSVCStatus.NFT_MINTING)
+    expect(asset.data.id).toBe(listed.id)
+    expect(asset.isMinted).toBe(false)
+  })
+
+  test("should refresh an upload result by its file ID", async () => {
+    const api = new FakeUraniumApi({ statusIntervalMs: 1000 })
+    const sdk = createSdk(api)
+    const { result, listed } = await uploadAsset(sdk)
+    const asset = sdk.assets.handle(result)
+
+    expect(asset.status).toBe(AssetSVCStatus.MEDIA_UPLOAD_INITIALIZING)
+
+    api.advanceTime(1000 * AssetSVCStatus.NFT_CONFIRMED)
+    await asset.refresh()
+
+    expect(asset.id).toBe(listed.id)
+    expect(asset.isMinted).toBe(true)
+  })
+
+  test("should wait until the asset reaches a status", async () => {
+    const api = new FakeUraniumApi({ statusIntervalMs: 10 })
+    const sdk = createSdk(api)
+    const { result } = await uploadAsset(sdk)
+    const statuses: AssetSVCStatus[] = []
+
+    const asset = await sdk.assets
+      .handle(result)
+      .waitUntil(AssetSVCStatus.NFT_CONFIRMED, {
+        intervalMs: 20,
+        onProgress: (data) => statuses.push(data.status),
+      })
+
+    expect(asset.status).toBeGreaterThanOrEqual(AssetSVCStatus.NFT_CONFIRMED)
+    expect(asset.isMinted).toBe(true)
+    expect(asset.data.tokenId).toBe("1")
+    expect(statuses.length).toBeGreaterThan(0)
+  })
+
+  test("should time out waiting for a status", async () => {
+    const api = new FakeUraniumApi({ statusIntervalMs: 60_000 })
+    const sdk = createSdk(api)
+    const { listed } = await uploadAsset(sdk)
+
+    const error = await sdk.assets
+      .handle(listed)
+      .waitUntil(AssetSVCStatus.NFT_CONFIRMED, {
+        intervalMs: 10,
+        timeoutMs: 30,
+      })
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.code).toBe("TIMEOUT")
+  })
+
+  test("should stop waiting when the signal is aborted", async () => {
+    const api = new FakeUraniumApi({ statusIntervalMs: 60_000 })
+    const sdk = createSdk(api)
+    const { listed } = await uploadAsset(sdk)
+    const controller = new AbortController()
+
+    const waiting = sdk.assets
+      .handle(listed)
+      .waitUntil(AssetSVCStatus.NFT_CONFIRMED, { signal: controller })
+    controller.abort()
+    const error = await waiting.catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.code).toBe("REQUEST_ABORTED")
+  })
+
+  test("should fail when the asset no longer exists", async () => {
+    const sdk = createSdk(new FakeUraniumApi())
+    const asset = sdk.assets.handle(mockData.asset() as AssetEntity)
+
+    await expect(asset.refresh()).rejects.toBeInstanceOf(NotFoundError)
+  })
+
+  test("should extract frames of the asset's video", async () => {
+    const api = new FakeUraniumApi()
+    const sdk = createSdk(api)
+    const { listed } = await uploadAsset(
+      sdk,
+      createFile("harbor.mp4", "video/mp4"),
+    )
+
+    const frame = await sdk.assets.handle(listed).extractFrame(1.5)
+
+    expect(frame.mimeType).toBe("image/webp")
+    expect(
+      api.requests.find(
+        (request) => request.route === "/assets/extract-frame-sync",
+      )?.body,
+    ).toEqual({ fileId: listed.fileId, timeInSeconds: 1.5 })
+  })
+
+  test("should use the SDK instance that created the handle", async () => {
+    const api = new FakeUraniumApi()
+    const sdk = createSdk(api)
+    const { listed } = await uploadAsset(sdk)
+    const tenant = sdk.forTenant({ apiKey: "tenant-key" })
+
+    await tenant.assets.handle(listed).refresh()
+
+    expect(api.requests.at(-1)?.headers["x-auth-token"]).toBe("tenant-key")
+  })
+})
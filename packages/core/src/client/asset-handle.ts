@@ -0,0 +1,265 @@
+/**
+ * Asset Handles
+ *
+ * Active-record style wrappers around AssetEntity, bound to the assets
+ * router of the SDK instance that created them. Workflows can refresh an
+ * asset, wait for a minting stage or extract frames without threading the
+ * SDK and asset identifiers through every function.
+ *
+ * @module @uranium/sdk/client/asset-handle
+ */
+
+import { NetworkError } from "@uranium/types"
+import type {
+  AssetEntity,
+  ExtractFrameSyncResponseDto,
+} from "../types/api-types"
+import { AssetSVCStatus, isAssetMinted } from "../types/enums"
+import { ErrorCode } from "../types/errors"
+import { type Asset, toAsset } from "../types/models"
+import type { AssetsRouterWithLookup } from "./asset-lookup"
+import { sleep } from "./rate-limit"
+import type { RequestOptions } from "./types"
+import { extractSignal, isCancelError } from "./utils"
+
+/**
+ * Default interval between status checks of waitUntil
+ */
+export const DEFAULT_WAIT_INTERVAL_MS = 2000
+
+/**
+ * Default time waitUntil waits for a status
+ */
+export const DEFAULT_WAIT_TIMEOUT_MS = 10 * 60 * 1000
+
+/**
+ * Options for AssetHandle.waitUntil
+ */
+export interface WaitUntilOptions {
+  /**
+   * Interval between status checks in milliseconds
+   * @default 2000
+   */
+  intervalMs?: number
+
+  /**
+   * Time to wait before failing with a TIMEOUT NetworkError, in milliseconds
+   * @default 600000 (10 minutes)
+   */
+  timeoutMs?: number
+
+  /**
+   * Signal cancelling the wait and the pending status check
+   */
+  signal?: AbortSignal | AbortController
+
+  /**
+   * Called with the asset after every status check
+   */
+  onProgress?: (asset: AssetEntity) => void
+}
+
+/**
+ * Numeric stage of a status
+ *
+ * Upload results carry the UploadStatus name (e.g. "NFT_MINTING") of the
+ * startMinting response instead of the numeric AssetSVCStatus.
+ */
+const toStatusIndex = (status: AssetSVCStatus | string): number =>
+  typeof status === "number"
+    ? status
+    : (AssetSVCStatus[status as keyof typeof AssetSVCStatus] ?? -1)
+
+/**
+ * Asset bound to the SDK instance that loaded it
+ *
+ * @example
+ * ```typescript
+ * const result = await sdk.upload.upload(file, { contractId, metadata })
+ * const asset = sdk.assets.handle(result)
+ *
+ * await asset.waitUntil(AssetSVCStatus.NFT_CONFIRMED)
+ * console.log(asset.openSeaUrl)
+ * ```
+ */
+export class AssetHandle {
+  private entity: AssetEntity
+
+  /**
+   * @param asset - Asset as returned by the API
+   * @param router - Assets router of the SDK instance
+   */
+  constructor(
+    asset: AssetEntity,
+    private readonly router: AssetsRouterWithLookup,
+  ) {
+    this.entity = asset
+  }
+
+  /** Latest known state of the asset */
+  get data(): AssetEntity {
+    return this.entity
+  }
+
+  /** Unique identifier of the asset */
+  get id(): string {
+    return this.entity.id
+  }
+
+  /** ID of the uploaded file */
+  get fileId(): string {
+    return this.entity.fileId ?? this.entity.id
+  }
+
+  /** Current minting/upload status */
+  get status(): AssetSVCStatus {
+    return toStatusIndex(this.entity.status)
+  }
+
+  /** Whether the NFT is minted (status NFT_CONFIRMED or later) */
+  get isMinted(): boolean {
+    return isAssetMinted(this.status)
+  }
+
+  /** URL to the media file, once processed */
+  get mediaUrl(): string | null {
+    return this.entity.mediaUrl ?? null
+  }
+
+  /** URL to the thumbnail image, once processed */
+  get thumbnailUrl(): string | null {
+    return this.entity.thumbnailUrl ?? null
+  }
+
+  /** OpenSea marketplace URL, once minted */
+  get openSeaUrl(): string | null {
+    return this.entity.openSeaUrl ?? null
+  }
+
+  /**
+   * Reloads the asset from the API with `assets.getByFileId()`
+   *
+   * With a response cache configured, the listing the asset is read from
+   * may be served from the cache until its TTL expires.
+   *
+   * @param options - Optional request options (retry, signal, timeout, headers)
+   * @returns The handle, with updated data
+   * @throws {NotFoundError} If the asset no longer exists
+   * @throws {NetworkError} If network request fails
+   */
+  async refresh(options?: RequestOptions): Promise<this> {
+    this.entity = await this.router.getByFileId(this.fileId, {
+      ...options,
+      contractId: this.entity.contractId,
+    })
+    return this
+  }
+
+  /**
+   * Refreshes the asset until it reaches a status
+   *
+   * Statuses are ordered stages: the wait ends once the asset is at the
+   * given stage or any later one.
+   *
+   * @param status - Status to wait for (e.g. AssetSVCStatus.NFT_CONFIRMED)
+   * @param options - Poll interval, timeout, signal and progress callback
+   * @returns The handle, with updated data
+   * @throws {NetworkError} With code TIMEOUT if the status is not reached in time
+   * @throws {NetworkError} With code REQUEST_ABORTED if the signal is aborted
+   * @throws {NotFoundError} If the asset no longer exists
+   */
+  async waitUntil(
+    status: AssetSVCStatus,
+    options: WaitUntilOptions = {},
+  ): Promise<this> {
+    const intervalMs = options.intervalMs ?? DEFAULT_WAIT_INTERVAL_MS
+    const timeoutMs = options.timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS
+    const signal = extractSignal(options.signal)
+    const deadline = Date.now() + timeoutMs
+
+    while (this.status < status) {
+      const remainingMs = deadline - Date.now()
+      if (remainingMs <= 0) {
+        throw new NetworkError(
+          `Asset ${this.entity.id} did not reach status ${status} within ${timeoutMs}ms`,
+          ErrorCode.TIMEOUT,
+          false,
+          undefined,
+          { assetId: this.entity.id, status: this.status },
+        )
+      }
+      await sleep(Math.min(intervalMs, remainingMs), signal).catch(
+        (error: Error) => {
+          // Same error as router calls aborted while in flight
+          if (isCancelError(error)) {
+            throw new NetworkError(
+              "Request was aborted",
+              "REQUEST_ABORTED",
+              false,
+              error,
+            )
+          }
+          throw error
+        },
+      )
+      await this.refresh({ signal })
+      options.onProgress?.(this.entity)
+    }
+    return this
+  }
+
+  /**
+   * Extracts a frame of the asset's video
+   * @param timeInSeconds - Position of the frame in the video
+   * @param options - Optional request options (retry, signal, timeout, headers)
+   * @returns Extracted frame as base64 data with dimensions
+   * @throws {ValidationError} If the time is invalid
+   * @throws {NetworkError} If network request fails or extraction fails
+   */
+  extractFrame(
+    timeInSeconds: number,
+    options?: RequestOptions,
+  ): Promise<ExtractFrameSyncResponseDto> {
+    return this.router.extractFrameSync(
+      { fileId: this.fileId, timeInSeconds },
+      options,
+    )
+  }
+
+  /**
+   * Converts the asset to the normalized model
+   * @returns Asset with Date timestamps, enum-typed fields and parsed coordinates
+   */
+  toModel(): Asset {
+    return toAsset(this.entity)
+  }
+
+  /**
+   * Serializes the handle as its asset data
+   * @returns Latest known state of the asset
+   */
+  toJSON(): AssetEntity {
+    return this.entity
+  }
+}
+
+/**
+ * Adds `handle()` to an assets router
+ * @param router - Assets router of an SDK instance, with lookups
+ * @returns The router's methods, plus `handle()` creating handles bound to it
+ */
+export const withAssetHandles = (router: AssetsRouterWithLookup) => ({
+  ...router,
+
+  /**
+   * Wraps an asset in a handle bound to this router
+   * @param asset - Asset as returned by `assets.list()` or `upload.upload()`
+   * @returns Asset handle
+   */
+  handle: (asset: AssetEntity): AssetHandle => new AssetHandle(asset, router),
+})
+
+/**
+ * Type for assets router with asset handles
+ */
+export type AssetsRouterWithHandles = ReturnType<typeof withAssetHandles>
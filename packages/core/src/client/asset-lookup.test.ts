@@ -0,0 +1,107 @@
+import { describe, expect, mock, test } from "bun:test"
+import { UraniumSDK } from "../index"
+import { FakeUraniumApi } from "../test-utils/fake-api"
+import { mockData } from "../test-utils/mocks"
+import type { AssetEntity, FindUserAssetsRequestDto } from "../types/api-types"
+import { ErrorCode, NotFoundError } from "../types/errors"
+import { withAssetLookup } from "./asset-lookup"
+import type { AssetsRouter } from "./assets"
+
+/**
+ * Router listing `total` assets, 100 per page
+ */
+const createRouter = (total: number) => {
+  const assets = Array.from(
+    { length: total },
+    (_, index) =>
+      mockData.asset({
+        id: `asset-${index}`,
+        fileId: `file-${index}`,
+      }) as AssetEntity,
+  )
+  const list = mock(async (params: FindUserAssetsRequestDto = {}) => {
+    const page = params.page ?? 1
+    const pageSize = params.pageSize ?? 10
+    return {
+      data: assets.slice((page - 1) * pageSize, page * pageSize),
+      meta: {
+        total,
+        page,
+        pageSize,
+        countPages: Math.ceil(total / pageSize),
+      },
+    }
+  })
+  return { router: withAssetLookup({ list } as unknown as AssetsRouter), list }
+}
+
+describe("withAssetLookup", () => {
+  test("should get an asset by id or file id", async () => {
+    const api = new FakeUraniumApi()
+    const sdk = new UraniumSDK({ apiKey: "test-key", transport: api.transport })
+    const result = await sdk.upload.upload(
+      new File([new ArrayBuffer(1024)], "sunset.png", { type: "image/png" }),
+      { contractId: "contract-sandbox", metadata: { title: "Sunset" } },
+    )
+
+    const byFileId = await sdk.assets.getByFileId(result.fileId)
+    const byId = await sdk.assets.get(byFileId.id, {
+      contractId: "contract-sandbox",
+    })
+
+    expect(byFileId).toMatchObject({ fileId: result.fileId, title: "Sunset" })
+    expect(byId).toEqual(byFileId)
+    expect(api.requests.at(-1)?.url).toContain("contractId=contract-sandbox")
+  })
+
+  test("should search the listing newest first, page by page", async () => {
+    const { router, list } = createRouter(250)
+
+    const asset = await router.getByFileId("file-230")
+
+    expect(asset.id).toBe("asset-230")
+    expect(list).toHaveBeenCalledTimes(3)
+    expect(list.mock.calls[2]?.[0]).toEqual({
+      contractId: undefined,
+      sortBy: "createdAt",
+      order: "desc",
+      page: 3,
+      pageSize: 100,
+    })
+  })
+
+  test("should pass request options to the listing", async () => {
+    const { router, list } = createRouter(1)
+    const controller = new AbortController()
+
+    await router.get("asset-0", {
+      contractId: "contract-1",
+      maxPages: 2,
+      signal: controller,
+    })
+
+    expect(list.mock.calls[0]?.[0]?.contractId).toBe("contract-1")
+    expect(list.mock.calls[0]?.[1]).toEqual({ signal: controller })
+  })
+
+  test("should throw NotFoundError when nothing matches", async () => {
+    const { router, list } = createRouter(150)
+
+    const error = await router.get("asset-missing").catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.code).toBe(ErrorCode.NOT_FOUND)
+    expect(error.resourceType).toBe("asset")
+    expect(error.resourceId).toBe("asset-missing")
+    expect(list).toHaveBeenCalledTimes(2)
+  })
+
+  test("should stop after maxPages", async () => {
+    const { router, list } = createRouter(1000)
+
+    await expect(
+      router.getByFileId("file-999", { maxPages: 3 }),
+    ).rejects.toBeInstanceOf(NotFoundError)
+    expect(list).toHaveBeenCalledTimes(3)
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Asset Lookup
+ *
+ * Fetches a single asset by ID or file ID. The gateway has no asset detail
+ * route, so lookups search the asset listing, newest first, for a bounded
+ * number of pages.
+ *
+ * @module @uranium/sdk/client/asset-lookup
+ */
+
+import { NotFoundError } from "@uranium/types"
+import type { AssetEntity } from "../types/api-types"
+import { ErrorCode } from "../types/errors"
+import { MAX_PAGE_SIZE } from "../types/pagination"
+import type { AssetsRouter } from "./assets"
+import type { RequestOptions } from "./types"
+
+/**
+ * Default number of listing pages searched by a lookup
+ */
+export const DEFAULT_ASSET_LOOKUP_MAX_PAGES = 10
+
+/**
+ * Options for assets.get and assets.getByFileId
+ */
+export interface AssetLookupOptions extends RequestOptions {
+  /**
+   * Collection of the asset, narrowing the search
+   * @default undefined (all collections)
+   */
+  contractId?: string
+
+  /**
+   * Number of listing pages of 100 assets searched before failing
+   * @default 10
+   */
+  maxPages?: number
+}
+
+/**
+ * Searches the asset listing for the first asset matching a field
+ */
+const findAsset = async (
+  router: AssetsRouter,
+  field: "id" | "fileId",
+  value: string,
+  options: AssetLookupOptions = {},
+): Promise<AssetEntity> => {
+  const { contractId, maxPages, ...requestOptions } = options
+  const pages = maxPages ?? DEFAULT_ASSET_LOOKUP_MAX_PAGES
+
+  for (let page = 1; page <= pages; page++) {
+    const { data, meta } = await router.list(
+      {
+        contractId,
+        sortBy: "createdAt",
+        order: "desc",
+        page,
+        pageSize: MAX_PAGE_SIZE,
+      },
+      requestOptions,
+    )
+
+    const found = data.find((asset) => asset[field] === value)
+    if (found) return found
+    if (!meta || page >= meta.countPages || data.length === 0) break
+  }
+
+  throw new NotFoundError(
+    `Asset with ${field} ${value} not found`,
+    ErrorCode.NOT_FOUND,
+    "asset",
+    value,
+    { field, contractId, maxPages: pages },
+  )
+}
+
+/**
+ * Adds single-asset lookups to an assets router
+ * @param router - Assets router of an SDK instance
+ * @returns The router's methods, plus `get()` and `getByFileId()`
+ */
+export const withAssetLookup = (router: AssetsRouter) => ({
+  ...router,
+
+  /**
+   * Get an asset by ID
+   * @param id - Asset identifier
+   * @param options - Collection to search, page bound and request options
+   * @returns Asset entity
+   * @throws {NotFoundError} If no asset matches within the searched pages
+   * @throws {NetworkError} If network request fails
+   */
+  get: (id: string, options?: AssetLookupOptions): Promise<AssetEntity> =>
+    findAsset(router, "id", id, options),
+
+  /**
+   * Get an asset by the ID of its uploaded file
+   * @param fileId - File identifier, e.g. the `fileId` of an upload result
+   * @param options - Collection to search, page bound and request options
+   * @returns Asset entity
+   * @throws {NotFoundError} If no asset matches within the searched pages
+   * @throws {NetworkError} If network request fails
+   */
+  getByFileId: (
+    fileId: string,
+    options?: AssetLookupOptions,
+  ): Promise<AssetEntity> => findAsset(router, "fileId", fileId, options),
+})
+
+/**
+ * Type for assets router with single-asset lookups
+ */
+export type AssetsRouterWithLookup = ReturnType<typeof withAssetLookup>
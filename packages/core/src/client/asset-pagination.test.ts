@@ -0,0 +1,151 @@
+import { describe, expect, mock, test } from "bun:test"
+import { UraniumSDK } from "../index"
+import { FakeUraniumApi } from "../test-utils/fake-api"
+import { mockData } from "../test-utils/mocks"
+import type { AssetEntity, FindUserAssetsRequestDto } from "../types/api-types"
+import { NetworkError } from "../types/errors"
+import { withAssetPagination } from "./asset-pagination"
+import type { AssetsRouter } from "./assets"
+
+const createAsset = (index: number) =>
+  mockData.asset({
+    id: `asset-${index}`,
+    fileId: `file-${index}`,
+  }) as AssetEntity
+
+/**
+ * Router listing `total` assets, newest first
+ */
+const createRouter = (total: number) => {
+  const assets = Array.from({ length: total }, (_, index) =>
+    createAsset(total - 1 - index),
+  )
+  const list = mock(async (params: FindUserAssetsRequestDto = {}) => {
+    const page = params.page ?? 1
+    const pageSize = params.pageSize ?? 10
+    return {
+      data: assets.slice((page - 1) * pageSize, page * pageSize),
+      meta: {
+        total: assets.length,
+        page,
+        pageSize,
+        countPages: Math.ceil(assets.length / pageSize),
+      },
+    }
+  })
+  const router = withAssetPagination({ list } as unknown as AssetsRouter)
+  return { router, list, assets }
+}
+
+describe("withAssetPagination", () => {
+  test("should iterate over every asset of a collection", async () => {
+    const api = new FakeUraniumApi()
+    const sdk = new UraniumSDK({ apiKey: "test-key", transport: api.transport })
+    for (const name of ["a.png", "b.png", "c.png"]) {
+      await sdk.upload.upload(
+        new File([new ArrayBuffer(1024)], name, { type: "image/png" }),
+        { contractId: "contract-sandbox", metadata: { title: name } },
+      )
+    }
+    const uploadRequests = api.requests.length
+
+    const titles: string[] = []
+    for await (const asset of sdk.assets.iterate({
+      contractId: "contract-sandbox",
+      pageSize: 2,
+    })) {
+      titles.push(asset.title)
+    }
+
+    expect(titles.sort()).toEqual(["a.png", "b.png", "c.png"])
+    expect(
+      api.requests
+        .slice(uploadRequests)
+        .filter((request) => request.route === "/assets"),
+    ).toHaveLength(2)
+  })
+
+  test("should request pages of 100 until the last page", async () => {
+    const { router, list } = createRouter(250)
+
+    const sizes: number[] = []
+    for await (const page of router.iteratePages({ order: "desc" })) {
+      sizes.push(page.data.length)
+    }
+
+    expect(sizes).toEqual([100, 100, 50])
+    expect(list).toHaveBeenCalledTimes(3)
+    expect(list.mock.calls[2]?.[0]).toEqual({
+      order: "desc",
+      page: 3,
+      pageSize: 100,
+    })
+  })
+
+  test("should start at the given page and stop on an empty page", async () => {
+    const { router, list } = createRouter(0)
+
+    const assets = await router.listAll({ page: 2 })
+
+    expect(assets).toEqual([])
+    expect(list).toHaveBeenCalledTimes(1)
+    expect(list.mock.calls[0]?.[0]?.page).toBe(2)
+  })
+
+  test("should not yield an asset twice when pages shift", async () => {
+    const { router, assets } = createRouter(4)
+
+    const ids: string[] = []
+    for await (const asset of router.iterate({ pageSize: 2 })) {
+      ids.push(asset.id)
+      // A new asset pushes asset-2 from page 1 to page 2
+      if (ids.length === 1) assets.unshift(createAsset(4))
+    }
+
+    expect(ids).toEqual(["asset-3", "asset-2", "asset-1", "asset-0"])
+  })
+
+  test("should prefetch the next page while a page is consumed", async () => {
+    const { router, list } = createRouter(30)
+    const pages = router.iteratePages({ pageSize: 10 }, { prefetch: true })
+
+    await pages.next()
+    expect(list).toHaveBeenCalledTimes(2)
+
+    await pages.return()
+    expect(list).toHaveBeenCalledTimes(2)
+  })
+
+  test("should stop listing at max assets", async () => {
+    const { router, list } = createRouter(250)
+
+    const assets = await router.listAll({}, { max: 120 })
+
+    expect(assets).toHaveLength(120)
+    expect(assets[0]?.id).toBe("asset-249")
+    expect(list).toHaveBeenCalledTimes(2)
+    await expect(router.listAll({}, { max: 0 })).resolves.toEqual([])
+  })
+
+  test("should stop when the signal is aborted", async () => {
+    const { router, list } = createRouter(30)
+    const controller = new AbortController()
+
+    const pages = router.iteratePages(
+      { pageSize: 10 },
+      { signal: controller, timeout: 5000 },
+    )
+    await pages.next()
+    controller.abort()
+
+    const error = await pages.next().catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.code).toBe("REQUEST_ABORTED")
+    expect(list).toHaveBeenCalledTimes(1)
+    expect(list.mock.calls[0]?.[1]).toEqual({
+      signal: controller,
+      timeout: 5000,
+    })
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * Asset Pagination
+ *
+ * Async iteration over the asset listing. Pages are requested one after
+ * another until the listing's metadata reports no next page, optionally
+ * prefetching the next page while the current one is consumed.
+ *
+ * @module @uranium/sdk/client/asset-pagination
+ */
+
+import { NetworkError } from "@uranium/types"
+import type { AssetEntity, FindUserAssetsRequestDto } from "../types/api-types"
+import {
+  getNextPage,
+  MAX_PAGE_SIZE,
+  type PaginatedResponse,
+} from "../types/pagination"
+import type { AssetsRouter } from "./assets"
+import type { RequestOptions } from "./types"
+import { extractSignal } from "./utils"
+
+/**
+ * Options for assets.iteratePages and assets.iterate
+ */
+export interface AssetIterationOptions extends RequestOptions {
+  /**
+   * Request the next page while the current one is being consumed
+   * @default false
+   */
+  prefetch?: boolean
+}
+
+/**
+ * Options for assets.listAll
+ */
+export interface ListAllAssetsOptions extends AssetIterationOptions {
+  /**
+   * Maximum number of assets returned
+   * @default undefined (the whole listing)
+   */
+  max?: number
+}
+
+/**
+ * Walks the asset listing page by page
+ *
+ * Offset pages shift when assets are created while iterating newest first
+ * (`sortBy: "createdAt", order: "desc"`): the last assets of a page move to
+ * the start of the next one. Assets already yielded are dropped from later
+ * pages, so every asset is yielded at most once.
+ */
+async function* iterateAssetPages(
+  router: AssetsRouter,
+  params: FindUserAssetsRequestDto,
+  options: AssetIterationOptions,
+): AsyncGenerator<PaginatedResponse<AssetEntity>, void, undefined> {
+  const { prefetch = false, ...requestOptions } = options
+  const signal = extractSignal(requestOptions.signal)
+  const seen = new Set<string>()
+
+  const fetchPage = (page: number): Promise<PaginatedResponse<AssetEntity>> => {
+    // Same error as router calls aborted while in flight
+    if (signal?.aborted) {
+      return Promise.reject(
+        new NetworkError("Request was aborted", "REQUEST_ABORTED", false),
+      )
+    }
+    const pending = router.list(
+      { ...params, page, pageSize: params.pageSize ?? MAX_PAGE_SIZE },
+      requestOptions,
+    )
+    // A prefetched page may never be awaited if iteration stops early
+    pending.catch(() => undefined)
+    return pending
+  }
+
+  let pending: Promise<PaginatedResponse<AssetEntity>> | undefined = fetchPage(
+    params.page ?? 1,
+  )
+
+  while (pending) {
+    const { data, meta }: PaginatedResponse<AssetEntity> = await pending
+    const nextPage: number | null =
+      meta && data.length > 0 ? getNextPage(meta) : null
+    pending = prefetch && nextPage !== null ? fetchPage(nextPage) : undefined
+
+    const unseen = data.filter((asset) => !seen.has(asset.id))
+    for (const asset of unseen) seen.add(asset.id)
+    yield { data: unseen, meta }
+
+    if (nextPage === null) return
+    pending ??= fetchPage(nextPage)
+  }
+}
+
+/**
+ * Adds async iteration over the asset listing to an assets router
+ * @param router - Assets router of an SDK instance
+ * @returns The router's methods, plus `iteratePages()`, `iterate()` and `listAll()`
+ */
+export const withAssetPagination = <Router extends AssetsRouter>(
+  router: Router,
+) => ({
+  ...router,
+
+  /**
+   * Iterate over pages of the asset listing
+   * @param params - Filter parameters; `page` is the first page (default 1)
+   *   and `pageSize` defaults to 100
+   * @param options - Prefetching, signal and request options
+   * @returns Async iterable of pages, without assets already yielded
+   * @throws {NetworkError} If network request fails, or with code
+   *   REQUEST_ABORTED if the signal is aborted
+   */
+  iteratePages: (
+    params: FindUserAssetsRequestDto = {},
+    options: AssetIterationOptions = {},
+  ): AsyncGenerator<PaginatedResponse<AssetEntity>, void, undefined> =>
+    iterateAssetPages(router, params, options),
+
+  /**
+   * Iterate over every asset of the listing
+   * @param params - Filter parameters, as for `iteratePages()`
+   * @param options - Prefetching, signal and request options
+   * @returns Async iterable of assets
+   * @throws {NetworkError} If network request fails, or with code
+   *   REQUEST_ABORTED if the signal is aborted
+   *
+   * @example
+   * ```typescript
+   * for await (const asset of sdk.assets.iterate({ contractId })) {
+   *   console.log(asset.title)
+   * }
+   * ```
+   */
+  iterate: async function* (
+    params: FindUserAssetsRequestDto = {},
+    options: AssetIterationOptions = {},
+  ): AsyncGenerator<AssetEntity, void, undefined> {
+    for await (const { data } of iterateAssetPages(router, params, options)) {
+      yield* data
+    }
+  },
+
+  /**
+   * Collect the assets of the listing into an array
+   * @param params - Filter parameters, as for `iteratePages()`
+   * @param options - Maximum number of assets, prefetching, signal and request options
+   * @returns Assets, in listing order
+   * @throws {NetworkError} If network request fails, or with code
+   *   REQUEST_ABORTED if the signal is aborted
+   */
+  listAll: async (
+    params: FindUserAssetsRequestDto = {},
+    options: ListAllAssetsOptions = {},
+  ): Promise<AssetEntity[]> => {
+    const { max = Number.POSITIVE_INFINITY, ...iterationOptions } = options
+    const assets: AssetEntity[] = []
+    if (max <= 0) return assets
+
+    for await (const { data } of iterateAssetPages(
+      router,
+      params,
+      iterationOptions,
+    )) {
+      assets.push(...data.slice(0, max - assets.length))
+      if (assets.length >= max) break
+    }
+    return assets
+  },
+})
+
+/**
+ * Type for assets router with async iteration
+ * @template Router - Assets router the iteration methods are added to
+ */
+export type AssetsRouterWithPagination<
+  Router extends AssetsRouter = AssetsRouter,
+> = ReturnType<typeof withAssetPagination<Router>>
@@ -104,6 +104,23 @@ describe("Assets Router", () => {
       await expect(router.list()).rejects.toThrow(NetworkError)
       await expect(router.list()).rejects.toThrow("Failed to retrieve assets")
     })
+    test("should forward request options to the client", async () => {
+      const mockClient = createMockAxiosClient({
+        get: () =>
+          Promise.resolve({
+            data: { status: "ok", ok: { data: [], meta: null } },
+          }),
+      })
+      const controller = new AbortController()
+
+      const router = assetsRouter(mockClient)
+      await router.list({}, { signal: controller, timeout: 2000 })
+
+      // biome-ignore lint/suspicious/noExplicitAny: Testing mock object
+      const requestConfig = (mockClient.get as any).mock.calls[0][1]
+      expect(requestConfig.signal).toBe(controller.signal)
+      expect(requestConfig.timeout).toBe(2000)
+    })
   })
 
   describe("prepareNewFile", () => {
@@ -142,6 +159,9 @@ describe("Assets Router", () => {
       expect(mockClient.post).toHaveBeenCalledWith(
         "/assets/prepare-new-file",
         params,
+        {
+          operation: { router: "assets", operation: "prepareNewFile", params },
+        },
       )
       expect(result.fileId).toBe("file123")
       expect(result.uploadPartUrls).toHaveLength(3)
@@ -355,6 +375,9 @@ describe("Assets Router", () => {
       expect(mockClient.post).toHaveBeenCalledWith(
         "/assets/complete-upload",
         params,
+        {
+          operation: { router: "assets", operation: "completeUpload", params },
+        },
       )
       expect(result.status).toBe("ok")
     })
@@ -518,6 +541,61 @@ describe("Assets Router", () => {
   })
 
   describe("startMinting", () => {
+    test("should forward per-request retry override", async () => {
+      const mockClient = createMockAxiosClient({
+        post: () =>
+          Promise.resolve({
+            data: {
+              status: "ok",
+              data: { status: "MEDIA_UPLOADING", mintProgressInfo: {} },
+            },
+          }),
+      })
+
+      const router = assetsRouter(mockClient)
+      await router.startMinting(
+        { fileId: "file123", metadata: { attributes: [] } },
+        { retry: { maxRetries: 5 }, headers: { "x-request-source": "test" } },
+      )
+
+      // biome-ignore lint/suspicious/noExplicitAny: Testing mock object
+      const requestConfig = (mockClient.post as any).mock.calls[0][2]
+      expect(requestConfig.retry).toEqual({ maxRetries: 5 })
+      expect(requestConfig.headers).toEqual({
+        "x-request-source": "test",
+        "Idempotency-Key": expect.any(String),
+      })
+    })
+
+    test("should return the first result when an idempotency key is re-submitted", async () => {
+      const mockClient = createMockAxiosClient({
+        post: () =>
+          Promise.resolve({
+            data: {
+              status: "ok",
+              data: { status: "MEDIA_UPLOADING", mintProgressInfo: {} },
+            },
+          }),
+      })
+      const router = assetsRouter(mockClient)
+      const params = { fileId: "file123", metadata: { attributes: [] } }
+
+      const first = await router.startMinting(params, {
+        idempotencyKey: "mint-1",
+      })
+      const second = await router.startMinting(params, {
+        idempotencyKey: "mint-1",
+      })
+      await router.startMinting(params, { idempotencyKey: "mint-2" })
+
+      expect(second).toBe(first)
+      expect(mockClient.post).toHaveBeenCalledTimes(2)
+      // biome-ignore lint/suspicious/noExplicitAny: Testing mock object
+      const calls = (mockClient.post as any).mock.calls
+      expect(calls[0][2].headers["Idempotency-Key"]).toBe("mint-1")
+      expect(calls[1][2].headers["Idempotency-Key"]).toBe("mint-2")
+    })
+
     test("should successfully start minting", async () => {
       const mockMintingData = {
         // biome-ignore lint/suspicious/noExplicitAny: Testing mock status
@@ -560,6 +638,10 @@ describe("Assets Router", () => {
       expect(mockClient.post).toHaveBeenCalledWith(
         "/assets/start-minting",
         params,
+        {
+          headers: { "Idempotency-Key": expect.any(String) },
+          operation: { router: "assets", operation: "startMinting", params },
+        },
       )
       expect(result.status).toBe("MEDIA_UPLOADING")
       expect(result.mintProgressInfo.totalChunks).toBe(3)
@@ -752,6 +834,13 @@ describe("Assets Router", () => {
       expect(mockClient.post).toHaveBeenCalledWith(
         "/assets/extract-frame-sync",
         params,
+        {
+          operation: {
+            router: "assets",
+            operation: "extractFrameSync",
+            params,
+          },
+        },
       )
       expect(result.status).toBe("OK")
       expect(result.base64Data).toBe("UklGRvL8AABXRUJQVlA4IOb8AAA...")
@@ -785,6 +874,13 @@ describe("Assets Router", () => {
       expect(mockClient.post).toHaveBeenCalledWith(
         "/assets/extract-frame-sync",
         params,
+        {
+          operation: {
+            router: "assets",
+            operation: "extractFrameSync",
+            params,
+          },
+        },
       )
       expect(result.status).toBe("OK")
     })
@@ -925,6 +1021,13 @@ describe("Assets Router", () => {
       expect(mockClient.post).toHaveBeenCalledWith(
         "/assets/extract-frame-sync",
         params,
+        {
+          operation: {
+            router: "assets",
+            operation: "extractFrameSync",
+            params,
+          },
+        },
       )
       expect(result.status).toBe("OK")
     })
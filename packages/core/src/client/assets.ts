@@ -1,5 +1,6 @@
+// Generated by `bun run codegen` from src/codegen/uranium-api.ts. Do not edit.
+
 import { NetworkError } from "@uranium/types"
-import type { AxiosInstance } from "axios"
 import type {
   AssetEntity,
   CompleteUploadRequestDto,
@@ -14,60 +15,54 @@ import type {
   StartMintingResponseDataDto,
   StartMintingResponseDto,
 } from "../types/api-types"
+import type { PaginatedResponse } from "../types/pagination"
 import {
   completeUploadSchema,
   extractFrameSyncSchema,
   prepareNewFileSchema,
   startMintingSchema,
-} from "../validation/schemas"
+} from "../validation/request-schemas"
 import { validateSchema } from "../validation/utils"
+import { IdempotencyStore, withIdempotency } from "./idempotency"
+import { toRequestConfig } from "./pipeline"
+import type { HttpTransport } from "./transport"
 import type { RequestOptions } from "./types"
 
-/**
- * Paginated response structure for asset listings
- */
-export interface PaginatedResponse<T> {
-  data: T[]
-  meta: {
-    total: number
-    page: number
-    pageSize: number
-    countPages: number
-  } | null
-}
-
 /**
  * Assets API router
  * Handles NFT asset operations including listing, uploading, and minting
+ * @param client - HTTP transport
+ * @param idempotencyStore - Store deduplicating caller-provided idempotency keys
  */
-export const assetsRouter = (client: AxiosInstance) => ({
+export const assetsRouter = (
+  client: HttpTransport,
+  idempotencyStore: IdempotencyStore = new IdempotencyStore(),
+) => ({
   /**
    * List assets with optional filtering and pagination
    * @param params - Filter parameters (contractId, pagination, sorting, search)
-   * @param options - Optional request options (retry config override)
+   * @param options - Optional request options (retry, signal, timeout, headers)
    * @returns Paginated list of assets with metadata
    * @throws {NetworkError} If network request fails
    */
   list: async (
     params: FindUserAssetsRequestDto = {},
-    _options?: RequestOptions,
+    options?: RequestOptions,
   ): Promise<PaginatedResponse<AssetEntity>> => {
     // Build query parameters
     const searchParams = new URLSearchParams()
-
-    // Add optional filters
-    if (params.contractId) searchParams.append("contractId", params.contractId)
+    if (params.contractId)
+      searchParams.append("contractId", String(params.contractId))
     if (params.quickFilter)
-      searchParams.append("quickFilter", params.quickFilter)
-
-    // Add pagination with defaults
-    searchParams.append("sortBy", params.sortBy ?? "createdAt")
-    searchParams.append("order", params.order ?? "asc")
+      searchParams.append("quickFilter", String(params.quickFilter))
+    searchParams.append("sortBy", String(params.sortBy ?? "createdAt"))
+    searchParams.append("order", String(params.order ?? "asc"))
     searchParams.append("page", String(params.page ?? 1))
     searchParams.append("pageSize", String(params.pageSize ?? 10))
 
     const response = await client.get<FindUserAssetsResponseDto>(
       `/assets/?${searchParams.toString()}`,
+      toRequestConfig(options, { router: "assets", operation: "list", params }),
     )
 
     if (!response.data.ok) {
@@ -80,21 +75,21 @@ export const assetsRouter = (client: AxiosInstance) => ({
       )
     }
 
-    return {
-      data: response.data.ok.data,
-      meta: response.data.ok.meta,
-    }
+    return { data: response.data.ok.data, meta: response.data.ok.meta }
   },
 
   /**
    * Prepare a new file upload and get presigned URLs
    * @param params - File preparation parameters (deviceId, metadata, type, size)
+   * @param options - Optional request options (retry, signal, timeout, headers)
    * @returns Upload URLs and file identifiers
-   * @throws {ValidationError} If file parameters are invalid
+   * @throws {ValidationError} If params are invalid
+   * @throws {LimitExceededError} If the API returns FILE_TOO_LARGE or QUOTA_EXCEEDED
    * @throws {NetworkError} If network request fails
    */
   prepareNewFile: async (
     params: PrepareNewFileRequestDto,
+    options?: RequestOptions,
   ): Promise<PrepareNewFileResponseDto> => {
     // Validate input before sending request
     const validated = validateSchema(
@@ -106,6 +101,11 @@ export const assetsRouter = (client: AxiosInstance) => ({
     const response = await client.post<PrepareNewFileResponseDto>(
       "/assets/prepare-new-file",
       validated,
+      toRequestConfig(options, {
+        router: "assets",
+        operation: "prepareNewFile",
+        params: validated,
+      }),
     )
 
     if (!response.data.fileId) {
@@ -124,12 +124,15 @@ export const assetsRouter = (client: AxiosInstance) => ({
   /**
    * Complete a multipart file upload
    * @param params - Completion parameters (fileId, mimeType, chunks with ETags)
+   * @param options - Optional request options (retry, signal, timeout, headers)
    * @returns Upload completion confirmation
-   * @throws {ValidationError} If completion parameters are invalid
+   * @throws {ValidationError} If params are invalid
+   * @throws {UploadError} If the API returns UPLOAD_FAILED
    * @throws {NetworkError} If network request fails
    */
   completeUpload: async (
     params: CompleteUploadRequestDto,
+    options?: RequestOptions,
   ): Promise<CompleteUploadResponseDto> => {
     // Validate input before sending request
     const validated = validateSchema(
@@ -141,6 +144,11 @@ export const assetsRouter = (client: AxiosInstance) => ({
     const response = await client.post<CompleteUploadResponseDto>(
       "/assets/complete-upload",
       validated,
+      toRequestConfig(options, {
+        router: "assets",
+        operation: "completeUpload",
+        params: validated,
+      }),
     )
 
     if (!response.data || response.data.status !== "ok") {
@@ -159,12 +167,16 @@ export const assetsRouter = (client: AxiosInstance) => ({
   /**
    * Start the NFT minting process for an uploaded file
    * @param params - Minting parameters (fileId, editions, contractId, metadata)
+   * @param options - Optional request options (retry, signal, timeout, headers, idempotencyKey)
    * @returns Minting status and progress information
-   * @throws {ValidationError} If minting parameters are invalid
+   * @throws {ValidationError} If params are invalid
+   * @throws {NotFoundError} If the API returns CONTRACT_NOT_FOUND
+   * @throws {MintingError} If the API returns METADATA_INVALID, INSUFFICIENT_BALANCE or MINTING_FAILED
    * @throws {NetworkError} If network request fails
    */
   startMinting: async (
     params: StartMintingRequestDto,
+    options?: RequestOptions,
   ): Promise<StartMintingResponseDataDto> => {
     // Validate input before sending request
     const validated = validateSchema(
@@ -173,30 +185,43 @@ export const assetsRouter = (client: AxiosInstance) => ({
       "Invalid minting parameters",
     )
 
-    const response = await client.post<StartMintingResponseDto>(
-      "/assets/start-minting",
-      validated,
-    )
+    return withIdempotency(
+      idempotencyStore,
+      "assets.startMinting",
+      options,
+      async (requestOptions) => {
+        const response = await client.post<StartMintingResponseDto>(
+          "/assets/start-minting",
+          validated,
+          toRequestConfig(requestOptions, {
+            router: "assets",
+            operation: "startMinting",
+            params: validated,
+          }),
+        )
 
-    if (!response.data.data) {
-      throw new NetworkError(
-        "Failed to start minting process",
-        "API_ERROR",
-        false,
-        undefined,
-        { status: response.status, data: response.data },
-      )
-    }
+        if (!response.data.data) {
+          throw new NetworkError(
+            "Failed to start minting process",
+            "API_ERROR",
+            false,
+            undefined,
+            { status: response.status, data: response.data },
+          )
+        }
 
-    return response.data.data
+        return response.data.data
+      },
+    )
   },
 
   /**
    * Extract a frame from a video at a specific time position (synchronous)
    * @param params - Extraction parameters (fileId, timeInSeconds)
+   * @param options - Optional request options (retry, signal, timeout, headers)
    * @returns Extracted frame as base64 data with dimensions
-   * @throws {ValidationError} If extraction parameters are invalid
-   * @throws {NetworkError} If network request fails or extraction fails
+   * @throws {ValidationError} If params are invalid or the API returns INVALID_FILE_TYPE
+   * @throws {NetworkError} If network request fails or the API reports an error
    *
    * @example
    * ```typescript
@@ -211,6 +236,7 @@ export const assetsRouter = (client: AxiosInstance) => ({
    */
   extractFrameSync: async (
     params: ExtractFrameSyncRequestDto,
+    options?: RequestOptions,
   ): Promise<ExtractFrameSyncResponseDto> => {
     // Validate input before sending request
     const validated = validateSchema(
@@ -222,6 +248,11 @@ export const assetsRouter = (client: AxiosInstance) => ({
     const response = await client.post<ExtractFrameSyncResponseDto>(
       "/assets/extract-frame-sync",
       validated,
+      toRequestConfig(options, {
+        router: "assets",
+        operation: "extractFrameSync",
+        params: validated,
+      }),
     )
 
     if (response.data.status === "error" || !response.data.base64Data) {
@@ -5,9 +5,13 @@ import {
   NotFoundError,
   ValidationError,
 } from "@uranium/types"
-import type { InternalAxiosRequestConfig } from "axios"
-import type { UraniumConfig } from "../types/config"
+import { AxiosError, type InternalAxiosRequestConfig } from "axios"
+import { CircuitOpenError, LimitExceededError } from "../types/errors"
 import { createApiClient, createRequest } from "./base"
+import { CircuitBreaker } from "./circuit-breaker"
+import type { UraniumConfig } from "./config"
+import { CredentialsManager } from "./credentials"
+import { toRequestConfig } from "./pipeline"
 
 describe("Base API Client", () => {
   describe("createApiClient", () => {
@@ -255,6 +259,29 @@ describe("Base API Client", () => {
       }
     })
 
+    test("should translate backend error codes in successful HTTP responses", async () => {
+      const client = createApiClient({ apiKey: "test-key" })
+      const data = { status: "error", errorCode: "QUOTA_EXCEEDED" }
+
+      const error = await client
+        .request({
+          url: "/test",
+          adapter: async (config) => ({
+            data,
+            status: 200,
+            statusText: "OK",
+            headers: {},
+            config,
+          }),
+        })
+        .catch((error) => error)
+
+      expect(error).toBeInstanceOf(LimitExceededError)
+      expect(error.code).toBe("QUOTA_EXCEEDED")
+      expect(error.context).toMatchObject({ status: 200, data })
+      expect(error.context.requestId).toBeString()
+    })
+
     test("should handle 401 authentication error", async () => {
       const config: UraniumConfig = {
         apiKey: "test-key",
@@ -560,4 +587,372 @@ describe("Base API Client", () => {
       expect(result).toEqual({ success: true })
     })
   })
+
+  describe("toRequestConfig", () => {
+    test("should return empty config when no options are given", () => {
+      expect(toRequestConfig()).toEqual({})
+      expect(toRequestConfig({})).toEqual({})
+    })
+
+    test("should extract signal from AbortController", () => {
+      const controller = new AbortController()
+
+      expect(toRequestConfig({ signal: controller }).signal).toBe(
+        controller.signal,
+      )
+      expect(toRequestConfig({ signal: controller.signal }).signal).toBe(
+        controller.signal,
+      )
+    })
+
+    test("should pass timeout, headers and retry override", () => {
+      const config = toRequestConfig({
+        timeout: 5000,
+        headers: { "x-request-source": "test" },
+        retry: { maxRetries: 1 },
+      })
+
+      expect(config).toEqual({
+        timeout: 5000,
+        headers: { "x-request-source": "test" },
+        callerHeaders: { "x-request-source": "test" },
+        retry: { maxRetries: 1 },
+      } as Record<string, unknown>)
+    })
+  })
+
+  describe("Per-request options", () => {
+    const serverError = (cfg: InternalAxiosRequestConfig) =>
+      new AxiosError("Server Error", "ERR_BAD_RESPONSE", cfg, undefined, {
+        status: 503,
+        data: {},
+        statusText: "Service Unavailable",
+        headers: {},
+        config: cfg,
+      })
+
+    test("should retry with per-request override when global retry is disabled", async () => {
+      const client = createApiClient({
+        apiKey: "test-key",
+        retry: { enabled: false },
+      })
+
+      let calls = 0
+      const result = await client.request({
+        url: "/test",
+        ...toRequestConfig({
+          retry: { enabled: true, maxRetries: 2, retryDelay: 1 },
+        }),
+        adapter: async (cfg) => {
+          calls++
+          if (calls < 3) throw serverError(cfg)
+          return {
+            data: { ok: true },
+            status: 200,
+            statusText: "OK",
+            headers: {},
+            config: cfg,
+          }
+        },
+      })
+
+      expect(calls).toBe(3)
+      expect(result.data).toEqual({ ok: true })
+    })
+
+    test("should stop after per-request maxRetries", async () => {
+      const client = createApiClient({
+        apiKey: "test-key",
+        retry: { enabled: true, maxRetries: 5, retryDelay: 1 },
+      })
+
+      let calls = 0
+      try {
+        await client.request({
+          url: "/test",
+          ...toRequestConfig({ retry: { maxRetries: 1 } }),
+          adapter: async (cfg) => {
+            calls++
+            throw serverError(cfg)
+          },
+        })
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(NetworkError)
+      }
+
+      expect(calls).toBe(2)
+    })
+
+    test("should send per-request headers and timeout but keep auth header", async () => {
+      const client = createApiClient({ apiKey: "test-key" })
+
+      await client.request({
+        url: "/test",
+        ...toRequestConfig({
+          timeout: 1234,
+          headers: { "x-trace": "abc", "x-auth-token": "override" },
+        }),
+        adapter: async (cfg) => {
+          expect(cfg.timeout).toBe(1234)
+          expect(cfg.headers["x-trace"]).toBe("abc")
+          expect(cfg.headers["x-auth-token"]).toBe("test-key")
+          return {
+            data: {},
+            status: 200,
+            statusText: "OK",
+            headers: {},
+            config: cfg,
+          }
+        },
+      })
+    })
+
+    test("should map aborted requests to non-retryable NetworkError", async () => {
+      const client = createApiClient({
+        apiKey: "test-key",
+        retry: { enabled: true, retryDelay: 1 },
+      })
+      const controller = new AbortController()
+      controller.abort()
+
+      let calls = 0
+      try {
+        await client.request({
+          url: "/test",
+          ...toRequestConfig({ signal: controller }),
+          adapter: async () => {
+            calls++
+            return {
+              data: {},
+              status: 200,
+              statusText: "OK",
+              headers: {},
+              config: {} as InternalAxiosRequestConfig,
+            }
+          },
+        })
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(NetworkError)
+        expect((error as NetworkError).code).toBe("REQUEST_ABORTED")
+        expect((error as NetworkError).isRetryable).toBe(false)
+      }
+
+      expect(calls).toBe(0)
+    })
+  })
+
+  describe("Rate limiting", () => {
+    const rateLimited = (
+      cfg: InternalAxiosRequestConfig,
+      headers: Record<string, string>,
+    ) =>
+      new AxiosError("Too Many Requests", "ERR_BAD_REQUEST", cfg, undefined, {
+        status: 429,
+        data: { errorCode: "RATE_LIMIT_EXCEEDED" },
+        statusText: "Too Many Requests",
+        headers,
+        config: cfg,
+      })
+
+    const ok = (cfg: InternalAxiosRequestConfig) => ({
+      data: { ok: true },
+      status: 200,
+      statusText: "OK",
+      headers: {},
+      config: cfg,
+    })
+
+    test("should map 429 to LimitExceededError with header details", async () => {
+      const client = createApiClient({
+        apiKey: "test-key",
+        retry: { enabled: true, retryDelay: 1 },
+      })
+      const before = Date.now()
+
+      let calls = 0
+      try {
+        await client.request({
+          url: "/test",
+          adapter: async (cfg) => {
+            calls++
+            throw rateLimited(cfg, {
+              "retry-after": "30",
+              "x-ratelimit-limit": "100",
+              "x-ratelimit-remaining": "0",
+            })
+          },
+        })
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LimitExceededError)
+        const limitError = error as LimitExceededError
+        expect(limitError.code).toBe("RATE_LIMIT_EXCEEDED")
+        expect(limitError.statusCode).toBe(429)
+        expect(limitError.limit).toBe(100)
+        expect(limitError.current).toBe(100)
+        expect(limitError.resetAt?.getTime()).toBeGreaterThanOrEqual(
+          before + 30000,
+        )
+      }
+
+      // 429 is never retried by the generic retry logic
+      expect(calls).toBe(1)
+    })
+
+    test("should wait for the reset and replay when waitForReset is enabled", async () => {
+      const client = createApiClient({
+        apiKey: "test-key",
+        rateLimit: { waitForReset: true },
+      })
+
+      let calls = 0
+      const result = await client.request({
+        url: "/test",
+        adapter: async (cfg) => {
+          calls++
+          if (calls === 1) throw rateLimited(cfg, { "retry-after": "0" })
+          return ok(cfg)
+        },
+      })
+
+      expect(calls).toBe(2)
+      expect(result.data).toEqual({ ok: true })
+    })
+
+    test("should give up when the reset is beyond maxWaitMs", async () => {
+      const client = createApiClient({
+        apiKey: "test-key",
+        rateLimit: { waitForReset: true, maxWaitMs: 1000 },
+      })
+
+      let calls = 0
+      try {
+        await client.request({
+          url: "/test",
+          adapter: async (cfg) => {
+            calls++
+            throw rateLimited(cfg, { "retry-after": "120" })
+          },
+        })
+        expect(true).toBe(false)
+      } catch (error) {
+        expect(error).toBeInstanceOf(LimitExceededError)
+      }
+
+      expect(calls).toBe(1)
+    })
+
+    test("should throttle requests with the client-side token bucket", async () => {
+      const client = createApiClient({
+        apiKey: "test-key",
+        rateLimit: { throttle: { maxRequests: 2, interval: 100 } },
+      })
+      const adapter = async (cfg: InternalAxiosRequestConfig) => ok(cfg)
+      const start = Date.now()
+
+      await Promise.all([
+        client.request({ url: "/a", adapter }),
+        client.request({ url: "/b", adapter }),
+        client.request({ url: "/c", adapter }),
+      ])
+
+      // The third request waits for a token to refill (~50ms)
+      expect(Date.now() - start).toBeGreaterThanOrEqual(40)
+    })
+  })
+
+  describe("Circuit breaker", () => {
+    test("should fail fast once the circuit is open", async () => {
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1 })
+      const client = createApiClient({ apiKey: "test-key", circuitBreaker })
+
+      let calls = 0
+      const adapter = async (cfg: InternalAxiosRequestConfig) => {
+        calls++
+        throw new AxiosError(
+          "Bad Gateway",
+          "ERR_BAD_RESPONSE",
+          cfg,
+          undefined,
+          {
+            status: 502,
+            data: {},
+            statusText: "Bad Gateway",
+            headers: {},
+            config: cfg,
+          },
+        )
+      }
+
+      await expect(
+        client.request({ url: "/a", adapter }),
+      ).rejects.toBeInstanceOf(NetworkError)
+      expect(circuitBreaker.state).toBe("open")
+
+      await expect(
+        client.request({ url: "/b", adapter }),
+      ).rejects.toBeInstanceOf(CircuitOpenError)
+      expect(calls).toBe(1)
+    })
+
+    test("should not take the half-open trial when the key provider rejects", async () => {
+      const circuitBreaker = new CircuitBreaker({
+        failureThreshold: 1,
+        resetTimeout: 0,
+      })
+      let keyError: Error | undefined
+      const credentials = new CredentialsManager(
+        async () => {
+          if (keyError) throw keyError
+          return "test-key"
+        },
+        { ttlMs: 0 },
+      )
+      const client = createApiClient({ credentials, circuitBreaker })
+
+      let failing = true
+      const adapter = async (cfg: InternalAxiosRequestConfig) => {
+        if (!failing) {
+          return {
+            status: 200,
+            data: { ok: true },
+            statusText: "OK",
+            headers: {},
+            config: cfg,
+          }
+        }
+        throw new AxiosError(
+          "Bad Gateway",
+          "ERR_BAD_RESPONSE",
+          cfg,
+          undefined,
+          {
+            status: 502,
+            data: {},
+            statusText: "Bad Gateway",
+            headers: {},
+            config: cfg,
+          },
+        )
+      }
+
+      await expect(
+        client.request({ url: "/a", adapter }),
+      ).rejects.toBeInstanceOf(NetworkError)
+      expect(circuitBreaker.state).toBe("open")
+
+      keyError = new Error("Key vault unavailable")
+      await expect(client.request({ url: "/b", adapter })).rejects.toThrow(
+        "Key vault unavailable",
+      )
+
+      keyError = undefined
+      failing = false
+      const response = await client.request({ url: "/c", adapter })
+      expect(response.status).toBe(200)
+      expect(circuitBreaker.state).toBe("closed")
+    })
+  })
 })
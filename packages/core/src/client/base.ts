@@ -1,49 +1,43 @@
-import {
-  AuthenticationError,
-  NetworkError,
-  NotFoundError,
-  ValidationError,
-} from "@uranium/types"
-import type { AxiosError, AxiosInstance, AxiosRequestConfig } from "axios"
+import type {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  InternalAxiosRequestConfig,
+} from "axios"
 import * as axiosModule from "axios"
-import type { ResolvedUraniumConfig, UraniumConfig } from "../types/config"
-import { DEFAULT_CONFIG, DEFAULT_RETRY_CONFIG } from "../types/config"
-import { withRetry } from "./retry"
-import { generateDeviceId, getErrorMessage, shouldRetry } from "./utils"
+import type { RetryConfig, UraniumConfig } from "./config"
+import { createFetchTransport } from "./fetch-transport"
+import { generateRequestId } from "./logger"
+import {
+  createHttpClient,
+  createThrottle,
+  handleApiResponse,
+  logRequest,
+  recordSuccess,
+  resolveConfig,
+  resolveRetryConfig,
+  retryFailedRequest,
+  retryRateLimitedRequest,
+  toApiError,
+} from "./pipeline"
+import type { HttpRequestConfig, HttpTransport } from "./transport"
+import { isHttpError, isRateLimitError } from "./utils"
 
 const axios = axiosModule.default
 
 /**
- * Resolves user config with defaults
+ * Axios request config carrying SDK-specific per-request settings
  */
-function resolveConfig(config: UraniumConfig): ResolvedUraniumConfig {
-  if (!config.apiKey) {
-    throw new Error(
-      "API key is required. Get your API key from: https://portal.uranium.pro/dashboard/profile/api-keys",
-    )
-  }
-
-  return {
-    apiKey: config.apiKey,
-    baseUrl: config.baseUrl ?? DEFAULT_CONFIG.baseUrl,
-    timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
-    deviceId: config.deviceId ?? generateDeviceId(),
-    debug: config.debug ?? DEFAULT_CONFIG.debug,
-    retry: {
-      ...DEFAULT_RETRY_CONFIG,
-      ...config.retry,
-    },
-  }
-}
-
-/**
- * Logs debug information if debug mode is enabled
- */
-// biome-ignore lint/suspicious/noExplicitAny: Debug utility accepts any data type
-function debugLog(debug: boolean, message: string, data?: any): void {
-  if (debug) {
-    console.log(`[Uranium SDK] ${message}`, data ?? "")
-  }
+interface UraniumRequestConfig
+  extends AxiosRequestConfig,
+    Pick<
+      HttpRequestConfig,
+      "requestId" | "attempt" | "startedAt" | "credentials"
+    > {
+  /** Per-request retry override (see RequestOptions.retry) */
+  retry?: Partial<RetryConfig>
+  /** Marks requests replayed by the retry logic so they are not retried again */
+  isRetryAttempt?: boolean
 }
 
 /**
@@ -51,6 +45,7 @@ function debugLog(debug: boolean, message: string, data?: any): void {
  */
 export const createApiClient = (config: UraniumConfig): AxiosInstance => {
   const resolvedConfig = resolveConfig(config)
+  const throttle = createThrottle(resolvedConfig)
 
   // Create axios instance with base configuration
   const client = axios.create({
@@ -61,121 +56,158 @@ export const createApiClient = (config: UraniumConfig): AxiosInstance => {
     },
   })
 
-  // Request interceptor: add authentication and debug logging
+  // Request interceptor: throttling, circuit breaking, authentication and logging
   client.interceptors.request.use(
-    (requestConfig) => {
-      // Add API key to headers
-      requestConfig.headers["x-auth-token"] = resolvedConfig.apiKey
-
-      // Debug logging
-      debugLog(
-        resolvedConfig.debug,
-        `Request: ${requestConfig.method?.toUpperCase()} ${requestConfig.url}`,
-        {
-          params: requestConfig.params,
-          data: requestConfig.data,
-        },
-      )
+    async (
+      requestConfig: InternalAxiosRequestConfig & UraniumRequestConfig,
+    ) => {
+      // Client-side throttling (token bucket)
+      await throttle?.take(requestConfig.signal as AbortSignal | undefined)
+
+      // Add API key to headers (read on every attempt so rotated keys apply)
+      const credentials =
+        requestConfig.credentials ?? resolvedConfig.credentials
+      requestConfig.headers["x-auth-token"] = await credentials.getApiKey()
+
+      // Fail fast while the circuit breaker is open. Checked after the key is
+      // loaded: a failing key provider must not leave a half-open trial taken.
+      resolvedConfig.circuitBreaker?.beforeRequest()
+
+      // Logging: replays keep the request id and carry their attempt number
+      requestConfig.requestId ??= generateRequestId()
+      requestConfig.attempt ??= 1
+      requestConfig.startedAt = Date.now()
+      logRequest(resolvedConfig, requestConfig as HttpRequestConfig)
 
       return requestConfig
     },
     (error) => {
-      debugLog(resolvedConfig.debug, "Request Error:", error)
+      resolvedConfig.logger.error("Request error", { error })
       throw error
     },
   )
 
-  // Response interceptor: handle errors and debug logging
+  // Response interceptor: handle errors and logging
   client.interceptors.response.use(
     (response) => {
-      // Debug logging
-      debugLog(
-        resolvedConfig.debug,
-        `Response: ${response.status} ${response.config.method?.toUpperCase()} ${response.config.url}`,
-        {
-          status: response.data?.status,
-          errorCode: response.data?.errorCode,
-        },
+      recordSuccess(resolvedConfig, response.config as HttpRequestConfig)
+      handleApiResponse(
+        resolvedConfig,
+        response,
+        response.config as HttpRequestConfig,
       )
+      return response
+    },
+    async (originalError: AxiosError) => {
+      // Errors raised before sending (e.g. CircuitOpenError) are final
+      if (!isHttpError(originalError)) {
+        throw originalError
+      }
 
-      // Check if API returned an error in successful HTTP response
-      if (response.data?.status === "error" || response.data?.errorCode) {
-        const errorCode = response.data.errorCode || "UNKNOWN_ERROR"
-        const errorMessage = `API Error: ${errorCode}`
+      resolvedConfig.circuitBreaker?.recordFailure(originalError)
 
-        debugLog(resolvedConfig.debug, "API Error in response:", {
-          errorCode,
-          status: response.data.status,
-        })
+      let error = originalError
+      const requestConfig = error.config as UraniumRequestConfig | undefined
 
-        // Throw appropriate error based on error code
-        throw new ValidationError(errorMessage)
+      // Replayed requests hand the raw error back to the retry loop below
+      if (requestConfig?.isRetryAttempt) {
+        throw error
       }
 
-      return response
-    },
-    (error: AxiosError) => {
-      // Retry logic: check if error is retryable and retry is enabled
+      let attempt = requestConfig?.attempt ?? 1
+      const replay = () =>
+        client.request({
+          ...requestConfig,
+          isRetryAttempt: true,
+          attempt: ++attempt,
+        } as UraniumRequestConfig)
+
+      // Rate limiting: wait for the reset time and replay (opt-in)
       if (
-        resolvedConfig.retry.enabled &&
-        shouldRetry(error, resolvedConfig.retry.retryableStatuses)
+        requestConfig &&
+        isRateLimitError(error) &&
+        resolvedConfig.rateLimit.waitForReset
       ) {
-        // biome-ignore lint/style/noNonNullAssertion: Config exists on retry errors
-        return withRetry(
-          () => client.request(error.config!),
-          resolvedConfig.retry,
-        )
+        try {
+          return await retryRateLimitedRequest(
+            resolvedConfig,
+            error,
+            replay,
+            requestConfig.signal as AbortSignal | undefined,
+          )
+        } catch (rateLimitError) {
+          if (!isHttpError(rateLimitError)) {
+            throw rateLimitError
+          }
+          error = rateLimitError as AxiosError
+        }
       }
 
-      // Debug logging
-      debugLog(resolvedConfig.debug, "Response Error:", {
-        status: error.response?.status,
-        message: error.message,
-        data: error.response?.data,
-      })
-
-      // Handle different error types
-      if (!error.response) {
-        // Network error (no response from server)
-        throw new NetworkError(getErrorMessage(error))
-      }
+      // Retry logic: per-request overrides take precedence over global config
+      const retryConfig = resolveRetryConfig(
+        resolvedConfig,
+        requestConfig as HttpRequestConfig | undefined,
+      )
 
-      const status = error.response.status
-      // biome-ignore lint/suspicious/noExplicitAny: Response data structure is dynamic
-      const responseData = error.response.data as any
-      const errorCode = responseData?.errorCode
-      const errorMessage = errorCode
-        ? `${getErrorMessage(error)} (Error Code: ${errorCode})`
-        : getErrorMessage(error)
-
-      // Map HTTP status codes to error types
-      switch (status) {
-        case 401:
-          throw new AuthenticationError(errorMessage)
-
-        case 403:
-          throw new AuthenticationError(errorMessage)
-
-        case 404:
-          throw new NotFoundError(errorMessage)
-
-        case 400:
-        case 422:
-          throw new ValidationError(errorMessage)
-
-        default:
-          // For 5xx and other errors, throw NetworkError
-          if (status >= 500) {
-            throw new NetworkError(errorMessage)
+      if (requestConfig && retryConfig.enabled) {
+        try {
+          return await retryFailedRequest(error, retryConfig, replay)
+        } catch (retryError) {
+          // Errors already mapped by the interceptors are final
+          if (!isHttpError(retryError)) {
+            throw retryError
           }
-          throw new NetworkError(errorMessage)
+          error = retryError as AxiosError
+        }
       }
+
+      throw toApiError(resolvedConfig, error)
     },
   )
 
   return client
 }
 
+/**
+ * Creates the API transport selected by `config.transport`
+ *
+ * - "axios" (default): Axios instance from `createApiClient`
+ * - "fetch": fetch-based transport wrapped with the SDK request pipeline
+ * - custom HttpTransport: wrapped with the SDK request pipeline
+ *
+ * @param config - Uranium SDK configuration
+ * @returns Transport to pass to the routers
+ */
+export const createApiTransport = (config: UraniumConfig): HttpTransport => {
+  const transport = config.transport ?? "axios"
+
+  if (transport === "axios") {
+    return createApiClient(config)
+  }
+
+  return createHttpClient(
+    config,
+    transport === "fetch" ? createFetchTransport() : transport,
+  )
+}
+
+/**
+ * Creates the raw transport used for chunk uploads to presigned URLs
+ * Chunk uploads bypass the API pipeline: no auth header, no base URL.
+ *
+ * @param config - Uranium SDK configuration
+ * @returns Transport to pass to the upload manager
+ */
+export const createUploadTransport = (config: UraniumConfig): HttpTransport => {
+  const transport = config.transport ?? "axios"
+
+  if (transport === "axios") {
+    return axios
+  }
+
+  return transport === "fetch" ? createFetchTransport() : transport
+}
+
 /**
  * Helper function to create a request with proper typing
  */
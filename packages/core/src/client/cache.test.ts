@@ -0,0 +1,361 @@
+import { describe, expect, mock, test } from "bun:test"
+import { UraniumSDK } from "../index"
+import { mockData } from "../test-utils"
+import { createCachingTransport, LruCacheStore, ResponseCache } from "./cache"
+import { contractsRouter } from "./contracts"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Creates a transport answering requests with the given handler
+ */
+const createStubTransport = (
+  handler: (config: HttpRequestConfig) => unknown = () => ({
+    status: "ok",
+    data: [mockData.contract()],
+  }),
+) => {
+  const request = mock(
+    async (config: HttpRequestConfig): Promise<HttpResponse> => ({
+      data: await handler(config),
+      status: 200,
+      headers: {},
+    }),
+  )
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request }
+}
+
+/**
+ * Creates a manually advanced clock
+ */
+const createClock = () => {
+  let time = 1_000_000
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms
+    },
+  }
+}
+
+describe("LruCacheStore", () => {
+  const entry = { data: {}, status: 200, storedAt: 0, expiresAt: 0 }
+
+  test("should evict the least recently used entry", () => {
+    const store = new LruCacheStore({ maxEntries: 2 })
+    store.set("a", entry, 1000)
+    store.set("b", entry, 1000)
+    store.get("a")
+    store.set("c", entry, 1000)
+
+    expect(store.get("a")).toBe(entry)
+    expect(store.get("b")).toBeUndefined()
+    expect(store.get("c")).toBe(entry)
+  })
+
+  test("should drop entries after their TTL", () => {
+    const clock = createClock()
+    const store = new LruCacheStore({ now: clock.now })
+    store.set("a", entry, 1000)
+
+    clock.advance(999)
+    expect(store.get("a")).toBe(entry)
+    clock.advance(1)
+    expect(store.get("a")).toBeUndefined()
+    expect(store.size).toBe(0)
+  })
+
+  test("should delete entries by prefix", () => {
+    const store = new LruCacheStore()
+    store.set("x:1", entry, 1000)
+    store.set("x:2", entry, 1000)
+    store.set("y:1", entry, 1000)
+
+    store.deleteByPrefix("x:")
+
+    expect(store.size).toBe(1)
+    expect(store.get("y:1")).toBe(entry)
+  })
+})
+
+describe("createCachingTransport", () => {
+  test("should return the transport unchanged without a cache", () => {
+    const { transport } = createStubTransport()
+    expect(createCachingTransport(transport, undefined, "key")).toBe(transport)
+  })
+
+  test("should serve repeated listings from the cache until the TTL", async () => {
+    const clock = createClock()
+    const { transport, request } = createStubTransport()
+    const cache = new ResponseCache({ ttlMs: 1000, now: clock.now })
+    const router = contractsRouter(
+      createCachingTransport(transport, cache, "key"),
+    )
+
+    const first = await router.list()
+    await expect(router.list()).resolves.toEqual(first)
+    expect(request).toHaveBeenCalledTimes(1)
+
+    clock.advance(1000)
+    await router.list()
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should use per-route TTLs and skip routes with TTL 0", async () => {
+    const { transport, request } = createStubTransport(() => ({
+      status: "ok",
+      ok: { data: [], meta: mockData.pagination() },
+    }))
+    const cache = new ResponseCache({ routes: { "assets.list": 0 } })
+    const client = createCachingTransport(transport, cache, "key")
+    const operation = { router: "assets", operation: "list" }
+
+    await client.get("/assets/?page=1", { operation })
+    await client.get("/assets/?page=1", { operation })
+
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(cache.ttlFor("assets.list")).toBe(0)
+    expect(cache.ttlFor("contracts.list")).toBe(30000)
+    expect(cache.ttlFor("assets.prepareNewFile")).toBe(0)
+  })
+
+  test("should cache query parameters separately", async () => {
+    const { transport, request } = createStubTransport(() => ({}))
+    const client = createCachingTransport(transport, new ResponseCache(), "key")
+    const operation = { router: "assets", operation: "list" }
+
+    await client.get("/assets/?page=1&pageSize=10", { operation })
+    await client.get("/assets/?pageSize=10&page=1", { operation })
+    await client.get("/assets/?page=2&pageSize=10", { operation })
+
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should return stale data while revalidating in the background", async () => {
+    const clock = createClock()
+    let version = 1
+    const { transport, request } = createStubTransport(() => ({ version }))
+    const cache = new ResponseCache({
+      ttlMs: 1000,
+      staleWhileRevalidateMs: 5000,
+      now: clock.now,
+    })
+    const client = createCachingTransport(transport, cache, "key")
+    const operation = { router: "contracts", operation: "list" }
+
+    await client.get("/contracts/list", { operation })
+    version = 2
+    clock.advance(2000)
+
+    const stale = await client.get("/contracts/list", { operation })
+    expect(stale.data).toEqual({ version: 1 })
+    expect(stale.headers["x-uranium-cache"]).toBe("stale")
+    expect(request).toHaveBeenCalledTimes(2)
+
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    const fresh = await client.get("/contracts/list", { operation })
+    expect(fresh.data).toEqual({ version: 2 })
+    expect(fresh.headers["x-uranium-cache"]).toBe("hit")
+
+    clock.advance(7000)
+    await client.get("/contracts/list", { operation })
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  test("should log failed background refreshes", async () => {
+    const clock = createClock()
+    let fail = false
+    const { transport } = createStubTransport(() => {
+      if (fail) throw new Error("offline")
+      return {}
+    })
+    const logger = {
+      debug: mock(() => {}),
+      info: mock(() => {}),
+      warn: mock(() => {}),
+      error: mock(() => {}),
+    }
+    const cache = new ResponseCache({
+      ttlMs: 1000,
+      staleWhileRevalidateMs: 5000,
+      now: clock.now,
+    })
+    const client = createCachingTransport(transport, cache, "key", logger)
+    const operation = { router: "contracts", operation: "list" }
+
+    await client.get("/contracts/list", { operation })
+    fail = true
+    clock.advance(2000)
+    await client.get("/contracts/list", { operation })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Cache revalidation failed",
+      expect.objectContaining({ route: "/contracts/list" }),
+    )
+  })
+
+  test("should invalidate listings after successful mutations", async () => {
+    const { transport, request } = createStubTransport((config) =>
+      config.method === "POST"
+        ? { status: "ok", data: mockData.contract() }
+        : { status: "ok", data: [] },
+    )
+    const router = contractsRouter(
+      createCachingTransport(transport, new ResponseCache(), "key"),
+    )
+
+    await router.list()
+    await router.list()
+    expect(request).toHaveBeenCalledTimes(1)
+
+    await router.create({
+      name: "Collection",
+      symbol: "COL",
+      type: "ERC721",
+    })
+    await router.list()
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  test("should not invalidate after failed mutations", async () => {
+    const { transport, request } = createStubTransport((config) => {
+      if (config.method === "POST") throw new Error("failed")
+      return { status: "ok", data: [] }
+    })
+    const client = createCachingTransport(transport, new ResponseCache(), "key")
+
+    await client.get("/contracts/list", {
+      operation: { router: "contracts", operation: "list" },
+    })
+    await expect(
+      client.post(
+        "/contracts/create",
+        {},
+        {
+          operation: { router: "contracts", operation: "create" },
+        },
+      ),
+    ).rejects.toThrow("failed")
+    await client.get("/contracts/list", {
+      operation: { router: "contracts", operation: "list" },
+    })
+
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should return copies of cached data", async () => {
+    const { transport } = createStubTransport(() => ({ items: [1] }))
+    const client = createCachingTransport(transport, new ResponseCache(), "key")
+    const operation = { router: "contracts", operation: "list" }
+
+    const first = await client.get<{ items: number[] }>("/contracts/list", {
+      operation,
+    })
+    first.data.items.push(2)
+
+    const second = await client.get("/contracts/list", { operation })
+    expect(second.data).toEqual({ items: [1] })
+  })
+
+  test("should not use raw API keys in cache keys", async () => {
+    const store = new LruCacheStore()
+    const set = mock(store.set.bind(store))
+    store.set = set
+    const { transport } = createStubTransport(() => ({}))
+    const client = createCachingTransport(
+      transport,
+      new ResponseCache({ store }),
+      "secret-api-key",
+    )
+
+    await client.get("/contracts/list", {
+      operation: { router: "contracts", operation: "list" },
+    })
+
+    const key = set.mock.calls[0]?.[0] ?? ""
+    expect(key).toStartWith("uranium:")
+    expect(key).not.toContain("secret-api-key")
+  })
+})
+
+describe("UraniumSDK response cache", () => {
+  test("should not reuse entries cached under a rotated key", async () => {
+    const { transport, request } = createStubTransport()
+    const sdk = new UraniumSDK({
+      apiKey: "old-key",
+      transport,
+      cache: new ResponseCache(),
+    })
+
+    await sdk.contracts.list()
+    sdk.setCredentials("new-key")
+    await sdk.contracts.list()
+    await sdk.contracts.list()
+
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should not cache without a configured cache", async () => {
+    const { transport, request } = createStubTransport()
+    const sdk = new UraniumSDK({ apiKey: "test-key", transport })
+
+    await sdk.contracts.list()
+    await sdk.contracts.list()
+
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should keep tenants sharing a cache isolated", async () => {
+    const cache = new ResponseCache()
+    const tenantA = createStubTransport(() => ({
+      status: "ok",
+      data: [mockData.contract({ name: "A" })],
+    }))
+    const tenantB = createStubTransport(() => ({
+      status: "ok",
+      data: [mockData.contract({ name: "B" })],
+    }))
+    const sdkA = new UraniumSDK({
+      apiKey: "key-a",
+      transport: tenantA.transport,
+      cache,
+    })
+    const sdkB = new UraniumSDK({
+      apiKey: "key-b",
+      transport: tenantB.transport,
+      cache,
+    })
+
+    await sdkA.contracts.list()
+    const [contract] = await sdkB.contracts.list()
+    await sdkA.contracts.list()
+
+    expect(contract?.name).toBe("B")
+    expect(tenantA.request).toHaveBeenCalledTimes(1)
+    expect(tenantB.request).toHaveBeenCalledTimes(1)
+  })
+
+  test("should drop cached responses of every tenant on clear", async () => {
+    const cache = new ResponseCache()
+    const { transport, request } = createStubTransport()
+    const sdk = new UraniumSDK({ apiKey: "test-key", transport, cache })
+
+    await sdk.contracts.list()
+    await cache.clear()
+    await sdk.contracts.list()
+
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+})
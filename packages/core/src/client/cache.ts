@@ -0,0 +1,432 @@
+/**
+ * Response Cache
+ *
+ * Optional cache for read operations (`contracts.list`, `assets.list`) with
+ * per-route TTLs, stale-while-revalidate and invalidation after mutations.
+ * Entries live in a pluggable store: an in-memory LRU by default, or any
+ * Redis-like store shared between processes.
+ *
+ * Cache keys are scoped by a hash of the API key, so SDK instances of
+ * different tenants can share one store without seeing each other's data.
+ *
+ * @module @uranium/sdk/client/cache
+ */
+
+import { coalescingKey } from "./coalescing"
+import { CredentialsManager } from "./credentials"
+import type { Logger } from "./logger"
+import { requestRecord } from "./pipeline"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Operations whose responses can be cached
+ */
+export type CacheableOperation = "contracts.list" | "assets.list"
+
+/**
+ * Default TTL of cached responses in milliseconds
+ */
+export const DEFAULT_CACHE_TTL_MS = 30000
+
+/**
+ * Cached operations invalidated when an operation succeeds
+ */
+export const CACHE_INVALIDATIONS: Record<string, CacheableOperation[]> = {
+  "contracts.create": ["contracts.list"],
+  "assets.completeUpload": ["assets.list"],
+  "assets.startMinting": ["assets.list", "contracts.list"],
+}
+
+/**
+ * Response stored in the cache
+ */
+export interface CacheEntry {
+  /** Response body */
+  data: unknown
+  /** HTTP status code */
+  status: number
+  /** Time the response was stored, in epoch milliseconds */
+  storedAt: number
+  /** Time the response becomes stale, in epoch milliseconds */
+  expiresAt: number
+}
+
+/**
+ * Storage backend of the response cache
+ *
+ * Methods may return promises, so Redis-like clients can be adapted
+ * directly (serializing entries as JSON).
+ *
+ * @example
+ * ```typescript
+ * // Adapter for ioredis
+ * const store: CacheStore = {
+ *   get: async (key) => {
+ *     const value = await redis.get(key)
+ *     return value ? JSON.parse(value) : undefined
+ *   },
+ *   set: async (key, entry, ttlMs) => {
+ *     await redis.set(key, JSON.stringify(entry), "PX", ttlMs)
+ *   },
+ *   delete: async (key) => {
+ *     await redis.del(key)
+ *   },
+ *   deleteByPrefix: async (prefix) => {
+ *     for await (const keys of redis.scanStream({ match: `${prefix}*` })) {
+ *       if (keys.length) await redis.del(...keys)
+ *     }
+ *   },
+ * }
+ * ```
+ */
+export interface CacheStore {
+  /** Returns the entry stored under the key, if it has not expired */
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined
+  /** Stores an entry, to be evicted after `ttlMs` */
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void> | void
+  /** Removes an entry */
+  delete(key: string): Promise<void> | void
+  /** Removes every entry whose key starts with the prefix */
+  deleteByPrefix(prefix: string): Promise<void> | void
+}
+
+/**
+ * Options for LruCacheStore
+ */
+export interface LruCacheStoreOptions {
+  /**
+   * Maximum number of entries; the least recently used entry is evicted first
+   * @default 500
+   */
+  maxEntries?: number
+  /** Clock in epoch milliseconds */
+  now?: () => number
+}
+
+/**
+ * In-memory cache store with LRU eviction
+ */
+export class LruCacheStore implements CacheStore {
+  private readonly entries = new Map<
+    string,
+    { entry: CacheEntry; evictAt: number }
+  >()
+  private readonly maxEntries: number
+  private readonly now: () => number
+
+  constructor(options: LruCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500
+    this.now = options.now ?? Date.now
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const stored = this.entries.get(key)
+    if (!stored) return undefined
+
+    if (this.now() >= stored.evictAt) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key)
+    this.entries.set(key, stored)
+    return stored.entry
+  }
+
+  set(key: string, entry: CacheEntry, ttlMs: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { entry, evictAt: this.now() + ttlMs })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  deleteByPrefix(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key)
+    }
+  }
+
+  /**
+   * Number of stored entries (including expired ones not yet evicted)
+   */
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+/**
+ * Options for ResponseCache
+ */
+export interface ResponseCacheOptions {
+  /**
+   * Store holding cached responses
+   * @default new LruCacheStore()
+   */
+  store?: CacheStore
+  /**
+   * TTL of cached responses in milliseconds
+   * @default 30000
+   */
+  ttlMs?: number
+  /**
+   * TTL per operation, overriding `ttlMs` (0 disables caching of the operation)
+   * @example { "contracts.list": 300000, "assets.list": 10000 }
+   */
+  routes?: Partial<Record<CacheableOperation, number>>
+  /**
+   * How long a stale response is still served while it is refreshed
+   * in the background, in milliseconds
+   * @default 0
+   */
+  staleWhileRevalidateMs?: number
+  /**
+   * Prefix of all cache keys
+   * @default "uranium"
+   */
+  keyPrefix?: string
+  /** Clock in epoch milliseconds */
+  now?: () => number
+}
+
+/**
+ * Response cache shared by the SDK instances it is passed to
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache({
+ *   routes: { "contracts.list": 5 * 60 * 1000, "assets.list": 10 * 1000 },
+ *   staleWhileRevalidateMs: 60 * 1000,
+ * })
+ * const sdk = new UraniumSDK({ apiKey, cache })
+ *
+ * await sdk.contracts.list() // request
+ * await sdk.contracts.list() // cached
+ * ```
+ */
+export class ResponseCache {
+  /** Store holding cached responses */
+  readonly store: CacheStore
+  /** Prefix of all cache keys */
+  readonly keyPrefix: string
+  /** Stale-while-revalidate window in milliseconds */
+  readonly staleWhileRevalidateMs: number
+  /** Clock in epoch milliseconds */
+  readonly now: () => number
+  private readonly ttlMs: number
+  private readonly routes: Partial<Record<string, number>>
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new LruCacheStore({ now: options.now })
+    this.keyPrefix = options.keyPrefix ?? "uranium"
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? 0
+    this.now = options.now ?? Date.now
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS
+    this.routes = options.routes ?? {}
+  }
+
+  /**
+   * TTL of an operation in milliseconds, 0 when it is not cached
+   * @param operation - Operation key ("{router}.{operation}")
+   */
+  ttlFor(operation: string): number {
+    if (operation !== "contracts.list" && operation !== "assets.list") {
+      return 0
+    }
+    return this.routes[operation] ?? this.ttlMs
+  }
+
+  /**
+   * Removes cached responses of the given operations
+   * @param scope - Key scope of one API key (see `createCachingTransport`)
+   * @param operations - Operations to invalidate
+   */
+  async invalidate(
+    scope: string,
+    operations: readonly CacheableOperation[],
+  ): Promise<void> {
+    for (const operation of operations) {
+      await this.store.deleteByPrefix(`${scope}:${operation}:`)
+    }
+  }
+
+  /**
+   * Removes every cached response, for all API keys
+   */
+  async clear(): Promise<void> {
+    await this.store.deleteByPrefix(`${this.keyPrefix}:`)
+  }
+}
+
+/**
+ * Hashes an API key for use in cache keys (SHA-256, hex)
+ */
+const hashApiKey = async (apiKey: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(apiKey),
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("")
+}
+
+/**
+ * Wraps an API transport with a response cache
+ *
+ * Cacheable operations are answered from the cache while fresh. Within the
+ * stale-while-revalidate window the stale response is returned and refreshed
+ * in the background. Successful mutations invalidate the listings they
+ * change (see `CACHE_INVALIDATIONS`). Callers receive copies of cached data.
+ *
+ * @param transport - API transport
+ * @param cache - Response cache; the transport is returned as-is when undefined
+ * @param credentials - API key, or credentials resolving it, scoping the cache
+ * keys of requests without `credentials`
+ * @param logger - Logger receiving failed background refreshes
+ * @returns Transport that can be passed to the routers
+ */
+export const createCachingTransport = (
+  transport: HttpTransport,
+  cache: ResponseCache | undefined,
+  credentials: string | CredentialsManager,
+  logger?: Logger,
+): HttpTransport => {
+  if (!cache) {
+    return transport
+  }
+
+  const defaultCredentials =
+    typeof credentials === "string"
+      ? new CredentialsManager(credentials)
+      : credentials
+  // Scope of each tenant's current API key; recomputed after the key is rotated
+  const scopes = new WeakMap<
+    CredentialsManager,
+    { apiKey: string; scope: Promise<string> }
+  >()
+  const getScope = async (requestConfig: HttpRequestConfig) => {
+    const tenant = requestConfig.credentials ?? defaultCredentials
+    const apiKey = await tenant.getApiKey()
+    let scope = scopes.get(tenant)
+    if (scope?.apiKey !== apiKey) {
+      scope = {
+        apiKey,
+        scope: hashApiKey(apiKey).then(
+          (hash) => `${cache.keyPrefix}:${hash.slice(0, 32)}`,
+        ),
+      }
+      scopes.set(tenant, scope)
+    }
+    return scope.scope
+  }
+  const revalidating = new Set<string>()
+
+  const fetchAndStore = async <T>(
+    key: string,
+    requestConfig: HttpRequestConfig,
+    ttlMs: number,
+  ): Promise<HttpResponse<T>> => {
+    const response = await transport.request<T>(requestConfig)
+    const now = cache.now()
+    await cache.store.set(
+      key,
+      {
+        data: structuredClone(response.data),
+        status: response.status,
+        storedAt: now,
+        expiresAt: now + ttlMs,
+      },
+      ttlMs + cache.staleWhileRevalidateMs,
+    )
+    return response
+  }
+
+  const revalidate = (
+    key: string,
+    requestConfig: HttpRequestConfig,
+    ttlMs: number,
+  ): void => {
+    if (revalidating.has(key)) return
+    revalidating.add(key)
+
+    // The refresh outlives the caller, so it does not use the caller's signal
+    const { signal: _, ...config } = requestConfig
+    fetchAndStore(key, config, ttlMs)
+      .catch((error) => {
+        logger?.warn(
+          "Cache revalidation failed",
+          requestRecord(requestConfig, { error }),
+        )
+      })
+      .finally(() => revalidating.delete(key))
+  }
+
+  const fromEntry = <T>(
+    entry: CacheEntry,
+    state: "hit" | "stale",
+  ): HttpResponse<T> => ({
+    data: structuredClone(entry.data) as T,
+    status: entry.status,
+    headers: { "x-uranium-cache": state },
+  })
+
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const info = requestConfig.operation
+    if (!info) {
+      return transport.request<T>(requestConfig)
+    }
+
+    const operation = `${info.router}.${info.operation}`
+    const method = (requestConfig.method ?? "GET").toUpperCase()
+    const ttlMs = cache.ttlFor(operation)
+
+    if (method !== "GET" || ttlMs <= 0) {
+      const response = await transport.request<T>(requestConfig)
+      const invalidated = CACHE_INVALIDATIONS[operation]
+      if (invalidated) {
+        await cache.invalidate(await getScope(requestConfig), invalidated)
+      }
+      return response
+    }
+
+    const key = `${await getScope(requestConfig)}:${operation}:${coalescingKey(requestConfig)}`
+    const entry = await cache.store.get(key)
+
+    if (entry) {
+      const now = cache.now()
+      if (now < entry.expiresAt) {
+        return fromEntry<T>(entry, "hit")
+      }
+      if (now < entry.expiresAt + cache.staleWhileRevalidateMs) {
+        revalidate(key, requestConfig, ttlMs)
+        return fromEntry<T>(entry, "stale")
+      }
+    }
+
+    return fetchAndStore<T>(key, requestConfig, ttlMs)
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, expect, test } from "bun:test"
+import { NetworkError } from "@uranium/types"
+import { UraniumSDK } from "../index"
+import { FakeUraniumApi } from "../test-utils/fake-api"
+import { CassetteMismatchError } from "../types/errors"
+import {
+  Cassette,
+  type CassetteInteraction,
+  type CassetteStorage,
+  createFileCassetteStorage,
+  MemoryCassetteStorage,
+} from "./cassette"
+import type { UraniumConfig } from "./config"
+import { REDACTED } from "./logger"
+
+const CHUNK_SIZE = 256 * 1024
+
+const createFile = () =>
+  new File([new ArrayBuffer(600 * 1024)], "sunset.png", { type: "image/png" })
+
+const createSdk = (cassette: Cassette, config: Partial<UraniumConfig> = {}) =>
+  new UraniumSDK({
+    apiKey: "secret-key",
+    deviceId: "device-1",
+    transport: cassette.transport,
+    ...config,
+  })
+
+/**
+ * Records an upload and an asset listing against the fake API
+ */
+const recordUpload = async (storage: CassetteStorage) => {
+  const api = new FakeUraniumApi({
+    apiKeys: ["secret-key"],
+    chunkSize: CHUNK_SIZE,
+  })
+  const cassette = new Cassette({
+    mode: "record",
+    storage,
+    transport: api.transport,
+  })
+  const sdk = createSdk(cassette)
+  const uploaded = await sdk.upload.upload(createFile(), {
+    contractId: "contract-default",
+    metadata: { title: "Sunset" },
+  })
+  const listed = await sdk.assets.list({ contractId: "contract-default" })
+  return { uploaded, listed }
+}
+
+describe("Cassette record", () => {
+  test("should record router calls and chunk uploads", async () => {
+    const storage = new MemoryCassetteStorage()
+    await recordUpload(storage)
+
+    const interactions = storage.load() ?? []
+    expect(
+      interactions.map(({ request }) => `${request.method} ${request.route}`),
+    ).toEqual([
+      "POST /assets/prepare-new-file",
+      expect.stringMatching(/^PUT https:\/\/s3\.fake\.urnm\.test\/uploads\//),
+      expect.stringMatching(/^PUT https:\/\/s3\.fake\.urnm\.test\/uploads\//),
+      expect.stringMatching(/^PUT https:\/\/s3\.fake\.urnm\.test\/uploads\//),
+      "POST /assets/complete-upload",
+      "POST /assets/start-minting",
+      "GET /assets/?contractId=contract-default&order=desc&page=1&pageSize=100&sortBy=createdAt",
+      "GET /assets/?contractId=contract-default&order=asc&page=1&pageSize=10&sortBy=createdAt",
+    ])
+    expect(interactions[1]?.request.body).toBe(`[binary ${CHUNK_SIZE} bytes]`)
+    expect(interactions[0]?.response.data).toMatchObject({ status: "ok" })
+  })
+
+  test("should redact API keys and presigned URL signatures", async () => {
+    const storage = new MemoryCassetteStorage()
+    await recordUpload(storage)
+
+    const json = JSON.stringify(storage.load())
+    expect(json).not.toContain("secret-key")
+    expect(json).not.toContain("X-Amz-Signature=fake")
+    expect(storage.load()?.[0]?.request.headers?.["x-auth-token"]).toBe(
+      REDACTED,
+    )
+  })
+
+  test("should record HTTP errors", async () => {
+    const api = new FakeUraniumApi({ apiKeys: ["secret-key"] })
+    api.injectFault({ route: "/contracts/list", status: 503 })
+    const storage = new MemoryCassetteStorage()
+    const cassette = new Cassette({
+      mode: "record",
+      storage,
+      transport: api.transport,
+    })
+
+    await expect(createSdk(cassette).contracts.list()).rejects.toThrow(
+      NetworkError,
+    )
+
+    expect(storage.load()?.[0]?.response.status).toBe(503)
+    const replay = new Cassette({ mode: "replay", storage })
+    await expect(createSdk(replay).contracts.list()).rejects.toThrow(
+      NetworkError,
+    )
+  })
+})
+
+describe("Cassette replay", () => {
+  test("should replay recorded traffic without network", async () => {
+    const storage = new MemoryCassetteStorage()
+    const { uploaded, listed } = await recordUpload(storage)
+    const cassette = new Cassette({ mode: "replay", storage })
+    // A different device id still matches the recording
+    const sdk = createSdk(cassette, {
+      apiKey: "other-key",
+      deviceId: "device-2",
+    })
+
+    const replayed = await sdk.upload.upload(createFile(), {
+      contractId: "contract-default",
+      metadata: { title: "Sunset" },
+    })
+
+    expect(replayed).toEqual(uploaded)
+    expect(await sdk.assets.list({ contractId: "contract-default" })).toEqual(
+      listed,
+    )
+    expect(cassette.pending).toHaveLength(0)
+    expect(cassette.unmatched).toHaveLength(0)
+  })
+
+  test("should fail loudly on unmatched requests", async () => {
+    const storage = new MemoryCassetteStorage()
+    await recordUpload(storage)
+    const cassette = new Cassette({ mode: "replay", storage })
+
+    const error = await createSdk(cassette)
+      .assets.list({ contractId: "contract-sandbox" })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(CassetteMismatchError)
+    expect(error.message).toContain("GET /assets/?contractId=contract-sandbox&")
+    expect(cassette.unmatched).toEqual([error.request])
+  })
+
+  test("should list unused requests with the same route as candidates", async () => {
+    const storage = new MemoryCassetteStorage()
+    await recordUpload(storage)
+    const cassette = new Cassette({ mode: "replay", storage })
+
+    const error = await createSdk(cassette)
+      .assets.startMinting({
+        fileId: "file-9",
+        contractId: "contract-default",
+        metadata: { attributes: [] },
+      })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(CassetteMismatchError)
+    expect(error.candidates).toHaveLength(1)
+    expect(error.candidates[0].route).toBe("/assets/start-minting")
+  })
+
+  test("should answer repeated requests in recording order", async () => {
+    const response = (total: number): CassetteInteraction["response"] => ({
+      status: 200,
+      headers: {},
+      data: {
+        status: "ok",
+        ok: {
+          data: [],
+          meta: { total, page: 1, pageSize: 20, countPages: 0 },
+        },
+      },
+    })
+    const request = {
+      method: "GET",
+      route: "/assets/?order=asc&page=1&pageSize=10&sortBy=createdAt",
+    }
+    const cassette = new Cassette({
+      mode: "replay",
+      storage: new MemoryCassetteStorage([
+        { request, response: response(1) },
+        { request, response: response(2) },
+      ]),
+    })
+    const sdk = createSdk(cassette, { coalesceRequests: false })
+
+    const first = await sdk.assets.list()
+    const second = await sdk.assets.list()
+
+    expect([first.meta.total, second.meta.total]).toEqual([1, 2])
+    await expect(sdk.assets.list()).rejects.toThrow(CassetteMismatchError)
+  })
+})
+
+describe("createFileCassetteStorage", () => {
+  test("should keep the cassette in a JSON file", async () => {
+    const files = new Map<string, string>()
+    const storage = createFileCassetteStorage("/tmp/cassette.json", {
+      readFile: async (path) => {
+        const content = files.get(path)
+        if (content === undefined) {
+          throw Object.assign(new Error("missing"), { code: "ENOENT" })
+        }
+        return content
+      },
+      writeFile: async (path, data) => {
+        files.set(path, data)
+      },
+    })
+
+    expect(await storage.load()).toBeUndefined()
+    await recordUpload(storage)
+
+    expect(await storage.load()).toHaveLength(8)
+    expect(files.get("/tmp/cassette.json")).toEndWith("\n")
+  })
+})
@@ -0,0 +1,456 @@
+/**
+ * HTTP Cassettes
+ *
+ * Record/replay of SDK traffic for deterministic tests. In "record" mode a
+ * cassette sends requests through a real transport and writes every
+ * request/response pair (router calls and chunk uploads) to its storage,
+ * with API keys, PII and presigned URL signatures redacted as in logs.
+ * In "replay" mode it answers requests from the recording without network
+ * access and fails with CassetteMismatchError on requests that were not
+ * recorded.
+ *
+ * Like the fetch transport, a cassette is a raw transport: pass it as the
+ * `transport` config option and authentication, retries and error mapping
+ * are applied on top.
+ *
+ * @module @uranium/sdk/client/cassette
+ */
+
+import type { CassetteRequest } from "../types/cassette"
+import { CassetteMismatchError, ErrorCode } from "../types/errors"
+import { createFetchTransport } from "./fetch-transport"
+import { redact } from "./logger"
+import {
+  type HttpRequestConfig,
+  type HttpResponse,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+export type { CassetteRequest } from "../types/cassette"
+
+/**
+ * Cassette mode
+ * - "record": send requests and record them
+ * - "replay": answer requests from the recording
+ */
+export type CassetteMode = "record" | "replay"
+
+/**
+ * Keys redacted from recordings on top of the logger's defaults
+ * (`x-auth-token`, `authorization`, ...), compared case-insensitively
+ */
+const CASSETTE_REDACT_KEYS = ["cookie", "set-cookie"]
+
+/**
+ * Recorded response
+ */
+export interface CassetteResponse {
+  /** HTTP status code */
+  status: number
+  /** HTTP status text */
+  statusText?: string
+  /** Redacted response headers */
+  headers: Record<string, string>
+  /** Redacted response body */
+  data: unknown
+}
+
+/**
+ * Recorded request/response pair
+ * Plain JSON, so storages can serialize it as-is.
+ */
+export interface CassetteInteraction {
+  request: CassetteRequest
+  response: CassetteResponse
+}
+
+/**
+ * Storage holding the interactions of a cassette
+ * Methods may return promises, so asynchronous storages can be adapted directly.
+ */
+export interface CassetteStorage {
+  /** Returns the recorded interactions, in recording order */
+  load():
+    | Promise<CassetteInteraction[] | undefined>
+    | CassetteInteraction[]
+    | undefined
+  /** Persists the recorded interactions, in recording order */
+  save(interactions: CassetteInteraction[]): Promise<void> | void
+}
+
+/**
+ * In-memory storage, e.g. to record and replay within one test
+ */
+export class MemoryCassetteStorage implements CassetteStorage {
+  private interactions: CassetteInteraction[] | undefined
+
+  constructor(interactions?: CassetteInteraction[]) {
+    this.interactions = interactions && structuredClone(interactions)
+  }
+
+  load(): CassetteInteraction[] | undefined {
+    return this.interactions && structuredClone(this.interactions)
+  }
+
+  save(interactions: CassetteInteraction[]): void {
+    this.interactions = structuredClone(interactions)
+  }
+}
+
+/**
+ * File system functions used by the file storage (a subset of `node:fs/promises`)
+ */
+export interface CassetteFileSystem {
+  readFile(path: string, encoding: "utf8"): Promise<string>
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>
+}
+
+/**
+ * Creates a storage keeping a cassette in a JSON file
+ *
+ * The file system is passed in so the SDK does not depend on Node.js modules.
+ *
+ * @param path - Path of the JSON file
+ * @param fs - File system functions, e.g. `await import("node:fs/promises")`
+ * @returns Cassette storage
+ */
+export const createFileCassetteStorage = (
+  path: string,
+  fs: CassetteFileSystem,
+): CassetteStorage => ({
+  load: async () => {
+    try {
+      return JSON.parse(
+        await fs.readFile(path, "utf8"),
+      ) as CassetteInteraction[]
+    } catch (error) {
+      // A missing file is an empty cassette
+      if ((error as { code?: string })?.code === "ENOENT") return undefined
+      throw error
+    }
+  },
+  save: (interactions) =>
+    fs.writeFile(path, `${JSON.stringify(interactions, null, 2)}\n`, "utf8"),
+})
+
+/**
+ * Options for Cassette
+ */
+export interface CassetteOptions {
+  /** Record or replay */
+  mode: CassetteMode
+
+  /** Storage the interactions are written to and read from */
+  storage: CassetteStorage
+
+  /**
+   * Transport requests are recorded through
+   * @default createFetchTransport()
+   */
+  transport?: HttpTransport
+
+  /**
+   * Body fields (at any depth) and query parameters ignored when matching
+   * requests, for values that differ between runs
+   * @default ["deviceId"]
+   */
+  ignoreFields?: string[]
+
+  /**
+   * Additional header and body keys redacted from recordings
+   */
+  redactKeys?: string[]
+}
+
+const isAbsoluteUrl = (url: string) => /^[a-z][a-z\d+\-.]*:\/\//i.test(url)
+
+/**
+ * Size of binary bodies, undefined for other bodies
+ */
+const getBinarySize = (data: unknown): number | undefined => {
+  if (data instanceof ArrayBuffer) return data.byteLength
+  if (ArrayBuffer.isView(data)) return data.byteLength
+  if (typeof Blob !== "undefined" && data instanceof Blob) return data.size
+  return undefined
+}
+
+/**
+ * Record/replay transport for deterministic SDK tests
+ *
+ * Requests match a recorded interaction on method, route and normalized
+ * body (object keys sorted, `ignoreFields` removed, binary bodies
+ * compared by size). Each interaction answers one request, in recording
+ * order, so repeated requests such as status polling replay the recorded
+ * sequence of responses.
+ *
+ * @example
+ * ```typescript
+ * import * as fs from "node:fs/promises"
+ *
+ * const cassette = new Cassette({
+ *   mode: process.env.RECORD ? "record" : "replay",
+ *   storage: createFileCassetteStorage("./fixtures/upload.json", fs),
+ * })
+ * const sdk = new UraniumSDK({ apiKey, deviceId: "test-device", transport: cassette.transport })
+ *
+ * await sdk.upload.upload(file, { contractId, metadata })
+ * expect(cassette.pending).toHaveLength(0)
+ * ```
+ */
+export class Cassette {
+  /** Record or replay */
+  readonly mode: CassetteMode
+  /** Transport to pass as the `transport` config option */
+  readonly transport: HttpTransport
+  /** Requests that matched no recorded interaction (replay mode) */
+  readonly unmatched: CassetteRequest[] = []
+
+  private readonly storage: CassetteStorage
+  private readonly inner: HttpTransport
+  private readonly ignoreFields: ReadonlySet<string>
+  private readonly redactKeys: string[]
+  private recorded: CassetteInteraction[] = []
+  private used = new Set<CassetteInteraction>()
+  private loading?: Promise<void>
+  private saving: Promise<void> = Promise.resolve()
+
+  constructor(options: CassetteOptions) {
+    this.mode = options.mode
+    this.storage = options.storage
+    this.inner = options.transport ?? createFetchTransport()
+    this.ignoreFields = new Set(options.ignoreFields ?? ["deviceId"])
+    this.redactKeys = [...CASSETTE_REDACT_KEYS, ...(options.redactKeys ?? [])]
+
+    const request = <T>(config: HttpRequestConfig) =>
+      this.mode === "record" ? this.record<T>(config) : this.replay<T>(config)
+    this.transport = {
+      request,
+      get: (url, config) => request({ ...config, url, method: "GET" }),
+      post: (url, data, config) =>
+        request({ ...config, url, data, method: "POST" }),
+      put: (url, data, config) =>
+        request({ ...config, url, data, method: "PUT" }),
+    }
+  }
+
+  /**
+   * Interactions recorded, or loaded for replay
+   */
+  get interactions(): readonly CassetteInteraction[] {
+    return this.recorded
+  }
+
+  /**
+   * Loaded interactions that have not been replayed yet
+   */
+  get pending(): CassetteInteraction[] {
+    return this.recorded.filter((interaction) => !this.used.has(interaction))
+  }
+
+  /**
+   * Loads the interactions to replay
+   * Called on the first replayed request; call it to reload the storage.
+   */
+  async load(): Promise<void> {
+    this.loading = (async () => {
+      this.recorded = (await this.storage.load()) ?? []
+      this.used = new Set()
+    })()
+    await this.loading
+  }
+
+  /**
+   * Waits until every recorded interaction has been written to the storage
+   */
+  flush(): Promise<void> {
+    return this.saving
+  }
+
+  /**
+   * Describes a request the way it is recorded
+   */
+  private toCassetteRequest(config: HttpRequestConfig): CassetteRequest {
+    const request: CassetteRequest = {
+      method: (config.method ?? "GET").toUpperCase(),
+      route: this.toRoute(config),
+    }
+    const body = this.normalizeBody(config.data)
+    if (body !== undefined) request.body = body
+    if (config.headers) request.headers = this.redactHeaders(config.headers)
+    return request
+  }
+
+  /**
+   * Sends a request through the inner transport and records the response
+   */
+  private async record<T>(config: HttpRequestConfig): Promise<HttpResponse<T>> {
+    const request = this.toCassetteRequest(config)
+    try {
+      const response = await this.inner.request<T>(config)
+      await this.append(request, response)
+      return response
+    } catch (error) {
+      // HTTP errors are recorded; failures without a response are not
+      if (error instanceof HttpTransportError && error.response) {
+        await this.append(request, error.response)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Answers a request with the first unused matching interaction
+   * @throws {CassetteMismatchError} When no recorded interaction matches
+   */
+  private async replay<T>(config: HttpRequestConfig): Promise<HttpResponse<T>> {
+    if (config.signal?.aborted) {
+      throw new HttpTransportError("canceled", "ERR_CANCELED", config)
+    }
+    await (this.loading ?? this.load())
+
+    const request = this.toCassetteRequest(config)
+    const key = this.toMatchKey(request)
+    const interaction = this.recorded.find(
+      (candidate) =>
+        !this.used.has(candidate) && this.toMatchKey(candidate.request) === key,
+    )
+    if (!interaction) {
+      this.unmatched.push(request)
+      throw new CassetteMismatchError(
+        `No recorded interaction matches ${request.method} ${request.route}`,
+        ErrorCode.CASSETTE_MISMATCH,
+        request,
+        this.pending
+          .filter(
+            (candidate) =>
+              candidate.request.method === request.method &&
+              candidate.request.route === request.route,
+          )
+          .map((candidate) => candidate.request),
+      )
+    }
+    this.used.add(interaction)
+
+    const response: HttpResponse<T> = {
+      ...structuredClone(interaction.response),
+      data: structuredClone(interaction.response.data) as T,
+    }
+    if (response.status >= 400) {
+      throw new HttpTransportError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+        config,
+        response,
+      )
+    }
+
+    const size = getBinarySize(config.data)
+    if (config.onUploadProgress && size !== undefined) {
+      config.onUploadProgress({ loaded: size, total: size })
+    }
+    return response
+  }
+
+  /**
+   * Records an interaction and saves the cassette
+   */
+  private async append(
+    request: CassetteRequest,
+    response: HttpResponse,
+  ): Promise<void> {
+    this.recorded.push({
+      request,
+      response: {
+        status: response.status,
+        ...(response.statusText ? { statusText: response.statusText } : {}),
+        headers: this.redactHeaders(response.headers),
+        data: redact(response.data, this.redactKeys),
+      },
+    })
+    // Saves run one after another so the last one holds every interaction
+    const interactions = [...this.recorded]
+    this.saving = this.saving.then(() => this.storage.save(interactions))
+    await this.saving
+  }
+
+  /**
+   * Route of a request: relative path with sorted query parameters
+   * (from the URL and `params`),
+   * or the redacted absolute URL
+   */
+  private toRoute(config: HttpRequestConfig): string {
+    const url = config.url ?? ""
+    if (isAbsoluteUrl(url)) return redact(url) as string
+
+    const [path = "", query] = url.split("?", 2)
+    const params = [
+      ...new URLSearchParams(query).entries(),
+      ...Object.entries(config.params ?? {}).map(
+        ([key, value]): [string, unknown] => [key, value],
+      ),
+    ]
+      .filter(
+        ([key, value]) => value !== undefined && !this.ignoreFields.has(key),
+      )
+      .map(([key, value]): [string, string] => [key, String(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return params.length > 0
+      ? `${path}?${new URLSearchParams(params).toString()}`
+      : path
+  }
+
+  private toMatchKey(request: CassetteRequest): string {
+    return JSON.stringify([request.method, request.route, request.body ?? null])
+  }
+
+  /**
+   * Normalizes a request body for recording and matching
+   */
+  private normalizeBody(data: unknown): unknown {
+    const size = getBinarySize(data)
+    if (size !== undefined) return `[binary ${size} bytes]`
+    let body = data
+    if (typeof data === "string") {
+      try {
+        body = JSON.parse(data)
+      } catch {
+        return redact(data)
+      }
+    }
+    return redact(this.normalizeValue(body), this.redactKeys)
+  }
+
+  private normalizeValue(value: unknown): unknown {
+    if (value === null || value === undefined) return undefined
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalizeValue(item) ?? null)
+    }
+    if (typeof value === "object") {
+      const result: Record<string, unknown> = {}
+      for (const key of Object.keys(value).sort()) {
+        if (this.ignoreFields.has(key)) continue
+        const item = this.normalizeValue(
+          (value as Record<string, unknown>)[key],
+        )
+        if (item !== undefined) result[key] = item
+      }
+      return result
+    }
+    return value
+  }
+
+  /**
+   * Copies headers as strings with credentials redacted
+   */
+  private redactHeaders(
+    // biome-ignore lint/suspicious/noExplicitAny: Header values differ between transports
+    headers: Record<string, any>,
+  ): Record<string, string> {
+    const result: Record<string, string> = {}
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      if (value !== undefined && value !== null) result[name] = String(value)
+    }
+    return redact(result, this.redactKeys) as Record<string, string>
+  }
+}
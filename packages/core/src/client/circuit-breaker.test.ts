@@ -0,0 +1,143 @@
+import { describe, expect, mock, test } from "bun:test"
+import { AxiosError } from "axios"
+import { CircuitOpenError } from "../types/errors"
+import { CircuitBreaker } from "./circuit-breaker"
+import { createHttpClient } from "./pipeline"
+import {
+  type HttpRequestConfig,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+const serverError = (status = 503) => {
+  const error = new AxiosError("Server Error")
+  error.response = { status } as never
+  return error
+}
+
+const createBreaker = (now: { value: number }) =>
+  new CircuitBreaker(
+    { failureThreshold: 2, resetTimeout: 1000 },
+    () => now.value,
+  )
+
+describe("CircuitBreaker", () => {
+  test("should open after consecutive failures", () => {
+    const now = { value: 0 }
+    const breaker = createBreaker(now)
+
+    breaker.beforeRequest()
+    breaker.recordFailure(serverError())
+    expect(breaker.state).toBe("closed")
+
+    breaker.beforeRequest()
+    breaker.recordFailure(serverError())
+    expect(breaker.state).toBe("open")
+
+    expect(() => breaker.beforeRequest()).toThrow(CircuitOpenError)
+  })
+
+  test("should report when a trial request is allowed", () => {
+    const now = { value: 5000 }
+    const breaker = createBreaker(now)
+    breaker.recordFailure(serverError())
+    breaker.recordFailure(serverError())
+
+    try {
+      breaker.beforeRequest()
+      expect(true).toBe(false)
+    } catch (error) {
+      expect(error).toBeInstanceOf(CircuitOpenError)
+      expect((error as CircuitOpenError).code).toBe("CIRCUIT_OPEN")
+      expect((error as CircuitOpenError).isRetryable).toBe(false)
+      expect((error as CircuitOpenError).retryAt?.getTime()).toBe(6000)
+    }
+  })
+
+  test("should allow a single trial request after resetTimeout", () => {
+    const now = { value: 0 }
+    const breaker = createBreaker(now)
+    breaker.recordFailure(serverError())
+    breaker.recordFailure(serverError())
+
+    now.value = 1000
+    breaker.beforeRequest()
+    expect(breaker.state).toBe("half-open")
+    expect(() => breaker.beforeRequest()).toThrow(CircuitOpenError)
+
+    breaker.recordSuccess()
+    expect(breaker.state).toBe("closed")
+    breaker.beforeRequest()
+  })
+
+  test("should re-open when the trial request fails", () => {
+    const now = { value: 0 }
+    const breaker = createBreaker(now)
+    breaker.recordFailure(serverError())
+    breaker.recordFailure(serverError())
+
+    now.value = 1000
+    breaker.beforeRequest()
+    breaker.recordFailure(serverError())
+
+    expect(breaker.state).toBe("open")
+    now.value = 1500
+    expect(() => breaker.beforeRequest()).toThrow(CircuitOpenError)
+  })
+
+  test("should not count client errors or cancellations as failures", () => {
+    const breaker = createBreaker({ value: 0 })
+
+    breaker.recordFailure(serverError())
+    breaker.recordFailure(serverError(404))
+    breaker.recordFailure(serverError())
+    breaker.recordFailure(new HttpTransportError("canceled", "ERR_CANCELED"))
+
+    expect(breaker.state).toBe("closed")
+  })
+
+  test("should notify state changes", () => {
+    const onStateChange = mock(() => {})
+    const breaker = new CircuitBreaker({ failureThreshold: 1, onStateChange })
+
+    breaker.recordFailure(serverError())
+    breaker.reset()
+
+    expect(onStateChange.mock.calls).toEqual([["open"], ["closed"]])
+  })
+
+  test("should fail fast in the request pipeline without sending", async () => {
+    const request = mock(async (config: HttpRequestConfig) => {
+      throw new HttpTransportError(
+        "Service Unavailable",
+        "ERR_BAD_RESPONSE",
+        config,
+        {
+          data: {},
+          status: 503,
+          headers: {},
+        },
+      )
+    })
+    const transport: HttpTransport = {
+      request: request as HttpTransport["request"],
+      get: (url, config) => transport.request({ ...config, url }),
+      post: (url, data, config) => transport.request({ ...config, url, data }),
+      put: (url, data, config) => transport.request({ ...config, url, data }),
+    }
+    const client = createHttpClient(
+      {
+        apiKey: "test-key",
+        circuitBreaker: new CircuitBreaker({ failureThreshold: 2 }),
+        retry: { enabled: true, maxRetries: 5, retryDelay: 1 },
+      },
+      transport,
+    )
+
+    await expect(client.get("/test")).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(request).toHaveBeenCalledTimes(2)
+
+    await expect(client.get("/test")).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops sending requests while the API is consistently failing and fails
+ * them fast with `CircuitOpenError` instead. After `resetTimeout` a single
+ * trial request is let through: success closes the circuit, failure opens
+ * it again.
+ *
+ * @module @uranium/sdk/client/circuit-breaker
+ */
+
+import { CircuitOpenError, ErrorCode } from "../types/errors"
+import { isCancelError, isHttpError } from "./utils"
+
+/**
+ * Circuit breaker state
+ * - "closed": requests flow normally
+ * - "open": requests fail fast with CircuitOpenError
+ * - "half-open": a single trial request is allowed
+ */
+export type CircuitState = "closed" | "open" | "half-open"
+
+/**
+ * Options for the circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open the circuit
+   * @default 5
+   */
+  failureThreshold?: number
+
+  /**
+   * Time in milliseconds the circuit stays open before a trial request
+   * @default 30000
+   */
+  resetTimeout?: number
+
+  /**
+   * Decides whether an error counts as a failure
+   * @default Network errors without a response and 5xx responses
+   */
+  isFailure?: (error: unknown) => boolean
+
+  /**
+   * Optional callback invoked when the circuit changes state
+   */
+  onStateChange?: (state: CircuitState) => void
+}
+
+/**
+ * Default failure predicate: the gateway is unreachable or returned 5xx
+ */
+const isGatewayFailure = (error: unknown): boolean => {
+  if (!isHttpError(error) || isCancelError(error)) {
+    return false
+  }
+  return !error.response || error.response.status >= 500
+}
+
+/**
+ * Circuit breaker guarding requests to the API
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = new CircuitBreaker({ failureThreshold: 5, resetTimeout: 30000 })
+ * const sdk = new UraniumSDK({ apiKey, circuitBreaker })
+ *
+ * try {
+ *   await sdk.contracts.list()
+ * } catch (error) {
+ *   if (error instanceof CircuitOpenError) {
+ *     console.log(`API unavailable, retry after ${error.retryAt}`)
+ *   }
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number
+  private readonly resetTimeout: number
+  private readonly isFailure: (error: unknown) => boolean
+  private readonly onStateChange?: (state: CircuitState) => void
+  private currentState: CircuitState = "closed"
+  private failures = 0
+  private openedAt = 0
+  private trialInFlight = false
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5
+    this.resetTimeout = options.resetTimeout ?? 30000
+    this.isFailure = options.isFailure ?? isGatewayFailure
+    this.onStateChange = options.onStateChange
+  }
+
+  /**
+   * Current state of the circuit
+   */
+  get state(): CircuitState {
+    return this.currentState
+  }
+
+  /**
+   * Checks whether a request may be sent
+   * @throws {CircuitOpenError} If the circuit is open or a trial request is already in flight
+   */
+  beforeRequest(): void {
+    if (this.currentState === "closed") {
+      return
+    }
+
+    if (
+      this.currentState === "open" &&
+      this.now() - this.openedAt >= this.resetTimeout
+    ) {
+      this.transition("half-open")
+    }
+
+    if (this.currentState === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true
+      return
+    }
+
+    throw new CircuitOpenError(
+      "Circuit breaker is open: the API is failing, request was not sent",
+      ErrorCode.CIRCUIT_OPEN,
+      new Date(this.openedAt + this.resetTimeout),
+      { failures: this.failures },
+    )
+  }
+
+  /**
+   * Records a request that reached the API
+   */
+  recordSuccess(): void {
+    this.failures = 0
+    this.trialInFlight = false
+    if (this.currentState !== "closed") {
+      this.transition("closed")
+    }
+  }
+
+  /**
+   * Records a failed request
+   * Errors not counted as failures (e.g. 4xx) close the circuit like a success.
+   * @param error - Error raised by the request
+   */
+  recordFailure(error: unknown): void {
+    if (isCancelError(error)) {
+      this.trialInFlight = false
+      return
+    }
+
+    if (!this.isFailure(error)) {
+      this.recordSuccess()
+      return
+    }
+
+    this.failures++
+    this.trialInFlight = false
+
+    if (
+      this.currentState === "half-open" ||
+      this.failures >= this.failureThreshold
+    ) {
+      this.openedAt = this.now()
+      if (this.currentState !== "open") {
+        this.transition("open")
+      }
+    }
+  }
+
+  /**
+   * Closes the circuit and clears the failure count
+   */
+  reset(): void {
+    this.recordSuccess()
+  }
+
+  private transition(state: CircuitState): void {
+    this.currentState = state
+    this.onStateChange?.(state)
+  }
+}
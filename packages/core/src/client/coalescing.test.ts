@@ -0,0 +1,215 @@
+import { describe, expect, mock, test } from "bun:test"
+import { NetworkError } from "@uranium/types"
+import { UraniumSDK } from "../index"
+import { coalescingKey, createCoalescingTransport } from "./coalescing"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Creates a transport whose responses are resolved manually
+ */
+const createDeferredTransport = () => {
+  const pending: {
+    config: HttpRequestConfig
+    resolve: (data: unknown) => void
+    reject: (error: unknown) => void
+  }[] = []
+  const request = mock(
+    (config: HttpRequestConfig) =>
+      new Promise<HttpResponse>((resolve, reject) => {
+        pending.push({
+          config,
+          resolve: (data) => resolve({ data, status: 200, headers: {} }),
+          reject,
+        })
+      }),
+  )
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request, pending }
+}
+
+describe("coalescingKey", () => {
+  test("should sort query parameters from the URL and params", () => {
+    expect(
+      coalescingKey({ url: "/assets/?page=1&contractId=c1", params: { a: 2 } }),
+    ).toBe(coalescingKey({ url: "/assets/?a=2&contractId=c1&page=1" }))
+  })
+
+  test("should ignore undefined params", () => {
+    expect(
+      coalescingKey({ url: "/contracts/list", params: { page: undefined } }),
+    ).toBe("GET /contracts/list")
+  })
+})
+
+describe("createCoalescingTransport", () => {
+  test("should share one request between identical concurrent GETs", async () => {
+    const { transport, request, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+
+    const first = client.get("/assets/?page=1&pageSize=10")
+    const second = client.get("/assets/?pageSize=10&page=1")
+    pending[0]?.resolve({ status: "ok" })
+
+    const [a, b] = await Promise.all([first, second])
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(a.data).toEqual({ status: "ok" })
+    expect(b.data).toEqual(a.data)
+  })
+
+  test("should give every caller its own copy of the data", async () => {
+    const { transport, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+
+    const first = client.get<{ data: string[] }>("/contracts/list")
+    const second = client.get<{ data: string[] }>("/contracts/list")
+    pending[0]?.resolve({ data: ["contract-1"] })
+
+    const [a, b] = await Promise.all([first, second])
+    a.data.data.push("contract-2")
+    expect(b.data.data).toEqual(["contract-1"])
+  })
+
+  test("should send separate requests for different params", async () => {
+    const { transport, request, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+
+    const first = client.get("/assets/?page=1")
+    const second = client.get("/assets/?page=2")
+    for (const call of pending) call.resolve({})
+
+    await Promise.all([first, second])
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should not coalesce non-GET requests", async () => {
+    const { transport, request, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+
+    const first = client.post("/contracts/create", { name: "a" })
+    const second = client.post("/contracts/create", { name: "a" })
+    for (const call of pending) call.resolve({})
+
+    await Promise.all([first, second])
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should send a new request once the shared one settled", async () => {
+    const { transport, request, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+
+    const first = client.get("/contracts/list")
+    pending[0]?.resolve({})
+    await first
+    const second = client.get("/contracts/list")
+    pending[1]?.resolve({})
+    await second
+
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should share failures with every caller", async () => {
+    const { transport, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+    const error = new NetworkError("boom")
+
+    const calls = [client.get("/contracts/list"), client.get("/contracts/list")]
+    pending[0]?.reject(error)
+
+    const results = await Promise.allSettled(calls)
+    expect(results).toEqual([
+      { status: "rejected", reason: error },
+      { status: "rejected", reason: error },
+    ])
+  })
+
+  test("should let callers abort without cancelling the shared request", async () => {
+    const { transport, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+    const controller = new AbortController()
+
+    const aborted = client.get("/contracts/list", {
+      signal: controller.signal,
+    })
+    const kept = client.get("/contracts/list")
+    controller.abort()
+
+    await expect(aborted).rejects.toMatchObject({
+      name: "NetworkError",
+      code: "REQUEST_ABORTED",
+    })
+    expect(pending[0]?.config.signal?.aborted).toBe(false)
+
+    pending[0]?.resolve({ status: "ok" })
+    await expect(kept).resolves.toMatchObject({ data: { status: "ok" } })
+  })
+
+  test("should cancel the shared request when every caller aborted", async () => {
+    const { transport, request, pending } = createDeferredTransport()
+    const client = createCoalescingTransport(transport)
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const requests = Promise.allSettled([
+      client.get("/contracts/list", { signal: first.signal }),
+      client.get("/contracts/list", { signal: second.signal }),
+    ])
+    first.abort()
+    second.abort()
+
+    for (const result of await requests) {
+      expect(result).toMatchObject({ status: "rejected" })
+    }
+    expect(pending[0]?.config.signal?.aborted).toBe(true)
+
+    // A later caller starts a fresh request
+    const next = client.get("/contracts/list")
+    pending[1]?.resolve({})
+    await next
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("UraniumSDK request coalescing", () => {
+  const createSdk = (coalesceRequests?: boolean) => {
+    const deferred = createDeferredTransport()
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport: deferred.transport,
+      coalesceRequests,
+    })
+    return { sdk, ...deferred }
+  }
+
+  test("should coalesce concurrent router reads when enabled", async () => {
+    const { sdk, request, pending } = createSdk(true)
+
+    const calls = [sdk.contracts.list(), sdk.contracts.list()]
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    pending[0]?.resolve({ status: "ok", data: [] })
+
+    await expect(Promise.all(calls)).resolves.toEqual([[], []])
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  test("should send every request by default", async () => {
+    const { sdk, request, pending } = createSdk()
+
+    const calls = [sdk.contracts.list(), sdk.contracts.list()]
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    for (const call of pending) call.resolve({ status: "ok", data: [] })
+
+    await Promise.all(calls)
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+})
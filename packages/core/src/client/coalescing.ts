@@ -0,0 +1,163 @@
+/**
+ * Request Coalescing
+ *
+ * Deduplicates identical in-flight GET requests: concurrent callers asking
+ * for the same route and query parameters with the same credentials share a
+ * single HTTP request.
+ *
+ * @module @uranium/sdk/client/coalescing
+ */
+
+import { NetworkError } from "@uranium/types"
+import type { CredentialsManager } from "./credentials"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Shared request and the number of callers still waiting for it
+ */
+interface InFlightRequest {
+  promise: Promise<HttpResponse<unknown>>
+  controller: AbortController
+  callers: number
+}
+
+/**
+ * Builds the coalescing key of a request: route plus sorted query parameters
+ * from both the URL and `params`
+ * @param requestConfig - GET request
+ * @returns Key identical for requests returning the same resource
+ */
+export const coalescingKey = (requestConfig: HttpRequestConfig): string => {
+  const url = requestConfig.url ?? ""
+  const queryStart = url.indexOf("?")
+  const path = queryStart === -1 ? url : url.slice(0, queryStart)
+  const search = new URLSearchParams(
+    queryStart === -1 ? "" : url.slice(queryStart + 1),
+  )
+
+  for (const [name, value] of Object.entries(requestConfig.params ?? {})) {
+    if (value !== undefined) search.append(name, String(value))
+  }
+  search.sort()
+
+  const normalized = search.toString()
+  return normalized ? `GET ${path}?${normalized}` : `GET ${path}`
+}
+
+/**
+ * Wraps an API transport so identical concurrent GET requests are coalesced
+ *
+ * The shared request uses the config (timeout, retry override) of the
+ * caller that started it; headers are not part of the key. Each caller
+ * keeps its own abort signal: aborting rejects that caller only, and the
+ * shared request is cancelled once every caller has aborted. Each caller
+ * gets its own copy of the response data. Requests are shared only while
+ * in flight, so responses are never cached.
+ *
+ * @param transport - API transport (already wrapped with the request pipeline)
+ * @returns Transport that can be passed to the routers
+ */
+export const createCoalescingTransport = (
+  transport: HttpTransport,
+): HttpTransport => {
+  const inFlight = new Map<string, InFlightRequest>()
+  // Requests of different tenants are never shared
+  const tenantIds = new WeakMap<CredentialsManager, number>()
+  let lastTenantId = 0
+  const tenantKey = (credentials?: CredentialsManager): string => {
+    if (!credentials) return ""
+    let id = tenantIds.get(credentials)
+    if (id === undefined) {
+      id = ++lastTenantId
+      tenantIds.set(credentials, id)
+    }
+    return `${id}:`
+  }
+
+  const join = <T>(
+    key: string,
+    entry: InFlightRequest,
+    signal?: AbortSignal,
+  ): Promise<HttpResponse<T>> => {
+    entry.callers++
+
+    return new Promise<HttpResponse<T>>((resolve, reject) => {
+      const onAbort = () => {
+        entry.callers--
+        if (entry.callers === 0) {
+          // Nobody is waiting anymore: cancel the shared request
+          if (inFlight.get(key) === entry) inFlight.delete(key)
+          entry.controller.abort()
+        }
+        reject(
+          new NetworkError(
+            "Request was aborted",
+            "REQUEST_ABORTED",
+            false,
+            signal?.reason instanceof Error ? signal.reason : undefined,
+          ),
+        )
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true })
+      entry.promise.then(
+        (response) => {
+          signal?.removeEventListener("abort", onAbort)
+          // Callers must not see each other's mutations
+          resolve({
+            ...response,
+            data: structuredClone(response.data),
+          } as HttpResponse<T>)
+        },
+        (error) => {
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+      )
+    })
+  }
+
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const method = (requestConfig.method ?? "GET").toUpperCase()
+    if (method !== "GET" || requestConfig.signal?.aborted) {
+      return transport.request<T>(requestConfig)
+    }
+
+    const key =
+      tenantKey(requestConfig.credentials) + coalescingKey(requestConfig)
+    let entry = inFlight.get(key)
+
+    if (!entry) {
+      const controller = new AbortController()
+      const promise = transport.request<unknown>({
+        ...requestConfig,
+        signal: controller.signal,
+      })
+      const started: InFlightRequest = { promise, controller, callers: 0 }
+      const settle = () => {
+        if (inFlight.get(key) === started) inFlight.delete(key)
+      }
+      promise.then(settle, settle)
+
+      entry = started
+      inFlight.set(key, entry)
+    }
+
+    return join<T>(key, entry, requestConfig.signal)
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
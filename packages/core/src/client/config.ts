@@ -0,0 +1,362 @@
+import type { ResponseCache } from "./cache"
+import type { CircuitBreaker } from "./circuit-breaker"
+import type { CredentialsManager, CredentialsProvider } from "./credentials"
+import type { UraniumEnvironment } from "./environment"
+import type { Logger, LogLevel } from "./logger"
+import type { MetricsCollector } from "./metrics"
+import type { OfflineQueue } from "./offline-queue"
+import type { UraniumPlugin } from "./plugins"
+import type { ResponseValidationMode } from "./response-validation"
+import type { RetryBudget } from "./retry"
+import type { Tracer } from "./tracing"
+import type { TransportOption } from "./transport"
+
+/**
+ * Backoff strategy used to compute the delay before each retry
+ * - "linear": attempt × retryDelay
+ * - "exponential": retryDelay × 2^(attempt - 1)
+ * - "full-jitter": random delay between 0 and the exponential delay
+ * - "decorrelated-jitter": random delay between retryDelay and 3 × the previous delay
+ */
+export type RetryStrategy =
+  | "linear"
+  | "exponential"
+  | "full-jitter"
+  | "decorrelated-jitter"
+
+/**
+ * Configuration options for retry behavior
+ */
+export interface RetryConfig {
+  /**
+   * Enable retry mechanism. When false, requests fail immediately without retrying.
+   * @default false
+   */
+  enabled: boolean
+
+  /**
+   * Maximum number of retry attempts
+   * @default 3
+   */
+  maxRetries: number
+
+  /**
+   * Initial delay between retries in milliseconds
+   * @default 1000
+   */
+  retryDelay: number
+
+  /**
+   * Backoff strategy
+   * @default "linear"
+   */
+  strategy?: RetryStrategy
+
+  /**
+   * Upper bound for a single retry delay in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number
+
+  /**
+   * Retry budget shared by every request using this config.
+   * Retries are skipped while the budget is exhausted.
+   * @default undefined
+   */
+  budget?: RetryBudget
+
+  /**
+   * HTTP status codes that should trigger a retry
+   * Note: 429 (rate limiting) is intentionally excluded
+   * @default [500, 502, 503, 504]
+   */
+  retryableStatuses: number[]
+
+  /**
+   * Optional callback invoked before each retry attempt
+   * @param attempt - Current retry attempt number (1-based)
+   * @param error - The error that triggered the retry
+   * @param delayMs - Delay in milliseconds before this retry
+   */
+  onRetry?: (
+    attempt: number,
+    error: unknown,
+    delayMs: number,
+  ) => void | Promise<void>
+}
+
+/**
+ * Client-side token bucket limiting how fast requests are sent
+ */
+export interface ThrottleConfig {
+  /**
+   * Maximum number of requests per interval (bucket capacity)
+   */
+  maxRequests: number
+
+  /**
+   * Interval in milliseconds over which the bucket refills completely
+   * @default 1000
+   */
+  interval?: number
+}
+
+/**
+ * Configuration options for rate limit handling
+ */
+export interface RateLimitConfig {
+  /**
+   * Wait until the limit resets and retry when the API responds with 429.
+   * When false, 429 responses fail immediately with LimitExceededError.
+   * @default false
+   */
+  waitForReset: boolean
+
+  /**
+   * Maximum number of times a single request waits for a reset
+   * @default 3
+   */
+  maxRetries: number
+
+  /**
+   * Longest wait in milliseconds before giving up and throwing LimitExceededError
+   * @default 60000
+   */
+  maxWaitMs: number
+
+  /**
+   * Wait in milliseconds used when the response carries no reset information
+   * @default 1000
+   */
+  defaultWaitMs: number
+
+  /**
+   * Client-side token bucket applied before requests are sent.
+   * Disabled when undefined.
+   * @default undefined
+   */
+  throttle?: ThrottleConfig
+}
+
+/**
+ * Main configuration interface for Uranium SDK
+ */
+export interface UraniumConfig {
+  /**
+   * API key for authentication (required unless `credentials` is set)
+   * Get your API key from: https://portal.uranium.pro/dashboard/profile/api-keys
+   */
+  apiKey?: string
+
+  /**
+   * Provider of the API key, called when a key is needed and again when the
+   * API rejects the current key (the request is then replayed once).
+   * Takes precedence over `apiKey`.
+   * @default undefined
+   */
+  credentials?: CredentialsProvider | CredentialsManager
+
+  /**
+   * Environment the SDK runs against. Selects the base URL and defaults of
+   * the environment; in "sandbox", minting into collections other than
+   * SANDBOX ones is refused.
+   * @default "production"
+   */
+  environment?: UraniumEnvironment
+
+  /**
+   * Base URL for Uranium API (overrides the base URL of `environment`)
+   * @default "https://gw.urnm.pro"
+   */
+  baseUrl?: string
+
+  /**
+   * Request timeout in milliseconds
+   * @default 20000
+   */
+  timeout?: number
+
+  /**
+   * Device identifier for tracking
+   * @default "sdk-{uuid}"
+   */
+  deviceId?: string
+
+  /**
+   * Enable debug logging
+   * Writes to the console unless a `logger` is provided.
+   * @default false
+   */
+  debug?: boolean
+
+  /**
+   * Logger receiving structured request and upload records
+   * (e.g. an adapter for pino or winston). Credentials, presigned URL
+   * signatures and user PII are redacted before records reach the logger.
+   * @default undefined (console when `debug` is enabled)
+   */
+  logger?: Logger
+
+  /**
+   * Minimum level of records passed to the logger
+   * @default "info" ("debug" when `debug` is enabled)
+   */
+  logLevel?: LogLevel
+
+  /**
+   * Retry configuration for failed requests
+   * @default { enabled: false, maxRetries: 3, retryDelay: 1000, retryableStatuses: [500, 502, 503, 504], onRetry: undefined }
+   */
+  retry?: Partial<RetryConfig>
+
+  /**
+   * Rate limit handling (429 responses) and client-side throttling
+   * @default { waitForReset: false, maxRetries: 3, maxWaitMs: 60000, defaultWaitMs: 1000, throttle: undefined }
+   */
+  rateLimit?: Partial<RateLimitConfig>
+
+  /**
+   * Circuit breaker that fails requests fast with CircuitOpenError
+   * while the API is consistently failing
+   * @default undefined
+   */
+  circuitBreaker?: CircuitBreaker
+
+  /**
+   * Plugins hooking into every router call (see also `sdk.use()`)
+   * @default []
+   */
+  plugins?: UraniumPlugin[]
+
+  /**
+   * Tracer creating a span per router call and per upload (with child spans
+   * per upload stage and chunk). Trace context is sent in the `traceparent` header.
+   * @default undefined (tracing disabled)
+   */
+  tracer?: Tracer
+
+  /**
+   * Collector for request latency, error counts, retries and upload throughput
+   * @default undefined (no metrics)
+   */
+  metrics?: MetricsCollector
+
+  /**
+   * Share one HTTP request between identical concurrent GET calls
+   * (same route and query parameters). Callers can still abort independently.
+   * @default false
+   */
+  coalesceRequests?: boolean
+
+  /**
+   * Cache for `contracts.list()` and `assets.list()` responses, scoped by API
+   * key so one cache can be shared by SDK instances of different tenants
+   * @default undefined (no caching)
+   */
+  cache?: ResponseCache
+
+  /**
+   * Queue for `contracts.create`, `assets.startMinting` and
+   * `assets.completeUpload` calls made while the API cannot be reached.
+   * Queued calls reject with OperationQueuedError and are replayed in order
+   * once connectivity returns.
+   * @default undefined (calls fail with NetworkError)
+   */
+  offlineQueue?: OfflineQueue
+
+  /**
+   * Validation of API responses against the SDK response schemas
+   * - "strict": throw ResponseValidationError on mismatch
+   * - "warn": log a warning through `logger` and return the response
+   * - "off": trust responses as-is
+   * @default "warn" in production, "strict" in other environments
+   */
+  responseValidation?: ResponseValidationMode
+
+  /**
+   * HTTP transport used for API calls and chunk uploads
+   * - "axios": Axios-based transport
+   * - "fetch": zero-dependency transport using the global fetch (edge runtimes)
+   * - custom HttpTransport implementation
+   * @default "axios"
+   */
+  transport?: TransportOption
+}
+
+/**
+ * Identity of a tenant client created with `sdk.forTenant()`
+ */
+export type TenantConfig = Pick<
+  UraniumConfig,
+  "apiKey" | "credentials" | "deviceId"
+>
+
+/**
+ * Internal configuration with all defaults applied
+ */
+export interface ResolvedUraniumConfig
+  extends Required<
+    Omit<
+      UraniumConfig,
+      | "apiKey"
+      | "credentials"
+      | "retry"
+      | "rateLimit"
+      | "circuitBreaker"
+      | "plugins"
+      | "transport"
+      | "logger"
+      | "logLevel"
+      | "tracer"
+      | "metrics"
+      | "responseValidation"
+      | "coalesceRequests"
+      | "cache"
+      | "offlineQueue"
+    >
+  > {
+  credentials: CredentialsManager
+  logger: Logger
+  retry: RetryConfig
+  rateLimit: RateLimitConfig
+  circuitBreaker?: CircuitBreaker
+}
+
+/**
+ * Default retry configuration
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  enabled: false,
+  maxRetries: 3,
+  retryDelay: 1000,
+  strategy: "linear",
+  maxDelay: 30000,
+  retryableStatuses: [500, 502, 503, 504],
+  onRetry: undefined,
+}
+
+/**
+ * Default rate limit configuration
+ */
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  waitForReset: false,
+  maxRetries: 3,
+  maxWaitMs: 60000,
+  defaultWaitMs: 1000,
+  throttle: undefined,
+}
+
+/**
+ * Default SDK configuration
+ */
+export const DEFAULT_CONFIG: Omit<
+  ResolvedUraniumConfig,
+  "credentials" | "deviceId" | "logger"
+> = {
+  environment: "production",
+  baseUrl: "https://gw.urnm.pro",
+  timeout: 20000,
+  debug: false,
+  retry: DEFAULT_RETRY_CONFIG,
+  rateLimit: DEFAULT_RATE_LIMIT_CONFIG,
+}
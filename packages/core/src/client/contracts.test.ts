@@ -53,7 +53,9 @@ describe("Contracts Router", () => {
 
       // Verify the call was made correctly
       expect(mockClient.get).toHaveBeenCalledTimes(1)
-      expect(mockClient.get).toHaveBeenCalledWith("/contracts/list")
+      expect(mockClient.get).toHaveBeenCalledWith("/contracts/list", {
+        operation: { router: "contracts", operation: "list" },
+      })
 
       // Verify the result
       expect(result).toEqual(mockContracts)
@@ -82,6 +84,52 @@ describe("Contracts Router", () => {
   })
 
   describe("create", () => {
+    test("should generate a new idempotency key per call", async () => {
+      const mockClient = createMockAxiosClient({
+        post: () =>
+          Promise.resolve({
+            data: createMockResponse("ok", mockData.contract()),
+          }),
+      })
+      const router = contractsRouter(mockClient)
+      const params = { name: "Test", symbol: "TST", type: "ERC721" as const }
+
+      await router.create(params)
+      await router.create(params)
+
+      // biome-ignore lint/suspicious/noExplicitAny: Testing mock object
+      const calls = (mockClient.post as any).mock.calls
+      const firstKey = calls[0][2].headers["Idempotency-Key"]
+      const secondKey = calls[1][2].headers["Idempotency-Key"]
+      expect(firstKey).toBeString()
+      expect(secondKey).toBeString()
+      expect(firstKey).not.toBe(secondKey)
+    })
+
+    test("should resend a failed submission with the same idempotency key", async () => {
+      let calls = 0
+      const mockClient = createMockAxiosClient({
+        post: () => {
+          calls++
+          return calls === 1
+            ? Promise.reject(new NetworkError("Gateway timeout"))
+            : Promise.resolve({
+                data: createMockResponse("ok", mockData.contract()),
+              })
+        },
+      })
+      const router = contractsRouter(mockClient)
+      const params = { name: "Test", symbol: "TST", type: "ERC721" as const }
+
+      await expect(
+        router.create(params, { idempotencyKey: "create-1" }),
+      ).rejects.toThrow(NetworkError)
+      await router.create(params, { idempotencyKey: "create-1" })
+      await router.create(params, { idempotencyKey: "create-1" })
+
+      expect(calls).toBe(2)
+    })
+
     test("should successfully create a contract", async () => {
       const mockContract: ContractEntity = mockData.contract({
         address: null,
@@ -113,7 +161,14 @@ describe("Contracts Router", () => {
 
       // Verify the call was made correctly
       expect(mockClient.post).toHaveBeenCalledTimes(1)
-      expect(mockClient.post).toHaveBeenCalledWith("/contracts/create", params)
+      expect(mockClient.post).toHaveBeenCalledWith(
+        "/contracts/create",
+        params,
+        {
+          headers: { "Idempotency-Key": expect.any(String) },
+          operation: { router: "contracts", operation: "create", params },
+        },
+      )
 
       // Verify the result
       expect(result).toEqual(mockContract)
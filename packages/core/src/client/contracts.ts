@@ -1,29 +1,40 @@
+// Generated by `bun run codegen` from src/codegen/uranium-api.ts. Do not edit.
+
 import { NetworkError } from "@uranium/types"
-import type { AxiosInstance } from "axios"
 import type {
   ContractEntity,
   CreateUserContractRequestDto,
   CreateUserContractResponseDto,
   UserContractsResponseDto,
 } from "../types/api-types"
-import { createContractSchema } from "../validation/schemas"
+import { createContractSchema } from "../validation/request-schemas"
 import { validateSchema } from "../validation/utils"
+import { IdempotencyStore, withIdempotency } from "./idempotency"
+import { toRequestConfig } from "./pipeline"
+import type { HttpTransport } from "./transport"
 import type { RequestOptions } from "./types"
 
 /**
  * Contracts API router
  * Handles NFT collection/contract operations
+ * @param client - HTTP transport
+ * @param idempotencyStore - Store deduplicating caller-provided idempotency keys
  */
-export const contractsRouter = (client: AxiosInstance) => ({
+export const contractsRouter = (
+  client: HttpTransport,
+  idempotencyStore: IdempotencyStore = new IdempotencyStore(),
+) => ({
   /**
    * List all contracts/collections owned by the user
-   * @param options - Optional request options (retry config override)
+   * @param options - Optional request options (retry, signal, timeout, headers)
    * @returns Array of contract entities
    * @throws {NetworkError} If network request fails
    */
-  list: async (_options?: RequestOptions): Promise<ContractEntity[]> => {
-    const response =
-      await client.get<UserContractsResponseDto>("/contracts/list")
+  list: async (options?: RequestOptions): Promise<ContractEntity[]> => {
+    const response = await client.get<UserContractsResponseDto>(
+      "/contracts/list",
+      toRequestConfig(options, { router: "contracts", operation: "list" }),
+    )
 
     if (!response.data.data) {
       throw new NetworkError(
@@ -41,12 +52,15 @@ export const contractsRouter = (client: AxiosInstance) => ({
   /**
    * Create a new NFT collection/contract
    * @param params - Contract creation parameters (name, symbol, type)
+   * @param options - Optional request options (retry, signal, timeout, headers, idempotencyKey)
    * @returns Created contract entity
-   * @throws {ValidationError} If validation fails
+   * @throws {ValidationError} If params are invalid
+   * @throws {LimitExceededError} If the API returns QUOTA_EXCEEDED
    * @throws {NetworkError} If network request fails
    */
   create: async (
     params: CreateUserContractRequestDto,
+    options?: RequestOptions,
   ): Promise<ContractEntity> => {
     // Validate input before sending request
     const validated = validateSchema(
@@ -55,22 +69,34 @@ export const contractsRouter = (client: AxiosInstance) => ({
       "Invalid contract parameters",
     )
 
-    const response = await client.post<CreateUserContractResponseDto>(
-      "/contracts/create",
-      validated,
-    )
+    return withIdempotency(
+      idempotencyStore,
+      "contracts.create",
+      options,
+      async (requestOptions) => {
+        const response = await client.post<CreateUserContractResponseDto>(
+          "/contracts/create",
+          validated,
+          toRequestConfig(requestOptions, {
+            router: "contracts",
+            operation: "create",
+            params: validated,
+          }),
+        )
 
-    if (!response.data.data) {
-      throw new NetworkError(
-        "Failed to create contract",
-        "API_ERROR",
-        false,
-        undefined,
-        { status: response.status, data: response.data },
-      )
-    }
+        if (!response.data.data) {
+          throw new NetworkError(
+            "Failed to create contract",
+            "API_ERROR",
+            false,
+            undefined,
+            { status: response.status, data: response.data },
+          )
+        }
 
-    return response.data.data
+        return response.data.data
+      },
+    )
   },
 })
 
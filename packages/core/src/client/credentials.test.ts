@@ -0,0 +1,300 @@
+import { describe, expect, mock, test } from "bun:test"
+import { AuthenticationError, NetworkError } from "@uranium/types"
+import { UraniumSDK } from "../index"
+import {
+  CredentialsManager,
+  createCredentialsTransport,
+  resolveCredentials,
+} from "./credentials"
+import {
+  type HttpRequestConfig,
+  type HttpResponse,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+/**
+ * Creates a raw transport answering requests with the given handler
+ */
+const createStubTransport = (
+  handler: (config: HttpRequestConfig) => Promise<unknown>,
+) => {
+  const request = mock(
+    async (config: HttpRequestConfig): Promise<HttpResponse> => ({
+      data: await handler(config),
+      status: 200,
+      headers: {},
+    }),
+  )
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request }
+}
+
+const unauthorized = (config: HttpRequestConfig) =>
+  new HttpTransportError(
+    "Request failed with status code 401",
+    "ERR_BAD_REQUEST",
+    config,
+    { data: {}, status: 401, headers: {} },
+  )
+
+/**
+ * Creates a provider returning key-1, key-2, ... on successive calls
+ */
+const createRotatingProvider = () => {
+  let version = 0
+  return mock(async () => `key-${++version}`)
+}
+
+describe("CredentialsManager", () => {
+  test("should return static keys", async () => {
+    const credentials = new CredentialsManager("static-key")
+
+    await expect(credentials.getApiKey()).resolves.toBe("static-key")
+    await expect(credentials.refresh("static-key")).resolves.toBe("static-key")
+    expect(credentials.apiKey).toBe("static-key")
+  })
+
+  test("should share one provider call between concurrent callers", async () => {
+    const provider = createRotatingProvider()
+    const credentials = new CredentialsManager(provider)
+
+    const keys = await Promise.all([
+      credentials.getApiKey(),
+      credentials.getApiKey(),
+    ])
+    await credentials.getApiKey()
+
+    expect(keys).toEqual(["key-1", "key-1"])
+    expect(provider).toHaveBeenCalledTimes(1)
+    expect(credentials.apiKey).toBe("key-1")
+  })
+
+  test("should reload keys after the TTL", async () => {
+    let time = 0
+    const provider = createRotatingProvider()
+    const credentials = new CredentialsManager(provider, {
+      ttlMs: 1000,
+      now: () => time,
+    })
+
+    await credentials.getApiKey()
+    time = 999
+    await expect(credentials.getApiKey()).resolves.toBe("key-1")
+    time = 1000
+    await expect(credentials.getApiKey()).resolves.toBe("key-2")
+  })
+
+  test("should refresh a rejected key only once", async () => {
+    const provider = createRotatingProvider()
+    const credentials = new CredentialsManager(provider)
+    await credentials.getApiKey()
+
+    const refreshed = await Promise.all([
+      credentials.refresh("key-1"),
+      credentials.refresh("key-1"),
+    ])
+    // A late caller reporting the old key gets the refreshed one
+    await expect(credentials.refresh("key-1")).resolves.toBe("key-2")
+
+    expect(refreshed).toEqual(["key-2", "key-2"])
+    expect(provider).toHaveBeenCalledTimes(2)
+  })
+
+  test("should discard keys loaded before set()", async () => {
+    let release: (key: string) => void = () => {}
+    const credentials = new CredentialsManager(
+      () =>
+        new Promise<string>((resolve) => {
+          release = resolve
+        }),
+    )
+
+    const loading = credentials.getApiKey()
+    credentials.set("swapped-key")
+    release("old-key")
+
+    await expect(loading).resolves.toBe("old-key")
+    await expect(credentials.getApiKey()).resolves.toBe("swapped-key")
+  })
+
+  test("should reject empty keys from the provider", async () => {
+    const credentials = new CredentialsManager(async () => "")
+
+    await expect(credentials.getApiKey()).rejects.toMatchObject({
+      name: "AuthenticationError",
+      code: "AUTH_REQUIRED",
+    })
+  })
+})
+
+describe("resolveCredentials", () => {
+  test("should prefer credentials over apiKey", async () => {
+    const credentials = resolveCredentials({
+      apiKey: "static-key",
+      credentials: async () => "provided-key",
+    })
+
+    await expect(credentials.getApiKey()).resolves.toBe("provided-key")
+  })
+
+  test("should reuse credentials managers", () => {
+    const credentials = new CredentialsManager("key")
+    expect(resolveCredentials({ credentials })).toBe(credentials)
+  })
+
+  test("should require an API key", () => {
+    expect(() => resolveCredentials({ apiKey: "" })).toThrow(
+      "API key is required",
+    )
+  })
+})
+
+describe("createCredentialsTransport", () => {
+  test("should replay once with the refreshed key", async () => {
+    const credentials = new CredentialsManager(createRotatingProvider())
+    const keys: string[] = []
+    const { transport, request } = createStubTransport(async () => {
+      const key = await credentials.getApiKey()
+      keys.push(key)
+      if (key === "key-1") throw new AuthenticationError()
+      return { status: "ok" }
+    })
+    const client = createCredentialsTransport(transport, credentials)
+
+    await expect(client.get("/contracts/list")).resolves.toMatchObject({
+      data: { status: "ok" },
+    })
+    expect(keys).toEqual(["key-1", "key-2"])
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should not replay when the key did not change", async () => {
+    const { transport, request } = createStubTransport(async () => {
+      throw new AuthenticationError()
+    })
+    const client = createCredentialsTransport(
+      transport,
+      new CredentialsManager("static-key"),
+    )
+
+    await expect(client.get("/contracts/list")).rejects.toBeInstanceOf(
+      AuthenticationError,
+    )
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  test("should fail when the refreshed key is rejected too", async () => {
+    const provider = createRotatingProvider()
+    const { transport, request } = createStubTransport(async () => {
+      throw new AuthenticationError()
+    })
+    const client = createCredentialsTransport(
+      transport,
+      new CredentialsManager(provider),
+    )
+
+    await expect(client.get("/contracts/list")).rejects.toBeInstanceOf(
+      AuthenticationError,
+    )
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(provider).toHaveBeenCalledTimes(2)
+  })
+
+  test("should not refresh on permission errors", async () => {
+    const provider = createRotatingProvider()
+    const { transport, request } = createStubTransport(async () => {
+      throw new AuthenticationError("Forbidden", "PERMISSION_DENIED", 403)
+    })
+    const client = createCredentialsTransport(
+      transport,
+      new CredentialsManager(provider),
+    )
+
+    await expect(client.get("/contracts/list")).rejects.toBeInstanceOf(
+      AuthenticationError,
+    )
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(provider).toHaveBeenCalledTimes(1)
+  })
+
+  test("should refresh on an expired key reported with HTTP 403", async () => {
+    const provider = createRotatingProvider()
+    const { transport, request } = createStubTransport(async () => {
+      throw new AuthenticationError("Expired", "AUTH_EXPIRED", 403)
+    })
+    const client = createCredentialsTransport(
+      transport,
+      new CredentialsManager(provider),
+    )
+
+    await expect(client.get("/contracts/list")).rejects.toBeInstanceOf(
+      AuthenticationError,
+    )
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should not refresh on other errors", async () => {
+    const provider = createRotatingProvider()
+    const { transport, request } = createStubTransport(async () => {
+      throw new NetworkError("offline")
+    })
+    const client = createCredentialsTransport(
+      transport,
+      new CredentialsManager(provider),
+    )
+
+    await expect(client.get("/contracts/list")).rejects.toBeInstanceOf(
+      NetworkError,
+    )
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(provider).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("UraniumSDK credentials", () => {
+  test("should send the provided key and replay after a 401", async () => {
+    const provider = createRotatingProvider()
+    const { transport, request } = createStubTransport(async (config) => {
+      if (config.headers?.["x-auth-token"] === "key-1") {
+        throw unauthorized(config)
+      }
+      return { status: "ok", data: [] }
+    })
+    const sdk = new UraniumSDK({ credentials: provider, transport })
+
+    await expect(sdk.contracts.list()).resolves.toEqual([])
+
+    expect(
+      request.mock.calls.map(([config]) => config.headers?.["x-auth-token"]),
+    ).toEqual(["key-1", "key-2"])
+    expect(provider).toHaveBeenCalledTimes(2)
+  })
+
+  test("should swap the key of a live instance", async () => {
+    const { transport, request } = createStubTransport(async () => ({
+      status: "ok",
+      data: [],
+    }))
+    const sdk = new UraniumSDK({ apiKey: "old-key", transport })
+
+    await sdk.contracts.list()
+    sdk.setCredentials("new-key")
+    await sdk.contracts.list()
+
+    expect(
+      request.mock.calls.map(([config]) => config.headers?.["x-auth-token"]),
+    ).toEqual(["old-key", "new-key"])
+  })
+
+  test("should require an API key or credentials", () => {
+    expect(() => new UraniumSDK({})).toThrow("API key is required")
+  })
+})
@@ -0,0 +1,263 @@
+/**
+ * Credentials
+ *
+ * Resolves the API key sent in the `x-auth-token` header: a static key or an
+ * async provider (e.g. reading from a secrets manager) whose result is cached,
+ * refreshed when the API rejects it and replaceable on a live SDK instance.
+ *
+ * @module @uranium/sdk/client/credentials
+ */
+
+import { AuthenticationError } from "@uranium/types"
+import { ErrorCode } from "../types/errors"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Function returning the current API key
+ */
+export type CredentialsProvider = () => Promise<string> | string
+
+/**
+ * Options for CredentialsManager
+ */
+export interface CredentialsManagerOptions {
+  /**
+   * How long a key returned by the provider is reused, in milliseconds.
+   * Keys are reused until refreshed when undefined.
+   * @default undefined
+   */
+  ttlMs?: number
+  /** Clock in epoch milliseconds */
+  now?: () => number
+}
+
+/**
+ * Holds the API key of an SDK instance
+ *
+ * Concurrent requests share one provider call. After the API rejects a key,
+ * `refresh()` loads a new one; requests that failed with the same key share
+ * that refresh.
+ *
+ * @example
+ * ```typescript
+ * const credentials = new CredentialsManager(
+ *   () => secrets.getSecretValue("uranium-api-key"),
+ *   { ttlMs: 10 * 60 * 1000 },
+ * )
+ * const sdk = new UraniumSDK({ credentials })
+ * ```
+ */
+export class CredentialsManager {
+  private source: string | CredentialsProvider
+  private cached?: { apiKey: string; expiresAt: number }
+  private pending?: Promise<string>
+  /** Incremented on every `set()`, so loads started before it are discarded */
+  private generation = 0
+  private readonly ttlMs?: number
+  private readonly now: () => number
+
+  constructor(
+    source: string | CredentialsProvider,
+    options: CredentialsManagerOptions = {},
+  ) {
+    this.source = source
+    this.ttlMs = options.ttlMs
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Last resolved API key, undefined until the provider has been called
+   */
+  get apiKey(): string | undefined {
+    return typeof this.source === "string" ? this.source : this.cached?.apiKey
+  }
+
+  /**
+   * Returns the API key, calling the provider when no valid key is cached
+   */
+  async getApiKey(): Promise<string> {
+    if (typeof this.source === "string") {
+      return this.source
+    }
+    if (this.cached && this.now() < this.cached.expiresAt) {
+      return this.cached.apiKey
+    }
+    return this.load()
+  }
+
+  /**
+   * Loads a new API key from the provider
+   * @param rejectedApiKey - Key the API rejected; when another caller already
+   * replaced it, the current key is returned without calling the provider
+   * @returns The new API key (unchanged for static keys)
+   */
+  async refresh(rejectedApiKey?: string): Promise<string> {
+    if (typeof this.source === "string") {
+      return this.source
+    }
+    if (
+      rejectedApiKey !== undefined &&
+      this.cached &&
+      this.cached.apiKey !== rejectedApiKey
+    ) {
+      return this.cached.apiKey
+    }
+    this.cached = undefined
+    return this.load()
+  }
+
+  /**
+   * Replaces the API key or provider; subsequent requests use the new one
+   * @param source - API key or provider
+   */
+  set(source: string | CredentialsProvider): void {
+    this.source = source
+    this.cached = undefined
+    this.pending = undefined
+    this.generation++
+  }
+
+  private load(): Promise<string> {
+    const provider = this.source
+    if (typeof provider === "string") {
+      return Promise.resolve(provider)
+    }
+    if (this.pending) {
+      return this.pending
+    }
+
+    const generation = this.generation
+    const pending = (async () => {
+      const apiKey = await provider()
+      if (!apiKey) {
+        throw new AuthenticationError(
+          "Credentials provider returned no API key",
+          ErrorCode.AUTH_REQUIRED,
+        )
+      }
+      if (generation === this.generation) {
+        this.cached = {
+          apiKey,
+          expiresAt:
+            this.ttlMs === undefined ? Infinity : this.now() + this.ttlMs,
+        }
+      }
+      return apiKey
+    })()
+
+    this.pending = pending
+    const settle = () => {
+      if (this.pending === pending) this.pending = undefined
+    }
+    pending.then(settle, settle)
+    return pending
+  }
+}
+
+/**
+ * Returns the credentials of a configuration, creating a manager when the
+ * configuration holds a static key or a provider function
+ * @param config - Configuration with `credentials` and/or `apiKey`
+ * @returns Credentials manager
+ * @throws Error when neither `credentials` nor `apiKey` is set
+ */
+export const resolveCredentials = (config: {
+  apiKey?: string
+  credentials?: CredentialsManager | CredentialsProvider
+}): CredentialsManager => {
+  if (config.credentials instanceof CredentialsManager) {
+    return config.credentials
+  }
+  const source = config.credentials ?? config.apiKey
+  if (!source) {
+    throw new Error(
+      "API key is required. Get your API key from: https://portal.uranium.pro/dashboard/profile/api-keys",
+    )
+  }
+  return new CredentialsManager(source)
+}
+
+/**
+ * Checks if a new API key could fix a failed request: the key was rejected
+ * (HTTP 401, AUTH_INVALID or AUTH_EXPIRED), as opposed to a permission
+ * denied to a valid key (HTTP 403)
+ */
+const isRejectedKeyError = (error: unknown): boolean =>
+  error instanceof AuthenticationError &&
+  (error.statusCode === 401 ||
+    error.code === ErrorCode.AUTH_INVALID ||
+    error.code === ErrorCode.AUTH_EXPIRED)
+
+/**
+ * Wraps an API transport so requests whose API key was rejected are replayed
+ * once after refreshing the key
+ *
+ * Requests are not replayed when the refresh yields the key that was rejected
+ * (e.g. a static key), nor for permission errors (HTTP 403).
+ *
+ * @param transport - API transport (already wrapped with the request pipeline)
+ * @param defaultCredentials - Credentials of requests without `credentials`
+ * @returns Transport that can be passed to the routers
+ */
+export const createCredentialsTransport = (
+  transport: HttpTransport,
+  defaultCredentials: CredentialsManager,
+): HttpTransport => {
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const credentials = requestConfig.credentials ?? defaultCredentials
+    const apiKey = await credentials.getApiKey()
+    try {
+      return await transport.request<T>(requestConfig)
+    } catch (error) {
+      if (!isRejectedKeyError(error) || requestConfig.signal?.aborted) {
+        throw error
+      }
+      if ((await credentials.refresh(apiKey)) === apiKey) {
+        throw error
+      }
+      return transport.request<T>(requestConfig)
+    }
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
+
+/**
+ * Wraps a transport so every request is sent with the given credentials,
+ * overriding the credentials the transport was created with
+ *
+ * @param transport - Shared router transport
+ * @param credentials - Credentials of one tenant
+ * @returns Transport that can be passed to the routers
+ */
+export const createScopedTransport = (
+  transport: HttpTransport,
+  credentials: CredentialsManager,
+): HttpTransport => {
+  const request = <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> =>
+    transport.request<T>({ ...requestConfig, credentials })
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, expect, mock, test } from "bun:test"
+import { ValidationError } from "@uranium/types"
+import type { ContractEntity } from "../types/entities"
+import { CollectionType } from "../types/enums"
+import { ErrorCode } from "../types/errors"
+import {
+  assertSandboxCollection,
+  createSandboxTransport,
+  ENVIRONMENTS,
+  resolveEnvironment,
+  type UraniumEnvironment,
+} from "./environment"
+import { resolveConfig } from "./pipeline"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+const createContract = (id: string, type: CollectionType): ContractEntity => ({
+  id,
+  name: `Collection ${id}`,
+  symbol: "COL",
+  type,
+  status: "COMPLETE",
+  ercType: "ERC721",
+  createdAt: null,
+  lastTokenId: 0,
+})
+
+const CONTRACTS = [
+  createContract("sandbox1", CollectionType.SANDBOX),
+  createContract("created1", CollectionType.CREATED),
+]
+
+/**
+ * Creates a transport answering contract listings with CONTRACTS
+ */
+const createMockTransport = () => {
+  const request = mock(async (config: HttpRequestConfig) => {
+    const data =
+      config.url === "/contracts/list"
+        ? { status: "ok", data: CONTRACTS }
+        : { status: "ok", data: { status: "PROCESSING" } }
+    return { data, status: 200, headers: {} } as HttpResponse
+  })
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request }
+}
+
+const startMinting = (transport: HttpTransport, contractId?: string) =>
+  transport.post(
+    "/assets/start-minting",
+    { fileId: "file1", contractId },
+    { operation: { router: "assets", operation: "startMinting" } },
+  )
+
+describe("resolveEnvironment", () => {
+  test("should default to production", () => {
+    expect(resolveEnvironment({})).toEqual({
+      ...ENVIRONMENTS.production,
+      baseUrl: "https://gw.urnm.pro",
+    })
+  })
+
+  test("should validate sandbox responses like production", () => {
+    expect(
+      resolveEnvironment({ environment: "sandbox" }).responseValidation,
+    ).toBe(resolveEnvironment({ environment: "production" }).responseValidation)
+  })
+
+  test("should only restrict minting in the sandbox environment", () => {
+    expect(resolveEnvironment({ environment: "sandbox" }).sandboxOnly).toBe(
+      true,
+    )
+    expect(
+      resolveEnvironment({
+        environment: "staging",
+        baseUrl: "https://staging.example.com",
+      }).sandboxOnly,
+    ).toBe(false)
+  })
+
+  test("should require a base URL in the staging environment", () => {
+    expect(() => resolveEnvironment({ environment: "staging" })).toThrow(
+      ValidationError,
+    )
+    expect(
+      resolveEnvironment({
+        environment: "staging",
+        baseUrl: "https://staging.example.com",
+      }).baseUrl,
+    ).toBe("https://staging.example.com")
+  })
+
+  test("should throw ValidationError for unknown environments", () => {
+    expect(() =>
+      resolveEnvironment({ environment: "mainnet" as UraniumEnvironment }),
+    ).toThrow(ValidationError)
+  })
+})
+
+describe("resolveConfig", () => {
+  test("should use the base URL of the environment", () => {
+    const config = resolveConfig({ apiKey: "key", environment: "local" })
+
+    expect(config.environment).toBe("local")
+    expect(config.baseUrl).toBe(ENVIRONMENTS.local.baseUrl)
+  })
+
+  test("should prefer an explicit base URL", () => {
+    const config = resolveConfig({
+      apiKey: "key",
+      environment: "staging",
+      baseUrl: "https://proxy.example.com",
+    })
+
+    expect(config.baseUrl).toBe("https://proxy.example.com")
+  })
+})
+
+describe("assertSandboxCollection", () => {
+  test("should accept SANDBOX collections", () => {
+    expect(() => assertSandboxCollection(CONTRACTS, "sandbox1")).not.toThrow()
+  })
+
+  test("should refuse other collection types", () => {
+    try {
+      assertSandboxCollection(CONTRACTS, "created1")
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError)
+      expect((error as ValidationError).code).toBe(
+        ErrorCode.SANDBOX_COLLECTION_REQUIRED,
+      )
+      expect((error as ValidationError).message).toContain("CREATED")
+    }
+  })
+
+  test("should refuse unknown collections", () => {
+    expect(() => assertSandboxCollection(CONTRACTS, "missing")).toThrow(
+      "unknown collection",
+    )
+  })
+})
+
+describe("createSandboxTransport", () => {
+  test("should mint into SANDBOX collections", async () => {
+    const { transport, request } = createMockTransport()
+    const sandbox = createSandboxTransport(transport)
+
+    await startMinting(sandbox, "sandbox1")
+
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(request.mock.calls[1]?.[0].url).toBe("/assets/start-minting")
+  })
+
+  test("should refuse to mint into other collections before sending", async () => {
+    const { transport, request } = createMockTransport()
+    const sandbox = createSandboxTransport(transport)
+
+    await expect(startMinting(sandbox, "created1")).rejects.toThrow(
+      ValidationError,
+    )
+    await expect(startMinting(sandbox)).rejects.toThrow(ValidationError)
+    expect(request.mock.calls.map(([config]) => config.url)).not.toContain(
+      "/assets/start-minting",
+    )
+  })
+
+  test("should remember SANDBOX collections", async () => {
+    const { transport, request } = createMockTransport()
+    const sandbox = createSandboxTransport(transport)
+
+    await startMinting(sandbox, "sandbox1")
+    await startMinting(sandbox, "sandbox1")
+
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  test("should pass other requests through", async () => {
+    const { transport, request } = createMockTransport()
+    const sandbox = createSandboxTransport(transport)
+
+    await sandbox.get("/assets/", {
+      operation: { router: "assets", operation: "getList" },
+    })
+
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+})
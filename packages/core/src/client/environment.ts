@@ -0,0 +1,192 @@
+/**
+ * Environments
+ *
+ * Presets selected with the `environment` option: the API base URL and
+ * defaults suited to each environment. In the sandbox environment, minting
+ * is restricted to SANDBOX collections so test scripts never mint on mainnet.
+ *
+ * @module @uranium/sdk/client/environment
+ */
+
+import type { UserContractsResponseDto } from "../types/api-types"
+import type { ContractEntity } from "../types/entities"
+import { CollectionType } from "../types/enums"
+import { ErrorCode, ValidationError } from "../types/errors"
+import type { ResponseValidationMode } from "./response-validation"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Uranium environment an SDK instance runs against
+ * - "production": live API, mints on mainnet
+ * - "staging": pre-release API (its base URL must be set with `baseUrl`)
+ * - "sandbox": live API, minting restricted to SANDBOX collections
+ * - "local": API running on the developer machine
+ */
+export type UraniumEnvironment = "production" | "staging" | "sandbox" | "local"
+
+/**
+ * Defaults applied for an environment (explicit config options take precedence)
+ */
+export interface EnvironmentPreset {
+  /** API base URL, undefined when it must be set with the `baseUrl` option */
+  baseUrl?: string
+  /** Response validation mode */
+  responseValidation: ResponseValidationMode
+  /** Refuse to mint into collections other than SANDBOX ones */
+  sandboxOnly: boolean
+}
+
+/**
+ * Default environment
+ */
+export const DEFAULT_ENVIRONMENT: UraniumEnvironment = "production"
+
+/**
+ * Presets per environment
+ */
+export const ENVIRONMENTS: Record<UraniumEnvironment, EnvironmentPreset> = {
+  production: {
+    baseUrl: "https://gw.urnm.pro",
+    responseValidation: "warn",
+    sandboxOnly: false,
+  },
+  staging: {
+    responseValidation: "strict",
+    sandboxOnly: false,
+  },
+  // Same gateway as production, so responses are validated the same way
+  sandbox: {
+    baseUrl: "https://gw.urnm.pro",
+    responseValidation: "warn",
+    sandboxOnly: true,
+  },
+  local: {
+    baseUrl: "http://localhost:3000",
+    responseValidation: "strict",
+    sandboxOnly: false,
+  },
+}
+
+/**
+ * Returns the preset of the configured environment
+ * @param config - Configuration with an optional `environment` and `baseUrl`
+ * @returns Environment preset, with the configured base URL for environments
+ * without a default one
+ * @throws ValidationError for unknown environments, or when the environment
+ * has no default base URL and `baseUrl` is not set
+ */
+export const resolveEnvironment = (config: {
+  environment?: UraniumEnvironment
+  baseUrl?: string
+}): EnvironmentPreset & { baseUrl: string } => {
+  const environment = config.environment ?? DEFAULT_ENVIRONMENT
+  const preset = ENVIRONMENTS[environment]
+  if (!preset) {
+    throw new ValidationError(
+      `Unknown environment "${environment}". Expected one of: ${Object.keys(ENVIRONMENTS).join(", ")}`,
+      ErrorCode.INVALID_INPUT,
+      { environment: ["Unknown environment"] },
+    )
+  }
+  if (preset.baseUrl !== undefined) {
+    return { ...preset, baseUrl: preset.baseUrl }
+  }
+  if (!config.baseUrl) {
+    throw new ValidationError(
+      `The "${environment}" environment has no default base URL. Set the baseUrl option.`,
+      ErrorCode.INVALID_INPUT,
+      { baseUrl: [`Required for the ${environment} environment`] },
+    )
+  }
+  return { ...preset, baseUrl: config.baseUrl }
+}
+
+/**
+ * Checks that a collection can be minted into in the sandbox environment
+ * @param contracts - Collections of the account
+ * @param contractId - Collection to mint into
+ * @throws ValidationError when the collection is unknown or not a SANDBOX collection
+ */
+export const assertSandboxCollection = (
+  contracts: readonly ContractEntity[],
+  contractId: string,
+): void => {
+  const contract = contracts.find((candidate) => candidate.id === contractId)
+  if (contract?.type === CollectionType.SANDBOX) {
+    return
+  }
+
+  throw new ValidationError(
+    contract
+      ? `Refusing to mint into ${contract.type} collection "${contract.name}" in the sandbox environment. Use a SANDBOX collection.`
+      : `Refusing to mint into unknown collection ${contractId} in the sandbox environment. Use a SANDBOX collection.`,
+    ErrorCode.SANDBOX_COLLECTION_REQUIRED,
+    { contractId: ["Only SANDBOX collections can be minted into"] },
+    { contractId, collectionType: contract?.type },
+  )
+}
+
+/**
+ * Wraps an API transport so `assets.startMinting` only targets SANDBOX collections
+ *
+ * The collection type is looked up with `contracts.list` (with the credentials
+ * of the minting request) before the mint request is sent. Collections found
+ * to be SANDBOX ones are remembered, as collection types do not change.
+ *
+ * @param transport - API transport
+ * @returns Transport that can be passed to the routers
+ */
+export const createSandboxTransport = (
+  transport: HttpTransport,
+): HttpTransport => {
+  const sandboxContracts = new Set<string>()
+
+  const assertMintTarget = async (
+    requestConfig: HttpRequestConfig,
+  ): Promise<void> => {
+    const { contractId } = (requestConfig.data ?? {}) as {
+      contractId?: string
+    }
+    if (contractId && sandboxContracts.has(contractId)) {
+      return
+    }
+
+    const response = await transport.get<UserContractsResponseDto>(
+      "/contracts/list",
+      {
+        operation: { router: "contracts", operation: "list" },
+        signal: requestConfig.signal,
+        credentials: requestConfig.credentials,
+        parentSpan: requestConfig.parentSpan,
+      },
+    )
+    assertSandboxCollection(response.data.data ?? [], contractId ?? "")
+    if (contractId) sandboxContracts.add(contractId)
+  }
+
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const operation = requestConfig.operation
+    if (
+      operation?.router === "assets" &&
+      operation.operation === "startMinting"
+    ) {
+      await assertMintTarget(requestConfig)
+    }
+    return transport.request<T>(requestConfig)
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
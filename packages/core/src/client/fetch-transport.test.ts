@@ -0,0 +1,136 @@
+import { describe, expect, mock, test } from "bun:test"
+import { createFetchTransport } from "./fetch-transport"
+import { HttpTransportError } from "./transport"
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  })
+
+describe("createFetchTransport", () => {
+  test("should send GET requests with base URL and query params", async () => {
+    const fetchMock = mock(async (_url: string, _init?: RequestInit) =>
+      jsonResponse({ status: "ok" }),
+    )
+    const transport = createFetchTransport({
+      fetch: fetchMock as unknown as typeof fetch,
+      baseURL: "https://api.example.com/",
+    })
+
+    const response = await transport.get("/assets/", {
+      params: { page: 2, quickFilter: undefined },
+    })
+
+    expect(response.status).toBe(200)
+    expect(response.data).toEqual({ status: "ok" })
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      "https://api.example.com/assets/?page=2",
+    )
+    expect(fetchMock.mock.calls[0]?.[1]?.method).toBe("GET")
+  })
+
+  test("should serialize plain objects as JSON", async () => {
+    const fetchMock = mock(async (_url: string, _init?: RequestInit) =>
+      jsonResponse({}),
+    )
+    const transport = createFetchTransport({
+      fetch: fetchMock as unknown as typeof fetch,
+    })
+
+    await transport.post("https://api.example.com/contracts/create", {
+      name: "Test",
+    })
+
+    const init = fetchMock.mock.calls[0]?.[1]
+    expect(init?.body).toBe(JSON.stringify({ name: "Test" }))
+    expect((init?.headers as Record<string, string>)["Content-Type"]).toBe(
+      "application/json",
+    )
+  })
+
+  test("should send binary bodies as-is and report progress", async () => {
+    const fetchMock = mock(
+      async (_url: string, _init?: RequestInit) =>
+        new Response(null, { status: 200, headers: { ETag: '"abc"' } }),
+    )
+    const transport = createFetchTransport({
+      fetch: fetchMock as unknown as typeof fetch,
+    })
+    const data = new ArrayBuffer(16)
+    const progress: number[] = []
+
+    const response = await transport.put("https://s3.example.com/part1", data, {
+      onUploadProgress: (event) =>
+        progress.push(event.loaded / (event.total ?? 1)),
+    })
+
+    expect(fetchMock.mock.calls[0]?.[1]?.body).toBe(data)
+    expect(response.headers.etag).toBe('"abc"')
+    expect(progress).toEqual([1])
+  })
+
+  test("should reject non-2xx responses with HttpTransportError", async () => {
+    const transport = createFetchTransport({
+      fetch: (async () =>
+        jsonResponse({ errorCode: "AUTH_REQUIRED" }, 401)) as typeof fetch,
+    })
+
+    try {
+      await transport.get("https://api.example.com/me")
+      expect(true).toBe(false)
+    } catch (error) {
+      expect(error).toBeInstanceOf(HttpTransportError)
+      expect((error as HttpTransportError).code).toBe("ERR_BAD_REQUEST")
+      expect((error as HttpTransportError).response?.status).toBe(401)
+      expect((error as HttpTransportError).response?.data).toEqual({
+        errorCode: "AUTH_REQUIRED",
+      })
+    }
+  })
+
+  test("should map network failures to ERR_NETWORK", async () => {
+    const transport = createFetchTransport({
+      fetch: (async () => {
+        throw new TypeError("fetch failed")
+      }) as typeof fetch,
+    })
+
+    await expect(
+      transport.get("https://api.example.com"),
+    ).rejects.toMatchObject({ code: "ERR_NETWORK", message: "fetch failed" })
+  })
+
+  test("should reject already-aborted requests without calling fetch", async () => {
+    const fetchMock = mock(async () => jsonResponse({}))
+    const transport = createFetchTransport({
+      fetch: fetchMock as unknown as typeof fetch,
+    })
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      transport.get("https://api.example.com", { signal: controller.signal }),
+    ).rejects.toMatchObject({ code: "ERR_CANCELED" })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test("should time out slow requests with ECONNABORTED", async () => {
+    const transport = createFetchTransport({
+      fetch: ((_url: string, init?: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(new DOMException("aborted", "AbortError")),
+          )
+        })) as typeof fetch,
+    })
+
+    await expect(
+      transport.get("https://api.example.com", { timeout: 10 }),
+    ).rejects.toMatchObject({ code: "ECONNABORTED" })
+  })
+})
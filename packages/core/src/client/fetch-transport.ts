@@ -0,0 +1,274 @@
+/**
+ * Fetch Transport
+ *
+ * Zero-dependency HttpTransport built on the global `fetch`, for runtimes
+ * where Axios is unavailable or undesirable (Cloudflare Workers, Deno, Bun).
+ *
+ * This is a raw transport: it only sends requests and normalizes responses
+ * and failures. Authentication, retries and error mapping are applied by
+ * `createHttpClient`.
+ *
+ * @module @uranium/sdk/client/fetch-transport
+ */
+
+import {
+  type HttpRequestConfig,
+  type HttpResponse,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+/**
+ * Options for the fetch transport
+ */
+export interface FetchTransportOptions {
+  /**
+   * Fetch implementation to use
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch
+
+  /**
+   * Base URL prepended to relative request URLs
+   */
+  baseURL?: string
+
+  /**
+   * Default timeout in milliseconds (0 disables the timeout)
+   * @default 0
+   */
+  timeout?: number
+
+  /**
+   * Headers sent with every request
+   */
+  headers?: Record<string, string>
+}
+
+/**
+ * Builds the full request URL from base URL, path and query parameters
+ */
+const buildUrl = (
+  baseURL: string | undefined,
+  url: string | undefined,
+  params: HttpRequestConfig["params"],
+): string => {
+  let fullUrl = url ?? ""
+
+  if (baseURL && !/^[a-z][a-z\d+\-.]*:\/\//i.test(fullUrl)) {
+    fullUrl = `${baseURL.replace(/\/+$/, "")}/${fullUrl.replace(/^\/+/, "")}`
+  }
+
+  if (params) {
+    const searchParams = new URLSearchParams()
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) searchParams.append(key, String(value))
+    }
+    const query = searchParams.toString()
+    if (query) {
+      fullUrl += `${fullUrl.includes("?") ? "&" : "?"}${query}`
+    }
+  }
+
+  return fullUrl
+}
+
+/**
+ * Serializes the request body, sending plain objects as JSON
+ */
+const serializeBody = (
+  data: unknown,
+  headers: Record<string, string>,
+): BodyInit | undefined => {
+  if (data === undefined || data === null) {
+    return undefined
+  }
+
+  if (
+    typeof data === "string" ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    (typeof Blob !== "undefined" && data instanceof Blob) ||
+    (typeof FormData !== "undefined" && data instanceof FormData) ||
+    (typeof URLSearchParams !== "undefined" && data instanceof URLSearchParams)
+  ) {
+    return data as BodyInit
+  }
+
+  if (!Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = "application/json"
+  }
+  return JSON.stringify(data)
+}
+
+/**
+ * Returns the size of a request body in bytes, if it can be determined
+ */
+const getBodySize = (body: BodyInit | undefined): number | undefined => {
+  if (body === undefined) return 0
+  if (typeof body === "string") return new TextEncoder().encode(body).length
+  if (body instanceof ArrayBuffer) return body.byteLength
+  if (ArrayBuffer.isView(body)) return body.byteLength
+  if (typeof Blob !== "undefined" && body instanceof Blob) return body.size
+  return undefined
+}
+
+/**
+ * Parses the response body as JSON when possible, falling back to text
+ */
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text()
+  if (!text) {
+    return null
+  }
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+/**
+ * Converts fetch Headers into a plain object with lower-cased names
+ */
+const headersToObject = (headers: Headers): Record<string, string> => {
+  const result: Record<string, string> = {}
+  headers.forEach((value, key) => {
+    result[key.toLowerCase()] = value
+  })
+  return result
+}
+
+/**
+ * Creates an HttpTransport backed by the global fetch
+ *
+ * Upload progress is reported once the body has been sent (fetch has no
+ * incremental upload progress), so callers still receive a final 100% event.
+ *
+ * @param options - Fetch transport options
+ * @returns HttpTransport implementation
+ *
+ * @example
+ * ```typescript
+ * const transport = createFetchTransport({ baseURL: "https://gw.urnm.pro" })
+ * const response = await transport.get("/contracts/list")
+ * ```
+ */
+export const createFetchTransport = (
+  options: FetchTransportOptions = {},
+): HttpTransport => {
+  const request = async <T>(
+    config: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const fetchImpl = options.fetch ?? globalThis.fetch
+    const method = (config.method ?? "GET").toUpperCase()
+    const url = buildUrl(
+      config.baseURL ?? options.baseURL,
+      config.url,
+      config.params,
+    )
+    const headers: Record<string, string> = {
+      ...options.headers,
+      ...config.headers,
+    }
+    const body = serializeBody(config.data, headers)
+
+    if (config.signal?.aborted) {
+      throw new HttpTransportError("canceled", "ERR_CANCELED", config)
+    }
+
+    // Combine caller signal and timeout into a single controller
+    const controller = new AbortController()
+    const onAbort = () => controller.abort()
+    config.signal?.addEventListener("abort", onAbort)
+
+    const timeout = config.timeout ?? options.timeout ?? 0
+    let timedOut = false
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true
+            controller.abort()
+          }, timeout)
+        : undefined
+
+    try {
+      const fetchResponse = await fetchImpl(url, {
+        method,
+        headers,
+        body,
+        signal: controller.signal,
+      })
+
+      const response: HttpResponse<T> = {
+        data: (await parseBody(fetchResponse)) as T,
+        status: fetchResponse.status,
+        statusText: fetchResponse.statusText,
+        headers: headersToObject(fetchResponse.headers),
+      }
+
+      if (!fetchResponse.ok) {
+        throw new HttpTransportError(
+          `Request failed with status code ${fetchResponse.status}`,
+          fetchResponse.status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+          config,
+          response,
+        )
+      }
+
+      if (config.onUploadProgress && body !== undefined) {
+        const size = getBodySize(body)
+        config.onUploadProgress({ loaded: size ?? 0, total: size })
+      }
+
+      return response
+    } catch (error) {
+      if (error instanceof HttpTransportError) {
+        throw error
+      }
+
+      if (timedOut) {
+        throw new HttpTransportError(
+          `timeout of ${timeout}ms exceeded`,
+          "ECONNABORTED",
+          config,
+          undefined,
+          error,
+        )
+      }
+
+      if (config.signal?.aborted) {
+        throw new HttpTransportError(
+          "canceled",
+          "ERR_CANCELED",
+          config,
+          undefined,
+          error,
+        )
+      }
+
+      throw new HttpTransportError(
+        error instanceof Error && error.message
+          ? error.message
+          : "Network Error",
+        "ERR_NETWORK",
+        config,
+        undefined,
+        error,
+      )
+    } finally {
+      if (timer) clearTimeout(timer)
+      config.signal?.removeEventListener("abort", onAbort)
+    }
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, mock, test } from "bun:test"
+import {
+  generateIdempotencyKey,
+  IdempotencyStore,
+  withIdempotency,
+} from "./idempotency"
+import { toRequestConfig } from "./pipeline"
+
+describe("generateIdempotencyKey", () => {
+  test("should generate unique keys", () => {
+    expect(generateIdempotencyKey()).not.toBe(generateIdempotencyKey())
+  })
+})
+
+describe("IdempotencyStore", () => {
+  test("should run an operation once per key", async () => {
+    const store = new IdempotencyStore()
+    const operation = mock(async () => ({ id: "contract1" }))
+
+    const first = await store.run("contracts.create:k1", operation)
+    const second = await store.run("contracts.create:k1", operation)
+
+    expect(second).toBe(first)
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  test("should share in-flight operations", async () => {
+    const store = new IdempotencyStore()
+    let resolve: (value: string) => void = () => {}
+    const operation = mock(
+      () =>
+        new Promise<string>((r) => {
+          resolve = r
+        }),
+    )
+
+    const first = store.run("k1", operation)
+    const second = store.run("k1", operation)
+    resolve("done")
+
+    expect(await first).toBe("done")
+    expect(await second).toBe("done")
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  test("should forget failed operations", async () => {
+    const store = new IdempotencyStore()
+
+    await expect(
+      store.run("k1", async () => {
+        throw new Error("timeout")
+      }),
+    ).rejects.toThrow("timeout")
+
+    expect(store.has("k1")).toBe(false)
+    expect(await store.run("k1", async () => "retried")).toBe("retried")
+  })
+
+  test("should expire results after ttl", async () => {
+    let now = 0
+    const store = new IdempotencyStore({ ttl: 1000 }, () => now)
+    const operation = mock(async () => "result")
+
+    await store.run("k1", operation)
+    now = 1000
+    await store.run("k1", operation)
+
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  test("should evict the oldest keys beyond maxEntries", async () => {
+    const store = new IdempotencyStore({ maxEntries: 2 })
+
+    await store.run("k1", async () => 1)
+    await store.run("k2", async () => 2)
+    await store.run("k3", async () => 3)
+
+    expect(store.size).toBe(2)
+    expect(store.has("k1")).toBe(false)
+    expect(store.has("k3")).toBe(true)
+  })
+})
+
+describe("withIdempotency", () => {
+  test("should generate a key when none is given", async () => {
+    const send = mock(async (options: { idempotencyKey?: string }) =>
+      toRequestConfig(options),
+    )
+
+    const config = await withIdempotency(
+      new IdempotencyStore(),
+      "assets.startMinting",
+      { timeout: 100 },
+      send,
+    )
+
+    expect(config.timeout).toBe(100)
+    expect(config.headers?.["Idempotency-Key"]).toBeString()
+  })
+
+  test("should scope caller keys by operation", async () => {
+    const store = new IdempotencyStore()
+    const send = mock(async () => "ok")
+
+    await withIdempotency(
+      store,
+      "contracts.create",
+      { idempotencyKey: "k" },
+      send,
+    )
+    await withIdempotency(
+      store,
+      "assets.startMinting",
+      { idempotencyKey: "k" },
+      send,
+    )
+
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+})
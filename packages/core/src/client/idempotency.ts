@@ -0,0 +1,180 @@
+/**
+ * Idempotency
+ *
+ * Idempotency keys for non-idempotent operations (contract creation,
+ * minting). A key is generated per logical operation and sent in the
+ * `Idempotency-Key` header on the first attempt and every retry, so the
+ * gateway can recognize replays of the same operation.
+ *
+ * Callers can supply their own key through `RequestOptions.idempotencyKey`.
+ * Re-submitting a caller key within the same process returns the result of
+ * the first submission from a local store instead of sending a new request.
+ *
+ * @module @uranium/sdk/client/idempotency
+ */
+
+import type { RequestOptions } from "./types"
+
+/**
+ * Header carrying the idempotency key
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key"
+
+/**
+ * Generates a new idempotency key
+ * @returns Random UUID
+ */
+export const generateIdempotencyKey = (): string => {
+  return crypto.randomUUID()
+}
+
+/**
+ * Options for the idempotency store
+ */
+export interface IdempotencyStoreOptions {
+  /**
+   * Time in milliseconds a result is remembered
+   * @default 3600000 (1 hour)
+   */
+  ttl?: number
+
+  /**
+   * Maximum number of remembered keys; the oldest entries are evicted first
+   * @default 1000
+   */
+  maxEntries?: number
+}
+
+/**
+ * Stored result of an operation
+ */
+interface IdempotencyEntry {
+  promise: Promise<unknown>
+  expiresAt: number
+}
+
+/**
+ * In-process store of operation results keyed by idempotency key
+ *
+ * Concurrent submissions of the same key share the in-flight request.
+ * Failed operations are forgotten so they can be submitted again.
+ */
+export class IdempotencyStore {
+  private readonly ttl: number
+  private readonly maxEntries: number
+  private readonly entries = new Map<string, IdempotencyEntry>()
+
+  constructor(
+    options: IdempotencyStoreOptions = {},
+    private readonly now: () => number = Date.now,
+  ) {
+    this.ttl = options.ttl ?? 3600000
+    this.maxEntries = options.maxEntries ?? 1000
+  }
+
+  /**
+   * Number of remembered keys (including expired entries not yet pruned)
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Runs an operation once per key
+   * @param key - Idempotency key (scoped by the caller, e.g. "contracts.create:<key>")
+   * @param operation - Operation to run on first submission
+   * @returns Result of the first submission of the key
+   */
+  run<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const existing = this.entries.get(key)
+    if (existing && existing.expiresAt > this.now()) {
+      return existing.promise as Promise<T>
+    }
+
+    const promise = operation()
+    const entry: IdempotencyEntry = {
+      promise,
+      expiresAt: this.now() + this.ttl,
+    }
+
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.prune()
+
+    promise.catch(() => {
+      // Forget failures so the operation can be submitted again
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key)
+      }
+    })
+
+    return promise
+  }
+
+  /**
+   * Checks if a key has a remembered result
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key)
+    return entry !== undefined && entry.expiresAt > this.now()
+  }
+
+  /**
+   * Forgets a key
+   */
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  /**
+   * Forgets all keys
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+
+  private prune(): void {
+    const now = this.now()
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+
+    // Map iteration order is insertion order: evict oldest first
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+/**
+ * Runs a non-idempotent operation with an idempotency key
+ *
+ * Uses the caller's `idempotencyKey` or generates one, and passes it to
+ * `send` in the request options. Caller keys are deduplicated through
+ * the store.
+ *
+ * @param store - Store used to deduplicate caller keys
+ * @param operation - Operation name used to scope keys (e.g. "contracts.create")
+ * @param options - Request options passed to the router method
+ * @param send - Sends the request with the given options
+ * @returns Operation result
+ */
+export const withIdempotency = <T>(
+  store: IdempotencyStore,
+  operation: string,
+  options: RequestOptions | undefined,
+  send: (options: RequestOptions) => Promise<T>,
+): Promise<T> => {
+  const idempotencyKey = options?.idempotencyKey ?? generateIdempotencyKey()
+  const requestOptions: RequestOptions = { ...options, idempotencyKey }
+
+  if (!options?.idempotencyKey) {
+    return send(requestOptions)
+  }
+
+  return store.run(`${operation}:${idempotencyKey}`, () => send(requestOptions))
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test"
-import type { UraniumConfig } from "../types/config"
+import type { UraniumConfig } from "./config"
 import {
   createApiClient,
   createApiRouters,
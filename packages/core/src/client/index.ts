@@ -1,26 +1,219 @@
-import type { AxiosInstance } from "axios"
-import type { UraniumConfig } from "../types/config"
 import { type AccountRouter, accountRouter } from "./account"
 import { type AssetsRouter, assetsRouter } from "./assets"
-import { createApiClient } from "./base"
+import { createApiTransport } from "./base"
+import { createCachingTransport } from "./cache"
+import { createCoalescingTransport } from "./coalescing"
+import type { UraniumConfig } from "./config"
 import { type ContractsRouter, contractsRouter } from "./contracts"
+import { createCredentialsTransport, resolveCredentials } from "./credentials"
+import { createSandboxTransport, resolveEnvironment } from "./environment"
+import { IdempotencyStore } from "./idempotency"
+import { resolveLogger } from "./logger"
+import { createMetricsPlugin } from "./metrics"
+import { createOfflineQueueTransport } from "./offline-queue"
+import { createPluginTransport, type UraniumPlugin } from "./plugins"
+import { createResponseValidationTransport } from "./response-validation"
+import { createTracingTransport } from "./tracing"
+import type { HttpTransport } from "./transport"
 
 export type { AxiosInstance } from "axios"
 export { accountRouter } from "./account"
+export {
+  AssetHandle,
+  type AssetsRouterWithHandles,
+  DEFAULT_WAIT_INTERVAL_MS,
+  DEFAULT_WAIT_TIMEOUT_MS,
+  type WaitUntilOptions,
+  withAssetHandles,
+} from "./asset-handle"
+export {
+  type AssetLookupOptions,
+  type AssetsRouterWithLookup,
+  DEFAULT_ASSET_LOOKUP_MAX_PAGES,
+  withAssetLookup,
+} from "./asset-lookup"
+export {
+  type AssetIterationOptions,
+  type AssetsRouterWithPagination,
+  type ListAllAssetsOptions,
+  withAssetPagination,
+} from "./asset-pagination"
 export { assetsRouter } from "./assets"
-export { createApiClient, createRequest } from "./base"
+export {
+  createApiClient,
+  createApiTransport,
+  createRequest,
+  createUploadTransport,
+} from "./base"
+export {
+  CACHE_INVALIDATIONS,
+  type CacheableOperation,
+  type CacheEntry,
+  type CacheStore,
+  createCachingTransport,
+  DEFAULT_CACHE_TTL_MS,
+  LruCacheStore,
+  type LruCacheStoreOptions,
+  ResponseCache,
+  type ResponseCacheOptions,
+} from "./cache"
+export {
+  Cassette,
+  type CassetteFileSystem,
+  type CassetteInteraction,
+  type CassetteMode,
+  type CassetteOptions,
+  type CassetteRequest,
+  type CassetteResponse,
+  type CassetteStorage,
+  createFileCassetteStorage,
+  MemoryCassetteStorage,
+} from "./cassette"
+export {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./circuit-breaker"
+export { coalescingKey, createCoalescingTransport } from "./coalescing"
+export {
+  DEFAULT_CONFIG,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  DEFAULT_RETRY_CONFIG,
+  type RateLimitConfig,
+  type ResolvedUraniumConfig,
+  type RetryConfig,
+  type RetryStrategy,
+  type TenantConfig,
+  type ThrottleConfig,
+  type UraniumConfig,
+} from "./config"
 export { contractsRouter } from "./contracts"
+export {
+  CredentialsManager,
+  type CredentialsManagerOptions,
+  type CredentialsProvider,
+  createCredentialsTransport,
+  createScopedTransport,
+  resolveCredentials,
+} from "./credentials"
 export { DeviceManager } from "./device"
-export { withRetry } from "./retry"
+export {
+  assertSandboxCollection,
+  createSandboxTransport,
+  DEFAULT_ENVIRONMENT,
+  ENVIRONMENTS,
+  type EnvironmentPreset,
+  resolveEnvironment,
+  type UraniumEnvironment,
+} from "./environment"
+export {
+  createFetchTransport,
+  type FetchTransportOptions,
+} from "./fetch-transport"
+export {
+  generateIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyStore,
+  type IdempotencyStoreOptions,
+  withIdempotency,
+} from "./idempotency"
+export {
+  createConsoleLogger,
+  createLogger,
+  type Logger,
+  type LogLevel,
+  type LogRecord,
+  REDACTED,
+  redact,
+} from "./logger"
+export {
+  createMetricsPlugin,
+  DEFAULT_LATENCY_BUCKETS,
+  type EndpointMetrics,
+  formatPrometheusMetrics,
+  type HistogramSnapshot,
+  MetricsCollector,
+  type MetricsCollectorOptions,
+  type MetricsSnapshot,
+} from "./metrics"
+export {
+  createFileQueueStorage,
+  createKeyValueQueueStorage,
+  createOfflineQueueTransport,
+  DEFAULT_OFFLINE_QUEUE_KEY,
+  isOfflineError,
+  type KeyValueStorage,
+  MemoryQueueStorage,
+  OfflineQueue,
+  type OfflineQueueEvent,
+  type OfflineQueueOptions,
+  type OfflineQueueStorage,
+  QUEUEABLE_OPERATIONS,
+  type QueuedOperation,
+  type QueueFileSystem,
+} from "./offline-queue"
+export { createHttpClient, toRequestConfig } from "./pipeline"
+export {
+  createPluginTransport,
+  type PluginContext,
+  type PluginHookResult,
+  type PluginRetryInfo,
+  type UraniumPlugin,
+} from "./plugins"
+export {
+  parseRateLimitHeaders,
+  type RateLimitInfo,
+  TokenBucket,
+} from "./rate-limit"
+export {
+  createResponseValidationTransport,
+  DEFAULT_RESPONSE_VALIDATION_MODE,
+  type ResponseValidationMode,
+} from "./response-validation"
+export {
+  computeRetryDelay,
+  RetryBudget,
+  type RetryBudgetOptions,
+  withRetry,
+} from "./retry"
+export {
+  createTracer,
+  createTracingTransport,
+  type FinishedSpan,
+  formatTraceparent,
+  InMemorySpanExporter,
+  type Span,
+  type SpanAttributes,
+  type SpanAttributeValue,
+  type SpanContext,
+  type SpanExporter,
+  type SpanOptions,
+  type SpanStatus,
+  SpanStatusCode,
+  type Tracer,
+} from "./tracing"
+export type {
+  HttpProgressEvent,
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+  OperationInfo,
+  TransportOption,
+} from "./transport"
+export { HttpTransportError } from "./transport"
+export type { RequestOptions } from "./types"
 export {
   extractSignal,
   generateDeviceId,
   getErrorMessage,
+  type HttpError,
   isAxiosError,
+  isCancelError,
+  isHttpError,
+  isRateLimitError,
   shouldRetry,
 } from "./utils"
 export type { AccountRouter, ContractsRouter, AssetsRouter }
-export type { RequestOptions } from "./types"
 
 /**
  * API routers collection
@@ -37,19 +230,75 @@ export interface ApiRouters {
  * @returns Object containing all API routers
  */
 export function createApiRouters(config: UraniumConfig): ApiRouters {
-  const client = createApiClient(config)
-  return createApiRoutersFromClient(client)
+  const plugins = config.metrics
+    ? [createMetricsPlugin(config.metrics), ...(config.plugins ?? [])]
+    : (config.plugins ?? [])
+  return createApiRoutersFromClient(createRouterTransport(config, plugins))
+}
+
+/**
+ * Create the transport routers send API requests through
+ *
+ * Layers, from the wire up: the transport selected by `config.transport`
+ * with the request pipeline, API key refresh on authentication errors,
+ * in-flight GET coalescing, response validation,
+ * the response cache, the sandbox mint guard (in the sandbox environment),
+ * the offline queue, plugins and tracing.
+ *
+ * @param config - Uranium SDK configuration
+ * @param plugins - Plugins, read on every request
+ * @returns Transport to pass to the routers
+ */
+export function createRouterTransport(
+  config: UraniumConfig,
+  plugins: UraniumPlugin[],
+): HttpTransport {
+  // One credentials manager for the pipeline, 401 replays and cache keys
+  const credentials = resolveCredentials(config)
+  const environment = resolveEnvironment(config)
+  let transport = createCredentialsTransport(
+    createApiTransport({ ...config, credentials }),
+    credentials,
+  )
+  if (config.coalesceRequests) {
+    transport = createCoalescingTransport(transport)
+  }
+  const logger = resolveLogger(config)
+  transport = createResponseValidationTransport(
+    transport,
+    config.responseValidation ?? environment.responseValidation,
+    logger,
+  )
+  transport = createCachingTransport(
+    transport,
+    config.cache,
+    credentials,
+    logger,
+  )
+  if (environment.sandboxOnly) {
+    transport = createSandboxTransport(transport)
+  }
+  transport = createOfflineQueueTransport(
+    transport,
+    config.offlineQueue,
+    config.tracer,
+  )
+  return createTracingTransport(
+    createPluginTransport(transport, plugins),
+    config.tracer,
+  )
 }
 
 /**
- * Create all API routers from an existing Axios client
- * @param client - Configured Axios instance
+ * Create all API routers from an existing client
+ * @param client - Configured Axios instance or other HttpTransport
  * @returns Object containing all API routers
  */
-export function createApiRoutersFromClient(client: AxiosInstance): ApiRouters {
+export function createApiRoutersFromClient(client: HttpTransport): ApiRouters {
+  const idempotencyStore = new IdempotencyStore()
   return {
     account: accountRouter(client),
-    contracts: contractsRouter(client),
-    assets: assetsRouter(client),
+    contracts: contractsRouter(client, idempotencyStore),
+    assets: assetsRouter(client, idempotencyStore),
   }
 }
@@ -0,0 +1,132 @@
+import { describe, expect, mock, spyOn, test } from "bun:test"
+import {
+  createConsoleLogger,
+  createLogger,
+  type Logger,
+  noopLogger,
+  REDACTED,
+  redact,
+  resolveLogger,
+} from "./logger"
+
+const createMockLogger = () => ({
+  debug: mock(() => {}),
+  info: mock(() => {}),
+  warn: mock(() => {}),
+  error: mock(() => {}),
+})
+
+describe("redact", () => {
+  test("should redact the auth header case-insensitively", () => {
+    expect(
+      redact({ headers: { "X-Auth-Token": "secret", accept: "json" } }),
+    ).toEqual({ headers: { "X-Auth-Token": REDACTED, accept: "json" } })
+  })
+
+  test("should redact user PII", () => {
+    expect(
+      redact({ user: { nickname: "neo", phoneNumber: "+15550100" } }),
+    ).toEqual({ user: { nickname: "neo", phoneNumber: REDACTED } })
+  })
+
+  test("should strip presigned URL signatures", () => {
+    const url =
+      "https://bucket.s3.amazonaws.com/file?partNumber=1&X-Amz-Credential=AKIA%2F20250101&X-Amz-Signature=abc123"
+
+    expect(redact({ route: url })).toEqual({
+      route: `https://bucket.s3.amazonaws.com/file?partNumber=1&X-Amz-Credential=${REDACTED}&X-Amz-Signature=${REDACTED}`,
+    })
+  })
+
+  test("should redact additional keys", () => {
+    expect(redact({ title: "secret" }, ["title"])).toEqual({ title: REDACTED })
+  })
+
+  test("should serialize errors and circular references", () => {
+    const value: Record<string, unknown> = { error: new Error("boom") }
+    value.self = value
+
+    expect(redact(value)).toEqual({
+      error: { name: "Error", message: "boom" },
+      self: "[Circular]",
+    })
+  })
+
+  test("should not modify the input", () => {
+    const input = { phoneNumber: "+15550100" }
+    redact(input)
+    expect(input.phoneNumber).toBe("+15550100")
+  })
+})
+
+describe("createLogger", () => {
+  test("should drop records below the level", () => {
+    const target = createMockLogger()
+    const logger = createLogger(target, "warn")
+
+    logger.debug("debug")
+    logger.info("info")
+    logger.warn("warn")
+    logger.error("error")
+
+    expect(target.debug).not.toHaveBeenCalled()
+    expect(target.info).not.toHaveBeenCalled()
+    expect(target.warn).toHaveBeenCalledTimes(1)
+    expect(target.error).toHaveBeenCalledTimes(1)
+  })
+
+  test("should drop every record when silent", () => {
+    const target = createMockLogger()
+    createLogger(target, "silent").error("error")
+    expect(target.error).not.toHaveBeenCalled()
+  })
+
+  test("should redact records", () => {
+    const target = createMockLogger()
+    createLogger(target, "debug").info("Request", {
+      requestId: "abc",
+      "x-auth-token": "secret",
+    })
+
+    expect(target.info).toHaveBeenCalledWith("Request", {
+      requestId: "abc",
+      "x-auth-token": REDACTED,
+    })
+  })
+})
+
+describe("createConsoleLogger", () => {
+  test("should prefix messages", () => {
+    const consoleSpy = spyOn(console, "log").mockImplementation(() => {})
+
+    createConsoleLogger().debug("Request", { requestId: "abc" })
+
+    expect(consoleSpy).toHaveBeenCalledWith("[Uranium SDK] Request", {
+      requestId: "abc",
+    })
+    consoleSpy.mockRestore()
+  })
+})
+
+describe("resolveLogger", () => {
+  test("should disable logging by default", () => {
+    expect(resolveLogger({})).toBe(noopLogger)
+  })
+
+  test("should default custom loggers to info", () => {
+    const target = createMockLogger()
+    const logger: Logger = resolveLogger({ logger: target })
+
+    logger.debug("debug")
+    logger.info("info")
+
+    expect(target.debug).not.toHaveBeenCalled()
+    expect(target.info).toHaveBeenCalledTimes(1)
+  })
+
+  test("should pass debug records to custom loggers in debug mode", () => {
+    const target = createMockLogger()
+    resolveLogger({ logger: target, debug: true }).debug("debug")
+    expect(target.debug).toHaveBeenCalledTimes(1)
+  })
+})
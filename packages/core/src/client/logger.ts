@@ -0,0 +1,232 @@
+/**
+ * Logging
+ *
+ * Structured logging for API requests and uploads. Records are emitted
+ * through a `Logger` (console, pino, winston, ...) after filtering by level
+ * and redacting credentials, presigned URL signatures and user PII.
+ *
+ * @module @uranium/sdk/client/logger
+ */
+
+/**
+ * Log level, from most to least verbose
+ * "silent" disables logging.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent"
+
+/**
+ * Structured log record
+ */
+export interface LogRecord {
+  /** Id shared by all attempts of a request */
+  requestId?: string
+  /** HTTP method */
+  method?: string
+  /** Request URL (presigned URL signatures are redacted) */
+  route?: string
+  /** HTTP status code */
+  status?: number
+  /** Duration of the attempt in milliseconds */
+  durationMs?: number
+  /** Attempt number (1 for the first attempt) */
+  attempt?: number
+  /** Additional fields */
+  [key: string]: unknown
+}
+
+/**
+ * Logger receiving SDK log records
+ *
+ * The signature matches winston. For pino, swap the arguments:
+ * `{ info: (message, record) => pino.info(record, message), ... }`.
+ */
+export interface Logger {
+  debug(message: string, record?: LogRecord): void
+  info(message: string, record?: LogRecord): void
+  warn(message: string, record?: LogRecord): void
+  error(message: string, record?: LogRecord): void
+}
+
+/**
+ * Numeric severity of each level
+ */
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+/**
+ * Placeholder replacing redacted values
+ */
+export const REDACTED = "[REDACTED]"
+
+/**
+ * Keys whose values are always redacted (compared case-insensitively)
+ */
+const DEFAULT_REDACT_KEYS = [
+  "x-auth-token",
+  "authorization",
+  "apikey",
+  "phonenumber",
+  "email",
+  "verificationid",
+]
+
+/**
+ * Query parameters carrying presigned URL credentials (S3 SigV4 and SigV2)
+ */
+const SIGNED_URL_PARAMS =
+  /([?&](?:X-Amz-Signature|X-Amz-Credential|X-Amz-Security-Token|Signature|AWSAccessKeyId)=)[^&#\s"']*/gi
+
+/**
+ * Redacts credentials and PII from a value before it is logged
+ *
+ * - values of sensitive keys (`x-auth-token`, `phoneNumber`, ...) are replaced
+ * - presigned URL signatures and credentials are stripped from strings
+ *
+ * @param value - Value to redact (not modified)
+ * @param keys - Additional keys to redact
+ * @returns Redacted copy of the value
+ */
+export const redact = (
+  value: unknown,
+  keys: readonly string[] = [],
+): unknown => {
+  const redactKeys = new Set(
+    [...DEFAULT_REDACT_KEYS, ...keys].map((key) => key.toLowerCase()),
+  )
+  const seen = new WeakSet<object>()
+
+  const visit = (current: unknown): unknown => {
+    if (typeof current === "string") {
+      return current.replace(SIGNED_URL_PARAMS, `$1${REDACTED}`)
+    }
+
+    if (current instanceof Error) {
+      return { name: current.name, message: visit(current.message) }
+    }
+
+    if (current === null || typeof current !== "object") {
+      return current
+    }
+
+    if (seen.has(current)) {
+      return "[Circular]"
+    }
+    seen.add(current)
+
+    if (Array.isArray(current)) {
+      return current.map(visit)
+    }
+
+    if (current instanceof Date) {
+      return current
+    }
+
+    const result: Record<string, unknown> = {}
+    for (const [key, entry] of Object.entries(current)) {
+      result[key] = redactKeys.has(key.toLowerCase()) ? REDACTED : visit(entry)
+    }
+    return result
+  }
+
+  return visit(value)
+}
+
+/**
+ * Creates a logger writing to the console with the `[Uranium SDK]` prefix
+ * @param level - Minimum level to write
+ * @returns Console logger
+ */
+export const createConsoleLogger = (level: LogLevel = "debug"): Logger => {
+  return createLogger(
+    {
+      debug: (message, record) =>
+        console.log(`[Uranium SDK] ${message}`, record ?? ""),
+      info: (message, record) =>
+        console.info(`[Uranium SDK] ${message}`, record ?? ""),
+      warn: (message, record) =>
+        console.warn(`[Uranium SDK] ${message}`, record ?? ""),
+      error: (message, record) =>
+        console.error(`[Uranium SDK] ${message}`, record ?? ""),
+    },
+    level,
+  )
+}
+
+/**
+ * Wraps a logger with level filtering and redaction
+ * @param logger - Destination logger
+ * @param level - Minimum level to forward
+ * @returns Logger forwarding redacted records at or above `level`
+ */
+export const createLogger = (logger: Logger, level: LogLevel): Logger => {
+  const emit =
+    (target: Exclude<LogLevel, "silent">) =>
+    (message: string, record?: LogRecord): void => {
+      if (LEVELS[target] < LEVELS[level]) {
+        return
+      }
+      logger[target](
+        message,
+        record === undefined ? undefined : (redact(record) as LogRecord),
+      )
+    }
+
+  return {
+    debug: emit("debug"),
+    info: emit("info"),
+    warn: emit("warn"),
+    error: emit("error"),
+  }
+}
+
+/**
+ * Logger discarding every record
+ */
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+}
+
+/**
+ * Resolves the SDK logger from the `logger`, `logLevel` and `debug` options
+ *
+ * - a custom `logger` receives records at `logLevel` and above (default "info")
+ * - without a logger, `logLevel` or `debug: true` write to the console
+ *   (`debug: true` defaults to "debug")
+ * - otherwise logging is disabled
+ *
+ * @returns Logger with level filtering and redaction applied
+ */
+export const resolveLogger = (options: {
+  logger?: Logger
+  logLevel?: LogLevel
+  debug?: boolean
+}): Logger => {
+  if (options.logger) {
+    return createLogger(
+      options.logger,
+      options.logLevel ?? (options.debug ? "debug" : "info"),
+    )
+  }
+
+  if (options.debug || options.logLevel) {
+    return createConsoleLogger(options.logLevel ?? "debug")
+  }
+
+  return noopLogger
+}
+
+/**
+ * Generates an id correlating the log records of a request
+ * @returns Short random id
+ */
+export const generateRequestId = (): string => {
+  return crypto.randomUUID().slice(0, 8)
+}
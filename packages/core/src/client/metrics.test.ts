@@ -0,0 +1,196 @@
+import { describe, expect, mock, test } from "bun:test"
+import { AuthenticationError, NetworkError } from "@uranium/types"
+import { UraniumSDK } from "../index"
+import { formatPrometheusMetrics, MetricsCollector } from "./metrics"
+import {
+  type HttpRequestConfig,
+  type HttpResponse,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+/**
+ * Creates a raw transport answering requests with the given handler
+ */
+const createStubTransport = (
+  handler: (config: HttpRequestConfig) => Promise<unknown>,
+) => {
+  const request = mock(
+    async (config: HttpRequestConfig): Promise<HttpResponse> => ({
+      data: await handler(config),
+      status: 200,
+      headers: {},
+    }),
+  )
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request }
+}
+
+const httpError = (config: HttpRequestConfig, status: number) =>
+  new HttpTransportError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+    config,
+    { data: {}, status, headers: {} },
+  )
+
+describe("MetricsCollector", () => {
+  test("should build cumulative latency histograms per endpoint", () => {
+    const metrics = new MetricsCollector({ buckets: [100, 10] })
+
+    metrics.recordRequest("assets.list", 5)
+    metrics.recordRequest("assets.list", 50)
+    metrics.recordRequest("assets.list", 500)
+
+    expect(metrics.snapshot().endpoints["assets.list"]).toEqual({
+      requests: 3,
+      errors: 0,
+      retries: 0,
+      latency: {
+        buckets: [
+          { le: 10, count: 1 },
+          { le: 100, count: 2 },
+          { le: Number.POSITIVE_INFINITY, count: 3 },
+        ],
+        count: 3,
+        sum: 555,
+      },
+    })
+  })
+
+  test("should count errors by class", () => {
+    const metrics = new MetricsCollector()
+
+    metrics.recordRequest("account.getMe", 10, new AuthenticationError("no"))
+    metrics.recordRequest("assets.list", 10, new NetworkError("down"))
+    metrics.recordRequest("assets.list", 10, new NetworkError("down"))
+    metrics.recordRequest("assets.list", 10, "boom")
+
+    const snapshot = metrics.snapshot()
+    expect(snapshot.errors).toEqual({
+      AuthenticationError: 1,
+      NetworkError: 2,
+      UnknownError: 1,
+    })
+    expect(snapshot.endpoints["assets.list"]?.errors).toBe(3)
+  })
+
+  test("should compute upload throughput and stage durations", () => {
+    const metrics = new MetricsCollector()
+
+    metrics.recordChunk(1000, 500)
+    metrics.recordChunk(3000, 1500)
+    metrics.recordUploadStage("UPLOADING", 2000)
+    metrics.recordChunkRetry()
+
+    const snapshot = metrics.snapshot()
+    expect(snapshot.uploads.bytesUploaded).toBe(4000)
+    expect(snapshot.uploads.chunks).toBe(2)
+    expect(snapshot.uploads.throughputBytesPerSecond).toBe(2000)
+    expect(snapshot.uploads.stages.UPLOADING?.sum).toBe(2000)
+    expect(snapshot.uploads.chunkRetries).toBe(1)
+    expect(snapshot.endpoints).toEqual({})
+  })
+
+  test("should clear metrics on reset", () => {
+    const metrics = new MetricsCollector()
+    metrics.recordRequest("assets.list", 10)
+    metrics.recordChunk(1000, 500)
+    metrics.recordChunkRetry()
+
+    metrics.reset()
+
+    expect(metrics.snapshot()).toMatchObject({
+      endpoints: {},
+      errors: {},
+      uploads: { bytesUploaded: 0, chunks: 0, chunkRetries: 0, stages: {} },
+    })
+  })
+})
+
+describe("formatPrometheusMetrics", () => {
+  test("should format counters and histograms in seconds", () => {
+    const metrics = new MetricsCollector({ buckets: [100] })
+    metrics.recordRequest("assets.list", 50)
+    metrics.recordRequest("assets.list", 250, new NetworkError("down"))
+    metrics.recordUploadStage("UPLOADING", 1500)
+
+    const text = formatPrometheusMetrics(metrics.snapshot())
+
+    expect(text).toContain("# TYPE uranium_sdk_requests_total counter")
+    expect(text).toContain(
+      'uranium_sdk_requests_total{endpoint="assets.list"} 2',
+    )
+    expect(text).toContain(
+      'uranium_sdk_errors_total{error_class="NetworkError"} 1',
+    )
+    expect(text).toContain(
+      "# TYPE uranium_sdk_request_duration_seconds histogram",
+    )
+    expect(text).toContain(
+      'uranium_sdk_request_duration_seconds_bucket{endpoint="assets.list",le="0.1"} 1',
+    )
+    expect(text).toContain(
+      'uranium_sdk_request_duration_seconds_bucket{endpoint="assets.list",le="+Inf"} 2',
+    )
+    expect(text).toContain(
+      'uranium_sdk_request_duration_seconds_sum{endpoint="assets.list"} 0.3',
+    )
+    expect(text).toContain(
+      'uranium_sdk_upload_stage_duration_seconds_count{stage="UPLOADING"} 1',
+    )
+    expect(text).toContain("uranium_sdk_upload_bytes_total 0")
+    expect(text).toContain("uranium_sdk_upload_chunk_retries_total 0")
+    expect(text.endsWith("\n")).toBe(true)
+  })
+
+  test("should apply a custom prefix", () => {
+    const metrics = new MetricsCollector()
+    expect(metrics.toPrometheus("worker")).toContain(
+      "worker_upload_chunks_total 0",
+    )
+  })
+})
+
+describe("UraniumSDK metrics", () => {
+  test("should record router calls, retries and errors", async () => {
+    let calls = 0
+    const { transport } = createStubTransport(async (config) => {
+      calls++
+      if (config.url === "/clients-account/me") throw httpError(config, 401)
+      if (calls === 1) throw httpError(config, 503)
+      return { status: "ok", data: [] }
+    })
+    const metrics = new MetricsCollector()
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport,
+      metrics,
+      retry: { enabled: true, maxRetries: 1, retryDelay: 1 },
+    })
+
+    await sdk.contracts.list()
+    await expect(sdk.account.getMe()).rejects.toBeInstanceOf(
+      AuthenticationError,
+    )
+
+    const snapshot = metrics.snapshot()
+    expect(snapshot.endpoints["contracts.list"]).toMatchObject({
+      requests: 1,
+      errors: 0,
+      retries: 1,
+    })
+    expect(snapshot.endpoints["account.getMe"]).toMatchObject({
+      requests: 1,
+      errors: 1,
+    })
+    expect(snapshot.errors).toEqual({ AuthenticationError: 1 })
+  })
+})
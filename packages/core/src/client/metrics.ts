@@ -0,0 +1,446 @@
+/**
+ * Metrics
+ *
+ * In-process metrics for long-running workers: per-endpoint latency
+ * histograms, error counts by class, retries, upload throughput and upload
+ * stage durations. Read them with `snapshot()` or expose them to Prometheus
+ * with `toPrometheus()`.
+ *
+ * @module @uranium/sdk/client/metrics
+ */
+
+import type { UraniumPlugin } from "./plugins"
+
+/**
+ * Default histogram bucket upper bounds in milliseconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000,
+]
+
+/**
+ * Snapshot of a histogram
+ */
+export interface HistogramSnapshot {
+  /** Cumulative counts per bucket upper bound in milliseconds (last bucket is +Inf) */
+  buckets: { le: number; count: number }[]
+  /** Number of observations */
+  count: number
+  /** Sum of observations in milliseconds */
+  sum: number
+}
+
+/**
+ * Snapshot of the metrics of one endpoint
+ */
+export interface EndpointMetrics {
+  /** Total calls */
+  requests: number
+  /** Calls that failed */
+  errors: number
+  /** Automatic retries */
+  retries: number
+  /** Call latency, including retries */
+  latency: HistogramSnapshot
+}
+
+/**
+ * Point-in-time copy of all collected metrics
+ */
+export interface MetricsSnapshot {
+  /** Metrics per endpoint (e.g. "assets.startMinting") */
+  endpoints: Record<string, EndpointMetrics>
+  /** Failed calls by error class (e.g. "NetworkError") */
+  errors: Record<string, number>
+  /** Upload metrics */
+  uploads: {
+    /** Bytes uploaded in successful chunks */
+    bytesUploaded: number
+    /** Successfully uploaded chunks */
+    chunks: number
+    /** Automatic retries of chunk uploads */
+    chunkRetries: number
+    /** Average chunk throughput in bytes per second */
+    throughputBytesPerSecond: number
+    /** Chunk upload duration, including retries */
+    chunkDuration: HistogramSnapshot
+    /** Duration of each upload stage (e.g. "UPLOADING") */
+    stages: Record<string, HistogramSnapshot>
+  }
+}
+
+/**
+ * Options for the metrics collector
+ */
+export interface MetricsCollectorOptions {
+  /**
+   * Histogram bucket upper bounds in milliseconds
+   * @default DEFAULT_LATENCY_BUCKETS
+   */
+  buckets?: number[]
+}
+
+/**
+ * Fixed-bucket histogram
+ */
+class Histogram {
+  private readonly counts: number[]
+  private count = 0
+  private sum = 0
+
+  constructor(private readonly bounds: number[]) {
+    this.counts = new Array(bounds.length + 1).fill(0)
+  }
+
+  observe(value: number): void {
+    const index = this.bounds.findIndex((bound) => value <= bound)
+    const bucket = index === -1 ? this.bounds.length : index
+    this.counts[bucket] = (this.counts[bucket] ?? 0) + 1
+    this.count++
+    this.sum += value
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0
+    const buckets = this.counts.map((count, index) => {
+      cumulative += count
+      return {
+        le: this.bounds[index] ?? Number.POSITIVE_INFINITY,
+        count: cumulative,
+      }
+    })
+    return { buckets, count: this.count, sum: this.sum }
+  }
+}
+
+/**
+ * Mutable metrics of one endpoint
+ */
+interface EndpointState {
+  requests: number
+  errors: number
+  retries: number
+  latency: Histogram
+}
+
+/**
+ * Collects SDK metrics
+ *
+ * Pass it as `UraniumConfig.metrics`: router calls and uploads report into it.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector()
+ * const sdk = new UraniumSDK({ apiKey, metrics })
+ *
+ * // Prometheus scrape endpoint
+ * app.get("/metrics", (_req, res) => {
+ *   res.type("text/plain").send(metrics.toPrometheus())
+ * })
+ * ```
+ */
+export class MetricsCollector {
+  private readonly buckets: number[]
+  private endpoints = new Map<string, EndpointState>()
+  private errors = new Map<string, number>()
+  private bytesUploaded = 0
+  private chunks = 0
+  private chunkRetries = 0
+  private chunkDuration: Histogram
+  private stages = new Map<string, Histogram>()
+
+  constructor(options: MetricsCollectorOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort(
+      (a, b) => a - b,
+    )
+    this.chunkDuration = new Histogram(this.buckets)
+  }
+
+  /**
+   * Records a completed call
+   * @param endpoint - Endpoint name (e.g. "assets.startMinting")
+   * @param durationMs - Call duration in milliseconds, including retries
+   * @param error - Error the call failed with, if any
+   */
+  recordRequest(endpoint: string, durationMs: number, error?: unknown): void {
+    const state = this.endpoint(endpoint)
+    state.requests++
+    state.latency.observe(durationMs)
+
+    if (error !== undefined) {
+      state.errors++
+      const errorClass = error instanceof Error ? error.name : "UnknownError"
+      this.errors.set(errorClass, (this.errors.get(errorClass) ?? 0) + 1)
+    }
+  }
+
+  /**
+   * Records an automatic retry of a router call
+   * @param endpoint - Endpoint name (e.g. "assets.list")
+   */
+  recordRetry(endpoint: string): void {
+    this.endpoint(endpoint).retries++
+  }
+
+  /**
+   * Records an automatic retry of a chunk upload
+   */
+  recordChunkRetry(): void {
+    this.chunkRetries++
+  }
+
+  /**
+   * Records a successfully uploaded chunk
+   * @param bytes - Chunk size in bytes
+   * @param durationMs - Upload duration in milliseconds, including retries
+   */
+  recordChunk(bytes: number, durationMs: number): void {
+    this.bytesUploaded += bytes
+    this.chunks++
+    this.chunkDuration.observe(durationMs)
+  }
+
+  /**
+   * Records the duration of an upload stage
+   * @param stage - Stage name (ClientUploadStage)
+   * @param durationMs - Stage duration in milliseconds
+   */
+  recordUploadStage(stage: string, durationMs: number): void {
+    let histogram = this.stages.get(stage)
+    if (!histogram) {
+      histogram = new Histogram(this.buckets)
+      this.stages.set(stage, histogram)
+    }
+    histogram.observe(durationMs)
+  }
+
+  /**
+   * Returns a copy of the collected metrics
+   */
+  snapshot(): MetricsSnapshot {
+    const chunkDuration = this.chunkDuration.snapshot()
+
+    return {
+      endpoints: Object.fromEntries(
+        [...this.endpoints].map(([endpoint, state]) => [
+          endpoint,
+          {
+            requests: state.requests,
+            errors: state.errors,
+            retries: state.retries,
+            latency: state.latency.snapshot(),
+          },
+        ]),
+      ),
+      errors: Object.fromEntries(this.errors),
+      uploads: {
+        bytesUploaded: this.bytesUploaded,
+        chunks: this.chunks,
+        chunkRetries: this.chunkRetries,
+        throughputBytesPerSecond:
+          chunkDuration.sum > 0
+            ? (this.bytesUploaded / chunkDuration.sum) * 1000
+            : 0,
+        chunkDuration,
+        stages: Object.fromEntries(
+          [...this.stages].map(([stage, histogram]) => [
+            stage,
+            histogram.snapshot(),
+          ]),
+        ),
+      },
+    }
+  }
+
+  /**
+   * Formats the collected metrics in the Prometheus text format
+   * @param prefix - Metric name prefix
+   */
+  toPrometheus(prefix?: string): string {
+    return formatPrometheusMetrics(this.snapshot(), prefix)
+  }
+
+  /**
+   * Clears all collected metrics
+   */
+  reset(): void {
+    this.endpoints = new Map()
+    this.errors = new Map()
+    this.bytesUploaded = 0
+    this.chunks = 0
+    this.chunkRetries = 0
+    this.chunkDuration = new Histogram(this.buckets)
+    this.stages = new Map()
+  }
+
+  private endpoint(endpoint: string): EndpointState {
+    let state = this.endpoints.get(endpoint)
+    if (!state) {
+      state = {
+        requests: 0,
+        errors: 0,
+        retries: 0,
+        latency: new Histogram(this.buckets),
+      }
+      this.endpoints.set(endpoint, state)
+    }
+    return state
+  }
+}
+
+/**
+ * Escapes a Prometheus label value
+ */
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+
+/**
+ * Formats labels as `{name="value",...}`
+ */
+const formatLabels = (labels: Record<string, string>): string => {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ""
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`
+}
+
+/**
+ * Appends histogram samples (converted from milliseconds to seconds)
+ */
+const histogramLines = (
+  name: string,
+  labels: Record<string, string>,
+  histogram: HistogramSnapshot,
+): string[] => [
+  ...histogram.buckets.map(
+    (bucket) =>
+      `${name}_bucket${formatLabels({
+        ...labels,
+        le: Number.isFinite(bucket.le) ? String(bucket.le / 1000) : "+Inf",
+      })} ${bucket.count}`,
+  ),
+  `${name}_sum${formatLabels(labels)} ${histogram.sum / 1000}`,
+  `${name}_count${formatLabels(labels)} ${histogram.count}`,
+]
+
+/**
+ * Formats a metrics snapshot in the Prometheus text exposition format
+ * @param snapshot - Metrics snapshot
+ * @param prefix - Metric name prefix
+ * @returns Prometheus text format (durations in seconds)
+ */
+export const formatPrometheusMetrics = (
+  snapshot: MetricsSnapshot,
+  prefix = "uranium_sdk",
+): string => {
+  const lines: string[] = []
+  const endpoints = Object.entries(snapshot.endpoints)
+
+  const counter = (
+    name: string,
+    help: string,
+    samples: [Record<string, string>, number][],
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`)
+    lines.push(`# TYPE ${prefix}_${name} counter`)
+    for (const [labels, value] of samples) {
+      lines.push(`${prefix}_${name}${formatLabels(labels)} ${value}`)
+    }
+  }
+
+  const histogram = (
+    name: string,
+    help: string,
+    samples: [Record<string, string>, HistogramSnapshot][],
+  ) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`)
+    lines.push(`# TYPE ${prefix}_${name} histogram`)
+    for (const [labels, value] of samples) {
+      lines.push(...histogramLines(`${prefix}_${name}`, labels, value))
+    }
+  }
+
+  counter(
+    "requests_total",
+    "Router calls by endpoint",
+    endpoints.map(([endpoint, metrics]) => [{ endpoint }, metrics.requests]),
+  )
+  counter(
+    "request_errors_total",
+    "Failed router calls by endpoint",
+    endpoints.map(([endpoint, metrics]) => [{ endpoint }, metrics.errors]),
+  )
+  counter(
+    "retries_total",
+    "Automatic retries by endpoint",
+    endpoints.map(([endpoint, metrics]) => [{ endpoint }, metrics.retries]),
+  )
+  counter(
+    "errors_total",
+    "Failed calls by error class",
+    Object.entries(snapshot.errors).map(([errorClass, count]) => [
+      { error_class: errorClass },
+      count,
+    ]),
+  )
+  histogram(
+    "request_duration_seconds",
+    "Router call latency by endpoint, including retries",
+    endpoints.map(([endpoint, metrics]) => [{ endpoint }, metrics.latency]),
+  )
+  counter("upload_bytes_total", "Bytes uploaded in chunks", [
+    [{}, snapshot.uploads.bytesUploaded],
+  ])
+  counter("upload_chunks_total", "Chunks uploaded", [
+    [{}, snapshot.uploads.chunks],
+  ])
+  counter("upload_chunk_retries_total", "Automatic retries of chunk uploads", [
+    [{}, snapshot.uploads.chunkRetries],
+  ])
+  histogram("upload_chunk_duration_seconds", "Chunk upload duration", [
+    [{}, snapshot.uploads.chunkDuration],
+  ])
+  histogram(
+    "upload_stage_duration_seconds",
+    "Upload stage duration by stage",
+    Object.entries(snapshot.uploads.stages).map(([stage, value]) => [
+      { stage },
+      value,
+    ]),
+  )
+
+  return `${lines.join("\n")}\n`
+}
+
+/**
+ * Creates the plugin reporting router calls into a metrics collector
+ *
+ * Endpoints are named `{router}.{operation}` (e.g. "assets.list").
+ *
+ * @param metrics - Collector receiving the measurements
+ * @returns Plugin to register before other plugins
+ */
+export const createMetricsPlugin = (
+  metrics: MetricsCollector,
+): UraniumPlugin => {
+  const endpoint = (ctx: { router: string; operation: string }) =>
+    `${ctx.router}.${ctx.operation}`
+
+  const elapsed = (state: Record<string, unknown>) =>
+    Date.now() - (state.metricsStartedAt as number)
+
+  return {
+    name: "metrics",
+    onRequest: (ctx) => {
+      ctx.state.metricsStartedAt = Date.now()
+    },
+    onResponse: (ctx) => {
+      metrics.recordRequest(endpoint(ctx), elapsed(ctx.state))
+    },
+    onError: (ctx, error) => {
+      metrics.recordRequest(endpoint(ctx), elapsed(ctx.state), error)
+    },
+    onRetry: (ctx) => {
+      metrics.recordRetry(endpoint(ctx))
+    },
+  }
+}
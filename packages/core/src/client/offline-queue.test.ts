@@ -0,0 +1,572 @@
+import { describe, expect, mock, test } from "bun:test"
+import { NetworkError, ValidationError } from "@uranium/types"
+import { UraniumSDK } from "../index"
+import { ErrorCode, OperationQueuedError } from "../types/errors"
+import { CredentialsManager } from "./credentials"
+import {
+  createFileQueueStorage,
+  createKeyValueQueueStorage,
+  createOfflineQueueTransport,
+  isOfflineError,
+  MemoryQueueStorage,
+  OfflineQueue,
+  type OfflineQueueEvent,
+} from "./offline-queue"
+import {
+  createHttpClient,
+  resolveConfig,
+  toApiError,
+  translateApiError,
+} from "./pipeline"
+import { createTracer, InMemorySpanExporter } from "./tracing"
+import {
+  type HttpRequestConfig,
+  type HttpResponse,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+/**
+ * Raw transport failure: no response for network errors, else an HTTP error response
+ */
+const httpError = (
+  config: HttpRequestConfig | undefined,
+  code: string,
+  status?: number,
+  data: unknown = {},
+) =>
+  new HttpTransportError(
+    status ? `Request failed with status code ${status}` : "Network Error",
+    code,
+    config,
+    status ? ({ data, status, headers: {} } as HttpResponse) : undefined,
+  )
+
+/**
+ * Creates an SDK pipeline over a raw transport that cannot be reached while
+ * `online` is false, and answers with `status` (and `data`) when one is set
+ */
+const createFlakyTransport = () => {
+  const state = {
+    online: false,
+    status: undefined as number | undefined,
+    data: undefined as unknown,
+  }
+  const request = mock(async (config: HttpRequestConfig) => {
+    if (!state.online) throw httpError(config, "ERR_NETWORK")
+    if (state.status) {
+      throw httpError(config, "ERR_BAD_RESPONSE", state.status, state.data)
+    }
+    return {
+      data: { status: "ok", data: { url: config.url } },
+      status: 200,
+      headers: {},
+    } as HttpResponse
+  })
+  const raw: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => raw.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      raw.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      raw.request({ ...config, url, data, method: "PUT" }),
+  }
+  const transport = createHttpClient(
+    { apiKey: "test-key", retry: { enabled: false } },
+    raw,
+  )
+  return { transport, request, state }
+}
+
+/**
+ * Rejects the next requests with a validation error response of the API
+ */
+const rejectInvalidName = (state: { status?: number; data?: unknown }) => {
+  state.status = 400
+  state.data = { errorCode: ErrorCode.INVALID_INPUT, message: "Invalid name" }
+}
+
+const createContract = (transport: HttpTransport, name = "Field_Photos") =>
+  transport.post(
+    "/contracts/create",
+    { name, symbol: "FLD", type: "ERC721" },
+    {
+      operation: { router: "contracts", operation: "create" },
+      headers: { "Idempotency-Key": `key-${name}` },
+    },
+  )
+
+describe("isOfflineError", () => {
+  const config = resolveConfig({ apiKey: "test-key" })
+
+  test("should match failures without a response", () => {
+    expect(
+      isOfflineError(toApiError(config, httpError({}, "ERR_NETWORK"))),
+    ).toBe(true)
+    expect(
+      isOfflineError(toApiError(config, httpError({}, "ECONNABORTED"))),
+    ).toBe(true)
+    expect(
+      isOfflineError(toApiError(config, httpError({}, "ERR_CANCELED"))),
+    ).toBe(false)
+  })
+
+  test("should not match responses of the API", () => {
+    const unavailable = toApiError(
+      config,
+      httpError({}, "ERR_BAD_RESPONSE", 503),
+    )
+    const badGateway = translateApiError("Bad Gateway", {
+      data: {},
+      status: 502,
+      headers: {},
+    })
+
+    expect(unavailable).toBeInstanceOf(NetworkError)
+    expect((unavailable as NetworkError).code).toBe(ErrorCode.SERVER_ERROR)
+    expect(isOfflineError(unavailable)).toBe(false)
+    expect(badGateway.code).toBe(ErrorCode.SERVER_ERROR)
+    expect(isOfflineError(badGateway)).toBe(false)
+    expect(isOfflineError(new OperationQueuedError())).toBe(false)
+    expect(isOfflineError(new ValidationError("invalid"))).toBe(false)
+  })
+})
+
+describe("createOfflineQueueTransport", () => {
+  test("should return the transport when no queue is configured", () => {
+    const { transport } = createFlakyTransport()
+    expect(createOfflineQueueTransport(transport, undefined)).toBe(transport)
+  })
+
+  test("should queue queueable operations failing offline", async () => {
+    const { transport } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+
+    const error = await createContract(client).catch((e) => e)
+
+    expect(error).toBeInstanceOf(OperationQueuedError)
+    expect(error.originalError).toBeInstanceOf(NetworkError)
+    expect(error.originalError.code).toBe(ErrorCode.NETWORK_ERROR)
+    const [operation] = await queue.list()
+    expect(operation).toMatchObject({
+      id: error.operationId,
+      operation: "contracts.create",
+      method: "POST",
+      url: "/contracts/create",
+      headers: { "Idempotency-Key": "key-Field_Photos" },
+      attempts: 0,
+    })
+  })
+
+  test("should not queue reads, tenant requests or rejected requests", async () => {
+    const { transport, state } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+
+    await expect(
+      client.get("/contracts/list", {
+        operation: { router: "contracts", operation: "list" },
+      }),
+    ).rejects.toThrow(NetworkError)
+    await expect(
+      client.post(
+        "/contracts/create",
+        {},
+        {
+          operation: { router: "contracts", operation: "create" },
+          credentials: new CredentialsManager("tenant-key"),
+        },
+      ),
+    ).rejects.toThrow(NetworkError)
+
+    state.online = true
+    rejectInvalidName(state)
+    await expect(createContract(client)).rejects.toThrow(ValidationError)
+
+    expect(queue.size).toBe(0)
+  })
+
+  test("should not queue operations failing with a server error", async () => {
+    const { transport, state } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+
+    state.online = true
+    state.status = 503
+    const error = await createContract(client).catch((e) => e)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error).not.toBeInstanceOf(OperationQueuedError)
+    expect(error.code).toBe(ErrorCode.SERVER_ERROR)
+    expect(queue.size).toBe(0)
+
+    state.status = undefined
+    await expect(createContract(client)).resolves.toMatchObject({
+      status: 200,
+    })
+  })
+
+  test("should queue operations behind queued ones", async () => {
+    const { transport, request, state } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+
+    await createContract(client, "first").catch(() => {})
+    state.online = true
+    await expect(createContract(client, "second")).rejects.toThrow(
+      OperationQueuedError,
+    )
+
+    expect(request).toHaveBeenCalledTimes(1)
+    expect((await queue.list()).map((operation) => operation.data)).toEqual([
+      { name: "first", symbol: "FLD", type: "ERC721" },
+      { name: "second", symbol: "FLD", type: "ERC721" },
+    ])
+  })
+
+  test("should replay after a request succeeds", async () => {
+    const { transport, state } = createFlakyTransport()
+    const queue = new OfflineQueue()
+    const client = createOfflineQueueTransport(transport, queue)
+    const drained = new Promise<void>((resolve) =>
+      queue.subscribe((event) => {
+        if (event.type === "drained") resolve()
+      }),
+    )
+
+    await createContract(client).catch(() => {})
+    state.online = true
+    await client.get("/contracts/list")
+    await drained
+
+    expect(queue.size).toBe(0)
+  })
+})
+
+describe("OfflineQueue", () => {
+  test("should replay operations in order and emit events", async () => {
+    const { transport, request, state } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+    const events: OfflineQueueEvent[] = []
+    queue.subscribe((event) => events.push(event))
+
+    await createContract(client, "first").catch(() => {})
+    await createContract(client, "second").catch(() => {})
+    state.online = true
+    await queue.replay()
+
+    const replayed = request.mock.calls.slice(-2).map(([config]) => config)
+    expect(replayed.map((config) => config.data)).toEqual([
+      { name: "first", symbol: "FLD", type: "ERC721" },
+      { name: "second", symbol: "FLD", type: "ERC721" },
+    ])
+    expect(replayed[0]?.headers).toMatchObject({
+      "Idempotency-Key": "key-first",
+    })
+    expect(replayed[0]?.operation).toMatchObject({
+      router: "contracts",
+      operation: "create",
+    })
+    expect(events.map((event) => event.type)).toEqual([
+      "enqueued",
+      "enqueued",
+      "replayed",
+      "replayed",
+      "drained",
+    ])
+    expect(events[2]).toMatchObject({
+      response: { status: "ok", data: { url: "/contracts/create" } },
+    })
+  })
+
+  test("should stop replaying while offline", async () => {
+    const { transport } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+    const events: OfflineQueueEvent[] = []
+    queue.subscribe((event) => events.push(event))
+
+    await createContract(client).catch(() => {})
+    await queue.replay()
+
+    const [operation] = await queue.list()
+    expect(operation?.attempts).toBe(1)
+    expect(events.at(-1)?.type).toBe("offline")
+  })
+
+  test("should drop operations rejected by the API", async () => {
+    const { transport, state } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+    const events: OfflineQueueEvent[] = []
+    queue.subscribe((event) => events.push(event))
+
+    await createContract(client).catch(() => {})
+    state.online = true
+    rejectInvalidName(state)
+    await queue.replay()
+
+    expect(queue.size).toBe(0)
+    expect(events.map((event) => event.type)).toEqual([
+      "enqueued",
+      "failed",
+      "drained",
+    ])
+  })
+
+  test("should drop a head operation failing with a server error", async () => {
+    const { transport, request, state } = createFlakyTransport()
+    const queue = new OfflineQueue({ autoReplay: false })
+    const client = createOfflineQueueTransport(transport, queue)
+    const events: OfflineQueueEvent[] = []
+    queue.subscribe((event) => events.push(event))
+
+    await createContract(client, "first").catch(() => {})
+    await createContract(client, "second").catch(() => {})
+    state.online = true
+    request.mockImplementationOnce(async (config) => {
+      throw httpError(config, "ERR_BAD_RESPONSE", 503)
+    })
+    await queue.replay()
+
+    expect(events.map((event) => event.type)).toEqual([
+      "enqueued",
+      "enqueued",
+      "failed",
+      "replayed",
+      "drained",
+    ])
+    expect(events[2]).toMatchObject({
+      error: { code: ErrorCode.SERVER_ERROR },
+    })
+    expect(await queue.hasPending()).toBe(false)
+  })
+
+  test("should restore persisted operations", async () => {
+    const storage = new MemoryQueueStorage()
+    const offline = createFlakyTransport()
+    await createContract(
+      createOfflineQueueTransport(
+        offline.transport,
+        new OfflineQueue({ storage, autoReplay: false }),
+      ),
+    ).catch(() => {})
+
+    const online = createFlakyTransport()
+    online.state.online = true
+    const queue = new OfflineQueue({ storage, autoReplay: false })
+    createOfflineQueueTransport(online.transport, queue)
+
+    expect(await queue.hasPending()).toBe(true)
+    await queue.replay()
+
+    expect(online.request).toHaveBeenCalledTimes(1)
+    expect(storage.load()).toEqual([])
+  })
+
+  test("should remove and clear operations", async () => {
+    const queue = new OfflineQueue({ autoReplay: false })
+    const first = await queue.enqueue({ url: "/contracts/create" })
+    await queue.enqueue({ url: "/contracts/create" })
+
+    expect(await queue.remove(first.id)).toBe(true)
+    expect(await queue.remove(first.id)).toBe(false)
+    expect(queue.size).toBe(1)
+
+    await queue.clear()
+    expect(queue.size).toBe(0)
+  })
+})
+
+describe("queue storages", () => {
+  test("should persist the queue in a key-value store", async () => {
+    const items = new Map<string, string>()
+    const storage = createKeyValueQueueStorage({
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => {
+        items.set(key, value)
+      },
+    })
+
+    expect(await storage.load()).toBeUndefined()
+    await storage.save([
+      {
+        id: "op1",
+        operation: "contracts.create",
+        method: "POST",
+        url: "/contracts/create",
+        enqueuedAt: 0,
+        attempts: 0,
+      },
+    ])
+
+    expect(items.has("uranium:offline-queue")).toBe(true)
+    expect((await storage.load())?.[0]?.id).toBe("op1")
+  })
+
+  test("should persist the queue in a file", async () => {
+    const files = new Map<string, string>()
+    const storage = createFileQueueStorage("/tmp/queue.json", {
+      readFile: async (path) => {
+        const content = files.get(path)
+        if (content === undefined) {
+          throw Object.assign(new Error("missing"), { code: "ENOENT" })
+        }
+        return content
+      },
+      writeFile: async (path, data) => {
+        files.set(path, data)
+      },
+    })
+
+    expect(await storage.load()).toBeUndefined()
+    await storage.save([])
+    expect(files.get("/tmp/queue.json")).toBe("[]")
+  })
+})
+
+describe("UraniumSDK offline queue", () => {
+  test("should queue router calls failing offline", async () => {
+    let online = false
+    const request = mock(async (config: HttpRequestConfig) => {
+      if (!online) {
+        throw new HttpTransportError("Network Error", "ERR_NETWORK", config)
+      }
+      return {
+        data: {
+          status: "ok",
+          ok: true,
+          data: {
+            id: "contract1",
+            name: "Field_Photos",
+            symbol: "FLD",
+            type: "CREATED",
+            status: "PENDING",
+            ercType: "ERC721",
+            createdAt: null,
+            lastTokenId: 0,
+          },
+        },
+        status: 200,
+        headers: {},
+      } as HttpResponse
+    })
+    const transport: HttpTransport = {
+      request: request as HttpTransport["request"],
+      get: (url, config) =>
+        transport.request({ ...config, url, method: "GET" }),
+      post: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "POST" }),
+      put: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "PUT" }),
+    }
+    const offlineQueue = new OfflineQueue({ autoReplay: false })
+    const sdk = new UraniumSDK({ apiKey: "test-key", transport, offlineQueue })
+
+    await expect(
+      sdk.contracts.create({
+        name: "Field_Photos",
+        symbol: "FLD",
+        type: "ERC721",
+      }),
+    ).rejects.toThrow(OperationQueuedError)
+
+    online = true
+    await offlineQueue.replay()
+
+    const [first, replay] = request.mock.calls.map(([config]) => config)
+    expect(replay?.headers?.["x-auth-token"]).toBe("test-key")
+    expect(replay?.headers?.["Idempotency-Key"]).toBe(
+      first?.headers?.["Idempotency-Key"],
+    )
+    expect(offlineQueue.size).toBe(0)
+  })
+
+  test("should persist caller headers and trace replays as new calls", async () => {
+    let online = false
+    const request = mock(async (config: HttpRequestConfig) => {
+      if (!online) {
+        throw new HttpTransportError("Network Error", "ERR_NETWORK", config)
+      }
+      return {
+        data: { status: "ok", ok: true, data: null },
+        status: 200,
+        headers: {},
+      } as HttpResponse
+    })
+    const transport: HttpTransport = {
+      request: request as HttpTransport["request"],
+      get: (url, config) =>
+        transport.request({ ...config, url, method: "GET" }),
+      post: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "POST" }),
+      put: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "PUT" }),
+    }
+    const exporter = new InMemorySpanExporter()
+    const offlineQueue = new OfflineQueue({ autoReplay: false })
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport,
+      offlineQueue,
+      tracer: createTracer(exporter),
+    })
+
+    await expect(
+      sdk.contracts.create(
+        { name: "Field_Photos", symbol: "FLD", type: "ERC721" },
+        { headers: { "x-request-source": "camera" } },
+      ),
+    ).rejects.toThrow(OperationQueuedError)
+
+    const [queued] = await offlineQueue.list()
+    expect(queued?.headers).toEqual({
+      "x-request-source": "camera",
+      "Idempotency-Key": expect.any(String),
+    })
+
+    online = true
+    await offlineQueue.replay()
+
+    const [first, replay] = request.mock.calls.map(([config]) => config)
+    const [original, replayed] = exporter.getFinishedSpans()
+    expect(replay?.headers?.["x-request-source"]).toBe("camera")
+    expect(replay?.headers?.traceparent).toBeDefined()
+    expect(replay?.headers?.traceparent).not.toBe(first?.headers?.traceparent)
+    expect(replayed?.name).toBe("uranium.contracts.create")
+    expect(replayed?.traceId).not.toBe(original?.traceId)
+  })
+
+  test("should not queue router calls answered with a 503", async () => {
+    const request = mock(async (config: HttpRequestConfig) => {
+      throw httpError(config, "ERR_BAD_RESPONSE", 503)
+    })
+    const transport: HttpTransport = {
+      request: request as HttpTransport["request"],
+      get: (url, config) =>
+        transport.request({ ...config, url, method: "GET" }),
+      post: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "POST" }),
+      put: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "PUT" }),
+    }
+    const offlineQueue = new OfflineQueue({ autoReplay: false })
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport,
+      offlineQueue,
+      retry: { enabled: false },
+    })
+
+    const error = await sdk.contracts
+      .create({ name: "Field_Photos", symbol: "FLD", type: "ERC721" })
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error.code).toBe(ErrorCode.SERVER_ERROR)
+    expect(offlineQueue.size).toBe(0)
+    expect(await offlineQueue.hasPending()).toBe(false)
+  })
+})
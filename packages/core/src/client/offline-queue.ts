@@ -0,0 +1,596 @@
+/**
+ * Offline Queue
+ *
+ * Opt-in queue for mutating calls (`contracts.create`, `assets.startMinting`,
+ * `assets.completeUpload`) made without connectivity. Calls failing because
+ * the API cannot be reached are persisted to a pluggable storage and replayed
+ * in order once connectivity returns. Idempotency keys are persisted with the
+ * operation, so a replay of a request that did reach the API is recognized.
+ * Replays are traced as new calls rather than under the span of the original.
+ *
+ * @module @uranium/sdk/client/offline-queue
+ */
+
+import { ErrorCode, NetworkError, OperationQueuedError } from "../types/errors"
+import { IDEMPOTENCY_KEY_HEADER } from "./idempotency"
+import { createTracingTransport, type Tracer } from "./tracing"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+import { isCancelError, isHttpError } from "./utils"
+
+/**
+ * Operations queued when the API cannot be reached
+ */
+export const QUEUEABLE_OPERATIONS: readonly string[] = [
+  "contracts.create",
+  "assets.startMinting",
+  "assets.completeUpload",
+]
+
+/**
+ * Default key of the queue in key-value storages
+ */
+export const DEFAULT_OFFLINE_QUEUE_KEY = "uranium:offline-queue"
+
+/**
+ * Operation waiting in the offline queue
+ * Plain JSON, so storages can serialize it as-is.
+ */
+export interface QueuedOperation {
+  /** Operation id, also reported by OperationQueuedError */
+  id: string
+  /** Router operation (e.g. "assets.startMinting") */
+  operation: string
+  /** HTTP method */
+  method: string
+  /** Request URL, relative to the API base URL */
+  url: string
+  /** Request body */
+  data?: unknown
+  /**
+   * Idempotency key and headers passed by the caller (never the API key or
+   * the trace context of the original call)
+   */
+  headers?: Record<string, string>
+  /** Time the operation was queued, in epoch milliseconds */
+  enqueuedAt: number
+  /** Number of replays that failed because the API could not be reached */
+  attempts: number
+}
+
+/**
+ * Storage persisting queued operations
+ *
+ * The whole queue is loaded once and saved after every change. Methods may
+ * return promises, so asynchronous storages can be adapted directly.
+ *
+ * @example
+ * ```typescript
+ * // Adapter for IndexedDB (using the idb-keyval package)
+ * const storage: OfflineQueueStorage = {
+ *   load: () => get("uranium:offline-queue"),
+ *   save: (operations) => set("uranium:offline-queue", operations),
+ * }
+ * ```
+ */
+export interface OfflineQueueStorage {
+  /** Returns the persisted operations, oldest first */
+  load(): Promise<QueuedOperation[] | undefined> | QueuedOperation[] | undefined
+  /** Persists the operations, oldest first */
+  save(operations: QueuedOperation[]): Promise<void> | void
+}
+
+/**
+ * In-memory storage; queued operations are lost when the process exits
+ */
+export class MemoryQueueStorage implements OfflineQueueStorage {
+  private operations: QueuedOperation[] = []
+
+  load(): QueuedOperation[] {
+    return structuredClone(this.operations)
+  }
+
+  save(operations: QueuedOperation[]): void {
+    this.operations = structuredClone(operations)
+  }
+}
+
+/**
+ * Key-value store holding the queue as JSON, such as `localStorage`
+ * or React Native's `AsyncStorage`
+ */
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null> | string | null
+  setItem(key: string, value: string): Promise<void> | void
+}
+
+/**
+ * Creates a storage persisting the queue in a key-value store
+ * @param storage - Key-value store (e.g. `window.localStorage`)
+ * @param key - Key the queue is stored under
+ * @returns Queue storage
+ *
+ * @example
+ * ```typescript
+ * const queue = new OfflineQueue({
+ *   storage: createKeyValueQueueStorage(window.localStorage),
+ * })
+ * ```
+ */
+export const createKeyValueQueueStorage = (
+  storage: KeyValueStorage,
+  key: string = DEFAULT_OFFLINE_QUEUE_KEY,
+): OfflineQueueStorage => ({
+  load: async () => {
+    const value = await storage.getItem(key)
+    return value ? (JSON.parse(value) as QueuedOperation[]) : undefined
+  },
+  save: async (operations) => {
+    await storage.setItem(key, JSON.stringify(operations))
+  },
+})
+
+/**
+ * File system functions used by the file storage (a subset of `node:fs/promises`)
+ */
+export interface QueueFileSystem {
+  readFile(path: string, encoding: "utf8"): Promise<string>
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>
+}
+
+/**
+ * Creates a storage persisting the queue in a JSON file
+ *
+ * The file system is passed in so the SDK does not depend on Node.js modules.
+ *
+ * @param path - Path of the JSON file
+ * @param fs - File system functions, e.g. `await import("node:fs/promises")`
+ * @returns Queue storage
+ *
+ * @example
+ * ```typescript
+ * import * as fs from "node:fs/promises"
+ *
+ * const queue = new OfflineQueue({
+ *   storage: createFileQueueStorage("./uranium-queue.json", fs),
+ * })
+ * ```
+ */
+export const createFileQueueStorage = (
+  path: string,
+  fs: QueueFileSystem,
+): OfflineQueueStorage => ({
+  load: async () => {
+    try {
+      return JSON.parse(await fs.readFile(path, "utf8")) as QueuedOperation[]
+    } catch (error) {
+      // A missing file is an empty queue
+      if ((error as { code?: string })?.code === "ENOENT") return undefined
+      throw error
+    }
+  },
+  save: (operations) => fs.writeFile(path, JSON.stringify(operations), "utf8"),
+})
+
+/**
+ * Event emitted by the offline queue
+ * - "enqueued": an operation was queued
+ * - "replayed": a queued operation succeeded, with the API response body
+ * - "failed": a queued operation was rejected by the API and removed
+ * - "offline": replay stopped because the API still cannot be reached
+ * - "drained": every queued operation was replayed
+ */
+export type OfflineQueueEvent =
+  | { type: "enqueued"; operation: QueuedOperation }
+  | { type: "replayed"; operation: QueuedOperation; response: unknown }
+  | { type: "failed"; operation: QueuedOperation; error: unknown }
+  | { type: "offline"; operation: QueuedOperation; error: unknown }
+  | { type: "drained" }
+
+/**
+ * Options for OfflineQueue
+ */
+export interface OfflineQueueOptions {
+  /**
+   * Storage persisting queued operations
+   * @default new MemoryQueueStorage()
+   */
+  storage?: OfflineQueueStorage
+
+  /**
+   * Replay when the queue is attached to an SDK, when the runtime reports
+   * connectivity (the global `online` event in browsers) and after any
+   * request of the SDK succeeds. When disabled, call `replay()`.
+   * @default true
+   */
+  autoReplay?: boolean
+
+  /** Clock in epoch milliseconds */
+  now?: () => number
+}
+
+/**
+ * Checks if an error means the API could not be reached
+ *
+ * Only failures without an HTTP response count (connection errors, timeouts,
+ * fetch network failures). Responses from the API, 5xx included, and
+ * cancelled requests are not retried later.
+ */
+export const isOfflineError = (error: unknown): boolean => {
+  if (
+    !(error instanceof NetworkError) ||
+    error instanceof OperationQueuedError
+  ) {
+    return false
+  }
+  const original = error.originalError
+  return isHttpError(original) && !original.response && !isCancelError(original)
+}
+
+/**
+ * Queue of mutating calls made while the API cannot be reached
+ *
+ * A queue belongs to the SDK instance it is passed to: operations are
+ * replayed through that instance's transport and credentials.
+ *
+ * @example
+ * ```typescript
+ * const offlineQueue = new OfflineQueue({
+ *   storage: createKeyValueQueueStorage(window.localStorage),
+ * })
+ * const sdk = new UraniumSDK({ apiKey, offlineQueue })
+ *
+ * offlineQueue.subscribe((event) => {
+ *   if (event.type === "replayed") console.log(`${event.operation.operation} sent`)
+ * })
+ *
+ * try {
+ *   await sdk.contracts.create({ name: "Field_Photos", symbol: "FLD", type: "ERC721" })
+ * } catch (error) {
+ *   if (error instanceof OperationQueuedError) {
+ *     showBanner(`Saved offline (${offlineQueue.size} pending)`)
+ *   }
+ * }
+ * ```
+ */
+export class OfflineQueue {
+  /** Storage persisting queued operations */
+  readonly storage: OfflineQueueStorage
+  private readonly autoReplay: boolean
+  private readonly now: () => number
+  private readonly listeners = new Set<(event: OfflineQueueEvent) => void>()
+  private operations: QueuedOperation[] = []
+  private loading?: Promise<void>
+  private replaying?: Promise<void>
+  private transport?: HttpTransport
+  private removeOnlineListener?: () => void
+
+  constructor(options: OfflineQueueOptions = {}) {
+    this.storage = options.storage ?? new MemoryQueueStorage()
+    this.autoReplay = options.autoReplay ?? true
+    this.now = options.now ?? Date.now
+  }
+
+  /**
+   * Number of queued operations (0 until the storage is loaded)
+   */
+  get size(): number {
+    return this.operations.length
+  }
+
+  /**
+   * Whether queued operations are being replayed
+   */
+  get isReplaying(): boolean {
+    return this.replaying !== undefined
+  }
+
+  /**
+   * Queued operations, oldest first
+   */
+  async list(): Promise<QueuedOperation[]> {
+    await this.load()
+    return structuredClone(this.operations)
+  }
+
+  /**
+   * Checks if operations are queued or being replayed
+   */
+  async hasPending(): Promise<boolean> {
+    await this.load()
+    return this.operations.length > 0 || this.isReplaying
+  }
+
+  /**
+   * Registers a listener for queue events
+   * @param listener - Called with every event
+   * @returns Function removing the listener
+   */
+  subscribe(listener: (event: OfflineQueueEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Sets the transport operations are replayed through
+   * Called by `createOfflineQueueTransport`; replays start once attached.
+   * @param transport - API transport
+   */
+  attach(transport: HttpTransport): void {
+    this.transport = transport
+    if (this.autoReplay && !this.removeOnlineListener) {
+      this.removeOnlineListener = listenForOnline(() => this.scheduleReplay())
+    }
+    this.scheduleReplay()
+  }
+
+  /**
+   * Stops listening for connectivity; queued operations are kept
+   */
+  detach(): void {
+    this.removeOnlineListener?.()
+    this.removeOnlineListener = undefined
+    this.transport = undefined
+  }
+
+  /**
+   * Queues a request
+   * @param requestConfig - Request of a queueable operation
+   * @returns Queued operation
+   */
+  async enqueue(requestConfig: HttpRequestConfig): Promise<QueuedOperation> {
+    await this.load()
+    const info = requestConfig.operation
+    const operation: QueuedOperation = {
+      id: crypto.randomUUID(),
+      operation: info ? `${info.router}.${info.operation}` : "",
+      method: (requestConfig.method ?? "GET").toUpperCase(),
+      url: requestConfig.url ?? "",
+      data: requestConfig.data,
+      headers: queuedHeaders(requestConfig),
+      enqueuedAt: this.now(),
+      attempts: 0,
+    }
+    this.operations.push(operation)
+    await this.persist()
+    this.emit({ type: "enqueued", operation })
+    return operation
+  }
+
+  /**
+   * Removes a queued operation without sending it
+   * @param id - Operation id
+   * @returns Whether the operation was queued
+   */
+  async remove(id: string): Promise<boolean> {
+    await this.load()
+    const index = this.operations.findIndex((operation) => operation.id === id)
+    if (index === -1) return false
+
+    this.operations.splice(index, 1)
+    await this.persist()
+    return true
+  }
+
+  /**
+   * Removes every queued operation without sending them
+   */
+  async clear(): Promise<void> {
+    await this.load()
+    this.operations = []
+    await this.persist()
+  }
+
+  /**
+   * Sends queued operations in order
+   *
+   * Stops at the first operation that still cannot reach the API. Operations
+   * failing otherwise (rejected by the API, 5xx responses) are removed and
+   * reported with a "failed" event, so they never block the queue.
+   * Concurrent calls share one replay.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayAll().finally(() => {
+        this.replaying = undefined
+      })
+    }
+    return this.replaying
+  }
+
+  /**
+   * Starts a replay in the background when operations are queued and
+   * `autoReplay` is enabled
+   */
+  scheduleReplay(): void {
+    if (!this.autoReplay || !this.transport || this.replaying) return
+    this.load()
+      .then(() => (this.operations.length > 0 ? this.replay() : undefined))
+      .catch(() => {
+        // Failures are reported through events; storage errors surface on the next call
+      })
+  }
+
+  private async replayAll(): Promise<void> {
+    await this.load()
+    let replayed = false
+
+    for (;;) {
+      const operation = this.operations[0]
+      const transport = this.transport
+      if (!operation || !transport) break
+
+      try {
+        const [router = "", name = ""] = operation.operation.split(".")
+        const response = await transport.request({
+          method: operation.method,
+          url: operation.url,
+          data: operation.data,
+          headers: operation.headers,
+          operation: { router, operation: name, params: operation.data },
+        })
+        this.operations.shift()
+        await this.persist()
+        this.emit({ type: "replayed", operation, response: response.data })
+        replayed = true
+      } catch (error) {
+        if (isOfflineError(error)) {
+          operation.attempts++
+          await this.persist()
+          this.emit({ type: "offline", operation, error })
+          return
+        }
+        this.operations.shift()
+        await this.persist()
+        this.emit({ type: "failed", operation, error })
+        replayed = true
+      }
+    }
+
+    if (replayed && this.operations.length === 0) {
+      this.emit({ type: "drained" })
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = Promise.resolve(this.storage.load()).then(
+        (operations) => {
+          // Operations queued before the storage was loaded go last
+          this.operations = [...(operations ?? []), ...this.operations]
+        },
+        (error) => {
+          this.loading = undefined
+          throw error
+        },
+      )
+    }
+    return this.loading
+  }
+
+  private async persist(): Promise<void> {
+    await this.storage.save(structuredClone(this.operations))
+  }
+
+  private emit(event: OfflineQueueEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch {
+        // A failing listener must not break the queue
+      }
+    }
+  }
+}
+
+/**
+ * Headers persisted with a queued request: the caller's headers and the
+ * idempotency key. Headers added by the SDK (auth, `traceparent`) are set
+ * again when the operation is replayed.
+ */
+const queuedHeaders = (
+  requestConfig: HttpRequestConfig,
+): Record<string, string> | undefined => {
+  const idempotencyKey = requestConfig.headers?.[IDEMPOTENCY_KEY_HEADER]
+  const headers = {
+    ...requestConfig.callerHeaders,
+    ...(idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {}),
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined
+}
+
+/**
+ * Calls `onOnline` when the runtime reports connectivity, where supported
+ * @returns Function removing the listener
+ */
+const listenForOnline = (onOnline: () => void): (() => void) | undefined => {
+  const target = globalThis as {
+    addEventListener?: (type: string, listener: () => void) => void
+    removeEventListener?: (type: string, listener: () => void) => void
+  }
+  if (typeof target.addEventListener !== "function") {
+    return undefined
+  }
+  target.addEventListener("online", onOnline)
+  return () => target.removeEventListener?.("online", onOnline)
+}
+
+/**
+ * Wraps an API transport with an offline queue
+ *
+ * Queueable operations that fail because the API cannot be reached are
+ * queued and rejected with `OperationQueuedError`. While operations are
+ * queued, new queueable operations are queued behind them so they are sent
+ * in order. Requests of tenant clients (with their own credentials) are
+ * never queued, as replays use this transport's credentials.
+ *
+ * @param transport - API transport
+ * @param queue - Offline queue; the transport is returned as-is when undefined
+ * @param tracer - Tracer creating a span (and `traceparent`) per replay
+ * @returns Transport that can be passed to the routers
+ */
+export const createOfflineQueueTransport = (
+  transport: HttpTransport,
+  queue: OfflineQueue | undefined,
+  tracer?: Tracer,
+): HttpTransport => {
+  if (!queue) {
+    return transport
+  }
+
+  queue.attach(createTracingTransport(transport, tracer))
+
+  const reject = async (
+    requestConfig: HttpRequestConfig,
+    cause?: unknown,
+  ): Promise<never> => {
+    const operation = await queue.enqueue(requestConfig)
+    throw new OperationQueuedError(
+      `${operation.operation} queued until the API can be reached`,
+      ErrorCode.OPERATION_QUEUED,
+      operation.id,
+      cause instanceof Error ? cause : undefined,
+    )
+  }
+
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const info = requestConfig.operation
+    const queueable =
+      info !== undefined &&
+      !requestConfig.credentials &&
+      QUEUEABLE_OPERATIONS.includes(`${info.router}.${info.operation}`)
+
+    if (queueable && (await queue.hasPending())) {
+      const queued = reject(requestConfig)
+      queue.scheduleReplay()
+      return queued
+    }
+
+    try {
+      const response = await transport.request<T>(requestConfig)
+      if (queue.size > 0) queue.scheduleReplay()
+      return response
+    } catch (error) {
+      if (queueable && isOfflineError(error)) {
+        return reject(requestConfig, error)
+      }
+      throw error
+    }
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
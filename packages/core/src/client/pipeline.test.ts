@@ -0,0 +1,451 @@
+import { describe, expect, mock, test } from "bun:test"
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  ValidationError,
+} from "@uranium/types"
+import {
+  BlockchainError,
+  LimitExceededError,
+  MintingError,
+} from "../types/errors"
+import { createApiTransport, createUploadTransport } from "./base"
+import { contractsRouter } from "./contracts"
+import { createFetchTransport } from "./fetch-transport"
+import type { LogRecord } from "./logger"
+import { createHttpClient } from "./pipeline"
+import {
+  type HttpRequestConfig,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+/**
+ * Creates a raw transport that answers every request with the given handler
+ */
+const createStubTransport = (
+  handler: (config: HttpRequestConfig) => Promise<unknown>,
+): HttpTransport & { calls: HttpRequestConfig[] } => {
+  const calls: HttpRequestConfig[] = []
+  const request = mock(async (config: HttpRequestConfig) => {
+    calls.push(config)
+    return {
+      data: await handler(config),
+      status: 200,
+      headers: {},
+    }
+    // biome-ignore lint/suspicious/noExplicitAny: Generic stub response
+  }) as any
+  return {
+    calls,
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
+
+const httpError = (
+  config: HttpRequestConfig,
+  status: number,
+  data = {},
+  headers: Record<string, string> = {},
+) =>
+  new HttpTransportError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+    config,
+    { data, status, headers },
+  )
+
+describe("createHttpClient", () => {
+  test("should apply base URL, timeout and auth header", async () => {
+    const transport = createStubTransport(async () => ({ status: "ok" }))
+    const client = createHttpClient(
+      { apiKey: "test-key", baseUrl: "https://api.example.com", timeout: 500 },
+      transport,
+    )
+
+    await client.get("/contracts/list", {
+      headers: { "x-auth-token": "override", "x-trace": "abc" },
+    })
+
+    const sent = transport.calls[0]
+    expect(sent?.baseURL).toBe("https://api.example.com")
+    expect(sent?.timeout).toBe(500)
+    expect(sent?.method).toBe("GET")
+    expect(sent?.headers?.["x-auth-token"]).toBe("test-key")
+    expect(sent?.headers?.["x-trace"]).toBe("abc")
+  })
+
+  test("should throw ValidationError for API errors in successful responses", async () => {
+    const transport = createStubTransport(async () => ({
+      status: "error",
+      errorCode: "TEST_ERROR",
+    }))
+    const client = createHttpClient({ apiKey: "test-key" }, transport)
+
+    await expect(client.get("/test")).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  test.each([
+    [401, AuthenticationError],
+    [403, AuthenticationError],
+    [404, NotFoundError],
+    [400, ValidationError],
+    [422, ValidationError],
+    [429, LimitExceededError],
+    [500, NetworkError],
+  ])(
+    "should map HTTP %d to the SDK error class",
+    async (status, ErrorClass) => {
+      const transport = createStubTransport(async (config) => {
+        throw httpError(config, status)
+      })
+      const client = createHttpClient({ apiKey: "test-key" }, transport)
+
+      await expect(client.get("/test")).rejects.toBeInstanceOf(ErrorClass)
+    },
+  )
+
+  test.each([
+    ["CONTRACT_NOT_FOUND", NotFoundError],
+    ["QUOTA_EXCEEDED", LimitExceededError],
+    ["MINTING_FAILED", MintingError],
+    ["TRANSACTION_REVERTED", BlockchainError],
+    ["AUTH_EXPIRED", AuthenticationError],
+  ])(
+    "should translate errorCode %s in successful responses",
+    async (errorCode, ErrorClass) => {
+      const body = { status: "error", errorCode }
+      const transport = createStubTransport(async () => body)
+      const client = createHttpClient({ apiKey: "test-key" }, transport)
+
+      const error = await client.get("/test").catch((error) => error)
+
+      expect(error).toBeInstanceOf(ErrorClass)
+      expect(error.code).toBe(errorCode)
+      expect(error.context).toEqual({
+        errorCode,
+        status: 200,
+        requestId: transport.calls[0]?.requestId,
+        data: body,
+      })
+    },
+  )
+
+  test("should prefer errorCode over the HTTP status for error responses", async () => {
+    const body = { status: "error", errorCode: "MINTING_FAILED" }
+    const transport = createStubTransport(async (config) => {
+      throw httpError(config, 500, body)
+    })
+    const client = createHttpClient({ apiKey: "test-key" }, transport)
+
+    const error = await client.get("/test").catch((error) => error)
+
+    expect(error).toBeInstanceOf(MintingError)
+    expect(error.context).toMatchObject({ status: 500, data: body })
+    expect(error.context.requestId).toBeString()
+  })
+
+  test("should keep the backend error code of 429 responses", async () => {
+    const transport = createStubTransport(async (config) => {
+      throw httpError(config, 429, { errorCode: "QUOTA_EXCEEDED" })
+    })
+    const client = createHttpClient({ apiKey: "test-key" }, transport)
+
+    const error = await client.get("/test").catch((error) => error)
+
+    expect(error).toBeInstanceOf(LimitExceededError)
+    expect(error.code).toBe("QUOTA_EXCEEDED")
+  })
+
+  test.each([401, 403])(
+    "should map HTTP %d with a validation code to AuthenticationError",
+    async (status) => {
+      const transport = createStubTransport(async (config) => {
+        throw httpError(config, status, { errorCode: "INVALID_INPUT" })
+      })
+      const client = createHttpClient({ apiKey: "test-key" }, transport)
+
+      const error = await client.get("/test").catch((error) => error)
+
+      expect(error).toBeInstanceOf(AuthenticationError)
+      expect(error.code).toBe("INVALID_INPUT")
+      expect(error.statusCode).toBe(status)
+    },
+  )
+
+  test("should fall back to the HTTP status for unknown error codes", async () => {
+    const transport = createStubTransport(async (config) => {
+      throw httpError(config, 404, { errorCode: "GONE_FISHING" })
+    })
+    const client = createHttpClient({ apiKey: "test-key" }, transport)
+
+    const error = await client.get("/test").catch((error) => error)
+
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.code).toBe("GONE_FISHING")
+  })
+
+  test("should retry retryable failures with backoff", async () => {
+    let calls = 0
+    const transport = createStubTransport(async (config) => {
+      calls++
+      if (calls < 3) throw httpError(config, 503)
+      return { status: "ok" }
+    })
+    const onRetry = mock(() => {})
+    const client = createHttpClient(
+      {
+        apiKey: "test-key",
+        retry: { enabled: true, maxRetries: 3, retryDelay: 1, onRetry },
+      },
+      transport,
+    )
+
+    const response = await client.get("/test")
+
+    expect(response.data).toEqual({ status: "ok" })
+    expect(calls).toBe(3)
+    expect(onRetry).toHaveBeenCalledTimes(2)
+  })
+
+  test("should honor per-request retry override", async () => {
+    let calls = 0
+    const transport = createStubTransport(async (config) => {
+      calls++
+      throw httpError(config, 503)
+    })
+    const client = createHttpClient(
+      { apiKey: "test-key", retry: { enabled: false } },
+      transport,
+    )
+
+    await expect(
+      client.get("/test", {
+        retry: { enabled: true, maxRetries: 1, retryDelay: 1 },
+      }),
+    ).rejects.toBeInstanceOf(NetworkError)
+    expect(calls).toBe(2)
+  })
+
+  test("should wait for rate limit reset and replay when enabled", async () => {
+    let calls = 0
+    const transport = createStubTransport(async (config) => {
+      calls++
+      if (calls === 1) {
+        throw httpError(config, 429, {}, { "x-ratelimit-reset": "0" })
+      }
+      return { status: "ok" }
+    })
+    const client = createHttpClient(
+      { apiKey: "test-key", rateLimit: { waitForReset: true } },
+      transport,
+    )
+
+    const response = await client.get("/test")
+
+    expect(response.data).toEqual({ status: "ok" })
+    expect(calls).toBe(2)
+  })
+
+  test("should stop waiting for rate limit reset after maxRetries", async () => {
+    const transport = createStubTransport(async (config) => {
+      throw httpError(config, 429, {}, { "retry-after": "0" })
+    })
+    const client = createHttpClient(
+      {
+        apiKey: "test-key",
+        rateLimit: { waitForReset: true, maxRetries: 2 },
+      },
+      transport,
+    )
+
+    await expect(client.get("/test")).rejects.toBeInstanceOf(LimitExceededError)
+    expect(transport.calls).toHaveLength(3)
+  })
+
+  test("should send the same idempotency key on every retry", async () => {
+    const transport = createStubTransport(async (config) => {
+      if (transport.calls.length < 3) throw httpError(config, 503)
+      return { status: "ok", data: { id: "contract1" } }
+    })
+    const client = createHttpClient(
+      {
+        apiKey: "test-key",
+        retry: { enabled: true, maxRetries: 3, retryDelay: 1 },
+      },
+      transport,
+    )
+
+    await contractsRouter(client).create({
+      name: "Test",
+      symbol: "TST",
+      type: "ERC721",
+    })
+
+    const keys = transport.calls.map(
+      (call) => call.headers?.["Idempotency-Key"],
+    )
+    expect(keys).toHaveLength(3)
+    expect(keys[0]).toBeString()
+    expect(new Set(keys).size).toBe(1)
+  })
+
+  test("should log structured records for every attempt", async () => {
+    let calls = 0
+    const transport = createStubTransport(async (config) => {
+      calls++
+      if (calls < 2) throw httpError(config, 503)
+      return { user: { nickname: "neo", phoneNumber: "+15550100" } }
+    })
+    const logger = {
+      debug: mock(() => {}),
+      info: mock(() => {}),
+      warn: mock(() => {}),
+      error: mock(() => {}),
+    }
+    const client = createHttpClient(
+      {
+        apiKey: "test-key",
+        logger,
+        logLevel: "debug",
+        retry: { enabled: true, maxRetries: 1, retryDelay: 1 },
+      },
+      transport,
+    )
+
+    await client.get("/account/me", {
+      headers: { "X-Auth-Token": "caller-token" },
+    })
+
+    const requests = logger.debug.mock.calls.filter(
+      ([message]) => message === "Request",
+    ) as unknown as [string, LogRecord][]
+    expect(requests.map(([, record]) => record.attempt)).toEqual([1, 2])
+    expect(requests[0]?.[1]).toEqual({
+      requestId: expect.any(String),
+      method: "GET",
+      route: "/account/me",
+      attempt: 1,
+    })
+    expect(requests[1]?.[1].requestId).toBe(requests[0]?.[1].requestId)
+
+    expect(logger.info).toHaveBeenCalledWith(
+      "Retrying request",
+      expect.objectContaining({ attempt: 2, status: 503, delayMs: 1 }),
+    )
+    expect(logger.debug).toHaveBeenCalledWith("Response", {
+      requestId: requests[0]?.[1].requestId,
+      method: "GET",
+      route: "/account/me",
+      attempt: 2,
+      status: 200,
+      durationMs: expect.any(Number),
+    })
+
+    // Neither credentials nor response bodies are logged
+    const logged = JSON.stringify([
+      logger.debug.mock.calls,
+      logger.info.mock.calls,
+    ])
+    expect(logged).not.toContain("test-key")
+    expect(logged).not.toContain("caller-token")
+    expect(logged).not.toContain("+15550100")
+  })
+
+  test("should log final failures at error level", async () => {
+    const transport = createStubTransport(async (config) => {
+      throw httpError(config, 500)
+    })
+    const logger = {
+      debug: mock(() => {}),
+      info: mock(() => {}),
+      warn: mock(() => {}),
+      error: mock(() => {}),
+    }
+    const client = createHttpClient({ apiKey: "test-key", logger }, transport)
+
+    await expect(client.get("/test")).rejects.toBeInstanceOf(NetworkError)
+    expect(logger.error).toHaveBeenCalledWith(
+      "Request failed",
+      expect.objectContaining({ route: "/test", status: 500, attempt: 1 }),
+    )
+    expect(logger.debug).not.toHaveBeenCalled()
+  })
+
+  test("should map cancelled requests to REQUEST_ABORTED", async () => {
+    const transport = createStubTransport(async (config) => {
+      throw new HttpTransportError("canceled", "ERR_CANCELED", config)
+    })
+    const client = createHttpClient(
+      { apiKey: "test-key", retry: { enabled: true, retryDelay: 1 } },
+      transport,
+    )
+
+    await expect(client.get("/test")).rejects.toMatchObject({
+      code: "REQUEST_ABORTED",
+      isRetryable: false,
+    })
+    expect(transport.calls).toHaveLength(1)
+  })
+
+  test("should drive the routers over the fetch transport", async () => {
+    const fetchMock = mock(
+      async (_url: string, _init?: RequestInit) =>
+        new Response(
+          JSON.stringify({ status: "ok", data: [{ id: "contract1" }] }),
+          { headers: { "Content-Type": "application/json" } },
+        ),
+    )
+    const client = createHttpClient(
+      { apiKey: "test-key", baseUrl: "https://api.example.com" },
+      createFetchTransport({ fetch: fetchMock as unknown as typeof fetch }),
+    )
+
+    const contracts = await contractsRouter(client).list()
+
+    expect(contracts).toEqual([{ id: "contract1" }] as never)
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      "https://api.example.com/contracts/list",
+    )
+    const headers = fetchMock.mock.calls[0]?.[1]?.headers as Record<
+      string,
+      string
+    >
+    expect(headers["x-auth-token"]).toBe("test-key")
+  })
+})
+
+describe("createApiTransport", () => {
+  test("should default to the Axios client", () => {
+    const transport = createApiTransport({ apiKey: "test-key" })
+    expect("interceptors" in transport).toBe(true)
+  })
+
+  test("should wrap custom transports with the pipeline", async () => {
+    const raw = createStubTransport(async () => ({ status: "ok" }))
+    const transport = createApiTransport({ apiKey: "test-key", transport: raw })
+
+    await transport.get("/test")
+
+    expect(raw.calls[0]?.headers?.["x-auth-token"]).toBe("test-key")
+  })
+
+  test("should use raw transports for uploads", async () => {
+    const raw = createStubTransport(async () => null)
+    const transport = createUploadTransport({
+      apiKey: "test-key",
+      transport: raw,
+    })
+
+    await transport.put("https://s3.example.com/part1", new ArrayBuffer(1))
+
+    expect(transport).toBe(raw)
+    expect(raw.calls[0]?.headers?.["x-auth-token"]).toBeUndefined()
+  })
+})
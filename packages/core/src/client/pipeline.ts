@@ -0,0 +1,594 @@
+/**
+ * Request Pipeline
+ *
+ * Transport-agnostic request handling shared by the Axios client and
+ * `createHttpClient`: config resolution, authentication, API error
+ * detection, retries and mapping of transport failures to SDK errors.
+ *
+ * @module @uranium/sdk/client/pipeline
+ */
+
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  type UraniumError,
+  ValidationError,
+} from "@uranium/types"
+import {
+  createErrorFromCode,
+  ErrorCode,
+  LimitExceededError,
+} from "../types/errors"
+import type {
+  ResolvedUraniumConfig,
+  RetryConfig,
+  UraniumConfig,
+} from "./config"
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  DEFAULT_RETRY_CONFIG,
+} from "./config"
+import { resolveCredentials } from "./credentials"
+import { resolveEnvironment } from "./environment"
+import { IDEMPOTENCY_KEY_HEADER } from "./idempotency"
+import { generateRequestId, type LogRecord, resolveLogger } from "./logger"
+import { parseRateLimitHeaders, sleep, TokenBucket } from "./rate-limit"
+import { withRetry } from "./retry"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+  OperationInfo,
+} from "./transport"
+import type { RequestOptions } from "./types"
+import {
+  extractSignal,
+  generateDeviceId,
+  getErrorMessage,
+  type HttpError,
+  isCancelError,
+  isHttpError,
+  isRateLimitError,
+} from "./utils"
+
+/**
+ * Resolves user config with defaults
+ */
+export function resolveConfig(config: UraniumConfig): ResolvedUraniumConfig {
+  const environment = resolveEnvironment(config)
+  return {
+    credentials: resolveCredentials(config),
+    environment: config.environment ?? DEFAULT_CONFIG.environment,
+    baseUrl: config.baseUrl ?? environment.baseUrl,
+    timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
+    deviceId: config.deviceId ?? generateDeviceId(),
+    debug: config.debug ?? DEFAULT_CONFIG.debug,
+    logger: resolveLogger(config),
+    retry: {
+      ...DEFAULT_RETRY_CONFIG,
+      ...config.retry,
+    },
+    rateLimit: {
+      ...DEFAULT_RATE_LIMIT_CONFIG,
+      ...config.rateLimit,
+    },
+    circuitBreaker: config.circuitBreaker,
+  }
+}
+
+/**
+ * Builds the log record of a request attempt
+ * @param requestConfig - Request being logged
+ * @param fields - Additional fields (e.g. status)
+ * @returns Record without undefined fields
+ */
+export function requestRecord(
+  requestConfig: HttpRequestConfig | undefined,
+  fields: LogRecord = {},
+): LogRecord {
+  const record: LogRecord = {
+    requestId: requestConfig?.requestId,
+    method: requestConfig?.method?.toUpperCase(),
+    route: requestConfig?.url,
+    attempt: requestConfig?.attempt,
+    durationMs:
+      requestConfig?.startedAt === undefined
+        ? undefined
+        : Date.now() - requestConfig.startedAt,
+    ...fields,
+  }
+
+  for (const key of Object.keys(record)) {
+    if (record[key] === undefined) delete record[key]
+  }
+  return record
+}
+
+/**
+ * Converts per-request options into transport request config
+ * Only options that were actually provided are included
+ * @param options - Request options passed to a router method
+ * @param operation - Router operation issuing the request
+ * @returns Request config to merge into the request
+ */
+export const toRequestConfig = (
+  options?: RequestOptions,
+  operation?: OperationInfo,
+): HttpRequestConfig => {
+  const requestConfig: HttpRequestConfig = {}
+
+  if (operation) requestConfig.operation = operation
+  const signal = extractSignal(options?.signal)
+
+  if (signal) requestConfig.signal = signal
+  if (options?.timeout !== undefined) requestConfig.timeout = options.timeout
+  if (options?.headers) {
+    requestConfig.headers = { ...options.headers }
+    requestConfig.callerHeaders = { ...options.headers }
+  }
+  if (options?.idempotencyKey) {
+    requestConfig.headers = {
+      ...requestConfig.headers,
+      [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey,
+    }
+  }
+  if (options?.retry) requestConfig.retry = options.retry
+  if (options?.parentSpan) requestConfig.parentSpan = options.parentSpan
+
+  return requestConfig
+}
+
+/**
+ * Logs an outgoing request
+ * Request bodies are not logged.
+ */
+export function logRequest(
+  resolvedConfig: ResolvedUraniumConfig,
+  requestConfig: HttpRequestConfig,
+): void {
+  resolvedConfig.logger.debug(
+    "Request",
+    requestRecord(requestConfig, { durationMs: undefined }),
+  )
+}
+
+/**
+ * Inspects a successful HTTP response for an API-level error
+ * @throws {UraniumError} Error translated from the `errorCode` in the response body
+ */
+export function handleApiResponse(
+  resolvedConfig: ResolvedUraniumConfig,
+  response: HttpResponse,
+  requestConfig: HttpRequestConfig,
+): void {
+  // biome-ignore lint/suspicious/noExplicitAny: Response data structure is dynamic
+  const data = response.data as any
+
+  resolvedConfig.logger.debug(
+    "Response",
+    requestRecord(requestConfig, { status: response.status }),
+  )
+
+  // Check if API returned an error in successful HTTP response
+  if (data?.status === "error" || data?.errorCode) {
+    const errorCode = data.errorCode || "UNKNOWN_ERROR"
+    const errorMessage = `API Error: ${errorCode}`
+
+    resolvedConfig.logger.warn(
+      "API error in response",
+      requestRecord(requestConfig, { status: response.status, errorCode }),
+    )
+
+    throw translateApiError(errorMessage, response, requestConfig)
+  }
+}
+
+/**
+ * Merges a per-request retry override into the global retry config
+ */
+export function resolveRetryConfig(
+  resolvedConfig: ResolvedUraniumConfig,
+  requestConfig?: HttpRequestConfig,
+): RetryConfig {
+  const retryConfig: RetryConfig = {
+    ...resolvedConfig.retry,
+    ...requestConfig?.retry,
+  }
+
+  // Log the retry, then notify onRetry and the request-level listener (plugins)
+  const { onRetry } = retryConfig
+  const listener = requestConfig?.onRetry
+  retryConfig.onRetry = async (attempt, error, delayMs) => {
+    resolvedConfig.logger.info(
+      "Retrying request",
+      requestRecord(requestConfig, {
+        attempt: attempt + 1,
+        durationMs: undefined,
+        status: isHttpError(error) ? error.response?.status : undefined,
+        delayMs,
+      }),
+    )
+    await onRetry?.(attempt, error, delayMs)
+    await listener?.(attempt, error, delayMs)
+  }
+
+  return retryConfig
+}
+
+/**
+ * Records a request that reached the API
+ * Earns retry budget back and closes the circuit breaker.
+ */
+export function recordSuccess(
+  resolvedConfig: ResolvedUraniumConfig,
+  requestConfig?: HttpRequestConfig,
+): void {
+  resolveRetryConfig(resolvedConfig, requestConfig).budget?.recordSuccess()
+  resolvedConfig.circuitBreaker?.recordSuccess()
+}
+
+/**
+ * Retries a request whose first attempt already failed
+ *
+ * The original error is replayed as the first attempt so the backoff delay
+ * and onRetry callback apply before the request is re-sent.
+ *
+ * @param error - Error from the first attempt
+ * @param retryConfig - Effective retry configuration
+ * @param replay - Re-sends the request, rejecting with raw transport errors
+ * @returns Response of the first successful retry
+ * @throws Last transport error, or any non-transport error raised on the way
+ */
+export async function retryFailedRequest<T>(
+  error: unknown,
+  retryConfig: RetryConfig,
+  replay: () => Promise<T>,
+): Promise<T> {
+  let attempt = 0
+  return withRetry(
+    () => (attempt++ === 0 ? Promise.reject(error) : replay()),
+    retryConfig,
+  )
+}
+
+/**
+ * Creates the client-side token bucket, if throttling is configured
+ */
+export function createThrottle(
+  resolvedConfig: ResolvedUraniumConfig,
+): TokenBucket | undefined {
+  const throttle = resolvedConfig.rateLimit.throttle
+  return throttle ? new TokenBucket(throttle) : undefined
+}
+
+/**
+ * Waits for the rate limit to reset and replays a request rejected with 429
+ *
+ * The wait is taken from the `Retry-After` / `X-RateLimit-Reset` headers,
+ * falling back to `defaultWaitMs`. Gives up when the wait would exceed
+ * `maxWaitMs` or after `maxRetries` waits.
+ *
+ * @param resolvedConfig - Resolved SDK configuration
+ * @param error - 429 error from the previous attempt
+ * @param replay - Re-sends the request, rejecting with raw transport errors
+ * @param signal - Optional abort signal to stop waiting
+ * @returns Response of the first replay that was not rate limited
+ * @throws Last transport error, or any non-transport error raised on the way
+ */
+export async function retryRateLimitedRequest<T>(
+  resolvedConfig: ResolvedUraniumConfig,
+  error: HttpError,
+  replay: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const { maxRetries, maxWaitMs, defaultWaitMs } = resolvedConfig.rateLimit
+  let lastError = error
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const { resetAt } = parseRateLimitHeaders(lastError.response?.headers)
+    const waitMs = resetAt
+      ? Math.max(0, resetAt.getTime() - Date.now())
+      : defaultWaitMs
+
+    if (waitMs > maxWaitMs) {
+      break
+    }
+
+    resolvedConfig.logger.info(
+      "Rate limited, waiting for reset",
+      requestRecord(lastError.config as HttpRequestConfig | undefined, {
+        status: 429,
+        durationMs: undefined,
+        waitMs,
+      }),
+    )
+    await sleep(waitMs, signal)
+
+    try {
+      return await replay()
+    } catch (replayError) {
+      if (!isRateLimitError(replayError)) {
+        throw replayError
+      }
+      lastError = replayError
+    }
+  }
+
+  throw lastError
+}
+
+/**
+ * Maps a transport error to the SDK error hierarchy
+ * @returns Error to throw to the caller
+ */
+export function toApiError(
+  resolvedConfig: ResolvedUraniumConfig,
+  error: HttpError,
+): Error {
+  // Client errors are expected outcomes; network failures and 5xx are errors
+  const status = error.response?.status
+  const record = requestRecord(error.config as HttpRequestConfig | undefined, {
+    status,
+    errorCode: (error.response?.data as { errorCode?: string } | undefined)
+      ?.errorCode,
+    error: error.message,
+  })
+  if (isCancelError(error) || (status !== undefined && status < 500)) {
+    resolvedConfig.logger.warn("Request failed", record)
+  } else {
+    resolvedConfig.logger.error("Request failed", record)
+  }
+
+  // Handle different error types
+  if (isCancelError(error)) {
+    return new NetworkError(
+      "Request was aborted",
+      "REQUEST_ABORTED",
+      false,
+      error,
+    )
+  }
+
+  if (!error.response) {
+    // Network error (no response from server)
+    return new NetworkError(
+      getErrorMessage(error),
+      ErrorCode.NETWORK_ERROR,
+      true,
+      error,
+    )
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Response data structure is dynamic
+  const responseData = error.response.data as any
+  const errorCode = responseData?.errorCode
+  const errorMessage = errorCode
+    ? `${getErrorMessage(error)} (Error Code: ${errorCode})`
+    : getErrorMessage(error)
+
+  return translateApiError(
+    errorMessage,
+    error.response,
+    error.config as HttpRequestConfig | undefined,
+  )
+}
+
+/**
+ * Translates an API error response into the SDK error hierarchy
+ *
+ * Shared by HTTP error responses and HTTP 200 responses reporting an error.
+ * HTTP 401/403 always map to AuthenticationError and HTTP 429 to
+ * LimitExceededError, keeping the backend `errorCode` (e.g.
+ * QUOTA_EXCEEDED). Otherwise the `errorCode` selects the error class
+ * (MintingError, NotFoundError, ...); the HTTP status decides when the code
+ * has no dedicated class. The error context carries the error code, HTTP
+ * status, request id and response payload.
+ *
+ * @param message - Error message
+ * @param response - Response carrying the error
+ * @param requestConfig - Request that received the response
+ * @returns Error to throw to the caller
+ */
+export function translateApiError(
+  message: string,
+  response: HttpResponse,
+  requestConfig?: HttpRequestConfig,
+): UraniumError {
+  const errorCode =
+    (response.data as { errorCode?: string | null } | undefined)?.errorCode ??
+    undefined
+  const context: Record<string, unknown> = {
+    errorCode,
+    status: response.status,
+    requestId: requestConfig?.requestId,
+    data: response.data,
+  }
+
+  if (response.status === 429) {
+    const { limit, remaining, resetAt } = parseRateLimitHeaders(
+      response.headers,
+    )
+    return new LimitExceededError(
+      message,
+      errorCode ?? ErrorCode.RATE_LIMIT_EXCEEDED,
+      limit,
+      limit !== undefined && remaining !== undefined
+        ? limit - remaining
+        : undefined,
+      resetAt,
+      context,
+    )
+  }
+
+  // A rejected key or permission is an auth failure whatever the code says
+  if (response.status === 401 || response.status === 403) {
+    return new AuthenticationError(message, errorCode, response.status, context)
+  }
+
+  const typedError = errorCode
+    ? createErrorFromCode(errorCode, message, context)
+    : undefined
+  if (typedError) {
+    return typedError
+  }
+
+  // Map HTTP status codes to error types
+  switch (response.status) {
+    case 404:
+      return new NotFoundError(
+        message,
+        errorCode,
+        undefined,
+        undefined,
+        context,
+      )
+
+    case 400:
+    case 422:
+      return new ValidationError(message, errorCode, undefined, context)
+  }
+
+  if (response.status >= 500) {
+    // The API was reached, so 5xx responses are not connectivity failures
+    return new NetworkError(
+      message,
+      errorCode ?? ErrorCode.SERVER_ERROR,
+      undefined,
+      undefined,
+      context,
+    )
+  }
+
+  if (response.status >= 400) {
+    // Other client errors without a dedicated class
+    return new NetworkError(message, errorCode, undefined, undefined, context)
+  }
+
+  // Error reported in a successful HTTP response
+  return new ValidationError(message, errorCode, undefined, context)
+}
+
+/**
+ * Wraps a raw transport with the SDK request pipeline
+ *
+ * Applies the same behavior as the Axios interceptors in `createApiClient`:
+ * base URL and timeout defaults, the `x-auth-token` header (read from the
+ * credentials on every attempt), logging, client-side throttling, circuit
+ * breaking, API error detection, rate limit waits, retries and error mapping.
+ *
+ * @param config - Uranium SDK configuration
+ * @param transport - Raw transport used to send requests
+ * @returns Transport that can be passed to the routers
+ *
+ * @example
+ * ```typescript
+ * const client = createHttpClient({ apiKey }, createFetchTransport())
+ * const api = createApiRoutersFromClient(client)
+ * ```
+ */
+export const createHttpClient = (
+  config: UraniumConfig,
+  transport: HttpTransport,
+): HttpTransport => {
+  const resolvedConfig = resolveConfig(config)
+  const throttle = createThrottle(resolvedConfig)
+
+  const send = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const prepared: HttpRequestConfig = {
+      baseURL: resolvedConfig.baseUrl,
+      timeout: resolvedConfig.timeout,
+      ...requestConfig,
+      headers: {
+        "Content-Type": "application/json",
+        ...requestConfig.headers,
+        "x-auth-token": await (
+          requestConfig.credentials ?? resolvedConfig.credentials
+        ).getApiKey(),
+      },
+    }
+
+    await throttle?.take(prepared.signal)
+    resolvedConfig.circuitBreaker?.beforeRequest()
+    prepared.startedAt = Date.now()
+    logRequest(resolvedConfig, prepared)
+
+    let response: HttpResponse<T>
+    try {
+      response = await transport.request<T>(prepared)
+    } catch (error) {
+      resolvedConfig.circuitBreaker?.recordFailure(error)
+      throw error
+    }
+
+    recordSuccess(resolvedConfig, prepared)
+    handleApiResponse(resolvedConfig, response, prepared)
+    return response
+  }
+
+  const request = async <T>(
+    config: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    // Every attempt shares the request id and carries its attempt number
+    const requestConfig: HttpRequestConfig = {
+      ...config,
+      requestId: config.requestId ?? generateRequestId(),
+    }
+    let attempt = 0
+    const sendAttempt = () => send<T>({ ...requestConfig, attempt: ++attempt })
+
+    try {
+      return await sendAttempt()
+    } catch (originalError) {
+      if (!isHttpError(originalError)) {
+        throw originalError
+      }
+
+      let error: HttpError = originalError
+
+      if (isRateLimitError(error) && resolvedConfig.rateLimit.waitForReset) {
+        try {
+          return await retryRateLimitedRequest(
+            resolvedConfig,
+            error,
+            sendAttempt,
+            requestConfig.signal,
+          )
+        } catch (rateLimitError) {
+          if (!isHttpError(rateLimitError)) {
+            throw rateLimitError
+          }
+          error = rateLimitError
+        }
+      }
+
+      const retryConfig = resolveRetryConfig(resolvedConfig, requestConfig)
+
+      if (retryConfig.enabled) {
+        try {
+          return await retryFailedRequest(error, retryConfig, sendAttempt)
+        } catch (retryError) {
+          if (!isHttpError(retryError)) {
+            throw retryError
+          }
+          error = retryError
+        }
+      }
+
+      throw toApiError(resolvedConfig, error)
+    }
+  }
+
+  return {
+    request,
+    get: (url, requestConfig) =>
+      request({ ...requestConfig, url, method: "GET" }),
+    post: (url, data, requestConfig) =>
+      request({ ...requestConfig, url, data, method: "POST" }),
+    put: (url, data, requestConfig) =>
+      request({ ...requestConfig, url, data, method: "PUT" }),
+  }
+}
@@ -0,0 +1,251 @@
+import { describe, expect, mock, test } from "bun:test"
+import { AuthenticationError } from "@uranium/types"
+import { UraniumSDK } from "../index"
+import { assetsRouter } from "./assets"
+import { contractsRouter } from "./contracts"
+import { createHttpClient } from "./pipeline"
+import { createPluginTransport, type UraniumPlugin } from "./plugins"
+import {
+  type HttpRequestConfig,
+  type HttpResponse,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+/**
+ * Creates a raw transport answering requests with the given handler
+ */
+const createStubTransport = (
+  handler: (config: HttpRequestConfig) => Promise<unknown>,
+) => {
+  const request = mock(
+    async (config: HttpRequestConfig): Promise<HttpResponse> => ({
+      data: await handler(config),
+      status: 200,
+      headers: {},
+    }),
+  )
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request }
+}
+
+const contractsResponse = { status: "ok", data: [{ id: "contract1" }] }
+
+describe("createPluginTransport", () => {
+  test("should expose router, operation and validated params to hooks", async () => {
+    const { transport } = createStubTransport(async () => ({
+      status: "ok",
+      data: { status: "MEDIA_UPLOADING", mintProgressInfo: {} },
+    }))
+    const seen: unknown[] = []
+    const plugin: UraniumPlugin = {
+      name: "audit",
+      onRequest: (ctx) => {
+        seen.push([ctx.router, ctx.operation, ctx.params])
+      },
+    }
+
+    const router = assetsRouter(createPluginTransport(transport, [plugin]))
+    await router.startMinting({
+      fileId: "file123",
+      contractId: "contract123",
+      editions: 2,
+      metadata: { attributes: [] },
+    })
+
+    expect(seen).toEqual([
+      [
+        "assets",
+        "startMinting",
+        expect.objectContaining({ fileId: "file123", editions: 2 }),
+      ],
+    ])
+  })
+
+  test("should let onRequest modify the outgoing request", async () => {
+    const { transport, request } = createStubTransport(
+      async () => contractsResponse,
+    )
+    const plugin: UraniumPlugin = {
+      name: "headers",
+      onRequest: (ctx) => {
+        ctx.request.headers = { ...ctx.request.headers, "x-tenant": "t1" }
+      },
+    }
+
+    await contractsRouter(createPluginTransport(transport, [plugin])).list()
+
+    expect(request.mock.calls[0]?.[0].headers?.["x-tenant"]).toBe("t1")
+  })
+
+  test("should short-circuit when onRequest returns a response", async () => {
+    const { transport, request } = createStubTransport(
+      async () => contractsResponse,
+    )
+    const onResponse = mock(() => {})
+    const plugins: UraniumPlugin[] = [
+      {
+        name: "cache",
+        onRequest: () => ({
+          data: { status: "ok", data: [{ id: "cached" }] },
+          status: 200,
+          headers: {},
+        }),
+      },
+      { name: "metrics", onResponse },
+    ]
+
+    const result = await contractsRouter(
+      createPluginTransport(transport, plugins),
+    ).list()
+
+    expect(result).toEqual([{ id: "cached" }] as never)
+    expect(request).not.toHaveBeenCalled()
+    expect(onResponse).toHaveBeenCalledTimes(1)
+  })
+
+  test("should let onResponse replace the response", async () => {
+    const { transport } = createStubTransport(async () => contractsResponse)
+    const plugin: UraniumPlugin = {
+      name: "rewrite",
+      onResponse: (_ctx, response) => ({
+        ...response,
+        data: { status: "ok", data: [] },
+      }),
+    }
+
+    const result = await contractsRouter(
+      createPluginTransport(transport, [plugin]),
+    ).list()
+
+    expect(result).toEqual([])
+  })
+
+  test("should recover from errors by replaying in onError", async () => {
+    let token = "expired"
+    const { transport, request } = createStubTransport(async (config) => {
+      if (config.headers?.authorization !== "fresh") {
+        throw new AuthenticationError("Token expired")
+      }
+      return contractsResponse
+    })
+    const plugin: UraniumPlugin = {
+      name: "auth-refresh",
+      onRequest: (ctx) => {
+        ctx.request.headers = { ...ctx.request.headers, authorization: token }
+      },
+      onError: async (ctx, error) => {
+        if (!(error instanceof AuthenticationError)) return
+        token = "fresh"
+        ctx.request.headers = { ...ctx.request.headers, authorization: token }
+        return ctx.replay()
+      },
+    }
+
+    const result = await contractsRouter(
+      createPluginTransport(transport, [plugin]),
+    ).list()
+
+    expect(result).toEqual([{ id: "contract1" }] as never)
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  test("should rethrow errors that no plugin recovers", async () => {
+    const { transport } = createStubTransport(async () => {
+      throw new AuthenticationError("Invalid API key")
+    })
+    const onError = mock(() => {})
+
+    await expect(
+      contractsRouter(
+        createPluginTransport(transport, [{ name: "audit", onError }]),
+      ).list(),
+    ).rejects.toBeInstanceOf(AuthenticationError)
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  test("should call onRetry for pipeline retries", async () => {
+    let calls = 0
+    const { transport } = createStubTransport(async (config) => {
+      calls++
+      if (calls < 3) {
+        throw new HttpTransportError(
+          "Unavailable",
+          "ERR_BAD_RESPONSE",
+          config,
+          {
+            data: {},
+            status: 503,
+            headers: {},
+          },
+        )
+      }
+      return contractsResponse
+    })
+    const onRetry = mock(() => {})
+    const globalOnRetry = mock(() => {})
+    const client = createHttpClient(
+      {
+        apiKey: "test-key",
+        retry: {
+          enabled: true,
+          maxRetries: 3,
+          retryDelay: 1,
+          onRetry: globalOnRetry,
+        },
+      },
+      transport,
+    )
+
+    await contractsRouter(
+      createPluginTransport(client, [{ name: "metrics", onRetry }]),
+    ).list()
+
+    expect(globalOnRetry).toHaveBeenCalledTimes(2)
+    expect(onRetry).toHaveBeenCalledTimes(2)
+    expect(onRetry.mock.calls[0]).toEqual([
+      expect.objectContaining({ router: "contracts", operation: "list" }),
+      expect.objectContaining({ attempt: 1, delayMs: 1 }),
+    ] as never)
+  })
+})
+
+describe("UraniumSDK.use", () => {
+  test("should apply plugins registered after construction", async () => {
+    const { transport } = createStubTransport(async () => contractsResponse)
+    const sdk = new UraniumSDK({ apiKey: "test-key", transport })
+    const operations: string[] = []
+
+    const result = sdk.use({
+      name: "audit",
+      onResponse: (ctx) => {
+        operations.push(`${ctx.router}.${ctx.operation}`)
+      },
+    })
+    await sdk.contracts.list()
+
+    expect(result).toBe(sdk)
+    expect(operations).toEqual(["contracts.list"])
+  })
+
+  test("should run plugins from config", async () => {
+    const { transport } = createStubTransport(async () => contractsResponse)
+    const onRequest = mock(() => {})
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport,
+      plugins: [{ name: "audit", onRequest }],
+    })
+
+    await sdk.contracts.list()
+
+    expect(onRequest).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Plugins
+ *
+ * Middleware API for extending the SDK request lifecycle (auth refresh,
+ * caching, auditing, metrics) without touching the transport pipeline.
+ *
+ * Plugins are registered with `UraniumConfig.plugins` or `sdk.use(plugin)`
+ * and see every router call together with its router name, operation and
+ * validated params.
+ *
+ * @module @uranium/sdk/client/plugins
+ */
+
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Context of a router call, shared by all hooks of the call
+ */
+export interface PluginContext {
+  /** Router name (e.g. "assets"), or "client" for direct transport calls */
+  router: string
+  /** Router method name (e.g. "startMinting"), or "METHOD url" for direct transport calls */
+  operation: string
+  /** Validated operation parameters */
+  params?: unknown
+  /** Outgoing request; hooks may modify it (e.g. add headers) */
+  request: HttpRequestConfig
+  /** Scratch space shared by the hooks of this call (e.g. start timestamps) */
+  state: Record<string, unknown>
+  /**
+   * Re-sends the current request without running plugin hooks again
+   * (e.g. after refreshing credentials in onError)
+   */
+  replay: <T = unknown>() => Promise<HttpResponse<T>>
+}
+
+/**
+ * Retry information passed to onRetry
+ */
+export interface PluginRetryInfo {
+  /** Retry attempt number (1-based) */
+  attempt: number
+  /** Error that triggered the retry */
+  error: unknown
+  /** Delay in milliseconds before the retry */
+  delayMs: number
+}
+
+/**
+ * Hook result: returning a response replaces the call result
+ */
+export type PluginHookResult =
+  | void
+  | HttpResponse
+  | Promise<void | HttpResponse>
+
+/**
+ * SDK plugin
+ *
+ * Hooks run in registration order. An error thrown by a hook fails the call.
+ *
+ * @example
+ * ```typescript
+ * const audit: UraniumPlugin = {
+ *   name: "audit",
+ *   onRequest: (ctx) => {
+ *     ctx.state.startedAt = Date.now()
+ *   },
+ *   onResponse: (ctx) => {
+ *     console.log(`${ctx.router}.${ctx.operation}`, Date.now() - (ctx.state.startedAt as number))
+ *   },
+ * }
+ *
+ * sdk.use(audit)
+ * ```
+ */
+export interface UraniumPlugin {
+  /** Plugin name, used in debug output */
+  name: string
+
+  /**
+   * Called before the request is sent
+   * Returning a response skips sending (e.g. cache hit); onResponse still runs.
+   */
+  onRequest?: (ctx: PluginContext) => PluginHookResult
+
+  /**
+   * Called with the final response of the call
+   * Returning a response replaces it.
+   */
+  onResponse?: (ctx: PluginContext, response: HttpResponse) => PluginHookResult
+
+  /**
+   * Called with the final error of the call (after retries and error mapping)
+   * Returning a response recovers the call; remaining onError hooks are skipped.
+   */
+  onError?: (ctx: PluginContext, error: unknown) => PluginHookResult
+
+  /**
+   * Called before each automatic retry of the call
+   */
+  onRetry?: (ctx: PluginContext, info: PluginRetryInfo) => void | Promise<void>
+}
+
+/**
+ * Wraps an API transport so registered plugins run for every request
+ *
+ * The plugin list is read on each request, so plugins added later with
+ * `sdk.use()` apply to subsequent calls.
+ *
+ * @param transport - API transport (already wrapped with the request pipeline)
+ * @param plugins - Registered plugins
+ * @returns Transport that can be passed to the routers
+ */
+export const createPluginTransport = (
+  transport: HttpTransport,
+  plugins: readonly UraniumPlugin[],
+): HttpTransport => {
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    if (plugins.length === 0) {
+      return transport.request<T>(requestConfig)
+    }
+
+    const active = [...plugins]
+    const operation = requestConfig.operation
+    const ctx: PluginContext = {
+      router: operation?.router ?? "client",
+      operation:
+        operation?.operation ??
+        `${(requestConfig.method ?? "GET").toUpperCase()} ${requestConfig.url}`,
+      params: operation?.params,
+      request: {
+        ...requestConfig,
+        headers: { ...requestConfig.headers },
+        onRetry: async (attempt, error, delayMs) => {
+          await requestConfig.onRetry?.(attempt, error, delayMs)
+          for (const plugin of active) {
+            await plugin.onRetry?.(ctx, { attempt, error, delayMs })
+          }
+        },
+      },
+      state: {},
+      replay: <R>() => transport.request<R>(ctx.request),
+    }
+
+    const finish = async (response: HttpResponse): Promise<HttpResponse<T>> => {
+      let result = response
+      for (const plugin of active) {
+        const replaced = await plugin.onResponse?.(ctx, result)
+        if (replaced) result = replaced
+      }
+      return result as HttpResponse<T>
+    }
+
+    for (const plugin of active) {
+      const shortCircuit = await plugin.onRequest?.(ctx)
+      if (shortCircuit) {
+        return finish(shortCircuit)
+      }
+    }
+
+    let response: HttpResponse<T>
+    try {
+      response = await transport.request<T>(ctx.request)
+    } catch (error) {
+      for (const plugin of active) {
+        const recovered = await plugin.onError?.(ctx, error)
+        if (recovered) {
+          return recovered as HttpResponse<T>
+        }
+      }
+      throw error
+    }
+
+    return finish(response)
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
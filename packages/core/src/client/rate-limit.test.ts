@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test"
+import {
+  parseRateLimitHeaders,
+  parseRetryAfter,
+  sleep,
+  TokenBucket,
+} from "./rate-limit"
+
+const NOW = Date.UTC(2025, 0, 1, 12, 0, 0)
+
+describe("parseRetryAfter", () => {
+  test("should parse delay in seconds", () => {
+    expect(parseRetryAfter("120", NOW)?.getTime()).toBe(NOW + 120000)
+  })
+
+  test("should parse HTTP dates", () => {
+    expect(
+      parseRetryAfter("Wed, 01 Jan 2025 12:01:00 GMT", NOW)?.getTime(),
+    ).toBe(NOW + 60000)
+  })
+
+  test("should return undefined for missing or invalid values", () => {
+    expect(parseRetryAfter(undefined, NOW)).toBeUndefined()
+    expect(parseRetryAfter("soon", NOW)).toBeUndefined()
+  })
+})
+
+describe("parseRateLimitHeaders", () => {
+  test("should read X-RateLimit headers case-insensitively", () => {
+    const info = parseRateLimitHeaders(
+      {
+        "X-RateLimit-Limit": "60",
+        "X-RateLimit-Remaining": "5",
+        "X-RateLimit-Reset": "10",
+      },
+      NOW,
+    )
+
+    expect(info.limit).toBe(60)
+    expect(info.remaining).toBe(5)
+    expect(info.resetAt?.getTime()).toBe(NOW + 10000)
+  })
+
+  test("should accept epoch seconds and milliseconds as reset", () => {
+    const resetSeconds = NOW / 1000 + 30
+    expect(
+      parseRateLimitHeaders(
+        { "x-ratelimit-reset": String(resetSeconds) },
+        NOW,
+      ).resetAt?.getTime(),
+    ).toBe(NOW + 30000)
+    expect(
+      parseRateLimitHeaders(
+        { "x-ratelimit-reset": String(NOW + 5000) },
+        NOW,
+      ).resetAt?.getTime(),
+    ).toBe(NOW + 5000)
+  })
+
+  test("should prefer Retry-After over X-RateLimit-Reset", () => {
+    const info = parseRateLimitHeaders(
+      { "retry-after": "2", "x-ratelimit-reset": "60" },
+      NOW,
+    )
+    expect(info.resetAt?.getTime()).toBe(NOW + 2000)
+  })
+
+  test("should return empty info without headers", () => {
+    expect(parseRateLimitHeaders(undefined, NOW)).toEqual({
+      limit: undefined,
+      remaining: undefined,
+      resetAt: undefined,
+    })
+  })
+})
+
+describe("TokenBucket", () => {
+  test("should allow bursts up to capacity", async () => {
+    let now = 0
+    const bucket = new TokenBucket(
+      { maxRequests: 3, interval: 1000 },
+      () => now,
+    )
+
+    await bucket.take()
+    await bucket.take()
+    await bucket.take()
+
+    expect(bucket.available).toBe(0)
+    now = 500
+    expect(bucket.available).toBe(1)
+    now = 5000
+    expect(bucket.available).toBe(3)
+  })
+
+  test("should wait for a token when empty", async () => {
+    const bucket = new TokenBucket({ maxRequests: 1, interval: 50 })
+    const start = Date.now()
+
+    await bucket.take()
+    await bucket.take()
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40)
+  })
+
+  test("should stop waiting when aborted", async () => {
+    const bucket = new TokenBucket({ maxRequests: 1, interval: 60000 })
+    const controller = new AbortController()
+    await bucket.take()
+
+    const pending = bucket.take(controller.signal)
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ code: "ERR_CANCELED" })
+  })
+
+  test("should reject invalid capacity", () => {
+    expect(() => new TokenBucket({ maxRequests: 0 })).toThrow()
+  })
+})
+
+describe("sleep", () => {
+  test("should reject immediately for aborted signals", async () => {
+    await expect(sleep(1000, AbortSignal.abort())).rejects.toMatchObject({
+      code: "ERR_CANCELED",
+    })
+  })
+})
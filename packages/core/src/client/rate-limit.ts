@@ -0,0 +1,236 @@
+/**
+ * Rate Limiting
+ *
+ * Parsing of rate limit response headers (`Retry-After`, `X-RateLimit-*`)
+ * and a client-side token bucket used to throttle outgoing requests.
+ *
+ * @module @uranium/sdk/client/rate-limit
+ */
+
+import type { ThrottleConfig } from "./config"
+import { HttpTransportError } from "./transport"
+
+/**
+ * Rate limit state reported by the API in response headers
+ */
+export interface RateLimitInfo {
+  /** Maximum number of requests allowed in the current window */
+  limit?: number
+  /** Requests remaining in the current window */
+  remaining?: number
+  /** When the limit resets */
+  resetAt?: Date
+}
+
+/**
+ * Reads a header value case-insensitively from a response headers object
+ */
+const getHeader = (
+  // biome-ignore lint/suspicious/noExplicitAny: Header containers differ between transports
+  headers: Record<string, any> | undefined,
+  name: string,
+): string | undefined => {
+  if (!headers) {
+    return undefined
+  }
+
+  const key = Object.keys(headers).find((h) => h.toLowerCase() === name)
+  const value = key === undefined ? undefined : headers[key]
+
+  if (Array.isArray(value)) {
+    return value[0] === undefined ? undefined : String(value[0])
+  }
+  return value === undefined || value === null ? undefined : String(value)
+}
+
+/**
+ * Parses a header value as a non-negative number
+ */
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === "") {
+    return undefined
+  }
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or HTTP date)
+ * @param value - Header value
+ * @param now - Current time in milliseconds
+ * @returns Reset time, or undefined if the value cannot be parsed
+ */
+export const parseRetryAfter = (
+  value: string | undefined,
+  now: number = Date.now(),
+): Date | undefined => {
+  const seconds = parseNumber(value)
+  if (seconds !== undefined) {
+    return new Date(now + seconds * 1000)
+  }
+
+  if (value) {
+    const date = Date.parse(value)
+    if (!Number.isNaN(date)) {
+      return new Date(date)
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Parses an `X-RateLimit-Reset` header
+ *
+ * Accepts epoch seconds, epoch milliseconds or seconds until reset.
+ *
+ * @param value - Header value
+ * @param now - Current time in milliseconds
+ * @returns Reset time, or undefined if the value cannot be parsed
+ */
+const parseRateLimitReset = (
+  value: string | undefined,
+  now: number,
+): Date | undefined => {
+  const reset = parseNumber(value)
+  if (reset === undefined) {
+    return undefined
+  }
+
+  // Epoch milliseconds
+  if (reset > 1e12) {
+    return new Date(reset)
+  }
+
+  // Epoch seconds
+  if (reset > 1e9) {
+    return new Date(reset * 1000)
+  }
+
+  // Seconds until reset
+  return new Date(now + reset * 1000)
+}
+
+/**
+ * Extracts rate limit information from response headers
+ *
+ * `Retry-After` takes precedence over `X-RateLimit-Reset` for the reset time.
+ *
+ * @param headers - Response headers
+ * @param now - Current time in milliseconds
+ * @returns Parsed rate limit information (fields are undefined when absent)
+ */
+export const parseRateLimitHeaders = (
+  // biome-ignore lint/suspicious/noExplicitAny: Header containers differ between transports
+  headers: Record<string, any> | undefined,
+  now: number = Date.now(),
+): RateLimitInfo => {
+  return {
+    limit: parseNumber(getHeader(headers, "x-ratelimit-limit")),
+    remaining: parseNumber(getHeader(headers, "x-ratelimit-remaining")),
+    resetAt:
+      parseRetryAfter(getHeader(headers, "retry-after"), now) ??
+      parseRateLimitReset(getHeader(headers, "x-ratelimit-reset"), now),
+  }
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @throws {HttpTransportError} With code ERR_CANCELED if aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new HttpTransportError("canceled", "ERR_CANCELED"))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new HttpTransportError("canceled", "ERR_CANCELED"))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Token bucket limiting the rate of outgoing requests
+ *
+ * The bucket holds up to `maxRequests` tokens and refills continuously over
+ * `interval` milliseconds. Each request takes one token, waiting for the next
+ * token when the bucket is empty.
+ *
+ * @example
+ * ```typescript
+ * const bucket = new TokenBucket({ maxRequests: 10, interval: 1000 })
+ * await bucket.take() // resolves immediately while tokens are available
+ * ```
+ */
+export class TokenBucket {
+  private readonly capacity: number
+  private readonly interval: number
+  private tokens: number
+  private lastRefill: number
+
+  constructor(
+    config: ThrottleConfig,
+    private readonly now: () => number = Date.now,
+  ) {
+    if (!(config.maxRequests > 0)) {
+      throw new Error("Throttle maxRequests must be greater than 0")
+    }
+
+    this.capacity = config.maxRequests
+    this.interval = config.interval ?? 1000
+    this.tokens = this.capacity
+    this.lastRefill = this.now()
+  }
+
+  /**
+   * Number of whole tokens currently available
+   */
+  get available(): number {
+    this.refill()
+    return Math.floor(this.tokens)
+  }
+
+  /**
+   * Takes a token, waiting until one is available
+   * @param signal - Optional abort signal to stop waiting
+   * @throws {HttpTransportError} With code ERR_CANCELED if aborted while waiting
+   */
+  async take(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      this.refill()
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1
+        return
+      }
+
+      const waitMs = Math.ceil(
+        ((1 - this.tokens) * this.interval) / this.capacity,
+      )
+      await sleep(waitMs, signal)
+    }
+  }
+
+  private refill(): void {
+    const now = this.now()
+    const elapsed = now - this.lastRefill
+
+    if (elapsed > 0) {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (elapsed * this.capacity) / this.interval,
+      )
+      this.lastRefill = now
+    }
+  }
+}
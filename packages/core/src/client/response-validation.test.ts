@@ -0,0 +1,199 @@
+import { describe, expect, mock, test } from "bun:test"
+import { UraniumSDK } from "../index"
+import { mockData } from "../test-utils"
+import { AssetSVCStatus } from "../types/enums"
+import { ResponseValidationError } from "../types/errors"
+import { contractsRouter } from "./contracts"
+import { noopLogger } from "./logger"
+import { createResponseValidationTransport } from "./response-validation"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Creates a raw transport answering requests with the given handler
+ */
+const createStubTransport = (
+  handler: (config: HttpRequestConfig) => Promise<unknown>,
+) => {
+  const request = mock(
+    async (config: HttpRequestConfig): Promise<HttpResponse> => ({
+      data: await handler(config),
+      status: 200,
+      headers: {},
+    }),
+  )
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request }
+}
+
+const createMockLogger = () => ({
+  debug: mock(() => {}),
+  info: mock(() => {}),
+  warn: mock(() => {}),
+  error: mock(() => {}),
+})
+
+const prepareResponse = {
+  status: "ok",
+  fileId: "file-1",
+  fileUploadId: "upload-1",
+  chunkCount: 1,
+  chunkSize: 1024,
+  uploadPartUrls: [{ partNumber: 1, url: "https://s3.example.com/part1" }],
+}
+
+const prepareParams = {
+  deviceId: "device-1",
+  metadata: "{}",
+  type: "image" as const,
+  source: "upload" as const,
+  fileSize: 1024,
+}
+
+describe("createResponseValidationTransport", () => {
+  test("should return the transport unchanged when off", () => {
+    const { transport } = createStubTransport(async () => ({}))
+    expect(
+      createResponseValidationTransport(transport, "off", noopLogger),
+    ).toBe(transport)
+  })
+
+  test("should throw ResponseValidationError in strict mode", async () => {
+    const { transport } = createStubTransport(async () => ({
+      status: "ok",
+      data: [mockData.contract({ lastTokenId: "5" })],
+    }))
+    const router = contractsRouter(
+      createResponseValidationTransport(transport, "strict", noopLogger),
+    )
+
+    const error = await router.list().catch((error) => error)
+
+    expect(error).toBeInstanceOf(ResponseValidationError)
+    expect(error.operation).toBe("contracts.list")
+    expect(error.statusCode).toBe(502)
+    expect(Object.keys(error.issues)).toEqual(["data.0.lastTokenId"])
+    expect(error.message).toContain("at data.0.lastTokenId")
+  })
+
+  test("should log and pass the response through in warn mode", async () => {
+    const data = { status: "ok", data: [mockData.contract({ name: null })] }
+    const { transport } = createStubTransport(async () => data)
+    const logger = createMockLogger()
+    const router = contractsRouter(
+      createResponseValidationTransport(transport, "warn", logger),
+    )
+
+    await expect(router.list()).resolves.toEqual(data.data)
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Response does not match schema",
+      expect.objectContaining({
+        route: "/contracts/list",
+        operation: "contracts.list",
+        issues: { "data.0.name": [expect.any(String)] },
+      }),
+    )
+  })
+
+  test("should accept valid responses with unknown fields unchanged", async () => {
+    const data = {
+      status: "ok",
+      data: [{ ...mockData.contract(), newField: true }],
+    }
+    const { transport } = createStubTransport(async () => data)
+    const logger = createMockLogger()
+    const router = contractsRouter(
+      createResponseValidationTransport(transport, "strict", logger),
+    )
+
+    const contracts = await router.list()
+
+    expect(contracts).toEqual(data.data)
+    expect(logger.warn).not.toHaveBeenCalled()
+  })
+
+  test("should skip requests without a known operation", async () => {
+    const { transport } = createStubTransport(async () => "not an object")
+    const validating = createResponseValidationTransport(
+      transport,
+      "strict",
+      noopLogger,
+    )
+
+    await expect(validating.get("/health")).resolves.toMatchObject({
+      data: "not an object",
+    })
+  })
+})
+
+describe("UraniumSDK response validation", () => {
+  test("should reject drifted responses in strict mode", async () => {
+    const { uploadPartUrls: _, ...withoutUrls } = prepareResponse
+    const { transport } = createStubTransport(async () => withoutUrls)
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport,
+      responseValidation: "strict",
+    })
+
+    await expect(
+      sdk.assets.prepareNewFile(prepareParams),
+    ).rejects.toMatchObject({
+      name: "ResponseValidationError",
+      operation: "assets.prepareNewFile",
+      issues: { uploadPartUrls: [expect.any(String)] },
+    })
+  })
+
+  test("should reject string asset statuses in strict mode", async () => {
+    const respond = (status: unknown) => ({
+      status: "ok",
+      ok: {
+        data: [mockData.asset({ status })],
+        meta: mockData.pagination(),
+      },
+    })
+    let response = respond(AssetSVCStatus.NFT_CONFIRMED)
+    const { transport } = createStubTransport(async () => response)
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport,
+      responseValidation: "strict",
+    })
+
+    await expect(sdk.assets.list()).resolves.toMatchObject({
+      data: [{ status: AssetSVCStatus.NFT_CONFIRMED }],
+    })
+
+    response = respond("NFT_CONFIRMED")
+    await expect(sdk.assets.list()).rejects.toBeInstanceOf(
+      ResponseValidationError,
+    )
+  })
+
+  test("should warn through the configured logger by default", async () => {
+    const { uploadPartUrls: _, ...withoutUrls } = prepareResponse
+    const { transport } = createStubTransport(async () => withoutUrls)
+    const logger = createMockLogger()
+    const sdk = new UraniumSDK({ apiKey: "test-key", transport, logger })
+
+    await expect(sdk.assets.prepareNewFile(prepareParams)).resolves.toEqual(
+      withoutUrls as typeof prepareResponse,
+    )
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Response does not match schema",
+      expect.objectContaining({ operation: "assets.prepareNewFile" }),
+    )
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Response Validation
+ *
+ * Checks API responses against the schemas in `validation/response-schemas`
+ * so backend drift (a missing `uploadPartUrls`, a string `status`, ...) is
+ * detected where the response enters the SDK instead of deep in caller code.
+ *
+ * @module @uranium/sdk/client/response-validation
+ */
+
+import type { ZodType } from "zod"
+import { ErrorCode, ResponseValidationError } from "../types/errors"
+import { RESPONSE_SCHEMAS } from "../validation/response-schemas"
+import { formatZodIssues } from "../validation/utils"
+import type { Logger } from "./logger"
+import { requestRecord } from "./pipeline"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * How responses that do not match their schema are handled
+ * - "strict": throw ResponseValidationError
+ * - "warn": log a warning and return the response unchanged
+ * - "off": skip validation
+ */
+export type ResponseValidationMode = "strict" | "warn" | "off"
+
+/**
+ * Default response validation mode
+ */
+export const DEFAULT_RESPONSE_VALIDATION_MODE: ResponseValidationMode = "warn"
+
+/**
+ * Wraps an API transport so router responses are validated
+ *
+ * Responses are matched to schemas by the operation that issued the request;
+ * requests without a known operation pass through. The response data is
+ * never modified, fields unknown to the schema included.
+ *
+ * @param transport - API transport (already wrapped with the request pipeline)
+ * @param mode - Validation mode; the transport is returned as-is when "off"
+ * @param logger - Logger receiving warnings in "warn" mode
+ * @param schemas - Response schema per "{router}.{operation}"
+ * @returns Transport that can be passed to the routers
+ */
+export const createResponseValidationTransport = (
+  transport: HttpTransport,
+  mode: ResponseValidationMode,
+  logger: Logger,
+  schemas: Record<string, ZodType> = RESPONSE_SCHEMAS,
+): HttpTransport => {
+  if (mode === "off") {
+    return transport
+  }
+
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const response = await transport.request<T>(requestConfig)
+
+    const operation = requestConfig.operation
+    const key = operation && `${operation.router}.${operation.operation}`
+    const schema = key ? schemas[key] : undefined
+    if (!schema) {
+      return response
+    }
+
+    const result = schema.safeParse(response.data)
+    if (result.success) {
+      return response
+    }
+
+    const issues = formatZodIssues(result.error)
+    if (mode === "strict") {
+      const [field, messages] = Object.entries(issues)[0] ?? []
+      throw new ResponseValidationError(
+        `Unexpected response from ${key}: ${messages?.[0]} at ${field}`,
+        ErrorCode.RESPONSE_VALIDATION_FAILED,
+        key,
+        issues,
+        { status: response.status, data: response.data },
+      )
+    }
+
+    logger.warn(
+      "Response does not match schema",
+      requestRecord(requestConfig, {
+        status: response.status,
+        operation: key,
+        issues,
+      }),
+    )
+    return response
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
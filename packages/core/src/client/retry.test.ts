@@ -1,7 +1,7 @@
 import { describe, expect, test } from "bun:test"
 import { AxiosError } from "axios"
-import type { RetryConfig } from "../types/config"
-import { withRetry } from "./retry"
+import type { RetryConfig } from "./config"
+import { computeRetryDelay, RetryBudget, withRetry } from "./retry"
 
 describe("Retry Logic", () => {
   // Helper to create mock AxiosError
@@ -492,4 +492,129 @@ describe("Retry Logic", () => {
       }
     })
   })
+
+  describe("Backoff strategies", () => {
+    const base = { retryDelay: 100, maxDelay: 1000 }
+
+    test("should default to linear backoff", () => {
+      expect(computeRetryDelay(1, { retryDelay: 100 })).toBe(100)
+      expect(computeRetryDelay(3, { retryDelay: 100 })).toBe(300)
+    })
+
+    test("should double delays with exponential backoff", () => {
+      const config = { ...base, strategy: "exponential" as const }
+      expect(computeRetryDelay(1, config)).toBe(100)
+      expect(computeRetryDelay(2, config)).toBe(200)
+      expect(computeRetryDelay(3, config)).toBe(400)
+    })
+
+    test("should cap delays at maxDelay", () => {
+      const config = { ...base, strategy: "exponential" as const }
+      expect(computeRetryDelay(10, config)).toBe(1000)
+      expect(computeRetryDelay(20, { ...base, strategy: "linear" })).toBe(1000)
+    })
+
+    test("should pick full-jitter delays between 0 and the exponential delay", () => {
+      const config = { ...base, strategy: "full-jitter" as const }
+      expect(computeRetryDelay(3, config, undefined, () => 0)).toBe(0)
+      expect(computeRetryDelay(3, config, undefined, () => 0.5)).toBe(200)
+      expect(computeRetryDelay(10, config, undefined, () => 0.5)).toBe(500)
+    })
+
+    test("should grow decorrelated-jitter delays from the previous delay", () => {
+      const config = { ...base, strategy: "decorrelated-jitter" as const }
+      expect(computeRetryDelay(1, config, 100, () => 0)).toBe(100)
+      expect(computeRetryDelay(2, config, 200, () => 1)).toBe(600)
+      expect(computeRetryDelay(3, config, 600, () => 1)).toBe(1000)
+    })
+
+    test("should pass strategy delays to onRetry", async () => {
+      const delays: number[] = []
+      const config: RetryConfig = {
+        enabled: true,
+        maxRetries: 3,
+        retryDelay: 5,
+        strategy: "exponential",
+        retryableStatuses: [500],
+        onRetry: (_attempt, _error, delayMs) => {
+          delays.push(delayMs)
+        },
+      }
+
+      await withRetry(createFailingFunction(3, [500]), config)
+
+      expect(delays).toEqual([5, 10, 20])
+    })
+  })
+
+  describe("Custom retry predicate", () => {
+    test("should retry errors accepted by the predicate", async () => {
+      let calls = 0
+      const fn = async () => {
+        calls++
+        if (calls < 2) throw new Error("ETag missing")
+        return "success"
+      }
+
+      const result = await withRetry(
+        fn,
+        { enabled: true, maxRetries: 2, retryDelay: 1, retryableStatuses: [] },
+        () => true,
+      )
+
+      expect(result).toBe("success")
+      expect(calls).toBe(2)
+    })
+  })
+
+  describe("Retry budget", () => {
+    test("should spend and earn back tokens", () => {
+      const budget = new RetryBudget({ maxTokens: 2, tokenRatio: 0.5 })
+
+      expect(budget.tryAcquire()).toBe(true)
+      expect(budget.tryAcquire()).toBe(true)
+      expect(budget.tryAcquire()).toBe(false)
+
+      budget.recordSuccess()
+      budget.recordSuccess()
+      expect(budget.available).toBe(1)
+      expect(budget.tryAcquire()).toBe(true)
+    })
+
+    test("should never exceed maxTokens", () => {
+      const budget = new RetryBudget({ maxTokens: 1, tokenRatio: 1 })
+      budget.recordSuccess()
+      budget.recordSuccess()
+      expect(budget.available).toBe(1)
+    })
+
+    test("should stop retrying when the shared budget is exhausted", async () => {
+      const budget = new RetryBudget({ maxTokens: 3 })
+      const config: RetryConfig = {
+        enabled: true,
+        maxRetries: 5,
+        retryDelay: 1,
+        retryableStatuses: [500],
+        budget,
+      }
+
+      let calls = 0
+      const failing = async () => {
+        calls++
+        throw createAxiosError(500)
+      }
+
+      await expect(withRetry(failing, config)).rejects.toBeInstanceOf(
+        AxiosError,
+      )
+      expect(calls).toBe(4)
+
+      // A second request sharing the budget fails without retrying
+      calls = 0
+      await expect(withRetry(failing, config)).rejects.toBeInstanceOf(
+        AxiosError,
+      )
+      expect(calls).toBe(1)
+    })
+  })
 })
@@ -1,16 +1,129 @@
-import type { RetryConfig } from "../types/config"
+import type { RetryConfig } from "./config"
 import { shouldRetry } from "./utils"
 
 /**
- * Executes a function with retry logic and exponential backoff
+ * Options for a retry budget
+ */
+export interface RetryBudgetOptions {
+  /**
+   * Maximum number of retries that can be spent in a burst
+   * @default 10
+   */
+  maxTokens?: number
+
+  /**
+   * Tokens earned back by each successful request
+   * (0.1 allows one retry per ten successful requests in the long run)
+   * @default 0.1
+   */
+  tokenRatio?: number
+}
+
+/**
+ * Retry budget shared between requests
+ *
+ * Every retry spends one token and every successful request earns
+ * `tokenRatio` tokens back, up to `maxTokens`. When the budget is empty,
+ * failures are returned without retrying, so a single outage cannot
+ * multiply traffic against the API.
+ *
+ * @example
+ * ```typescript
+ * const budget = new RetryBudget({ maxTokens: 20, tokenRatio: 0.2 })
+ * const sdk = new UraniumSDK({ apiKey, retry: { enabled: true, budget } })
+ * ```
+ */
+export class RetryBudget {
+  private readonly maxTokens: number
+  private readonly tokenRatio: number
+  private tokens: number
+
+  constructor(options: RetryBudgetOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 10
+    this.tokenRatio = options.tokenRatio ?? 0.1
+    this.tokens = this.maxTokens
+  }
+
+  /**
+   * Number of retries currently available
+   */
+  get available(): number {
+    return Math.floor(this.tokens)
+  }
+
+  /**
+   * Spends one token for a retry
+   * @returns true if the retry is allowed
+   */
+  tryAcquire(): boolean {
+    if (this.tokens < 1) {
+      return false
+    }
+    this.tokens -= 1
+    return true
+  }
+
+  /**
+   * Earns tokens back after a successful request
+   */
+  recordSuccess(): void {
+    this.tokens = Math.min(this.maxTokens, this.tokens + this.tokenRatio)
+  }
+}
+
+/**
+ * Computes the delay before a retry attempt
+ * @param attempt - Retry attempt number (1-based)
+ * @param retryConfig - Retry configuration
+ * @param previousDelay - Delay used before the previous retry (decorrelated jitter)
+ * @param random - Random number generator in the [0, 1) range
+ * @returns Delay in milliseconds, capped at `maxDelay`
+ */
+export function computeRetryDelay(
+  attempt: number,
+  retryConfig: Pick<RetryConfig, "retryDelay" | "strategy" | "maxDelay">,
+  previousDelay: number = retryConfig.retryDelay,
+  random: () => number = Math.random,
+): number {
+  const { retryDelay } = retryConfig
+  const maxDelay = retryConfig.maxDelay ?? Number.POSITIVE_INFINITY
+  const exponential = retryDelay * 2 ** (attempt - 1)
+  let delayMs: number
+
+  switch (retryConfig.strategy ?? "linear") {
+    case "exponential":
+      delayMs = exponential
+      break
+
+    case "full-jitter":
+      delayMs = random() * Math.min(maxDelay, exponential)
+      break
+
+    case "decorrelated-jitter":
+      delayMs =
+        retryDelay + random() * Math.max(0, previousDelay * 3 - retryDelay)
+      break
+
+    default:
+      delayMs = attempt * retryDelay
+  }
+
+  return Math.round(Math.min(maxDelay, delayMs))
+}
+
+/**
+ * Executes a function with retry logic and backoff
  * @param fn - Async function to execute
  * @param retryConfig - Retry configuration
+ * @param isRetryable - Decides whether an error is retried (defaults to `shouldRetry` with `retryableStatuses`)
  * @returns Promise with function result
  * @throws Last error if all retries are exhausted
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   retryConfig: RetryConfig,
+  isRetryable: (error: unknown) => boolean = (error) =>
+    shouldRetry(error, retryConfig.retryableStatuses),
 ): Promise<T> {
   // If retry is disabled, execute immediately without retry
   if (!retryConfig.enabled) {
@@ -18,6 +131,7 @@ export async function withRetry<T>(
   }
 
   let lastError: unknown
+  let previousDelay = retryConfig.retryDelay
   const maxAttempts = retryConfig.maxRetries + 1 // +1 for initial attempt
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -27,16 +141,19 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error
 
-      // Check if we should retry this error
-      const shouldRetryError = shouldRetry(error, retryConfig.retryableStatuses)
-
       // If this was the last attempt or error is not retryable, throw immediately
-      if (attempt === maxAttempts || !shouldRetryError) {
+      if (attempt === maxAttempts || !isRetryable(error)) {
+        throw error
+      }
+
+      // Shared retry budget exhausted: fail without retrying
+      if (retryConfig.budget && !retryConfig.budget.tryAcquire()) {
         throw error
       }
 
-      // Calculate delay with exponential backoff (attempt number × base delay)
-      const delayMs = attempt * retryConfig.retryDelay
+      // Calculate delay for the configured backoff strategy
+      const delayMs = computeRetryDelay(attempt, retryConfig, previousDelay)
+      previousDelay = delayMs
 
       // Call onRetry callback if provided
       if (retryConfig.onRetry) {
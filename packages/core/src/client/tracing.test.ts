@@ -0,0 +1,196 @@
+import { describe, expect, mock, test } from "bun:test"
+import { NetworkError } from "@uranium/types"
+import { UraniumSDK } from "../index"
+import { contractsRouter } from "./contracts"
+import { createHttpClient } from "./pipeline"
+import {
+  createTracer,
+  createTracingTransport,
+  formatTraceparent,
+  InMemorySpanExporter,
+  SpanStatusCode,
+} from "./tracing"
+import {
+  type HttpRequestConfig,
+  type HttpResponse,
+  type HttpTransport,
+  HttpTransportError,
+} from "./transport"
+
+/**
+ * Creates a raw transport answering requests with the given handler
+ */
+const createStubTransport = (
+  handler: (config: HttpRequestConfig) => Promise<unknown>,
+) => {
+  const request = mock(
+    async (config: HttpRequestConfig): Promise<HttpResponse> => ({
+      data: await handler(config),
+      status: 200,
+      headers: {},
+    }),
+  )
+  const transport: HttpTransport = {
+    request: request as HttpTransport["request"],
+    get: (url, config) => transport.request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      transport.request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, request }
+}
+
+const contractsResponse = { status: "ok", data: [] }
+
+describe("createTracer", () => {
+  test("should export spans with parent and trace ids when they end", () => {
+    const exporter = new InMemorySpanExporter()
+    let now = 1000
+    const tracer = createTracer(exporter, () => now)
+
+    const parent = tracer.startSpan("parent", {
+      attributes: { a: 1, b: undefined },
+    })
+    const child = tracer.startSpan("child", { parent })
+    now = 1500
+    child
+      .addEvent("retry", { attempt: 1 })
+      .setStatus({ code: SpanStatusCode.OK })
+    child.end()
+    child.end()
+    parent.end()
+
+    const [finishedChild, finishedParent] = exporter.getFinishedSpans()
+    expect(exporter.getFinishedSpans()).toHaveLength(2)
+    expect(finishedChild).toMatchObject({
+      name: "child",
+      traceId: finishedParent?.traceId,
+      parentSpanId: finishedParent?.spanId,
+      events: [{ name: "retry", time: 1500, attributes: { attempt: 1 } }],
+      status: { code: SpanStatusCode.OK },
+      startTime: 1000,
+      endTime: 1500,
+    })
+    expect(finishedParent?.attributes).toEqual({ a: 1 })
+    expect(finishedParent?.parentSpanId).toBeUndefined()
+    expect(finishedParent?.traceId).toMatch(/^[0-9a-f]{32}$/)
+    expect(finishedParent?.spanId).toMatch(/^[0-9a-f]{16}$/)
+
+    exporter.reset()
+    expect(exporter.getFinishedSpans()).toEqual([])
+  })
+})
+
+describe("formatTraceparent", () => {
+  test("should format a W3C traceparent header", () => {
+    expect(
+      formatTraceparent({
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+        spanId: "00f067aa0ba902b7",
+        traceFlags: 1,
+      }),
+    ).toBe("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01")
+  })
+})
+
+describe("createTracingTransport", () => {
+  test("should return the transport unchanged without a tracer", () => {
+    const { transport } = createStubTransport(async () => contractsResponse)
+    expect(createTracingTransport(transport, undefined)).toBe(transport)
+  })
+
+  test("should create a span per router call and propagate traceparent", async () => {
+    const { transport, request } = createStubTransport(
+      async () => contractsResponse,
+    )
+    const exporter = new InMemorySpanExporter()
+    const router = contractsRouter(
+      createTracingTransport(transport, createTracer(exporter)),
+    )
+
+    await router.list()
+
+    const [span] = exporter.getFinishedSpans()
+    expect(span).toMatchObject({
+      name: "uranium.contracts.list",
+      attributes: {
+        "http.request.method": "GET",
+        "url.path": "/contracts/list",
+        "uranium.router": "contracts",
+        "uranium.operation": "list",
+        "http.response.status_code": 200,
+      },
+      status: { code: SpanStatusCode.OK },
+    })
+    expect(request.mock.calls[0]?.[0].headers?.traceparent).toBe(
+      `00-${span?.traceId}-${span?.spanId}-01`,
+    )
+  })
+
+  test("should nest router calls under RequestOptions.parentSpan", async () => {
+    const { transport } = createStubTransport(async () => contractsResponse)
+    const exporter = new InMemorySpanExporter()
+    const tracer = createTracer(exporter)
+    const router = contractsRouter(createTracingTransport(transport, tracer))
+
+    const parent = tracer.startSpan("job")
+    await router.list({ parentSpan: parent })
+    parent.end()
+
+    const [call, job] = exporter.getFinishedSpans()
+    expect(call?.parentSpanId).toBe(job?.spanId)
+    expect(call?.traceId).toBe(job?.traceId)
+  })
+
+  test("should record retries as events and failures as errors", async () => {
+    const { transport } = createStubTransport(async (config) => {
+      throw new HttpTransportError(
+        "Request failed with status code 503",
+        "ERR_BAD_RESPONSE",
+        config,
+        { data: {}, status: 503, headers: {} },
+      )
+    })
+    const exporter = new InMemorySpanExporter()
+    const client = createTracingTransport(
+      createHttpClient(
+        {
+          apiKey: "test-key",
+          retry: { enabled: true, maxRetries: 2, retryDelay: 1 },
+        },
+        transport,
+      ),
+      createTracer(exporter),
+    )
+
+    await expect(contractsRouter(client).list()).rejects.toBeInstanceOf(
+      NetworkError,
+    )
+
+    const [span] = exporter.getFinishedSpans()
+    expect(span?.events.map((event) => event.attributes.attempt)).toEqual([
+      1, 2,
+    ])
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR)
+    expect(span?.exceptions).toEqual([
+      { name: "NetworkError", message: expect.any(String) },
+    ])
+  })
+
+  test("should trace SDK router calls configured with a tracer", async () => {
+    const { transport } = createStubTransport(async () => contractsResponse)
+    const exporter = new InMemorySpanExporter()
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport,
+      tracer: createTracer(exporter),
+    })
+
+    await sdk.contracts.list()
+
+    expect(exporter.getFinishedSpans().map((span) => span.name)).toEqual([
+      "uranium.contracts.list",
+    ])
+  })
+})
@@ -0,0 +1,384 @@
+/**
+ * Tracing
+ *
+ * Optional distributed tracing for router calls and uploads. The `Tracer`
+ * and `Span` interfaces are the subset of the OpenTelemetry API used by the
+ * SDK, so OpenTelemetry spans can be used directly through a small adapter
+ * and no tracing dependency is required.
+ *
+ * Trace context is propagated to the API in the W3C `traceparent` header.
+ *
+ * @module @uranium/sdk/client/tracing
+ */
+
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./transport"
+
+/**
+ * Span attribute value
+ */
+export type SpanAttributeValue = string | number | boolean
+
+/**
+ * Span attributes (undefined values are ignored)
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>
+
+/**
+ * Span status code, numerically identical to OpenTelemetry's SpanStatusCode
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const
+
+export type SpanStatusCode =
+  (typeof SpanStatusCode)[keyof typeof SpanStatusCode]
+
+/**
+ * Span status
+ */
+export interface SpanStatus {
+  code: SpanStatusCode
+  message?: string
+}
+
+/**
+ * Identifiers of a span, propagated in the `traceparent` header
+ */
+export interface SpanContext {
+  /** 32 hex characters */
+  traceId: string
+  /** 16 hex characters */
+  spanId: string
+  /** W3C trace flags (1 = sampled) */
+  traceFlags: number
+}
+
+/**
+ * Span (subset of the OpenTelemetry Span interface)
+ */
+export interface Span {
+  spanContext(): SpanContext
+  setAttribute(key: string, value: SpanAttributeValue): this
+  addEvent(name: string, attributes?: SpanAttributes): this
+  setStatus(status: SpanStatus): this
+  recordException(exception: Error | string): void
+  end(): void
+}
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  /** Initial attributes */
+  attributes?: SpanAttributes
+  /** Parent span; a new trace is started when omitted */
+  parent?: Span
+}
+
+/**
+ * Tracer creating SDK spans
+ *
+ * @example
+ * ```typescript
+ * // Adapter for an OpenTelemetry tracer
+ * import { context, trace } from "@opentelemetry/api"
+ *
+ * const otel = trace.getTracer("uranium-sdk")
+ * const tracer: Tracer = {
+ *   startSpan: (name, options) =>
+ *     otel.startSpan(
+ *       name,
+ *       { attributes: options?.attributes },
+ *       options?.parent ? trace.setSpan(context.active(), options.parent) : undefined,
+ *     ),
+ * }
+ * ```
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span
+}
+
+/**
+ * Span recorded by the built-in tracer
+ */
+export interface FinishedSpan {
+  name: string
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  attributes: Record<string, SpanAttributeValue>
+  events: {
+    name: string
+    time: number
+    attributes: Record<string, SpanAttributeValue>
+  }[]
+  status: SpanStatus
+  /** Recorded exceptions */
+  exceptions: { name: string; message: string }[]
+  /** Start time in epoch milliseconds */
+  startTime: number
+  /** End time in epoch milliseconds */
+  endTime: number
+}
+
+/**
+ * Receives spans of the built-in tracer when they end
+ */
+export interface SpanExporter {
+  export(span: FinishedSpan): void
+}
+
+/**
+ * Span exporter keeping finished spans in memory (tests, debugging)
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter()
+ * const sdk = new UraniumSDK({ apiKey, tracer: createTracer(exporter) })
+ *
+ * await sdk.contracts.list()
+ * console.log(exporter.getFinishedSpans().map((span) => span.name))
+ * ```
+ */
+export class InMemorySpanExporter {
+  private spans: FinishedSpan[] = []
+
+  export(span: FinishedSpan): void {
+    this.spans.push(span)
+  }
+
+  /**
+   * Finished spans in the order they ended
+   */
+  getFinishedSpans(): FinishedSpan[] {
+    return [...this.spans]
+  }
+
+  /**
+   * Forgets all finished spans
+   */
+  reset(): void {
+    this.spans = []
+  }
+}
+
+/**
+ * Generates a random lowercase hex id
+ * @param bytes - Number of random bytes
+ */
+const randomHex = (bytes: number): string => {
+  const values = crypto.getRandomValues(new Uint8Array(bytes))
+  return Array.from(values, (value) =>
+    value.toString(16).padStart(2, "0"),
+  ).join("")
+}
+
+/**
+ * Copies attributes, dropping undefined values
+ */
+const definedAttributes = (
+  attributes: SpanAttributes = {},
+): Record<string, SpanAttributeValue> => {
+  const result: Record<string, SpanAttributeValue> = {}
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) result[key] = value
+  }
+  return result
+}
+
+/**
+ * Span of the built-in tracer
+ */
+class RecordingSpan implements Span {
+  private readonly context: SpanContext
+  private readonly attributes: Record<string, SpanAttributeValue>
+  private readonly events: FinishedSpan["events"] = []
+  private readonly exceptions: FinishedSpan["exceptions"] = []
+  private readonly startTime: number
+  private readonly parentSpanId?: string
+  private status: SpanStatus = { code: SpanStatusCode.UNSET }
+  private ended = false
+
+  constructor(
+    private readonly name: string,
+    options: SpanOptions,
+    private readonly exporter: SpanExporter,
+    private readonly now: () => number,
+  ) {
+    const parent = options.parent?.spanContext()
+    this.parentSpanId = parent?.spanId
+    this.context = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      traceFlags: 1,
+    }
+    this.attributes = definedAttributes(options.attributes)
+    this.startTime = this.now()
+  }
+
+  spanContext(): SpanContext {
+    return this.context
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value
+    return this
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({
+      name,
+      time: this.now(),
+      attributes: definedAttributes(attributes),
+    })
+    return this
+  }
+
+  setStatus(status: SpanStatus): this {
+    this.status = status
+    return this
+  }
+
+  recordException(exception: Error | string): void {
+    this.exceptions.push(
+      typeof exception === "string"
+        ? { name: "Error", message: exception }
+        : { name: exception.name, message: exception.message },
+    )
+  }
+
+  end(): void {
+    // Ending twice is a no-op, as in OpenTelemetry
+    if (this.ended) return
+    this.ended = true
+
+    this.exporter.export({
+      name: this.name,
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: this.status,
+      exceptions: [...this.exceptions],
+      startTime: this.startTime,
+      endTime: this.now(),
+    })
+  }
+}
+
+/**
+ * Creates the built-in tracer, exporting spans when they end
+ * @param exporter - Receives finished spans (e.g. InMemorySpanExporter)
+ * @param now - Clock in epoch milliseconds
+ * @returns Tracer to pass as `UraniumConfig.tracer`
+ */
+export const createTracer = (
+  exporter: SpanExporter,
+  now: () => number = Date.now,
+): Tracer => ({
+  startSpan: (name, options = {}) =>
+    new RecordingSpan(name, options, exporter, now),
+})
+
+/**
+ * Formats a span context as a W3C `traceparent` header value
+ * @param context - Span context
+ * @returns Header value ("00-{traceId}-{spanId}-{flags}")
+ */
+export const formatTraceparent = (context: SpanContext): string => {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0")
+  return `00-${context.traceId}-${context.spanId}-${flags}`
+}
+
+/**
+ * Marks a span as failed with the given error
+ * @param span - Span to update
+ * @param error - Error raised by the traced operation
+ */
+export const recordSpanError = (span: Span, error: unknown): void => {
+  const exception = error instanceof Error ? error : String(error)
+  span.recordException(exception)
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  })
+}
+
+/**
+ * Wraps an API transport so every request gets a span
+ *
+ * Router calls are named `uranium.{router}.{operation}`; the span covers all
+ * retries of the call, which are recorded as "retry" events. The span context
+ * is sent to the API in the `traceparent` header.
+ *
+ * @param transport - API transport (already wrapped with the request pipeline)
+ * @param tracer - Tracer creating the spans; the transport is returned as-is when undefined
+ * @returns Transport that can be passed to the routers
+ */
+export const createTracingTransport = (
+  transport: HttpTransport,
+  tracer: Tracer | undefined,
+): HttpTransport => {
+  if (!tracer) {
+    return transport
+  }
+
+  const request = async <T>(
+    requestConfig: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> => {
+    const method = (requestConfig.method ?? "GET").toUpperCase()
+    const operation = requestConfig.operation
+    const span = tracer.startSpan(
+      operation
+        ? `uranium.${operation.router}.${operation.operation}`
+        : `HTTP ${method}`,
+      {
+        parent: requestConfig.parentSpan,
+        attributes: {
+          "http.request.method": method,
+          "url.path": requestConfig.url,
+          "uranium.router": operation?.router,
+          "uranium.operation": operation?.operation,
+        },
+      },
+    )
+
+    try {
+      const response = await transport.request<T>({
+        ...requestConfig,
+        headers: {
+          ...requestConfig.headers,
+          traceparent: formatTraceparent(span.spanContext()),
+        },
+        onRetry: async (attempt, error, delayMs) => {
+          span.addEvent("retry", { attempt, delayMs })
+          await requestConfig.onRetry?.(attempt, error, delayMs)
+        },
+      })
+      span.setAttribute("http.response.status_code", response.status)
+      span.setStatus({ code: SpanStatusCode.OK })
+      return response
+    } catch (error) {
+      recordSpanError(span, error)
+      throw error
+    } finally {
+      span.end()
+    }
+  }
+
+  return {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+}
@@ -0,0 +1,148 @@
+import type { RetryConfig } from "./config"
+import type { CredentialsManager } from "./credentials"
+import type { Span } from "./tracing"
+
+/**
+ * Upload progress event reported by a transport
+ */
+export interface HttpProgressEvent {
+  /** Number of bytes sent so far */
+  loaded: number
+  /** Total number of bytes to send, if known */
+  total?: number
+}
+
+/**
+ * Router operation that issued a request, for plugins and observability
+ */
+export interface OperationInfo {
+  /** Router name (e.g. "assets") */
+  router: string
+  /** Router method name (e.g. "startMinting") */
+  operation: string
+  /** Validated operation parameters */
+  params?: unknown
+}
+
+/**
+ * Transport-agnostic request configuration
+ * Field names mirror Axios so an AxiosInstance can be used as a transport
+ */
+export interface HttpRequestConfig {
+  /** Request URL, absolute or relative to baseURL */
+  url?: string
+  /** HTTP method (defaults to GET) */
+  method?: string
+  /** Base URL prepended to relative URLs */
+  baseURL?: string
+  /** Request headers */
+  headers?: Record<string, string>
+  /** Headers passed in the router call's options (set by `toRequestConfig`) */
+  callerHeaders?: Record<string, string>
+  /** Query string parameters */
+  params?: Record<string, string | number | boolean | undefined>
+  /** Request body; plain objects are sent as JSON */
+  data?: unknown
+  /** Request timeout in milliseconds (0 disables the timeout) */
+  timeout?: number
+  /** Signal used to cancel the request */
+  signal?: AbortSignal
+  /** Upload progress callback */
+  onUploadProgress?: (event: HttpProgressEvent) => void
+  /** Per-request retry override (see RequestOptions.retry) */
+  retry?: Partial<RetryConfig>
+  /** Retry listener called in addition to the configured onRetry callback */
+  onRetry?: RetryConfig["onRetry"]
+  /** Router operation that issued the request */
+  operation?: OperationInfo
+  /** Parent of the request span when tracing is enabled */
+  parentSpan?: Span
+  /** Credentials of the tenant the request is sent for (defaults to the client's credentials) */
+  credentials?: CredentialsManager
+  /** Id correlating the log records of every attempt (set by the request pipeline) */
+  requestId?: string
+  /** Attempt number, 1 for the first attempt (set by the request pipeline) */
+  attempt?: number
+  /** Time the current attempt was sent, in epoch milliseconds (set by the request pipeline) */
+  startedAt?: number
+}
+
+/**
+ * Transport-agnostic response
+ */
+export interface HttpResponse<T = unknown> {
+  /** Parsed response body */
+  data: T
+  /** HTTP status code */
+  status: number
+  /** HTTP status text */
+  statusText?: string
+  /** Response headers (lower-cased names) */
+  // biome-ignore lint/suspicious/noExplicitAny: Header values differ between transports
+  headers: Record<string, any>
+}
+
+/**
+ * Minimal HTTP transport used by the routers and the chunk uploader
+ *
+ * An AxiosInstance satisfies this interface, so existing Axios clients can
+ * be passed anywhere a transport is expected.
+ */
+export interface HttpTransport {
+  request<T = unknown>(config: HttpRequestConfig): Promise<HttpResponse<T>>
+  get<T = unknown>(
+    url: string,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>>
+  post<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>>
+  put<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>>
+}
+
+/**
+ * Transport selection for UraniumConfig
+ * - "axios": Axios with interceptors (default)
+ * - "fetch": zero-dependency transport built on the global fetch
+ * - HttpTransport: custom transport; auth, retries and error mapping are applied on top
+ */
+export type TransportOption = "axios" | "fetch" | HttpTransport
+
+/**
+ * Low-level transport failure (non-2xx status, network failure, timeout or abort)
+ *
+ * Error codes follow Axios conventions ("ERR_CANCELED", "ECONNABORTED",
+ * "ERR_NETWORK", "ERR_BAD_REQUEST", "ERR_BAD_RESPONSE") so retry and error
+ * mapping logic treats both transports the same way.
+ */
+export class HttpTransportError extends Error {
+  /** Transport error code */
+  public readonly code: string
+  /** Request that failed */
+  public readonly config?: HttpRequestConfig
+  /** Response, if the server answered */
+  public readonly response?: HttpResponse
+  /** Underlying error, if any */
+  public readonly originalError?: unknown
+
+  constructor(
+    message: string,
+    code: string,
+    config?: HttpRequestConfig,
+    response?: HttpResponse,
+    originalError?: unknown,
+  ) {
+    super(message)
+    this.name = "HttpTransportError"
+    this.code = code
+    this.config = config
+    this.response = response
+    this.originalError = originalError
+  }
+}
@@ -1,4 +1,5 @@
-import type { RetryConfig } from "../types/config"
+import type { RetryConfig } from "./config"
+import type { Span } from "./tracing"
 
 /**
  * Options that can be passed to individual API requests
@@ -8,4 +9,34 @@ export interface RequestOptions {
    * Override global retry configuration for this specific request
    */
   retry?: Partial<RetryConfig>
+
+  /**
+   * Signal used to cancel the request.
+   * Accepts either an AbortSignal or the AbortController that owns it.
+   */
+  signal?: AbortSignal | AbortController
+
+  /**
+   * Override the global request timeout (in milliseconds) for this request
+   */
+  timeout?: number
+
+  /**
+   * Additional headers to send with this request
+   * Merged on top of the SDK defaults; the auth header cannot be overridden
+   */
+  headers?: Record<string, string>
+
+  /**
+   * Idempotency key for non-idempotent operations (contracts.create, assets.startMinting).
+   * Sent in the `Idempotency-Key` header; generated automatically when omitted.
+   * Re-submitting the same key within the process returns the first result.
+   */
+  idempotencyKey?: string
+
+  /**
+   * Parent span for this call's span when a tracer is configured
+   * (e.g. to nest the call under an application span)
+   */
+  parentSpan?: Span
 }
@@ -1,4 +1,5 @@
 import type { AxiosError } from "axios"
+import { HttpTransportError } from "./transport"
 
 /**
  * Generates a unique device ID for SDK usage
@@ -24,12 +25,12 @@ export const extractSignal = (
 
 /**
  * Converts an error to a user-friendly message
- * @param error - Error object (typically AxiosError)
+ * @param error - Error object (typically AxiosError or HttpTransportError)
  * @returns Human-readable error message
  */
 export const getErrorMessage = (error: unknown): string => {
-  // Handle Axios errors
-  if (isAxiosError(error)) {
+  // Handle transport errors
+  if (isHttpError(error)) {
     // Network error (no response)
     if (!error.response) {
       return "Network error occurred. Please check your connection."
@@ -100,7 +101,40 @@ export const isAxiosError = (error: unknown): error is AxiosError => {
 }
 
 /**
- * Checks if an error should trigger a retry based on status code. Never retries authentication errors (401, 403) or rate limiting (429).
+ * Error raised by an HTTP transport
+ */
+export type HttpError = AxiosError | HttpTransportError
+
+/**
+ * Type guard to check if error was raised by an HTTP transport
+ * (AxiosError or HttpTransportError)
+ * @param error - Error to check
+ * @returns true if error is a transport error
+ */
+export const isHttpError = (error: unknown): error is HttpError => {
+  return isAxiosError(error) || error instanceof HttpTransportError
+}
+
+/**
+ * Checks if an error was caused by cancelling the request (AbortSignal)
+ * @param error - Error to check
+ * @returns true if the request was cancelled
+ */
+export const isCancelError = (error: unknown): boolean => {
+  return isHttpError(error) && error.code === "ERR_CANCELED"
+}
+
+/**
+ * Checks if an error is an HTTP 429 (Too Many Requests) response
+ * @param error - Error to check
+ * @returns true if the API rejected the request due to rate limiting
+ */
+export const isRateLimitError = (error: unknown): error is HttpError => {
+  return isHttpError(error) && error.response?.status === 429
+}
+
+/**
+ * Checks if an error should trigger a retry based on status code. Never retries cancelled requests, authentication errors (401, 403) or rate limiting (429).
  * @param error - Error object
  * @param retryableStatuses - Array of HTTP status codes that should be retried
  * @returns true if error should be retried
@@ -109,7 +143,12 @@ export const shouldRetry = (
   error: unknown,
   retryableStatuses: number[],
 ): boolean => {
-  if (!isAxiosError(error)) {
+  if (!isHttpError(error)) {
+    return false
+  }
+
+  // Never retry requests that were cancelled by the caller
+  if (isCancelError(error)) {
     return false
   }
 
@@ -125,7 +164,7 @@ export const shouldRetry = (
     return false
   }
 
-  // Never retry rate limiting (429)
+  // Never retry rate limiting (429); handled by RateLimitConfig.waitForReset
   if (status === 429) {
     return false
   }
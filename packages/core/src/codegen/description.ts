@@ -0,0 +1,189 @@
+/**
+ * API Description
+ *
+ * Declarative description of the gateway API. The code generator emits
+ * the router factories, the DTO types and their zod schemas from it and
+ * the OpenAPI document is built from it, so adding an endpoint only
+ * requires describing it here.
+ *
+ * Entities, enums and field schemas are referenced by name: the generator
+ * emits source code importing them.
+ *
+ * @module @uranium/sdk/codegen/description
+ */
+
+/**
+ * Argument of a router method
+ * - "body": object validated with `schema` and sent as the JSON body
+ * - "field": single value sent as the only field of the JSON body
+ * - "query": object sent as query parameters
+ */
+export type RequestKind = "body" | "field" | "query"
+
+/**
+ * Query parameter of a "query" request
+ */
+export interface QueryParameterDescription {
+  /** Parameter name, also the field of the request object */
+  name: string
+  /** Value sent when the field is not set; the parameter is omitted otherwise */
+  default?: string | number
+}
+
+/**
+ * Request of an operation
+ */
+export interface RequestDescription {
+  /** How the argument is sent */
+  kind: RequestKind
+  /** Argument name */
+  name: string
+  /** Argument type, e.g. "StartMintingRequestDto" */
+  type: string
+  /** Argument description for the doc comment */
+  description: string
+  /** Name of the zod schema of the request in `validation/request-schemas` */
+  schema: string
+  /**
+   * Validate the argument with `schema` before sending (body requests only)
+   * @default true for "body" requests
+   */
+  validate?: boolean
+  /** Message of the ValidationError thrown for invalid arguments */
+  errorMessage?: string
+  /** The argument defaults to an empty object */
+  optional?: boolean
+  /** Query parameters ("query" requests only) */
+  parameters?: QueryParameterDescription[]
+}
+
+/**
+ * Response of an operation
+ * - "ok": the result is the `ok` field of the body
+ * - "data": the result is the `data` field of the body
+ * - "response": the result is the whole body
+ */
+export interface ResponseDescription {
+  /** Response body type, e.g. "StartMintingResponseDto" */
+  type: string
+  /** Name of the zod schema of the body in `validation/response-schemas` */
+  schema: string
+  /** Part of the body returned by the router method */
+  unwrap: "ok" | "data" | "response"
+  /** Return type of the router method */
+  returns: string
+  /** Fields of the unwrapped part to return; the whole part by default */
+  fields?: string[]
+  /** Return value description for the doc comment */
+  description: string
+  /**
+   * Body field that must be set for the call to succeed ("response" only).
+   * Without it the body must have `status: "ok"`.
+   */
+  required?: string
+  /** Fail on `status: "error"` and report the body's `errorCode` */
+  apiErrorCode?: boolean
+  /** Message of the NetworkError thrown for unusable responses */
+  errorMessage: string
+  /**
+   * Code of the NetworkError thrown for unusable responses
+   * @default "API_ERROR"
+   */
+  errorCode?: string
+}
+
+/**
+ * Gateway operation, exposed as a router method
+ */
+export interface OperationDescription {
+  /** HTTP method */
+  method: "GET" | "POST" | "PUT"
+  /** Path relative to the API base URL */
+  path: string
+  /** One-line description */
+  summary: string
+  /** Request, if the method takes an argument */
+  request?: RequestDescription
+  /** Response */
+  response: ResponseDescription
+  /** Send an `Idempotency-Key` and deduplicate caller-provided keys */
+  idempotent?: boolean
+  /** Backend error codes the operation is known to return */
+  errorCodes?: string[]
+  /** Usage example for the doc comment (TypeScript, without fences) */
+  example?: string
+}
+
+/**
+ * Router, exposed as `sdk.{name}`
+ */
+export interface RouterDescription {
+  /** Doc comment lines of the router factory */
+  description: string[]
+  /** Additional type imports of the router module, by module path */
+  imports?: Record<string, string[]>
+  /** Operations, in the order of the router methods */
+  operations: Record<string, OperationDescription>
+}
+
+/**
+ * Field of a DTO
+ */
+export interface FieldDescription {
+  /** TypeScript type, e.g. "string | null" */
+  type: string
+  /** The field may be omitted */
+  optional?: boolean
+  /**
+   * Zod schema of the field, e.g. "z.string().nullish()" or "fileIdSchema".
+   * Required when the DTO has a schema.
+   */
+  schema?: string
+  /** Field description for the doc comment */
+  description: string
+}
+
+/**
+ * Data transfer object, emitted to `types/api-types`
+ */
+export interface DtoDescription {
+  /** Doc comment lines of the interface */
+  description: string[]
+  /** Heading of the section the DTO starts, e.g. "Account API" */
+  section?: string
+  /** The DTO is a response body, extending BaseApiResponse */
+  response?: boolean
+  /** The DTO is an argument of a router method */
+  request?: boolean
+  /**
+   * Name of the zod schema emitted for the DTO. Schemas of request DTOs go
+   * to `validation/request-schemas`, the others to
+   * `validation/response-schemas`.
+   */
+  schema?: string
+  /** Fields, in declaration order */
+  fields: Record<string, FieldDescription>
+}
+
+/**
+ * DTOs of the gateway API
+ */
+export interface TypesDescription {
+  /**
+   * Entity and enum types imported and re-exported by `types/api-types`,
+   * by module path relative to it (e.g. "./entities")
+   */
+  imports: Record<string, string[]>
+  /** DTOs by name, in declaration order */
+  dtos: Record<string, DtoDescription>
+}
+
+/**
+ * Description of the gateway API
+ */
+export interface ApiDescription {
+  /** Routers by name, e.g. "assets" */
+  routers: Record<string, RouterDescription>
+  /** DTOs of the requests and responses */
+  types: TypesDescription
+}
@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test"
+import { join } from "node:path"
+import type { ApiDescription, DtoDescription } from "./description"
+import { GENERATED_HEADER } from "./generate"
+import { generateApiTypes, generateTypes } from "./generate-types"
+import { URANIUM_API } from "./uranium-api"
+
+const PACKAGE_ROOT = join(import.meta.dir, "../..")
+
+/**
+ * Organizes imports and formats a source like the `codegen` script
+ */
+const format = (path: string, source: string): string => {
+  const result = Bun.spawnSync(
+    ["bunx", "biome", "check", "--write", `--stdin-file-path=${path}`],
+    { cwd: PACKAGE_ROOT, stdin: new TextEncoder().encode(source) },
+  )
+  return result.stdout.toString()
+}
+
+const widgetRequest: DtoDescription = {
+  section: "Widgets API",
+  description: ["Request to get a widget"],
+  request: true,
+  schema: "getWidgetSchema",
+  fields: {
+    widgetId: {
+      type: "string",
+      schema: "widgetIdSchema",
+      description: "Widget identifier",
+    },
+    color: {
+      type: '"red" | "blue"',
+      optional: true,
+      schema: 'z.enum(["red", "blue"]).optional()',
+      description: "Widget color",
+    },
+  },
+}
+
+const widgetResponse: DtoDescription = {
+  description: ["Response for getting a widget"],
+  response: true,
+  schema: "getWidgetResponseSchema",
+  fields: {
+    data: {
+      type: "WidgetEntity | null",
+      optional: true,
+      schema: "widgetEntitySchema.nullish()",
+      description: "Widget if successful",
+    },
+    kind: {
+      type: "WidgetKind",
+      schema: "z.enum(WidgetKind)",
+      description: "Kind of the widget",
+    },
+  },
+}
+
+/**
+ * API with a single widget operation
+ */
+const widgetApi = (dtos: Record<string, DtoDescription>): ApiDescription => ({
+  routers: {
+    widgets: {
+      description: ["Widgets API router"],
+      operations: {
+        get: {
+          method: "POST",
+          path: "/widgets/get",
+          summary: "Get a widget",
+          response: {
+            type: "GetWidgetResponseDto",
+            schema: "getWidgetResponseSchema",
+            unwrap: "data",
+            returns: "WidgetEntity",
+            description: "Widget",
+            errorMessage: "Failed to get widget",
+          },
+        },
+      },
+    },
+  },
+  types: {
+    imports: { "./entities": ["WidgetEntity"], "./enums": ["WidgetKind"] },
+    dtos,
+  },
+})
+
+describe("generateTypes", () => {
+  test("should match the committed DTO and schema modules", async () => {
+    const files = generateTypes(URANIUM_API)
+
+    expect(Object.keys(files)).toEqual([
+      "src/types/api-types.ts",
+      "src/validation/request-schemas.ts",
+      "src/validation/response-schemas.ts",
+    ])
+    for (const [path, source] of Object.entries(files)) {
+      const committed = await Bun.file(join(PACKAGE_ROOT, path)).text()
+      // Run `bun run codegen` when this fails
+      expect({ path, source: format(path, source) }).toEqual({
+        path,
+        source: committed,
+      })
+    }
+  })
+
+  test("should emit request and response schemas to their modules", () => {
+    const files = generateTypes(
+      widgetApi({
+        GetWidgetRequestDto: widgetRequest,
+        GetWidgetResponseDto: widgetResponse,
+      }),
+    )
+    const request = files["src/validation/request-schemas.ts"] ?? ""
+    const response = files["src/validation/response-schemas.ts"] ?? ""
+
+    expect(request.startsWith(GENERATED_HEADER)).toBe(true)
+    expect(request).toContain("export const getWidgetSchema = z.object({")
+    expect(request).toContain('import { widgetIdSchema } from "./schemas"')
+    expect(request).not.toContain("getWidgetResponseSchema")
+    expect(response).toContain(
+      "export const getWidgetResponseSchema: z.ZodType<GetWidgetResponseDto> = z.object({",
+    )
+    expect(response).toContain("  ...baseApiResponseShape,")
+    expect(response).toContain(
+      'import { widgetEntitySchema } from "./entity-schemas"',
+    )
+    expect(response).toContain('import { WidgetKind } from "../types/enums"')
+    expect(response).toContain('  "widgets.get": getWidgetResponseSchema,')
+  })
+
+  test("should require a schema for every field of a DTO with a schema", () => {
+    expect(() =>
+      generateTypes(
+        widgetApi({
+          GetWidgetRequestDto: {
+            ...widgetRequest,
+            fields: { widgetId: { type: "string", description: "Widget" } },
+          },
+        }),
+      ),
+    ).toThrow("Field GetWidgetRequestDto.widgetId has no schema")
+  })
+})
+
+describe("generateApiTypes", () => {
+  test("should emit the DTO interfaces", () => {
+    const source = generateApiTypes(
+      widgetApi({
+        GetWidgetRequestDto: widgetRequest,
+        GetWidgetResponseDto: widgetResponse,
+      }).types,
+    )
+    const transpiler = new Bun.Transpiler({ loader: "ts" })
+
+    expect(() => transpiler.transformSync(source)).not.toThrow()
+    expect(source).toContain("// Widgets API Types")
+    expect(source).toContain("export interface GetWidgetRequestDto {")
+    expect(source).toContain('  color?: "red" | "blue"')
+    expect(source).toContain(
+      "export interface GetWidgetResponseDto extends BaseApiResponse {",
+    )
+    expect(source).toContain("export type { WidgetEntity }")
+  })
+})
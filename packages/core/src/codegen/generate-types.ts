@@ -0,0 +1,256 @@
+/**
+ * DTO Code Generator
+ *
+ * Emits the DTO interfaces (`src/types/api-types.ts`) and their zod
+ * schemas (`src/validation/request-schemas.ts` and
+ * `src/validation/response-schemas.ts`) from the API description. The
+ * output is formatted with biome by the `codegen` script.
+ *
+ * @module @uranium/sdk/codegen/generate-types
+ */
+
+import type {
+  ApiDescription,
+  DtoDescription,
+  TypesDescription,
+} from "./description"
+import { GENERATED_HEADER, importStatement } from "./generate"
+
+/**
+ * Generated schema modules: request DTOs are validated before sending,
+ * the other DTOs when responses are validated
+ */
+const SCHEMA_MODULES = {
+  request: {
+    path: "src/validation/request-schemas.ts",
+    doc: [
+      "Request Schemas",
+      "",
+      "Zod schemas of the request DTOs. The routers validate their arguments",
+      "with them before sending.",
+      "",
+      "@module @uranium/sdk/validation/request-schemas",
+    ],
+    /** Module of the field schemas the schemas refer to */
+    fieldSchemas: "./schemas",
+  },
+  response: {
+    path: "src/validation/response-schemas.ts",
+    doc: [
+      "Response Schemas",
+      "",
+      "Zod schemas for the DTOs returned by the Uranium API.",
+      "Used by the response validation transport to detect backend drift",
+      "(missing fields, changed types) at the SDK boundary.",
+      "",
+      "Schemas describe the documented response shape only; unknown fields",
+      "are allowed so additive API changes do not fail validation.",
+      "",
+      "@module @uranium/sdk/validation/response-schemas",
+    ],
+    fieldSchemas: "./entity-schemas",
+  },
+}
+
+type SchemaModule = keyof typeof SCHEMA_MODULES
+
+const docComment = (lines: string[]): string[] => [
+  "/**",
+  ...lines.map((line) => (line ? ` * ${line}` : " *")),
+  " */",
+]
+
+const sectionComment = (heading: string): string[] => [
+  "// ============================================================================",
+  `// ${heading}`,
+  "// ============================================================================",
+  "",
+]
+
+/**
+ * Module a DTO's schema is emitted to
+ */
+const schemaModuleOf = (dto: DtoDescription): SchemaModule =>
+  dto.request ? "request" : "response"
+
+/**
+ * Identifiers referenced by a schema expression, without string literals
+ * and property accesses: 'z.array(chunkSchema).min(1, "Required")' ->
+ * ["z", "chunkSchema"]
+ */
+const toIdentifiers = (expression: string): string[] =>
+  expression.replace(/"[^"]*"/g, "").match(/(?<![.\w])[A-Za-z_]\w*/g) ?? []
+
+/**
+ * Emits the source of `types/api-types`
+ * @param types - DTOs of the API description
+ * @returns TypeScript source, to be formatted with biome
+ */
+export const generateApiTypes = (types: TypesDescription): string => {
+  const lines = [GENERATED_HEADER, ""]
+  for (const [module, names] of Object.entries(types.imports)) {
+    lines.push(importStatement(names, module, true))
+  }
+  lines.push("", "// Re-export entities and enums for convenience")
+  for (const names of Object.values(types.imports)) {
+    lines.push(`export type { ${[...names].sort().join(", ")} }`)
+  }
+  lines.push(
+    "",
+    ...docComment([
+      "Base API response structure",
+      "All API responses follow this pattern",
+    ]),
+    "export interface BaseApiResponse {",
+    '  /** Response status (typically "ok" or "error") */',
+    "  status: string",
+    '  /** Error code if status is "error" */',
+    "  errorCode?: string | null",
+    "}",
+    "",
+  )
+
+  for (const [name, dto] of Object.entries(types.dtos)) {
+    if (dto.section) lines.push(...sectionComment(`${dto.section} Types`))
+    const fields = Object.entries(dto.fields)
+    const heritage = dto.response ? " extends BaseApiResponse" : ""
+    lines.push(...docComment(dto.description))
+    if (fields.length === 0) {
+      lines.push(`export interface ${name}${heritage} {}`, "")
+      continue
+    }
+    lines.push(`export interface ${name}${heritage} {`)
+    for (const [field, { type, optional, description }] of fields) {
+      lines.push(
+        `  /** ${description} */`,
+        `  ${field}${optional ? "?" : ""}: ${type}`,
+      )
+    }
+    lines.push("}", "")
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Emits the zod schema of a DTO
+ */
+const generateSchema = (
+  name: string,
+  dto: DtoDescription,
+  schema: string,
+  annotated: boolean,
+): string[] => {
+  const fields = Object.entries(dto.fields).map(([field, description]) => {
+    if (!description.schema) {
+      throw new Error(`Field ${name}.${field} has no schema`)
+    }
+    return `  ${field}: ${description.schema},`
+  })
+  const shape = dto.response
+    ? fields.length > 0
+      ? ["{", "  ...baseApiResponseShape,", ...fields, "}"]
+      : ["baseApiResponseShape"]
+    : ["{", ...fields, "}"]
+
+  return [
+    ...docComment([`Schema for ${name}`]),
+    `export const ${schema}${annotated ? `: z.ZodType<${name}>` : ""} = z.object(${shape.join("\n")})`,
+    "",
+  ]
+}
+
+/**
+ * Emits the source of a schema module
+ */
+const generateSchemaModule = (
+  module: SchemaModule,
+  description: ApiDescription,
+): string => {
+  const { dtos } = description.types
+  const response = module === "response"
+  const generated = new Map<string, SchemaModule>()
+  for (const dto of Object.values(dtos)) {
+    if (dto.schema) generated.set(dto.schema, schemaModuleOf(dto))
+  }
+
+  const body: string[] = []
+  const types: string[] = []
+  const fieldSchemas = new Set<string>()
+  const enums = new Set<string>()
+  let section: string | undefined
+  for (const [name, dto] of Object.entries(dtos)) {
+    section = dto.section ?? section
+    if (!dto.schema || schemaModuleOf(dto) !== module) continue
+    if (response && section) {
+      body.push(...sectionComment(section))
+      section = undefined
+    }
+    // Response schemas are checked against the DTO they validate
+    body.push(...generateSchema(name, dto, dto.schema, response))
+    types.push(name)
+    for (const field of Object.values(dto.fields)) {
+      for (const identifier of toIdentifiers(field.schema ?? "")) {
+        if (identifier === "z") continue
+        if (/^[A-Z]/.test(identifier)) enums.add(identifier)
+        else if (generated.get(identifier) !== module) {
+          fieldSchemas.add(identifier)
+        }
+      }
+    }
+  }
+
+  const lines = [
+    GENERATED_HEADER,
+    "",
+    ...docComment(SCHEMA_MODULES[module].doc),
+    "",
+    'import { z } from "zod"',
+    ...(response ? [importStatement(types, "../types/api-types", true)] : []),
+    ...(enums.size > 0 ? [importStatement(enums, "../types/enums")] : []),
+    ...(fieldSchemas.size > 0
+      ? [importStatement(fieldSchemas, SCHEMA_MODULES[module].fieldSchemas)]
+      : []),
+    "",
+  ]
+  if (response) {
+    const operations = Object.entries(description.routers).flatMap(
+      ([router, { operations }]) =>
+        Object.entries(operations).map(
+          ([operation, { response }]) =>
+            `  "${router}.${operation}": ${response.schema},`,
+        ),
+    )
+    lines.push(
+      ...docComment(["Fields shared by all API responses"]),
+      "const baseApiResponseShape = {",
+      "  status: z.string(),",
+      "  errorCode: z.string().nullish(),",
+      "}",
+      "",
+      ...body,
+      ...docComment([
+        'Response schema of each router operation, keyed by "{router}.{operation}"',
+      ]),
+      "export const RESPONSE_SCHEMAS: Record<string, z.ZodType> = {",
+      ...operations,
+      "}",
+      "",
+    )
+  } else {
+    lines.push(...body)
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Emits the source of the DTO types and schema modules
+ * @param description - API description
+ * @returns Sources by path relative to the package root
+ */
+export const generateTypes = (
+  description: ApiDescription,
+): Record<string, string> => ({
+  "src/types/api-types.ts": generateApiTypes(description.types),
+  [SCHEMA_MODULES.request.path]: generateSchemaModule("request", description),
+  [SCHEMA_MODULES.response.path]: generateSchemaModule("response", description),
+})
@@ -0,0 +1,178 @@
+import { describe, expect, test } from "bun:test"
+import { join } from "node:path"
+import type { OperationDescription, RouterDescription } from "./description"
+import { GENERATED_HEADER, generateRouter, generateRouters } from "./generate"
+import { URANIUM_API } from "./uranium-api"
+
+const PACKAGE_ROOT = join(import.meta.dir, "../..")
+
+/**
+ * Organizes imports and formats a source like the `codegen` script
+ */
+const format = (path: string, source: string): string => {
+  const result = Bun.spawnSync(
+    ["bunx", "biome", "check", "--write", `--stdin-file-path=${path}`],
+    { cwd: PACKAGE_ROOT, stdin: new TextEncoder().encode(source) },
+  )
+  return result.stdout.toString()
+}
+
+/**
+ * Router with a single operation
+ */
+const routerOf = (operation: OperationDescription): RouterDescription => ({
+  description: ["Widgets API router"],
+  operations: { get: operation },
+})
+
+const baseOperation: OperationDescription = {
+  method: "POST",
+  path: "/widgets/get",
+  summary: "Get a widget",
+  request: {
+    kind: "body",
+    name: "params",
+    type: "GetWidgetRequestDto",
+    description: "Widget parameters",
+    schema: "getWidgetSchema",
+    errorMessage: "Invalid widget parameters",
+  },
+  response: {
+    type: "GetWidgetResponseDto",
+    schema: "getWidgetResponseSchema",
+    unwrap: "data",
+    returns: "WidgetEntity",
+    description: "Widget",
+    errorMessage: "Failed to get widget",
+  },
+}
+
+describe("generateRouters", () => {
+  test("should match the committed router modules", async () => {
+    const files = generateRouters(URANIUM_API)
+
+    expect(Object.keys(files)).toEqual([
+      "src/client/account.ts",
+      "src/client/contracts.ts",
+      "src/client/assets.ts",
+    ])
+    for (const [path, source] of Object.entries(files)) {
+      const committed = await Bun.file(join(PACKAGE_ROOT, path)).text()
+      // Run `bun run codegen` when this fails
+      expect({ path, source: format(path, source) }).toEqual({
+        path,
+        source: committed,
+      })
+    }
+  })
+})
+
+describe("generateRouter", () => {
+  test("should emit a valid module", () => {
+    const source = generateRouter("widgets", routerOf(baseOperation))
+    const transpiler = new Bun.Transpiler({ loader: "ts" })
+
+    expect(source.startsWith(GENERATED_HEADER)).toBe(true)
+    expect(() => transpiler.transformSync(source)).not.toThrow()
+    expect(source).toContain("export const widgetsRouter = (")
+    expect(source).toContain(
+      "export type WidgetsRouter = ReturnType<typeof widgetsRouter>",
+    )
+  })
+
+  test("should validate body requests and import what the module uses", () => {
+    const source = generateRouter("widgets", routerOf(baseOperation))
+
+    expect(source).toContain(
+      'const validated = validateSchema(getWidgetSchema, params, "Invalid widget parameters")',
+    )
+    expect(source).toContain(
+      'import { getWidgetSchema } from "../validation/request-schemas"',
+    )
+    expect(source).toContain(
+      'import type { GetWidgetRequestDto, GetWidgetResponseDto, WidgetEntity } from "../types/api-types"',
+    )
+    expect(source).not.toContain("withIdempotency")
+  })
+
+  test("should unwrap the ok, data or top-level response shape", () => {
+    const unwrap = (response: Partial<OperationDescription["response"]>) =>
+      generateRouter(
+        "widgets",
+        routerOf({
+          ...baseOperation,
+          response: { ...baseOperation.response, ...response },
+        }),
+      )
+
+    expect(unwrap({ unwrap: "ok" })).toContain("return response.data.ok\n")
+    expect(unwrap({ unwrap: "data" })).toContain("if (!response.data.data) {")
+    expect(unwrap({ unwrap: "ok", fields: ["data", "meta"] })).toContain(
+      "return { data: response.data.ok.data, meta: response.data.ok.meta }",
+    )
+    expect(unwrap({ unwrap: "response" })).toContain(
+      'if (!response.data || response.data.status !== "ok") {',
+    )
+    expect(unwrap({ unwrap: "response", required: "id" })).toContain(
+      "if (!response.data.id) {",
+    )
+    expect(
+      unwrap({ unwrap: "response", apiErrorCode: true, errorCode: "WIDGET" }),
+    ).toContain('response.data.errorCode ?? "WIDGET",')
+  })
+
+  test("should wrap idempotent operations and send query requests", () => {
+    const source = generateRouter(
+      "widgets",
+      routerOf({
+        ...baseOperation,
+        method: "GET",
+        idempotent: true,
+        request: {
+          kind: "query",
+          name: "params",
+          type: "FindWidgetsRequestDto",
+          description: "Filters",
+          schema: "findWidgetsSchema",
+          optional: true,
+          parameters: [{ name: "color" }, { name: "page", default: 1 }],
+        },
+      }),
+    )
+
+    expect(source).toContain(
+      "idempotencyStore: IdempotencyStore = new IdempotencyStore()",
+    )
+    expect(source).toContain(
+      'return withIdempotency(idempotencyStore, "widgets.get", options, async (requestOptions) => {',
+    )
+    expect(source).toContain("params: FindWidgetsRequestDto = {}")
+    expect(source).toContain(
+      'if (params.color) searchParams.append("color", String(params.color))',
+    )
+    expect(source).toContain(
+      'searchParams.append("page", String(params.page ?? 1))',
+    )
+    expect(source).not.toContain("validateSchema")
+  })
+
+  test("should document the errors of the backend error codes", () => {
+    const source = generateRouter(
+      "widgets",
+      routerOf({
+        ...baseOperation,
+        errorCodes: ["AUTH_REQUIRED", "INVALID_INPUT", "CONTRACT_NOT_FOUND"],
+      }),
+    )
+
+    expect(source).toContain(
+      " * @throws {AuthenticationError} If the API returns AUTH_REQUIRED",
+    )
+    expect(source).toContain(
+      " * @throws {ValidationError} If params are invalid or the API returns INVALID_INPUT",
+    )
+    expect(source).toContain(
+      " * @throws {NotFoundError} If the API returns CONTRACT_NOT_FOUND",
+    )
+  })
+})
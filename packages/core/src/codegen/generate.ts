@@ -0,0 +1,361 @@
+/**
+ * Router Code Generator
+ *
+ * Emits the source of the router modules (`src/client/{router}.ts`) from
+ * the API description: typed router factories, input validation and
+ * unwrapping of the `ok`, `data` or top-level response shape. The output
+ * is formatted with biome by the `codegen` script.
+ *
+ * @module @uranium/sdk/codegen/generate
+ */
+
+import { createErrorFromCode } from "../types/errors"
+import type {
+  ApiDescription,
+  OperationDescription,
+  RequestDescription,
+  RouterDescription,
+} from "./description"
+
+const DEFAULT_TYPES_MODULE = "../types/api-types"
+
+/**
+ * Header of the generated modules
+ */
+export const GENERATED_HEADER =
+  "// Generated by `bun run codegen` from src/codegen/uranium-api.ts. Do not edit."
+
+/**
+ * Whether the request is validated with its schema before sending
+ */
+const isValidated = (request?: RequestDescription): boolean =>
+  request !== undefined && (request.validate ?? request.kind === "body")
+
+/**
+ * Type names referenced by a type expression: "PaginatedResponse<AssetEntity>"
+ * -> ["PaginatedResponse", "AssetEntity"]
+ */
+const toTypeNames = (type: string): string[] => type.match(/\b[A-Z]\w*/g) ?? []
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1)
+
+const compareNames = (a: string, b: string) =>
+  a.toLowerCase() < b.toLowerCase()
+    ? -1
+    : a.toLowerCase() > b.toLowerCase()
+      ? 1
+      : 0
+
+/**
+ * Joins values as a sentence: ["A", "B", "C"] -> "A, B or C"
+ */
+const toList = (values: string[]) =>
+  values.length > 1
+    ? `${values.slice(0, -1).join(", ")} or ${values[values.length - 1]}`
+    : (values[0] ?? "")
+
+/**
+ * Emits an import statement of sorted, deduplicated names
+ */
+export const importStatement = (
+  names: Iterable<string>,
+  module: string,
+  type = false,
+) =>
+  `import ${type ? "type " : ""}{ ${[...new Set(names)].sort(compareNames).join(", ")} } from "${module}"`
+
+/**
+ * Emits the import statements of a router module
+ */
+const generateImports = (router: RouterDescription): string[] => {
+  const operations = Object.values(router.operations)
+  const moduleOf = (name: string) =>
+    Object.entries(router.imports ?? {}).find(([, names]) =>
+      names.includes(name),
+    )?.[0] ?? DEFAULT_TYPES_MODULE
+
+  const types = new Map<string, string[]>()
+  for (const { request, response } of operations) {
+    for (const type of [request?.type ?? "", response.type, response.returns]) {
+      for (const name of toTypeNames(type)) {
+        const module = moduleOf(name)
+        types.set(module, [...(types.get(module) ?? []), name])
+      }
+    }
+  }
+  const schemas = operations
+    .filter(({ request }) => isValidated(request))
+    .map(({ request }) => request?.schema ?? "")
+  const idempotent = operations.some((operation) => operation.idempotent)
+
+  return [
+    importStatement(["NetworkError"], "@uranium/types"),
+    ...[...types.keys()]
+      .sort()
+      .map((module) => importStatement(types.get(module) ?? [], module, true)),
+    ...(schemas.length > 0
+      ? [
+          importStatement(schemas, "../validation/request-schemas"),
+          importStatement(["validateSchema"], "../validation/utils"),
+        ]
+      : []),
+    ...(idempotent
+      ? [
+          importStatement(
+            ["IdempotencyStore", "withIdempotency"],
+            "./idempotency",
+          ),
+        ]
+      : []),
+    importStatement(["toRequestConfig"], "./pipeline"),
+    importStatement(["HttpTransport"], "./transport", true),
+    importStatement(["RequestOptions"], "./types", true),
+  ]
+}
+
+/**
+ * Emits the doc comment of a router method
+ */
+const generateDocComment = (operation: OperationDescription): string[] => {
+  const { request, response } = operation
+  const lines = [operation.summary]
+  if (request) lines.push(`@param ${request.name} - ${request.description}`)
+  lines.push(
+    `@param options - Optional request options (retry, signal, timeout, headers${operation.idempotent ? ", idempotencyKey" : ""})`,
+    `@returns ${response.description}`,
+  )
+  // Backend error codes are surfaced as typed errors by the pipeline
+  const codesByError = new Map<string, string[]>()
+  if (isValidated(request)) codesByError.set("ValidationError", [])
+  for (const code of operation.errorCodes ?? []) {
+    const name = createErrorFromCode(code, "")?.name ?? "UraniumError"
+    codesByError.set(name, [...(codesByError.get(name) ?? []), code])
+  }
+  for (const [name, codes] of codesByError) {
+    const conditions = [
+      ...(name === "ValidationError" && isValidated(request)
+        ? [`${request?.name} are invalid`]
+        : []),
+      ...(codes.length > 0 ? [`the API returns ${toList(codes)}`] : []),
+    ]
+    lines.push(`@throws {${name}} If ${conditions.join(" or ")}`)
+  }
+  lines.push(
+    `@throws {NetworkError} If network request fails${response.apiErrorCode ? " or the API reports an error" : ""}`,
+  )
+
+  if (operation.example) {
+    lines.push(
+      "",
+      "@example",
+      "```typescript",
+      ...operation.example.split("\n"),
+      "```",
+    )
+  }
+  return ["/**", ...lines.map((line) => (line ? ` * ${line}` : " *")), " */"]
+}
+
+/**
+ * Emits the statements sending the request and unwrapping the response
+ */
+const generateCall = (
+  routerName: string,
+  name: string,
+  operation: OperationDescription,
+  options: string,
+): string[] => {
+  const { request, response } = operation
+  const method = operation.method.toLowerCase()
+  const validated = isValidated(request)
+
+  let url = JSON.stringify(operation.path)
+  let body: string | undefined
+  let params: string | undefined
+  if (request?.kind === "query") {
+    url = `\`${operation.path}?\${searchParams.toString()}\``
+    params = request.name
+  } else if (request?.kind === "field") {
+    body = validated ? "validated" : `{ ${request.name} }`
+    params = body
+  } else if (request) {
+    body = validated ? "validated" : request.name
+    params = body
+  }
+
+  const operationConfig = [
+    `router: "${routerName}"`,
+    `operation: "${name}"`,
+    ...(params ? [params === "params" ? params : `params: ${params}`] : []),
+  ]
+  const args = [
+    url,
+    ...(body !== undefined && method !== "get" ? [body] : []),
+    `toRequestConfig(${options}, { ${operationConfig.join(", ")} })`,
+  ]
+
+  const data = "response.data"
+  let failed: string
+  let result: string
+  if (response.unwrap === "response") {
+    failed = response.required
+      ? `!${data}.${response.required}`
+      : `!${data} || ${data}.status !== "ok"`
+    result = data
+  } else {
+    failed = `!${data}.${response.unwrap}`
+    result = `${data}.${response.unwrap}`
+  }
+  if (response.apiErrorCode) failed = `${data}.status === "error" || ${failed}`
+
+  const message = JSON.stringify(response.errorMessage)
+  const code = JSON.stringify(response.errorCode ?? "API_ERROR")
+  const returned = response.fields
+    ? `{ ${response.fields.map((field) => `${field}: ${result}.${field}`).join(", ")} }`
+    : result
+
+  return [
+    `const response = await client.${method}<${response.type}>(${args.join(", ")})`,
+    "",
+    `if (${failed}) {`,
+    "throw new NetworkError(",
+    response.apiErrorCode ? `${data}.errorCode ?? ${message},` : `${message},`,
+    response.apiErrorCode ? `${data}.errorCode ?? ${code},` : `${code},`,
+    "false,",
+    "undefined,",
+    `{ status: response.status, data: ${data} },`,
+    ")",
+    "}",
+    "",
+    `return ${returned}`,
+  ]
+}
+
+/**
+ * Emits a router method
+ */
+const generateOperation = (
+  routerName: string,
+  name: string,
+  operation: OperationDescription,
+): string[] => {
+  const { request } = operation
+  const parameters = [
+    ...(request
+      ? [`${request.name}: ${request.type}${request.optional ? " = {}" : ""}`]
+      : []),
+    "options?: RequestOptions",
+  ]
+
+  const statements: string[] = []
+  if (isValidated(request) && request) {
+    const value =
+      request.kind === "field" ? `{ ${request.name} }` : request.name
+    statements.push(
+      "// Validate input before sending request",
+      `const validated = validateSchema(${request.schema}, ${value}, ${JSON.stringify(request.errorMessage ?? "Invalid parameters")})`,
+      "",
+    )
+  }
+  if (request?.kind === "query") {
+    statements.push(
+      "// Build query parameters",
+      "const searchParams = new URLSearchParams()",
+    )
+    for (const parameter of request.parameters ?? []) {
+      const field = `${request.name}.${parameter.name}`
+      statements.push(
+        parameter.default === undefined
+          ? `if (${field}) searchParams.append("${parameter.name}", String(${field}))`
+          : `searchParams.append("${parameter.name}", String(${field} ?? ${JSON.stringify(parameter.default)}))`,
+      )
+    }
+    statements.push("")
+  }
+
+  if (operation.idempotent) {
+    statements.push(
+      `return withIdempotency(idempotencyStore, "${routerName}.${name}", options, async (requestOptions) => {`,
+      ...generateCall(routerName, name, operation, "requestOptions"),
+      "})",
+    )
+  } else {
+    statements.push(...generateCall(routerName, name, operation, "options"))
+  }
+
+  return [
+    ...generateDocComment(operation),
+    `${name}: async (${parameters.join(", ")}): Promise<${operation.response.returns}> => {`,
+    ...statements,
+    "},",
+  ]
+}
+
+/**
+ * Emits the source of a router module
+ * @param name - Router name, e.g. "assets"
+ * @param router - Router description
+ * @returns TypeScript source, to be formatted with biome
+ */
+export const generateRouter = (
+  name: string,
+  router: RouterDescription,
+): string => {
+  const idempotent = Object.values(router.operations).some(
+    (operation) => operation.idempotent,
+  )
+  const factory = `${name}Router`
+  const parameters = [
+    "client: HttpTransport",
+    ...(idempotent
+      ? ["idempotencyStore: IdempotencyStore = new IdempotencyStore()"]
+      : []),
+  ]
+  const doc = [
+    ...router.description,
+    "@param client - HTTP transport",
+    ...(idempotent
+      ? [
+          "@param idempotencyStore - Store deduplicating caller-provided idempotency keys",
+        ]
+      : []),
+  ]
+
+  return [
+    GENERATED_HEADER,
+    "",
+    ...generateImports(router),
+    "",
+    "/**",
+    ...doc.map((line) => ` * ${line}`),
+    " */",
+    `export const ${factory} = (${parameters.join(", ")}) => ({`,
+    ...Object.entries(router.operations).flatMap(([operation, description]) => [
+      ...generateOperation(name, operation, description),
+      "",
+    ]),
+    "})",
+    "",
+    "/**",
+    ` * Type for ${name} router`,
+    " */",
+    `export type ${capitalize(name)}Router = ReturnType<typeof ${factory}>`,
+    "",
+  ].join("\n")
+}
+
+/**
+ * Emits the source of every router module
+ * @param description - API description
+ * @returns Sources by path relative to the package root
+ */
+export const generateRouters = (
+  description: ApiDescription,
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(description.routers).map(([name, router]) => [
+      `src/client/${name}.ts`,
+      generateRouter(name, router),
+    ]),
+  )
@@ -0,0 +1,5 @@
+export * from "./description"
+export * from "./generate"
+export * from "./generate-types"
+export * from "./uranium-api"
+export * from "./uranium-dtos"
@@ -0,0 +1,240 @@
+/**
+ * Uranium API Description
+ *
+ * The gateway routes exposed by the SDK routers. After changing this file,
+ * run `bun run codegen` to regenerate `src/client/{router}.ts`. Request and
+ * response bodies are described in `uranium-dtos.ts`.
+ *
+ * @module @uranium/sdk/codegen/uranium-api
+ */
+
+import type { ApiDescription } from "./description"
+import { URANIUM_DTOS } from "./uranium-dtos"
+
+/**
+ * Description of the Uranium gateway API
+ */
+export const URANIUM_API: ApiDescription = {
+  routers: {
+    account: {
+      description: ["Account API router", "Handles user account operations"],
+      operations: {
+        getMe: {
+          method: "POST",
+          path: "/clients-account/me",
+          summary: "Get current authenticated user information",
+          request: {
+            kind: "field",
+            name: "deviceId",
+            type: "string",
+            description: "Device identifier for the request",
+            schema: "getCurrentUserSchema",
+          },
+          response: {
+            type: "GetCurrentUserResponseDto",
+            schema: "getCurrentUserResponseSchema",
+            unwrap: "ok",
+            returns: "GetCurrentUserResponse_OK",
+            description: "User entity with account details",
+            errorMessage: "Failed to get user information",
+          },
+          errorCodes: ["AUTH_REQUIRED", "AUTH_INVALID"],
+        },
+      },
+    },
+    contracts: {
+      description: [
+        "Contracts API router",
+        "Handles NFT collection/contract operations",
+      ],
+      operations: {
+        list: {
+          method: "GET",
+          path: "/contracts/list",
+          summary: "List all contracts/collections owned by the user",
+          response: {
+            type: "UserContractsResponseDto",
+            schema: "userContractsResponseSchema",
+            unwrap: "data",
+            returns: "ContractEntity[]",
+            description: "Array of contract entities",
+            errorMessage: "Failed to retrieve contracts list",
+          },
+        },
+        create: {
+          method: "POST",
+          path: "/contracts/create",
+          summary: "Create a new NFT collection/contract",
+          request: {
+            kind: "body",
+            name: "params",
+            type: "CreateUserContractRequestDto",
+            description: "Contract creation parameters (name, symbol, type)",
+            schema: "createContractSchema",
+            errorMessage: "Invalid contract parameters",
+          },
+          response: {
+            type: "CreateUserContractResponseDto",
+            schema: "createUserContractResponseSchema",
+            unwrap: "data",
+            returns: "ContractEntity",
+            description: "Created contract entity",
+            errorMessage: "Failed to create contract",
+          },
+          idempotent: true,
+          errorCodes: ["QUOTA_EXCEEDED"],
+        },
+      },
+    },
+    assets: {
+      description: [
+        "Assets API router",
+        "Handles NFT asset operations including listing, uploading, and minting",
+      ],
+      imports: { "../types/pagination": ["PaginatedResponse"] },
+      operations: {
+        list: {
+          method: "GET",
+          path: "/assets/",
+          summary: "List assets with optional filtering and pagination",
+          request: {
+            kind: "query",
+            name: "params",
+            type: "FindUserAssetsRequestDto",
+            description:
+              "Filter parameters (contractId, pagination, sorting, search)",
+            schema: "findUserAssetsSchema",
+            optional: true,
+            parameters: [
+              { name: "contractId" },
+              { name: "quickFilter" },
+              { name: "sortBy", default: "createdAt" },
+              { name: "order", default: "asc" },
+              { name: "page", default: 1 },
+              { name: "pageSize", default: 10 },
+            ],
+          },
+          response: {
+            type: "FindUserAssetsResponseDto",
+            schema: "findUserAssetsResponseSchema",
+            unwrap: "ok",
+            returns: "PaginatedResponse<AssetEntity>",
+            fields: ["data", "meta"],
+            description: "Paginated list of assets with metadata",
+            errorMessage: "Failed to retrieve assets",
+          },
+        },
+        prepareNewFile: {
+          method: "POST",
+          path: "/assets/prepare-new-file",
+          summary: "Prepare a new file upload and get presigned URLs",
+          request: {
+            kind: "body",
+            name: "params",
+            type: "PrepareNewFileRequestDto",
+            description:
+              "File preparation parameters (deviceId, metadata, type, size)",
+            schema: "prepareNewFileSchema",
+            errorMessage: "Invalid file preparation parameters",
+          },
+          response: {
+            type: "PrepareNewFileResponseDto",
+            schema: "prepareNewFileResponseSchema",
+            unwrap: "response",
+            returns: "PrepareNewFileResponseDto",
+            description: "Upload URLs and file identifiers",
+            required: "fileId",
+            errorMessage: "Failed to prepare file upload",
+          },
+          errorCodes: ["FILE_TOO_LARGE", "QUOTA_EXCEEDED"],
+        },
+        completeUpload: {
+          method: "POST",
+          path: "/assets/complete-upload",
+          summary: "Complete a multipart file upload",
+          request: {
+            kind: "body",
+            name: "params",
+            type: "CompleteUploadRequestDto",
+            description:
+              "Completion parameters (fileId, mimeType, chunks with ETags)",
+            schema: "completeUploadSchema",
+            errorMessage: "Invalid upload completion parameters",
+          },
+          response: {
+            type: "CompleteUploadResponseDto",
+            schema: "completeUploadResponseSchema",
+            unwrap: "response",
+            returns: "CompleteUploadResponseDto",
+            description: "Upload completion confirmation",
+            errorMessage: "Failed to complete upload",
+          },
+          errorCodes: ["UPLOAD_FAILED"],
+        },
+        startMinting: {
+          method: "POST",
+          path: "/assets/start-minting",
+          summary: "Start the NFT minting process for an uploaded file",
+          request: {
+            kind: "body",
+            name: "params",
+            type: "StartMintingRequestDto",
+            description:
+              "Minting parameters (fileId, editions, contractId, metadata)",
+            schema: "startMintingSchema",
+            errorMessage: "Invalid minting parameters",
+          },
+          response: {
+            type: "StartMintingResponseDto",
+            schema: "startMintingResponseSchema",
+            unwrap: "data",
+            returns: "StartMintingResponseDataDto",
+            description: "Minting status and progress information",
+            errorMessage: "Failed to start minting process",
+          },
+          idempotent: true,
+          errorCodes: [
+            "CONTRACT_NOT_FOUND",
+            "METADATA_INVALID",
+            "INSUFFICIENT_BALANCE",
+            "MINTING_FAILED",
+          ],
+        },
+        extractFrameSync: {
+          method: "POST",
+          path: "/assets/extract-frame-sync",
+          summary:
+            "Extract a frame from a video at a specific time position (synchronous)",
+          request: {
+            kind: "body",
+            name: "params",
+            type: "ExtractFrameSyncRequestDto",
+            description: "Extraction parameters (fileId, timeInSeconds)",
+            schema: "extractFrameSyncSchema",
+            errorMessage: "Invalid frame extraction parameters",
+          },
+          response: {
+            type: "ExtractFrameSyncResponseDto",
+            schema: "extractFrameSyncResponseSchema",
+            unwrap: "response",
+            returns: "ExtractFrameSyncResponseDto",
+            description: "Extracted frame as base64 data with dimensions",
+            required: "base64Data",
+            apiErrorCode: true,
+            errorMessage: "Failed to extract frame",
+            errorCode: "EXTRACTION_FAILED",
+          },
+          errorCodes: ["INVALID_FILE_TYPE"],
+          example: `const frame = await sdk.assets.extractFrameSync({
+  fileId: "video-file-id",
+  timeInSeconds: 1.5,
+});
+
+// Use the base64 data directly
+const imageDataUrl = \`data:\${frame.mimeType};base64,\${frame.base64Data}\`;`,
+        },
+      },
+    },
+  },
+  types: URANIUM_DTOS,
+}
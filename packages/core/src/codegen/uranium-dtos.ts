@@ -0,0 +1,577 @@
+/**
+ * Uranium API DTOs
+ *
+ * The request and response bodies of the gateway routes. After changing
+ * this file, run `bun run codegen` to regenerate `src/types/api-types.ts`
+ * and the request and response schemas.
+ *
+ * @module @uranium/sdk/codegen/uranium-dtos
+ */
+
+import type { TypesDescription } from "./description"
+
+/**
+ * DTOs of the Uranium gateway API
+ */
+export const URANIUM_DTOS: TypesDescription = {
+  imports: {
+    "./entities": [
+      "AssetEntity",
+      "ContractEntity",
+      "MintProgressInfoEntity",
+      "Timestamp",
+      "UserEntity",
+    ],
+    "./enums": [
+      "ERCType",
+      "FileSource",
+      "FileType",
+      "Metadata_AttributeType",
+      "UploadStatus",
+    ],
+  },
+  dtos: {
+    GetCurrentUserRequestDto: {
+      section: "Account API",
+      description: ["Request to get current authenticated user"],
+      request: true,
+      schema: "getCurrentUserSchema",
+      fields: {
+        deviceId: {
+          type: "string",
+          schema: "deviceIdSchema",
+          description: "Device identifier for the request",
+        },
+      },
+    },
+    GetCurrentUserResponse_OK: {
+      description: ["Successful user data response"],
+      schema: "getCurrentUserOkSchema",
+      fields: {
+        userId: {
+          type: "string",
+          schema: "z.string()",
+          description: "Unique user identifier",
+        },
+        enablePushNotifications: {
+          type: "boolean",
+          schema: "z.boolean()",
+          description: "Whether push notifications are enabled",
+        },
+        role: {
+          type: '"USER" | "ADMIN"',
+          schema: 'z.enum(["USER", "ADMIN"])',
+          description: "User role (USER or ADMIN)",
+        },
+        nickname: {
+          type: "string",
+          schema: "z.string()",
+          description: "User's display name",
+        },
+        phoneNumber: {
+          type: "string",
+          schema: "z.string()",
+          description: "User's phone number",
+        },
+        publicKey: {
+          type: "string",
+          schema: "z.string()",
+          description: "User's public key for blockchain operations",
+        },
+        verificationId: {
+          type: "string",
+          schema: "z.string()",
+          description: "Verification ID for authentication",
+        },
+      },
+    },
+    GetCurrentUserResponseDto: {
+      description: ["Response for getting current user"],
+      response: true,
+      schema: "getCurrentUserResponseSchema",
+      fields: {
+        ok: {
+          type: "GetCurrentUserResponse_OK | null",
+          optional: true,
+          schema: "getCurrentUserOkSchema.nullish()",
+          description: "User data if request was successful",
+        },
+      },
+    },
+
+    CreateUserContractRequestDto: {
+      section: "Contracts API",
+      description: ["Request to create a new NFT collection/contract"],
+      request: true,
+      schema: "createContractSchema",
+      fields: {
+        name: {
+          type: "string",
+          schema: "contractNameSchema",
+          description: "Name of the collection (3-30 characters)",
+        },
+        symbol: {
+          type: "string",
+          schema: "contractSymbolSchema",
+          description: "Symbol/ticker for the collection (3-30 characters)",
+        },
+        type: {
+          type: 'ERCType | "ERC721" | "ERC1155"',
+          schema: "ercTypeSchema",
+          description: "ERC standard to use",
+        },
+      },
+    },
+    CreateUserContractResponseDto: {
+      description: ["Response for creating a contract"],
+      response: true,
+      schema: "createUserContractResponseSchema",
+      fields: {
+        data: {
+          type: "ContractEntity | null",
+          optional: true,
+          schema: "contractEntitySchema.nullish()",
+          description: "Created contract data if successful",
+        },
+      },
+    },
+    UserContractsResponseDto: {
+      description: ["Response for listing user's contracts"],
+      response: true,
+      schema: "userContractsResponseSchema",
+      fields: {
+        data: {
+          type: "ContractEntity[]",
+          schema: "z.array(contractEntitySchema)",
+          description: "Array of user's contracts/collections",
+        },
+      },
+    },
+
+    FindUserAssetsRequestDto: {
+      section: "Assets API",
+      description: ["Request to find/filter user's assets"],
+      request: true,
+      schema: "findUserAssetsSchema",
+      fields: {
+        contractId: {
+          type: "string",
+          optional: true,
+          schema: "z.string().min(1).optional()",
+          description: "Filter by specific collection ID",
+        },
+        pageSize: {
+          type: "number",
+          optional: true,
+          schema: "z.number().int().positive().optional()",
+          description: "Number of items per page (default 20, max 100)",
+        },
+        page: {
+          type: "number",
+          optional: true,
+          schema: "z.number().int().positive().optional()",
+          description: "Page number (1-based)",
+        },
+        sortBy: {
+          type: "string",
+          optional: true,
+          schema: "z.string().optional()",
+          description: 'Field to sort by (e.g., "createdAt", "title")',
+        },
+        order: {
+          type: '"desc" | "asc"',
+          optional: true,
+          schema: 'z.enum(["asc", "desc"]).optional()',
+          description: "Sort order",
+        },
+        quickFilter: {
+          type: "string",
+          optional: true,
+          schema: "z.string().optional()",
+          description: "Text search filter for asset title",
+        },
+      },
+    },
+    FindUserAssetsMetadata: {
+      description: ["Pagination metadata for asset listings"],
+      schema: "findUserAssetsMetadataSchema",
+      fields: {
+        total: {
+          type: "number",
+          schema: "z.number()",
+          description: "Total number of assets matching the filter",
+        },
+        page: {
+          type: "number",
+          schema: "z.number()",
+          description: "Current page number",
+        },
+        pageSize: {
+          type: "number",
+          schema: "z.number()",
+          description: "Number of items per page",
+        },
+        countPages: {
+          type: "number",
+          schema: "z.number()",
+          description: "Total number of pages",
+        },
+      },
+    },
+    FindUserAssetsResponseData: {
+      description: ["Successful asset listing data"],
+      schema: "findUserAssetsResponseDataSchema",
+      fields: {
+        data: {
+          type: "AssetEntity[]",
+          schema: "z.array(assetEntitySchema)",
+          description: "Array of assets",
+        },
+        meta: {
+          type: "FindUserAssetsMetadata | null",
+          schema: "findUserAssetsMetadataSchema.nullable()",
+          description: "Pagination metadata",
+        },
+      },
+    },
+    FindUserAssetsResponseDto: {
+      description: ["Response for finding user's assets"],
+      response: true,
+      schema: "findUserAssetsResponseSchema",
+      fields: {
+        ok: {
+          type: "FindUserAssetsResponseData | null",
+          optional: true,
+          schema: "findUserAssetsResponseDataSchema.nullish()",
+          description: "Asset listing data if successful",
+        },
+      },
+    },
+
+    PrepareNewFileRequestDto: {
+      section: "File Upload API",
+      description: [
+        "Request to prepare a new file upload",
+        "Initiates multipart upload and returns presigned URLs",
+      ],
+      request: true,
+      schema: "prepareNewFileSchema",
+      fields: {
+        deviceId: {
+          type: "string",
+          schema: "deviceIdSchema",
+          description: "Device identifier",
+        },
+        metadata: {
+          type: "string",
+          schema: 'z.string().min(1, "Metadata is required")',
+          description: "JSON-stringified metadata for the file",
+        },
+        type: {
+          type: "FileType",
+          schema: "fileTypeSchema",
+          description: "Type of file being uploaded",
+        },
+        source: {
+          type: "FileSource",
+          schema: "fileSourceSchema",
+          description: "Source of the file",
+        },
+        fileSize: {
+          type: "number",
+          schema: "fileSizeSchema",
+          description: "Size of the file in bytes",
+        },
+        isPrivate: {
+          type: "boolean | null | undefined",
+          optional: true,
+          schema: "z.boolean().optional().nullable()",
+          description: "Whether the file content should be private/encrypted",
+        },
+      },
+    },
+    UploadPartUrl: {
+      description: ["Presigned URL for uploading a single part"],
+      schema: "uploadPartUrlSchema",
+      fields: {
+        partNumber: {
+          type: "number",
+          schema: "z.number().int().positive()",
+          description: "Part number (1-based)",
+        },
+        url: {
+          type: "string",
+          schema: "z.string()",
+          description: "Presigned S3 URL for uploading this part",
+        },
+      },
+    },
+    PrepareNewFileResponseDto: {
+      description: ["Response for preparing a file upload"],
+      response: true,
+      schema: "prepareNewFileResponseSchema",
+      fields: {
+        fileId: {
+          type: "string",
+          schema: "z.string()",
+          description: "Unique file identifier",
+        },
+        fileUploadId: {
+          type: "string",
+          schema: "z.string()",
+          description: "Upload session identifier",
+        },
+        chunkCount: {
+          type: "number",
+          schema: "z.number().int().nonnegative()",
+          description: "Number of chunks/parts for multipart upload",
+        },
+        chunkSize: {
+          type: "number",
+          schema: "z.number().int().positive()",
+          description: "Size of each chunk in bytes",
+        },
+        uploadPartUrls: {
+          type: "UploadPartUrl[]",
+          schema: "z.array(uploadPartUrlSchema)",
+          description: "Array of presigned URLs for each part",
+        },
+      },
+    },
+    CompleteUploadChunkRequest: {
+      description: ["Information about a completed upload chunk"],
+      fields: {
+        partNumber: {
+          type: "number",
+          description: "Part number that was uploaded",
+        },
+        eTag: {
+          type: "string",
+          description: "ETag returned by S3 after upload",
+        },
+      },
+    },
+    CompleteUploadRequestDto: {
+      description: ["Request to complete a multipart upload"],
+      request: true,
+      schema: "completeUploadSchema",
+      fields: {
+        fileId: {
+          type: "string",
+          schema: "fileIdSchema",
+          description: "File identifier from PrepareNewFileResponseDto",
+        },
+        mimeType: {
+          type: "string",
+          schema: "mimeTypeSchema",
+          description: "MIME type of the uploaded file",
+        },
+        chunks: {
+          type: "CompleteUploadChunkRequest[]",
+          schema:
+            'z.array(chunkSchema).min(1, "At least one chunk is required")',
+          description: "Array of uploaded chunks with their ETags",
+        },
+        disableThumbnail: {
+          type: "boolean | null | undefined",
+          optional: true,
+          schema: "z.boolean().optional().nullable()",
+          description: "Whether to skip thumbnail generation",
+        },
+      },
+    },
+    CompleteUploadResponseDto: {
+      description: ["Response for completing an upload"],
+      response: true,
+      schema: "completeUploadResponseSchema",
+      fields: {},
+    },
+
+    Metadata_AttributeDto: {
+      section: "Minting API",
+      description: ["NFT metadata attribute"],
+      schema: "metadataAttributeDtoSchema",
+      fields: {
+        key: {
+          type: "string",
+          schema: "z.string()",
+          description: "Attribute key/name",
+        },
+        value: {
+          type: "string",
+          schema: "z.string()",
+          description: "Attribute value (stringified for all types)",
+        },
+        type: {
+          type: "Metadata_AttributeType",
+          schema: "z.enum(Metadata_AttributeType)",
+          description: "Data type of the attribute",
+        },
+      },
+    },
+    MetadataDto: {
+      description: ["NFT metadata structure"],
+      schema: "metadataDtoSchema",
+      fields: {
+        attributes: {
+          type: "Metadata_AttributeDto[]",
+          schema: "z.array(metadataAttributeDtoSchema)",
+          description: "Array of custom attributes",
+        },
+      },
+    },
+    StartMintingRequestDto: {
+      description: ["Request to start minting an NFT"],
+      request: true,
+      schema: "startMintingSchema",
+      fields: {
+        fileId: {
+          type: "string",
+          schema: "fileIdSchema",
+          description: "File ID from upload process",
+        },
+        editions: {
+          type: "number | undefined | null",
+          optional: true,
+          schema: "editionsSchema.optional().nullable()",
+          description: "Number of editions to mint (for ERC1155)",
+        },
+        batchOrder: {
+          type: "number | undefined | null",
+          optional: true,
+          schema: "z.number().int().optional().nullable()",
+          description: "Order in batch minting",
+        },
+        contractId: {
+          type: "string | undefined | null",
+          optional: true,
+          schema: "contractIdSchema",
+          description: "Collection/contract ID to mint into",
+        },
+        batchId: {
+          type: "string | undefined | null",
+          optional: true,
+          schema: "z.string().optional().nullable()",
+          description: "Batch upload ID if part of bulk mint",
+        },
+        shareWithCommunity: {
+          type: "boolean | undefined | null",
+          optional: true,
+          schema: "z.boolean().optional().nullable()",
+          description: "Whether to make the asset discoverable by community",
+        },
+        isEncrypted: {
+          type: "boolean | undefined | null",
+          optional: true,
+          schema: "z.boolean().optional().nullable()",
+          description: "Whether to encrypt the content",
+        },
+        encryptMimeType: {
+          type: "string | undefined | null",
+          optional: true,
+          schema: "z.string().optional().nullable()",
+          description: "MIME type for encrypted content",
+        },
+        metadata: {
+          type: "MetadataDto",
+          schema: "metadataSchema",
+          description: "NFT metadata with custom attributes",
+        },
+      },
+    },
+    StartMintingResponseDataDto: {
+      description: ["Minting response data"],
+      schema: "startMintingResponseDataSchema",
+      fields: {
+        status: {
+          type: "UploadStatus",
+          schema: "z.enum(UploadStatus)",
+          description: "Current status of the minting process",
+        },
+        mintProgressInfo: {
+          type: "MintProgressInfoEntity",
+          schema: "mintProgressInfoSchema",
+          description: "Progress information for chunked uploads",
+        },
+        contractAddress: {
+          type: "string | null",
+          optional: true,
+          schema: "z.string().nullish()",
+          description: "Contract address (available after minting)",
+        },
+        tokenId: {
+          type: "string | null",
+          optional: true,
+          schema: "z.string().nullish()",
+          description: "Token ID (available after minting)",
+        },
+      },
+    },
+    StartMintingResponseDto: {
+      description: ["Response for starting the minting process"],
+      response: true,
+      schema: "startMintingResponseSchema",
+      fields: {
+        data: {
+          type: "StartMintingResponseDataDto | null",
+          optional: true,
+          schema: "startMintingResponseDataSchema.nullish()",
+          description: "Minting data if successful",
+        },
+      },
+    },
+
+    ExtractFrameSyncRequestDto: {
+      section: "Frame Extraction API",
+      description: [
+        "Request to extract a frame from a video at a specific time",
+      ],
+      request: true,
+      schema: "extractFrameSyncSchema",
+      fields: {
+        fileId: {
+          type: "string",
+          schema: "fileIdSchema",
+          description: "File ID of the video to extract frame from",
+        },
+        timeInSeconds: {
+          type: "number",
+          schema: "timeInSecondsSchema",
+          description: "Time position in seconds to extract the frame at",
+        },
+      },
+    },
+    ExtractFrameSyncResponseDto: {
+      description: ["Response for synchronous frame extraction"],
+      response: true,
+      schema: "extractFrameSyncResponseSchema",
+      fields: {
+        base64Data: {
+          type: "string | null",
+          optional: true,
+          schema: "z.string().nullish()",
+          description: "Base64-encoded frame data (only present on success)",
+        },
+        mimeType: {
+          type: "string | null",
+          optional: true,
+          schema: "z.string().nullish()",
+          description:
+            'MIME type of the extracted frame (typically "image/webp")',
+        },
+        width: {
+          type: "number | null",
+          optional: true,
+          schema: "z.number().nullish()",
+          description: "Width of the extracted frame in pixels",
+        },
+        height: {
+          type: "number | null",
+          optional: true,
+          schema: "z.number().nullish()",
+          description: "Height of the extracted frame in pixels",
+        },
+      },
+    },
+  },
+}
@@ -1,10 +1,18 @@
-import { describe, expect, test } from "bun:test"
+import { describe, expect, mock, test } from "bun:test"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "./client/transport"
 import {
   createApiClient,
   createApiRouters,
+  MetricsCollector,
+  ResponseCache,
   SDK_VERSION,
   UraniumSDK,
 } from "./index"
+import { FakeUraniumApi } from "./test-utils/fake-api"
 import { UploadManager } from "./upload/upload-manager"
 
 describe("SDK Exports", () => {
@@ -63,6 +71,26 @@ describe("UraniumSDK Class", () => {
     expect(typeof sdk.upload.upload).toBe("function")
   })
 
+  test("should retry chunk uploads when API retries are disabled", async () => {
+    const api = new FakeUraniumApi()
+    api.injectFault({ route: "upload-part", status: 503, times: 1 })
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      transport: api.transport,
+      retry: { enabled: false, retryDelay: 1 },
+    })
+
+    const result = await sdk.upload.upload(
+      new File([new ArrayBuffer(1024)], "a.png", { type: "image/png" }),
+      { contractId: "contract-sandbox", metadata: { title: "a.png" } },
+    )
+
+    expect(result.id).toBeDefined()
+    expect(
+      api.requests.filter((request) => request.route === "upload-part"),
+    ).toHaveLength(2)
+  })
+
   test("should accept optional configuration", () => {
     const sdk = new UraniumSDK({
       apiKey: "test-key",
@@ -79,3 +107,171 @@ describe("UraniumSDK Class", () => {
     expect(sdk instanceof UraniumSDK).toBe(true)
   })
 })
+
+describe("UraniumSDK.forTenant", () => {
+  /**
+   * Creates a transport answering every request with an empty contract list
+   */
+  const createStubTransport = () => {
+    const request = mock(
+      async (_config: HttpRequestConfig): Promise<HttpResponse> => ({
+        data: { status: "ok", data: [] },
+        status: 200,
+        headers: {},
+      }),
+    )
+    const transport: HttpTransport = {
+      request: request as HttpTransport["request"],
+      get: (url, config) =>
+        transport.request({ ...config, url, method: "GET" }),
+      post: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "POST" }),
+      put: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "PUT" }),
+    }
+    const sentKeys = () =>
+      request.mock.calls.map(([config]) => config.headers?.["x-auth-token"])
+    return { transport, request, sentKeys }
+  }
+
+  test("should send tenant requests through the parent transport", async () => {
+    const { transport, sentKeys } = createStubTransport()
+    const sdk = new UraniumSDK({ apiKey: "platform-key", transport })
+    const tenant = sdk.forTenant({ apiKey: "tenant-key" })
+
+    await tenant.contracts.list()
+    await sdk.contracts.list()
+
+    expect(sentKeys()).toEqual(["tenant-key", "platform-key"])
+  })
+
+  test("should keep device identity per tenant", () => {
+    const sdk = new UraniumSDK({ apiKey: "platform-key", deviceId: "device-0" })
+    const tenant = sdk.forTenant({ apiKey: "tenant-key", deviceId: "device-1" })
+    const other = sdk.forTenant({ apiKey: "other-key" })
+
+    expect(sdk.deviceId).toBe("device-0")
+    expect(tenant.deviceId).toBe("device-1")
+    expect(other.deviceId).not.toBe("device-0")
+    expect(tenant.upload).not.toBe(sdk.upload)
+  })
+
+  test("should not coalesce requests of different tenants", async () => {
+    const { transport, sentKeys } = createStubTransport()
+    const sdk = new UraniumSDK({
+      apiKey: "platform-key",
+      transport,
+      coalesceRequests: true,
+    })
+    const tenant = sdk.forTenant({ apiKey: "tenant-key" })
+
+    await Promise.all([sdk.contracts.list(), tenant.contracts.list()])
+
+    expect(sentKeys().sort()).toEqual(["platform-key", "tenant-key"])
+  })
+
+  test("should share the response cache without sharing entries", async () => {
+    const { transport, sentKeys } = createStubTransport()
+    const sdk = new UraniumSDK({
+      apiKey: "platform-key",
+      transport,
+      cache: new ResponseCache(),
+    })
+    const first = sdk.forTenant({ apiKey: "key-1" })
+    const second = sdk.forTenant({ apiKey: "key-2" })
+
+    await first.contracts.list()
+    await second.contracts.list()
+    await first.contracts.list()
+    await second.contracts.list()
+
+    expect(sentKeys()).toEqual(["key-1", "key-2"])
+  })
+
+  test("should record tenant calls in the parent metrics", async () => {
+    const { transport } = createStubTransport()
+    const metrics = new MetricsCollector()
+    const sdk = new UraniumSDK({ apiKey: "platform-key", transport, metrics })
+
+    await sdk.forTenant({ apiKey: "tenant-key" }).contracts.list()
+
+    expect(metrics.snapshot().endpoints["contracts.list"]?.requests).toBe(1)
+  })
+
+  test("should run tenant plugins for tenant requests only", async () => {
+    const { transport } = createStubTransport()
+    const parentPlugin = { name: "parent", onRequest: mock(() => {}) }
+    const tenantPlugin = { name: "tenant", onRequest: mock(() => {}) }
+    const sdk = new UraniumSDK({
+      apiKey: "platform-key",
+      transport,
+      plugins: [parentPlugin],
+    })
+    const tenant = sdk.forTenant({ apiKey: "tenant-key" }).use(tenantPlugin)
+
+    await tenant.contracts.list()
+    await sdk.contracts.list()
+
+    expect(parentPlugin.onRequest).toHaveBeenCalledTimes(2)
+    expect(tenantPlugin.onRequest).toHaveBeenCalledTimes(1)
+  })
+
+  test("should swap tenant credentials without affecting the parent", async () => {
+    const { transport, sentKeys } = createStubTransport()
+    const sdk = new UraniumSDK({ apiKey: "platform-key", transport })
+    const tenant = sdk.forTenant({ credentials: async () => "tenant-key" })
+
+    tenant.setCredentials("rotated-key")
+    await tenant.contracts.list()
+    await sdk.contracts.list()
+
+    expect(sentKeys()).toEqual(["rotated-key", "platform-key"])
+  })
+
+  test("should require tenant credentials", () => {
+    const sdk = new UraniumSDK({ apiKey: "platform-key" })
+    expect(() => sdk.forTenant({})).toThrow("API key is required")
+  })
+})
+
+describe("UraniumSDK environments", () => {
+  test("should default to production", () => {
+    const sdk = new UraniumSDK({ apiKey: "test-key" })
+    expect(sdk.environment).toBe("production")
+  })
+
+  test("should refuse to mint into non-SANDBOX collections in sandbox", async () => {
+    const request = mock(
+      async (_config: HttpRequestConfig): Promise<HttpResponse> => ({
+        data: { status: "ok", data: [] },
+        status: 200,
+        headers: {},
+      }),
+    )
+    const transport: HttpTransport = {
+      request: request as HttpTransport["request"],
+      get: (url, config) =>
+        transport.request({ ...config, url, method: "GET" }),
+      post: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "POST" }),
+      put: (url, data, config) =>
+        transport.request({ ...config, url, data, method: "PUT" }),
+    }
+    const sdk = new UraniumSDK({
+      apiKey: "test-key",
+      environment: "sandbox",
+      transport,
+    })
+
+    await expect(
+      sdk.assets.startMinting({
+        fileId: "file1",
+        contractId: "contract1",
+        metadata: { attributes: [] },
+      }),
+    ).rejects.toThrow("sandbox environment")
+    expect(request.mock.calls.map(([config]) => config.url)).toEqual([
+      "/contracts/list",
+    ])
+  })
+})
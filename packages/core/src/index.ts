@@ -5,12 +5,40 @@
  * It provides core functionality for interacting with the Uranium platform.
  */
 
+import { createRouterTransport } from "./client"
 import { type AccountRouter, accountRouter } from "./client/account"
-import { type AssetsRouter, assetsRouter } from "./client/assets"
-import { createApiClient } from "./client/base"
+import {
+  type AssetsRouterWithHandles,
+  withAssetHandles,
+} from "./client/asset-handle"
+import { withAssetLookup } from "./client/asset-lookup"
+import {
+  type AssetsRouterWithPagination,
+  withAssetPagination,
+} from "./client/asset-pagination"
+import { assetsRouter } from "./client/assets"
+import { createUploadTransport } from "./client/base"
+import type { TenantConfig, UraniumConfig } from "./client/config"
 import { type ContractsRouter, contractsRouter } from "./client/contracts"
+import {
+  type CredentialsManager,
+  type CredentialsProvider,
+  createScopedTransport,
+  resolveCredentials,
+} from "./client/credentials"
+import {
+  assertSandboxCollection,
+  DEFAULT_ENVIRONMENT,
+  resolveEnvironment,
+  type UraniumEnvironment,
+} from "./client/environment"
+import { IdempotencyStore } from "./client/idempotency"
+import { resolveLogger } from "./client/logger"
+import { createMetricsPlugin } from "./client/metrics"
+import { createPluginTransport, type UraniumPlugin } from "./client/plugins"
+import type { HttpTransport } from "./client/transport"
 import { generateDeviceId } from "./client/utils"
-import type { UraniumConfig } from "./types/config"
+import { toChunkRetryConfig } from "./upload/chunk-uploader"
 import { UploadManager } from "./upload/upload-manager"
 
 export const SDK_VERSION = "0.1.0"
@@ -19,51 +47,215 @@ export const SDK_VERSION = "0.1.0"
 export type {
   AccountRouter,
   ApiRouters,
+  AssetIterationOptions,
+  AssetLookupOptions,
   AssetsRouter,
+  AssetsRouterWithHandles,
+  AssetsRouterWithLookup,
+  AssetsRouterWithPagination,
+  CacheableOperation,
+  CacheEntry,
+  CacheStore,
+  CassetteFileSystem,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteResponse,
+  CassetteStorage,
+  CircuitBreakerOptions,
+  CircuitState,
   ContractsRouter,
+  CredentialsManagerOptions,
+  CredentialsProvider,
+  EndpointMetrics,
+  EnvironmentPreset,
+  FetchTransportOptions,
+  FinishedSpan,
+  HistogramSnapshot,
+  HttpError,
+  HttpProgressEvent,
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+  IdempotencyStoreOptions,
+  KeyValueStorage,
+  ListAllAssetsOptions,
+  Logger,
+  LogLevel,
+  LogRecord,
+  LruCacheStoreOptions,
+  MetricsCollectorOptions,
+  MetricsSnapshot,
+  OfflineQueueEvent,
+  OfflineQueueOptions,
+  OfflineQueueStorage,
+  OperationInfo,
+  PluginContext,
+  PluginHookResult,
+  PluginRetryInfo,
+  QueuedOperation,
+  QueueFileSystem,
+  RateLimitConfig,
+  RateLimitInfo,
   RequestOptions,
+  ResolvedUraniumConfig,
+  ResponseCacheOptions,
+  ResponseValidationMode,
+  RetryBudgetOptions,
+  RetryConfig,
+  RetryStrategy,
+  Span,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanContext,
+  SpanExporter,
+  SpanOptions,
+  SpanStatus,
+  TenantConfig,
+  ThrottleConfig,
+  Tracer,
+  TransportOption,
+  UraniumConfig,
+  UraniumEnvironment,
+  UraniumPlugin,
+  WaitUntilOptions,
 } from "./client"
 // Export individual routers and utilities for advanced usage
 export {
+  AssetHandle,
   accountRouter,
+  assertSandboxCollection,
   assetsRouter,
+  CACHE_INVALIDATIONS,
+  Cassette,
+  CircuitBreaker,
+  CredentialsManager,
+  coalescingKey,
+  computeRetryDelay,
   contractsRouter,
   createApiClient,
   createApiRouters,
   createApiRoutersFromClient,
+  createApiTransport,
+  createCachingTransport,
+  createCoalescingTransport,
+  createConsoleLogger,
+  createCredentialsTransport,
+  createFetchTransport,
+  createFileCassetteStorage,
+  createFileQueueStorage,
+  createHttpClient,
+  createKeyValueQueueStorage,
+  createLogger,
+  createMetricsPlugin,
+  createOfflineQueueTransport,
+  createPluginTransport,
   createRequest,
+  createResponseValidationTransport,
+  createRouterTransport,
+  createSandboxTransport,
+  createScopedTransport,
+  createTracer,
+  createTracingTransport,
+  createUploadTransport,
+  DEFAULT_ASSET_LOOKUP_MAX_PAGES,
+  DEFAULT_CACHE_TTL_MS,
+  DEFAULT_ENVIRONMENT,
+  DEFAULT_LATENCY_BUCKETS,
+  DEFAULT_OFFLINE_QUEUE_KEY,
+  DEFAULT_RESPONSE_VALIDATION_MODE,
+  DEFAULT_WAIT_INTERVAL_MS,
+  DEFAULT_WAIT_TIMEOUT_MS,
   DeviceManager,
+  ENVIRONMENTS,
   extractSignal,
+  formatPrometheusMetrics,
+  formatTraceparent,
   generateDeviceId,
+  generateIdempotencyKey,
   getErrorMessage,
+  HttpTransportError,
+  IDEMPOTENCY_KEY_HEADER,
+  IdempotencyStore,
+  InMemorySpanExporter,
   isAxiosError,
+  isCancelError,
+  isHttpError,
+  isOfflineError,
+  isRateLimitError,
+  LruCacheStore,
+  MemoryCassetteStorage,
+  MemoryQueueStorage,
+  MetricsCollector,
+  OfflineQueue,
+  parseRateLimitHeaders,
+  QUEUEABLE_OPERATIONS,
+  REDACTED,
+  ResponseCache,
+  RetryBudget,
+  redact,
+  resolveCredentials,
+  resolveEnvironment,
+  SpanStatusCode,
   shouldRetry,
+  TokenBucket,
+  toRequestConfig,
+  withAssetHandles,
+  withAssetLookup,
+  withAssetPagination,
   withRetry,
 } from "./client"
+// Export OpenAPI document generation
+export * from "./openapi"
 // Export all types
 export type * from "./types"
 // Export enums and constants as values (not just types)
 export {
   ASSET_STATUS_TEXT,
   AssetSVCStatus,
+  AuthenticationError,
+  CassetteMismatchError,
+  CircuitOpenError,
   CLIENT_UPLOAD_STAGE_TEXT,
   ClientUploadStage,
   CollectionStatus,
   CollectionType,
+  dateToTimestamp,
   ERCType,
   FileSource,
   FileType,
+  formatLocationCoords,
+  fromAsset,
+  fromContract,
   getAssetStatusText,
   getClientUploadStageText,
   isAssetMinted,
+  isRetryableError,
+  isUraniumError,
+  LimitExceededError,
   Metadata_AttributeType,
+  NetworkError,
+  NotFoundError,
+  OperationQueuedError,
+  parseLocationCoords,
+  ResponseValidationError,
+  timestampToDate,
+  toAsset,
+  toContract,
   transformSvcStatusToDbStatus,
+  UploadError,
   UploadStatus,
+  UraniumError,
   UserRole,
+  ValidationError,
 } from "./types"
 // Export upload module
 export * from "./upload"
 // Export validation schemas
+export * from "./validation/entity-schemas"
+export * from "./validation/request-schemas"
+export * from "./validation/response-schemas"
 export * from "./validation/schemas"
 
 /**
@@ -97,28 +289,164 @@ export class UraniumSDK {
   /** Contracts API router */
   public readonly contracts: ContractsRouter
 
-  /** Assets API router */
-  public readonly assets: AssetsRouter
+  /**
+   * Assets API router, with `get()`/`getByFileId()` lookups, `handle()` and
+   * `iterate()`/`iteratePages()`/`listAll()`
+   */
+  public readonly assets: AssetsRouterWithPagination<AssetsRouterWithHandles>
 
   /** Upload manager for file uploads and NFT minting */
   public readonly upload: UploadManager
 
-  constructor(config: UraniumConfig) {
-    if (!config.apiKey) {
-      throw new Error(
-        "API key is required. Get your API key from: https://portal.uranium.pro/dashboard/profile/api-keys",
+  /** Device identifier sent with uploads */
+  public readonly deviceId: string
+
+  /** Environment the SDK runs against */
+  public readonly environment: UraniumEnvironment
+
+  /** Registered plugins, read on every request */
+  private readonly plugins: UraniumPlugin[]
+
+  /** API key source, shared by every request of this instance */
+  private readonly credentials: CredentialsManager
+
+  /** Configuration tenant clients are derived from */
+  private readonly config: UraniumConfig
+
+  /** Router transport shared with tenant clients */
+  private readonly sharedTransport: HttpTransport
+
+  /** Chunk upload transport shared with tenant clients */
+  private readonly uploadTransport: HttpTransport
+
+  /**
+   * @param config - SDK configuration
+   * @param parent - Client whose transports are shared (see `forTenant()`)
+   */
+  constructor(config: UraniumConfig, parent?: UraniumSDK) {
+    this.config = config
+    this.credentials = resolveCredentials(config)
+    this.deviceId = config.deviceId ?? generateDeviceId()
+    this.environment = config.environment ?? DEFAULT_ENVIRONMENT
+    const { sandboxOnly } = resolveEnvironment(config)
+
+    let client: HttpTransport
+    if (parent) {
+      // Tenant client: the parent's stack, with this tenant's credentials
+      this.plugins = []
+      this.sharedTransport = parent.sharedTransport
+      this.uploadTransport = parent.uploadTransport
+      client = createPluginTransport(
+        createScopedTransport(this.sharedTransport, this.credentials),
+        this.plugins,
       )
+    } else {
+      // The metrics plugin runs first so it sees every call's outcome
+      this.plugins = [
+        ...(config.metrics ? [createMetricsPlugin(config.metrics)] : []),
+        ...(config.plugins ?? []),
+      ]
+      this.sharedTransport = createRouterTransport(
+        { ...config, credentials: this.credentials },
+        this.plugins,
+      )
+      this.uploadTransport = createUploadTransport(config)
+      client = this.sharedTransport
     }
 
-    const client = createApiClient(config)
-
     // Initialize routers
+    const idempotencyStore = new IdempotencyStore()
     this.account = accountRouter(client)
-    this.contracts = contractsRouter(client)
-    this.assets = assetsRouter(client)
+    this.contracts = contractsRouter(client, idempotencyStore)
+    this.assets = withAssetPagination(
+      withAssetHandles(withAssetLookup(assetsRouter(client, idempotencyStore))),
+    )
 
     // Initialize upload manager
-    this.upload = new UploadManager(this.assets, generateDeviceId())
+    this.upload = new UploadManager(this.assets, this.deviceId, {
+      transport: this.uploadTransport,
+      retry: toChunkRetryConfig(config.retry),
+      logger: resolveLogger(config),
+      tracer: config.tracer,
+      metrics: config.metrics,
+      environment: this.environment,
+      // Fails sandbox uploads before any file data is sent
+      checkCollection: sandboxOnly
+        ? async (contractId, signal) =>
+            assertSandboxCollection(
+              await this.contracts.list({ signal }),
+              contractId,
+            )
+        : undefined,
+    })
+  }
+
+  /**
+   * Creates a client acting on behalf of another Uranium account
+   *
+   * The tenant client shares the HTTP transport (and its connection pool),
+   * plugins, metrics, tracer and response cache with this client. Its
+   * credentials, device identity, idempotency keys and cache entries are its
+   * own. Plugins registered on the tenant client run for its requests only.
+   *
+   * @param tenant - API key or credentials provider, and device identifier
+   * @returns Client scoped to the tenant
+   *
+   * @example
+   * ```typescript
+   * const sdk = new UraniumSDK({ apiKey: platformApiKey, metrics, cache })
+   *
+   * app.post("/mint", async (req) => {
+   *   const tenant = sdk.forTenant({ apiKey: req.user.uraniumApiKey })
+   *   return tenant.upload.upload(req.file, { contractId: req.body.contractId })
+   * })
+   * ```
+   */
+  forTenant(tenant: TenantConfig): UraniumSDK {
+    return new UraniumSDK(
+      {
+        ...this.config,
+        apiKey: tenant.apiKey,
+        credentials: tenant.credentials,
+        deviceId: tenant.deviceId,
+      },
+      this,
+    )
+  }
+
+  /**
+   * Registers a plugin for all subsequent router calls
+   * @param plugin - Plugin with onRequest/onResponse/onError/onRetry hooks
+   * @returns The SDK instance, for chaining
+   *
+   * @example
+   * ```typescript
+   * sdk.use({
+   *   name: "audit",
+   *   onResponse: (ctx) => console.log(`${ctx.router}.${ctx.operation}`, ctx.params),
+   * })
+   * ```
+   */
+  use(plugin: UraniumPlugin): this {
+    this.plugins.push(plugin)
+    return this
+  }
+
+  /**
+   * Replaces the API key or credentials provider for all subsequent requests,
+   * including those of uploads in progress
+   * @param credentials - API key or provider
+   * @returns The SDK instance, for chaining
+   *
+   * @example
+   * ```typescript
+   * sdk.setCredentials(rotatedApiKey)
+   * sdk.setCredentials(() => secrets.getSecretValue("uranium-api-key"))
+   * ```
+   */
+  setCredentials(credentials: string | CredentialsProvider): this {
+    this.credentials.set(credentials)
+    return this
   }
 }
 
@@ -0,0 +1,257 @@
+import { describe, expect, test } from "bun:test"
+import type {
+  HttpRequestConfig,
+  HttpResponse,
+  HttpTransport,
+} from "../client/transport"
+import { UraniumSDK } from "../index"
+import { FakeUraniumApi } from "../test-utils/fake-api"
+import { FileType } from "../types/enums"
+import { RESPONSE_SCHEMAS } from "../validation/response-schemas"
+import {
+  createOpenApiDocument,
+  type JsonSchema,
+  type OpenApiDocument,
+} from "./document"
+import { API_ROUTES } from "./routes"
+
+const document = createOpenApiDocument()
+
+/**
+ * Resolves `$ref`s to component schemas
+ */
+const resolve = (schema: JsonSchema): JsonSchema => {
+  const ref = schema.$ref as string | undefined
+  return ref
+    ? (document.components.schemas[ref.split("/").pop() ?? ""] ?? {})
+    : schema
+}
+
+/**
+ * Lists the fields of a value the schema does not describe
+ */
+const findUndescribedFields = (
+  schema: JsonSchema,
+  value: unknown,
+  path = "",
+): string[] => {
+  const resolved = resolve(schema)
+  const variants = [
+    resolved,
+    ...(((resolved.anyOf ?? resolved.oneOf) as JsonSchema[] | undefined) ?? []),
+  ].map(resolve)
+
+  if (Array.isArray(value)) {
+    const items = variants.find((variant) => variant.items)?.items
+    return items
+      ? value.flatMap((item, index) =>
+          findUndescribedFields(items as JsonSchema, item, `${path}[${index}]`),
+        )
+      : []
+  }
+  if (value === null || typeof value !== "object") return []
+
+  const properties = Object.assign(
+    {},
+    ...variants.map((variant) => variant.properties ?? {}),
+  ) as Record<string, JsonSchema>
+  return Object.entries(value).flatMap(([key, item]) => {
+    const field = path ? `${path}.${key}` : key
+    const property = properties[key]
+    return property ? findUndescribedFields(property, item, field) : [field]
+  })
+}
+
+/**
+ * Lists the routes, query parameters and body fields of a request
+ * the document does not describe
+ */
+const findUndescribed = (
+  spec: OpenApiDocument,
+  config: HttpRequestConfig,
+): string[] => {
+  const method = (config.method ?? "GET").toLowerCase()
+  const [path = "", query] = (config.url ?? "").split("?", 2)
+  const operation = spec.paths[path]?.[method]
+  if (!operation) return [`${method.toUpperCase()} ${path}`]
+
+  const parameters = new Set(
+    (operation.parameters ?? []).map((parameter) => parameter.name),
+  )
+  const undescribed = [
+    ...new URLSearchParams(query).keys(),
+    ...Object.keys(config.params ?? {}),
+  ]
+    .filter((name) => !parameters.has(name))
+    .map((name) => `query ${name}`)
+
+  if (config.data !== undefined) {
+    const schema = operation.requestBody?.content["application/json"].schema
+    if (!schema) return [...undescribed, "request body"]
+    undescribed.push(...findUndescribedFields(schema, config.data))
+  }
+  return undescribed
+}
+
+/**
+ * Wraps a transport and records the requests sent to the gateway
+ */
+const createCapturingTransport = (inner: HttpTransport) => {
+  const requests: HttpRequestConfig[] = []
+  const request = <T>(config: HttpRequestConfig): Promise<HttpResponse<T>> => {
+    // Chunk uploads go to presigned storage URLs, not to the gateway
+    if (!/^https?:\/\//.test(config.url ?? "")) requests.push(config)
+    return inner.request<T>(config)
+  }
+  const transport: HttpTransport = {
+    request,
+    get: (url, config) => request({ ...config, url, method: "GET" }),
+    post: (url, data, config) =>
+      request({ ...config, url, data, method: "POST" }),
+    put: (url, data, config) =>
+      request({ ...config, url, data, method: "PUT" }),
+  }
+  return { transport, requests }
+}
+
+/**
+ * Calls every router operation against the fake API
+ */
+const callEveryOperation = async () => {
+  const api = new FakeUraniumApi({ chunkSize: 256 * 1024 })
+  const { transport, requests } = createCapturingTransport(api.transport)
+  const sdk = new UraniumSDK({ apiKey: "test-key", transport })
+
+  await sdk.account.getMe("device-1")
+  await sdk.contracts.list()
+  await sdk.contracts.create({
+    name: "Field_Photos",
+    symbol: "FLD",
+    type: "ERC721",
+  })
+  await sdk.assets.list({
+    contractId: "contract-default",
+    quickFilter: "sun",
+    sortBy: "title",
+    order: "desc",
+    page: 1,
+    pageSize: 20,
+  })
+  await sdk.upload.upload(
+    new File([new ArrayBuffer(1024)], "sunset.png", { type: "image/png" }),
+    {
+      contractId: "contract-default",
+      editions: 2,
+      shareWithCommunity: true,
+      metadata: { title: "Sunset", description: "Harbor", location: "Lisbon" },
+    },
+  )
+  const video = await sdk.assets.prepareNewFile({
+    deviceId: "device-1",
+    metadata: "{}",
+    type: FileType.Video,
+    source: "upload" as never,
+    fileSize: 1024,
+    isPrivate: false,
+  })
+  await sdk.assets.extractFrameSync({ fileId: video.fileId, timeInSeconds: 1 })
+
+  return requests
+}
+
+describe("createOpenApiDocument", () => {
+  test("should describe every route as OpenAPI 3.1", () => {
+    expect(document.openapi).toBe("3.1.0")
+    expect(document.components.securitySchemes.apiKey).toMatchObject({
+      in: "header",
+      name: "x-auth-token",
+    })
+    for (const route of API_ROUTES) {
+      expect(
+        document.paths[route.path]?.[route.method.toLowerCase()]?.operationId,
+      ).toBeString()
+    }
+  })
+
+  test("should use the validated response schema of each operation", () => {
+    expect(API_ROUTES.map((route) => route.operation).sort()).toEqual(
+      Object.keys(RESPONSE_SCHEMAS).sort(),
+    )
+    for (const route of API_ROUTES) {
+      expect(route.response).toBe(RESPONSE_SCHEMAS[route.operation])
+    }
+  })
+
+  test("should convert schemas to JSON Schema", () => {
+    const startMinting = document.paths["/assets/start-minting"]?.post
+    const request = resolve(
+      startMinting?.requestBody?.content["application/json"].schema ?? {},
+    )
+
+    expect(request).toMatchObject({
+      type: "object",
+      required: ["fileId", "metadata"],
+      additionalProperties: false,
+    })
+    expect(request.$schema).toBeUndefined()
+    expect(
+      startMinting?.parameters?.map((parameter) => parameter.name),
+    ).toEqual(["Idempotency-Key"])
+    expect(
+      document.components.schemas.AssetsStartMintingResponse,
+    ).not.toHaveProperty("additionalProperties")
+  })
+
+  test("should list the base URLs of the environments", () => {
+    expect(document.servers).toContainEqual({
+      url: "http://localhost:3000",
+      description: "local",
+    })
+    expect(
+      document.servers.some((server) => server.description.includes("staging")),
+    ).toBe(false)
+  })
+})
+
+describe("OpenAPI document coverage", () => {
+  test("should describe every route and field the routers send", async () => {
+    const requests = await callEveryOperation()
+
+    const operations = new Set(
+      requests.map(
+        ({ operation }) => `${operation?.router}.${operation?.operation}`,
+      ),
+    )
+    expect([...operations].sort()).toEqual(
+      API_ROUTES.map((route) => route.operation).sort(),
+    )
+    for (const request of requests) {
+      expect({
+        url: request.url,
+        undescribed: findUndescribed(document, request),
+      }).toEqual({ url: request.url, undescribed: [] })
+    }
+  })
+
+  test("should report routes and fields missing from the document", () => {
+    expect(
+      findUndescribed(document, { method: "GET", url: "/assets/42" }),
+    ).toEqual(["GET /assets/42"])
+    expect(
+      findUndescribed(document, {
+        method: "POST",
+        url: "/assets/start-minting",
+        data: {
+          fileId: "file-1",
+          metadata: {
+            attributes: [{ key: "title", value: "", type: 0, x: 1 }],
+          },
+          royalty: 5,
+        },
+      }),
+    ).toEqual(["metadata.attributes[0].x", "royalty"])
+    expect(
+      findUndescribed(document, { method: "GET", url: "/assets/?cursor=abc" }),
+    ).toEqual(["query cursor"])
+  })
+})
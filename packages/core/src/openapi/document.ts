@@ -0,0 +1,246 @@
+/**
+ * OpenAPI Document
+ *
+ * Generates an OpenAPI 3.1 description of the gateway routes called by the
+ * SDK, for clients written in other languages. Request bodies and query
+ * parameters come from the zod schemas the routers validate input with,
+ * responses from the zod schemas of the DTO types.
+ *
+ * @module @uranium/sdk/openapi/document
+ */
+
+import { z } from "zod"
+import { ENVIRONMENTS } from "../client/environment"
+import { IDEMPOTENCY_KEY_HEADER } from "../client/idempotency"
+import { API_ROUTES, type ApiRoute } from "./routes"
+
+/**
+ * JSON Schema (draft 2020-12, the dialect of OpenAPI 3.1)
+ */
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * OpenAPI operation object (subset used by the generator)
+ */
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  tags: string[]
+  parameters?: Array<{
+    name: string
+    in: "query" | "header"
+    required: boolean
+    description?: string
+    schema: JsonSchema
+  }>
+  requestBody?: {
+    required: boolean
+    content: { "application/json": { schema: JsonSchema } }
+  }
+  /** Backend error codes reported with `status: error` */
+  "x-error-codes"?: string[]
+  responses: Record<
+    string,
+    {
+      description: string
+      content?: { "application/json": { schema: JsonSchema } }
+    }
+  >
+}
+
+/**
+ * OpenAPI 3.1 document (subset used by the generator)
+ */
+export interface OpenApiDocument {
+  openapi: "3.1.0"
+  info: { title: string; version: string; description: string }
+  servers: Array<{ url: string; description: string }>
+  security: Record<string, string[]>[]
+  tags: Array<{ name: string }>
+  paths: Record<string, Record<string, OpenApiOperation>>
+  components: {
+    securitySchemes: Record<string, JsonSchema>
+    schemas: Record<string, JsonSchema>
+  }
+}
+
+/**
+ * Options for createOpenApiDocument
+ */
+export interface OpenApiDocumentOptions {
+  /**
+   * Version of the document (`info.version`)
+   * @default "0.0.0"
+   */
+  version?: string
+
+  /**
+   * Routes to describe
+   * @default API_ROUTES
+   */
+  routes?: readonly ApiRoute[]
+}
+
+const ERROR_RESPONSE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    status: { type: "string", const: "error" },
+    errorCode: { type: "string" },
+  },
+  required: ["status"],
+}
+
+/**
+ * Converts a zod schema to JSON Schema
+ *
+ * Request schemas are converted as parsed ("output"): the routers strip
+ * unknown fields, so request bodies do not allow additional properties.
+ * Response schemas are converted as accepted ("input"), allowing fields
+ * added by the API.
+ */
+const toJsonSchema = (
+  schema: z.ZodType,
+  io: "input" | "output",
+): JsonSchema => {
+  const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  }) as JsonSchema
+  return jsonSchema
+}
+
+/**
+ * Component name of an operation: "assets.startMinting" -> "AssetsStartMinting"
+ */
+const toComponentName = (operation: string) =>
+  operation
+    .split(".")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")
+
+const ref = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+})
+
+/**
+ * Creates the OpenAPI 3.1 document of the gateway routes called by the SDK
+ * @param options - Document options
+ * @returns OpenAPI document, serializable with JSON.stringify
+ *
+ * @example
+ * ```typescript
+ * const document = createOpenApiDocument({ version: "1.2.0" })
+ * await Bun.write("openapi.json", JSON.stringify(document, null, 2))
+ * ```
+ */
+export const createOpenApiDocument = (
+  options: OpenApiDocumentOptions = {},
+): OpenApiDocument => {
+  const routes = options.routes ?? API_ROUTES
+  const document: OpenApiDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: "Uranium API",
+      version: options.version ?? "0.0.0",
+      description:
+        'Gateway routes called by the Uranium SDK. Business errors are reported with HTTP 200 and a body of `{ "status": "error", "errorCode": "..." }`.',
+    },
+    servers: [],
+    security: [{ apiKey: [] }],
+    tags: [],
+    paths: {},
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "x-auth-token" },
+      },
+      schemas: { ErrorResponse: ERROR_RESPONSE_SCHEMA },
+    },
+  }
+
+  // Environments sharing a base URL are listed once
+  for (const [name, preset] of Object.entries(ENVIRONMENTS)) {
+    if (preset.baseUrl === undefined) continue
+    const server = document.servers.find((item) => item.url === preset.baseUrl)
+    if (server) {
+      server.description += `, ${name}`
+    } else {
+      document.servers.push({ url: preset.baseUrl, description: name })
+    }
+  }
+
+  for (const route of routes) {
+    const [tag = route.operation] = route.operation.split(".")
+    if (!document.tags.some((item) => item.name === tag)) {
+      document.tags.push({ name: tag })
+    }
+
+    const name = toComponentName(route.operation)
+    const parameters: NonNullable<OpenApiOperation["parameters"]> = []
+    if (route.query) {
+      const query = toJsonSchema(route.query, "output")
+      const properties = (query.properties ?? {}) as Record<string, JsonSchema>
+      const required = (query.required ?? []) as string[]
+      for (const [parameter, schema] of Object.entries(properties)) {
+        parameters.push({
+          name: parameter,
+          in: "query",
+          required: required.includes(parameter),
+          schema,
+        })
+      }
+    }
+    if (route.idempotent) {
+      parameters.push({
+        name: IDEMPOTENCY_KEY_HEADER,
+        in: "header",
+        required: false,
+        description:
+          "Key identifying the request; retries with the same key return the first result",
+        schema: { type: "string" },
+      })
+    }
+
+    const operation: OpenApiOperation = {
+      operationId: name.charAt(0).toLowerCase() + name.slice(1),
+      summary: route.summary,
+      tags: [tag],
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(route.errorCodes?.length
+        ? { "x-error-codes": route.errorCodes }
+        : {}),
+      responses: {
+        "200": {
+          description: "Result, or a business error with `status: error`",
+          content: {
+            "application/json": { schema: ref(`${name}Response`) },
+          },
+        },
+        default: {
+          description: "Error",
+          content: { "application/json": { schema: ref("ErrorResponse") } },
+        },
+      },
+    }
+    if (route.body) {
+      document.components.schemas[`${name}Request`] = toJsonSchema(
+        route.body,
+        "output",
+      )
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: ref(`${name}Request`) } },
+      }
+    }
+    document.components.schemas[`${name}Response`] = toJsonSchema(
+      route.response,
+      "input",
+    )
+
+    document.paths[route.path] = {
+      ...document.paths[route.path],
+      [route.method.toLowerCase()]: operation,
+    }
+  }
+
+  return document
+}
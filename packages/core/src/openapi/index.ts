@@ -0,0 +1,10 @@
+/**
+ * OpenAPI Module
+ *
+ * OpenAPI 3.1 description of the gateway routes called by the SDK.
+ *
+ * @module @uranium/sdk/openapi
+ */
+
+export * from "./document"
+export * from "./routes"
@@ -0,0 +1,82 @@
+/**
+ * API Routes
+ *
+ * Gateway routes called by the routers, with the zod schemas describing
+ * their requests and responses. The table is derived from the API
+ * description the routers are generated from, so the OpenAPI document
+ * describes every route a router calls.
+ *
+ * @module @uranium/sdk/openapi/routes
+ */
+
+import type { z } from "zod"
+import type { ApiDescription } from "../codegen/description"
+import { URANIUM_API } from "../codegen/uranium-api"
+import * as requestSchemas from "../validation/request-schemas"
+import * as responseSchemas from "../validation/response-schemas"
+
+/**
+ * Gateway route called by a router operation
+ */
+export interface ApiRoute {
+  /** Router operation, "{router}.{operation}" (e.g. "assets.startMinting") */
+  operation: string
+  /** HTTP method */
+  method: "GET" | "POST" | "PUT"
+  /** Path relative to the API base URL */
+  path: string
+  /** One-line description */
+  summary: string
+  /** Schema of the JSON request body */
+  body?: z.ZodType
+  /** Schema of the query parameters */
+  query?: z.ZodObject
+  /** Schema of the JSON response body (DTO) */
+  response: z.ZodType
+  /** Accepts an `Idempotency-Key` header */
+  idempotent?: boolean
+  /** Backend error codes the route is known to return */
+  errorCodes?: string[]
+}
+
+/**
+ * Looks up a zod schema exported by a schemas module
+ */
+const findSchema = <T extends z.ZodType>(
+  schemas: Record<string, unknown>,
+  name: string,
+): T => {
+  const schema = schemas[name]
+  if (!schema) throw new Error(`Unknown schema: ${name}`)
+  return schema as T
+}
+
+/**
+ * Lists the gateway routes of an API description
+ * @param description - API description
+ * @returns Routes, in the order of the routers and their operations
+ */
+export const toApiRoutes = (description: ApiDescription): ApiRoute[] =>
+  Object.entries(description.routers).flatMap(([router, { operations }]) =>
+    Object.entries(operations).map(([name, operation]) => {
+      const { request } = operation
+      const schema = request
+        ? findSchema<z.ZodObject>(requestSchemas, request.schema)
+        : undefined
+      return {
+        operation: `${router}.${name}`,
+        method: operation.method,
+        path: operation.path,
+        summary: operation.summary,
+        ...(request?.kind === "query" ? { query: schema } : { body: schema }),
+        response: findSchema(responseSchemas, operation.response.schema),
+        idempotent: operation.idempotent,
+        errorCodes: operation.errorCodes,
+      }
+    }),
+  )
+
+/**
+ * Every gateway route called by the routers
+ */
+export const API_ROUTES: readonly ApiRoute[] = toApiRoutes(URANIUM_API)
@@ -0,0 +1,236 @@
+import { describe, expect, test } from "bun:test"
+import { UraniumSDK } from "../index"
+import { AssetSVCStatus, CollectionStatus, FileType } from "../types/enums"
+import { AuthenticationError, LimitExceededError } from "../types/errors"
+import { FakeUraniumApi, serveFakeApi } from "./fake-api"
+
+const CHUNK_SIZE = 256 * 1024
+
+const createFile = (size = 600 * 1024) =>
+  new File([new ArrayBuffer(size)], "sunset.png", { type: "image/png" })
+
+const createSdk = (api: FakeUraniumApi, config = {}) =>
+  new UraniumSDK({
+    apiKey: "test-key",
+    transport: api.transport,
+    responseValidation: "strict",
+    ...config,
+  })
+
+describe("FakeUraniumApi", () => {
+  test("should serve the account and seed collections", async () => {
+    const sdk = createSdk(new FakeUraniumApi())
+
+    const user = await sdk.account.getMe("device-1")
+    const contracts = await sdk.contracts.list()
+
+    expect(user.userId).toBe("user-1")
+    expect(contracts.map((contract) => contract.type)).toEqual([
+      "DEFAULT",
+      "SANDBOX",
+    ])
+  })
+
+  test("should deploy created collections after an interval", async () => {
+    const api = new FakeUraniumApi({ statusIntervalMs: 1000 })
+    const sdk = createSdk(api, { coalesceRequests: false })
+
+    const created = await sdk.contracts.create({
+      name: "Field_Photos",
+      symbol: "FLD",
+      type: "ERC721",
+    })
+    expect(created.status).toBe(CollectionStatus.PENDING)
+
+    api.advanceTime(1000)
+    const deployed = (await sdk.contracts.list()).find(
+      (contract) => contract.id === created.id,
+    )
+    expect(deployed?.status).toBe(CollectionStatus.COMPLETE)
+    expect(deployed?.address).toMatch(/^0x/)
+  })
+
+  test("should run an upload end-to-end and advance the asset status", async () => {
+    const api = new FakeUraniumApi({
+      chunkSize: CHUNK_SIZE,
+      statusIntervalMs: 100,
+    })
+    const sdk = createSdk(api)
+
+    const result = await sdk.upload.upload(createFile(), {
+      contractId: "contract-sandbox",
+      metadata: { title: "Sunset" },
+    })
+
+    expect(result.status).toBe(AssetSVCStatus.MEDIA_UPLOAD_INITIALIZING)
+    expect(
+      api.requests.filter((request) => request.route === "upload-part"),
+    ).toHaveLength(3)
+
+    api.advanceTime(100 * AssetSVCStatus.NFT_ALL_BLOCK_CONFIRMED)
+    const { data } = await sdk.assets.list({ contractId: "contract-sandbox" })
+    expect(data).toHaveLength(1)
+    expect(data[0]).toMatchObject({
+      title: "Sunset",
+      status: AssetSVCStatus.NFT_ALL_BLOCK_CONFIRMED,
+      tokenId: "1",
+      isFinal: true,
+      mediaType: FileType.Image,
+    })
+  })
+
+  test("should filter and paginate assets", async () => {
+    const api = new FakeUraniumApi({ chunkSize: CHUNK_SIZE })
+    const sdk = createSdk(api, { coalesceRequests: false })
+    for (const title of ["Sunset", "Sunrise", "Harbor"]) {
+      await sdk.upload.upload(createFile(1024), {
+        contractId: "contract-default",
+        metadata: { title },
+      })
+    }
+
+    const filtered = await sdk.assets.list({ quickFilter: "sun" })
+    const page = await sdk.assets.list({
+      sortBy: "title",
+      page: 2,
+      pageSize: 2,
+    })
+
+    expect(filtered.data.map((asset) => asset.title)).toEqual([
+      "Sunset",
+      "Sunrise",
+    ])
+    expect(page.data.map((asset) => asset.title)).toEqual(["Sunset"])
+    expect(page.meta).toEqual({ total: 3, page: 2, pageSize: 2, countPages: 2 })
+  })
+
+  test("should extract frames of videos only", async () => {
+    const api = new FakeUraniumApi()
+    const sdk = createSdk(api)
+    const video = await sdk.assets.prepareNewFile({
+      deviceId: "device-1",
+      metadata: "{}",
+      type: FileType.Video,
+      source: "upload" as never,
+      fileSize: 1024,
+    })
+
+    const frame = await sdk.assets.extractFrameSync({
+      fileId: video.fileId,
+      timeInSeconds: 1,
+    })
+
+    expect(frame.mimeType).toBe("image/webp")
+    expect(frame.base64Data).toBeTruthy()
+  })
+
+  test("should reject unknown API keys", async () => {
+    const sdk = createSdk(new FakeUraniumApi({ apiKeys: ["valid-key"] }))
+    await expect(sdk.contracts.list()).rejects.toThrow(AuthenticationError)
+  })
+
+  test("should answer repeated idempotency keys with the first result", async () => {
+    const api = new FakeUraniumApi()
+    const sdk = createSdk(api)
+    const params = {
+      name: "Field_Photos",
+      symbol: "FLD",
+      type: "ERC721" as const,
+    }
+
+    const first = await sdk.contracts.create(params, { idempotencyKey: "k1" })
+    const second = await createSdk(api).contracts.create(params, {
+      idempotencyKey: "k1",
+    })
+
+    expect(second.id).toBe(first.id)
+    expect(api.contracts).toHaveLength(3)
+  })
+
+  test("should reset to the seed state", async () => {
+    const api = new FakeUraniumApi()
+    await createSdk(api).contracts.list()
+    api.addContract({ name: "Extra" })
+
+    api.reset()
+
+    expect(api.contracts).toHaveLength(2)
+    expect(api.requests).toHaveLength(0)
+  })
+})
+
+describe("FakeUraniumApi faults", () => {
+  test("should fail matching requests with 5xx", async () => {
+    const api = new FakeUraniumApi()
+    api.injectFault({ route: "/contracts/list", status: 503, times: 1 })
+    const sdk = createSdk(api, {
+      retry: { enabled: true, maxRetries: 1, retryDelay: 1 },
+    })
+
+    await sdk.contracts.list()
+
+    expect(
+      api.requests.filter((request) => request.route === "/contracts/list"),
+    ).toHaveLength(2)
+  })
+
+  test("should rate limit with Retry-After", async () => {
+    const api = new FakeUraniumApi()
+    api.injectFault({ status: 429, retryAfterSeconds: 30 })
+
+    const error = await createSdk(api)
+      .contracts.list()
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(LimitExceededError)
+    expect(error.resetAt.getTime()).toBeGreaterThan(Date.now() + 20000)
+  })
+
+  test("should omit ETags of part uploads", async () => {
+    const api = new FakeUraniumApi({ chunkSize: CHUNK_SIZE })
+    api.injectFault({ route: "upload-part", missingEtag: true, times: 1 })
+    const sdk = createSdk(api, { retry: { retryDelay: 1 } })
+
+    await sdk.upload.upload(createFile(), {
+      contractId: "contract-default",
+      metadata: { title: "Sunset" },
+    })
+
+    // The first part is uploaded again after the missing ETag
+    expect(
+      api.requests.filter((request) => request.route === "upload-part"),
+    ).toHaveLength(4)
+  })
+
+  test("should add latency", async () => {
+    const api = new FakeUraniumApi({ latencyMs: 20 })
+    const startedAt = Date.now()
+
+    await createSdk(api).contracts.list()
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(15)
+  })
+})
+
+describe("serveFakeApi", () => {
+  test("should serve the fake over HTTP", async () => {
+    const api = new FakeUraniumApi({ chunkSize: CHUNK_SIZE })
+    const server = serveFakeApi(api)
+    try {
+      const sdk = new UraniumSDK({
+        apiKey: "test-key",
+        baseUrl: server.url,
+        transport: "fetch",
+      })
+
+      await sdk.upload.upload(createFile(), {
+        contractId: "contract-default",
+        metadata: { title: "Sunset" },
+      })
+
+      expect(api.assets).toHaveLength(1)
+    } finally {
+      server.stop()
+    }
+  })
+})
@@ -0,0 +1,849 @@
+/**
+ * Fake Uranium API
+ *
+ * Stateful in-memory fake of the Uranium gateway and of the presigned S3
+ * part URLs it hands out. Collections, uploads and assets live in memory;
+ * minted assets move through the AssetSVCStatus stages as time passes.
+ * Faults (latency, 5xx, 429, missing ETag) can be injected per route.
+ *
+ * The fake is a fetch handler: pass `api.transport` to the SDK to run it
+ * in-process, or serve it over HTTP with `serveFakeApi()` (or
+ * `bun run fake-api` from the package directory).
+ *
+ * @example
+ * ```typescript
+ * const api = new FakeUraniumApi()
+ * const sdk = new UraniumSDK({ apiKey: "test-key", transport: api.transport })
+ *
+ * const [collection] = await sdk.contracts.list()
+ * await sdk.upload.upload(file, { contractId: collection.id, metadata: { title: "Sunset" } })
+ *
+ * api.advanceTime(60_000)
+ * const { data } = await sdk.assets.list()
+ * console.log(data[0].status) // AssetSVCStatus.NFT_ALL_BLOCK_CONFIRMED
+ * ```
+ */
+
+import { createFetchTransport } from "../client/fetch-transport"
+import type { HttpTransport } from "../client/transport"
+import type {
+  AssetEntity,
+  ContractEntity,
+  Timestamp,
+  UserEntity,
+} from "../types/entities"
+import {
+  AssetSVCStatus,
+  CollectionStatus,
+  CollectionType,
+  ERCType,
+  FileType,
+  UploadStatus,
+} from "../types/enums"
+
+/**
+ * Route of presigned part uploads in faults and request records
+ */
+export const FAKE_UPLOAD_PART_ROUTE = "upload-part"
+
+/**
+ * Options for FakeUraniumApi
+ */
+export interface FakeUraniumApiOptions {
+  /**
+   * API keys accepted in `x-auth-token`
+   * @default undefined (any non-empty key)
+   */
+  apiKeys?: string[]
+
+  /** Overrides of the authenticated user */
+  user?: Partial<UserEntity>
+
+  /**
+   * Collections the account starts with
+   * @default a DEFAULT and a SANDBOX collection
+   */
+  contracts?: Partial<ContractEntity>[]
+
+  /**
+   * Part size of multipart uploads in bytes
+   * @default 5242880 (5 MiB)
+   */
+  chunkSize?: number
+
+  /**
+   * Time a minted asset spends in each AssetSVCStatus stage, and a new
+   * collection spends deploying, in milliseconds
+   * @default 1000
+   */
+  statusIntervalMs?: number
+
+  /**
+   * Base URL of presigned part URLs
+   * @default "https://s3.fake.urnm.test"
+   */
+  partBaseUrl?: string
+
+  /**
+   * Latency added to every response in milliseconds
+   * @default 0
+   */
+  latencyMs?: number
+
+  /** Clock in epoch milliseconds */
+  now?: () => number
+}
+
+/**
+ * Fault injected into matching requests
+ */
+export interface FakeFault {
+  /**
+   * API path (e.g. "/assets/start-minting") or "upload-part" for presigned
+   * part uploads
+   * @default undefined (every route)
+   */
+  route?: string
+
+  /** Latency added before responding, in milliseconds */
+  latencyMs?: number
+
+  /** HTTP status answered instead of handling the request (e.g. 503 or 429) */
+  status?: number
+
+  /**
+   * `Retry-After` of 429 responses, in seconds
+   * @default 1
+   */
+  retryAfterSeconds?: number
+
+  /** Answer part uploads without an ETag header */
+  missingEtag?: boolean
+
+  /**
+   * Number of matching requests the fault applies to
+   * @default undefined (until cleared)
+   */
+  times?: number
+}
+
+/**
+ * Request received by the fake
+ */
+export interface FakeRequestRecord {
+  /** HTTP method */
+  method: string
+  /** API path without query, or "upload-part" */
+  route: string
+  /** Full request URL */
+  url: string
+  /** Request headers (lower-cased names) */
+  headers: Record<string, string>
+  /** Parsed JSON body, or the size in bytes of binary bodies */
+  body?: unknown
+}
+
+/**
+ * File prepared for a multipart upload
+ */
+interface FakeFile {
+  fileId: string
+  fileUploadId: string
+  type: FileType
+  fileSize: number
+  metadata: Record<string, unknown>
+  chunkCount: number
+  /** ETag of each uploaded part */
+  parts: Map<number, string>
+  mimeType?: string
+  completed: boolean
+  assetId?: string
+}
+
+/**
+ * Asset and the time its minting started
+ */
+interface FakeAsset {
+  asset: AssetEntity
+  mintStartedAt: number
+  tokenId: number
+}
+
+/**
+ * Tiny WebP image answered by frame extraction
+ */
+const FRAME_WEBP_BASE64 = "UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA=="
+
+/**
+ * Contract address derived from a collection id
+ */
+const fakeAddress = (id: string): string =>
+  `0x${id
+    .replace(/[^a-f0-9]/gi, "")
+    .padStart(40, "0")
+    .slice(-40)}`
+
+const toTimestamp = (ms: number): Timestamp => ({
+  seconds: Math.floor(ms / 1000),
+  nanos: (ms % 1000) * 1e6,
+})
+
+const json = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  })
+
+/**
+ * Error answered with HTTP 200, as the gateway does for business errors
+ */
+const apiError = (errorCode: string, status = 200): Response =>
+  json({ status: "error", errorCode }, status)
+
+/**
+ * Resolves after `ms`, or rejects when the request is aborted
+ */
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer)
+      reject(new DOMException("The operation was aborted", "AbortError"))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort)
+      resolve()
+    }, ms)
+    if (signal?.aborted) abort()
+    signal?.addEventListener("abort", abort, { once: true })
+  })
+
+/**
+ * In-memory fake of the Uranium API
+ */
+export class FakeUraniumApi {
+  /** Base URL of presigned part URLs (set by `serveFakeApi` to the server URL) */
+  partBaseUrl: string
+  /** Requests received, oldest first */
+  readonly requests: FakeRequestRecord[] = []
+  /** Transport sending SDK requests to this fake in-process */
+  readonly transport: HttpTransport
+
+  private readonly options: FakeUraniumApiOptions
+  private readonly chunkSize: number
+  private readonly statusIntervalMs: number
+  private readonly clock: () => number
+  private timeOffset = 0
+  private faults: FakeFault[] = []
+  private user!: UserEntity
+  private contractsById = new Map<string, ContractEntity>()
+  private files = new Map<string, FakeFile>()
+  private assetsById = new Map<string, FakeAsset>()
+  private idempotentResponses = new Map<string, unknown>()
+  private nextId = 1
+
+  constructor(options: FakeUraniumApiOptions = {}) {
+    this.options = options
+    this.chunkSize = options.chunkSize ?? 5 * 1024 * 1024
+    this.statusIntervalMs = options.statusIntervalMs ?? 1000
+    this.clock = options.now ?? Date.now
+    this.partBaseUrl = options.partBaseUrl ?? "https://s3.fake.urnm.test"
+    this.transport = createFetchTransport({
+      fetch: this.fetch as typeof fetch,
+    })
+    this.reset()
+  }
+
+  /**
+   * Current time of the fake in epoch milliseconds
+   */
+  now(): number {
+    return this.clock() + this.timeOffset
+  }
+
+  /**
+   * Moves the clock of the fake forward, advancing asset statuses
+   * @param ms - Milliseconds to advance
+   */
+  advanceTime(ms: number): void {
+    this.timeOffset += ms
+  }
+
+  /**
+   * Injects a fault into matching requests
+   * @param fault - Fault and the route it applies to
+   */
+  injectFault(fault: FakeFault): void {
+    this.faults.push({ ...fault })
+  }
+
+  /**
+   * Removes every injected fault
+   */
+  clearFaults(): void {
+    this.faults = []
+  }
+
+  /**
+   * Restores the initial state: seed collections, no uploads, assets,
+   * faults or recorded requests
+   */
+  reset(): void {
+    const now = this.now()
+    this.faults = []
+    this.requests.length = 0
+    this.files.clear()
+    this.assetsById.clear()
+    this.idempotentResponses.clear()
+    this.contractsById.clear()
+    this.nextId = 1
+    this.user = {
+      userId: "user-1",
+      enablePushNotifications: false,
+      role: "USER",
+      nickname: "Fake User",
+      phoneNumber: "+10000000000",
+      publicKey: "0x0000000000000000000000000000000000000001",
+      verificationId: "verification-1",
+      ...this.options.user,
+    }
+
+    const seed = this.options.contracts ?? [
+      { id: "contract-default", name: "Default", type: CollectionType.DEFAULT },
+      { id: "contract-sandbox", name: "Sandbox", type: CollectionType.SANDBOX },
+    ]
+    for (const contract of seed) {
+      this.addContract({ createdAt: toTimestamp(now), ...contract })
+    }
+  }
+
+  /**
+   * Adds a deployed collection to the account
+   * @param contract - Overrides of the collection fields
+   * @returns Added collection
+   */
+  addContract(contract: Partial<ContractEntity> = {}): ContractEntity {
+    const id = contract.id ?? this.generateId("contract")
+    const entity: ContractEntity = {
+      id,
+      userId: this.user.userId,
+      address: fakeAddress(id),
+      name: "Collection",
+      symbol: "COL",
+      type: CollectionType.CREATED,
+      status: CollectionStatus.COMPLETE,
+      ercType: ERCType.ERC721,
+      createdAt: toTimestamp(this.now()),
+      lastTokenId: 0,
+      count: 0,
+      ...contract,
+    }
+    this.contractsById.set(id, entity)
+    return structuredClone(entity)
+  }
+
+  /**
+   * Collections of the account
+   */
+  get contracts(): ContractEntity[] {
+    return [...this.contractsById.values()].map((contract) =>
+      structuredClone(this.contractAt(contract)),
+    )
+  }
+
+  /**
+   * Assets of the account, with their status at the current time
+   */
+  get assets(): AssetEntity[] {
+    return [...this.assetsById.values()].map((record) => this.assetAt(record))
+  }
+
+  /**
+   * Handles a request like `fetch`, routing by path regardless of the host
+   */
+  readonly fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const request = new Request(input, init)
+    const url = new URL(request.url)
+    const method = request.method.toUpperCase()
+    const partMatch = /\/uploads\/([^/]+)\/(\d+)$/.exec(url.pathname)
+    const route = partMatch
+      ? FAKE_UPLOAD_PART_ROUTE
+      : url.pathname.replace(/(.)\/+$/, "$1")
+
+    const headers: Record<string, string> = {}
+    request.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value
+    })
+    let body: unknown
+    let bytes: ArrayBuffer | undefined
+    if (method !== "GET" && method !== "HEAD") {
+      bytes = await request.arrayBuffer()
+      body = partMatch ? bytes.byteLength : this.parseJson(bytes)
+    }
+    this.requests.push({ method, route, url: request.url, headers, body })
+
+    // Faults apply in order; each matching fault uses up one of its `times`
+    let latencyMs = this.options.latencyMs ?? 0
+    let missingEtag = false
+    let failure: FakeFault | undefined
+    for (const fault of this.faults) {
+      if (fault.route !== undefined && fault.route !== route) continue
+      if (fault.times !== undefined && fault.times <= 0) continue
+      if (fault.times !== undefined) fault.times--
+      latencyMs += fault.latencyMs ?? 0
+      missingEtag ||= fault.missingEtag ?? false
+      failure ??= fault.status === undefined ? undefined : fault
+    }
+    if (latencyMs > 0) {
+      await delay(latencyMs, request.signal)
+    }
+    if (failure?.status === 429) {
+      return json({ status: "error", errorCode: "RATE_LIMIT_EXCEEDED" }, 429, {
+        "retry-after": String(failure.retryAfterSeconds ?? 1),
+      })
+    }
+    if (failure?.status !== undefined) {
+      return apiError(
+        failure.status >= 500 ? "INTERNAL_ERROR" : "INVALID_INPUT",
+        failure.status,
+      )
+    }
+
+    if (partMatch) {
+      return this.uploadPart(
+        method,
+        partMatch[1] ?? "",
+        Number(partMatch[2]),
+        bytes,
+        missingEtag,
+      )
+    }
+
+    const apiKey = headers["x-auth-token"]
+    if (!apiKey) {
+      return apiError("AUTH_REQUIRED", 401)
+    }
+    if (this.options.apiKeys && !this.options.apiKeys.includes(apiKey)) {
+      return apiError("AUTH_INVALID", 401)
+    }
+
+    const params = (body ?? {}) as Record<string, unknown>
+    const idempotencyKey = headers["idempotency-key"]
+    const endpoint = `${method} ${route}`
+    switch (endpoint) {
+      case "POST /clients-account/me":
+        return json({ status: "ok", ok: structuredClone(this.user) })
+      case "GET /contracts/list":
+        return json({ status: "ok", data: this.contracts })
+      case "POST /contracts/create":
+        return this.idempotent(endpoint, idempotencyKey, () =>
+          this.createContract(params),
+        )
+      case "GET /assets":
+        return this.listAssets(url.searchParams)
+      case "POST /assets/prepare-new-file":
+        return this.prepareNewFile(params)
+      case "POST /assets/complete-upload":
+        return this.completeUpload(params)
+      case "POST /assets/start-minting":
+        return this.idempotent(endpoint, idempotencyKey, () =>
+          this.startMinting(params),
+        )
+      case "POST /assets/extract-frame-sync":
+        return this.extractFrame(params)
+      default:
+        return apiError("NOT_FOUND", 404)
+    }
+  }
+
+  private createContract(params: Record<string, unknown>): Response {
+    const contract = this.addContract({
+      name: String(params.name ?? ""),
+      symbol: String(params.symbol ?? ""),
+      ercType: String(params.type ?? ERCType.ERC721),
+      status: CollectionStatus.PENDING,
+      address: null,
+    })
+    return json({ status: "ok", data: this.contractAt(contract) })
+  }
+
+  private listAssets(query: URLSearchParams): Response {
+    const contractId = query.get("contractId")
+    const quickFilter = query.get("quickFilter")?.toLowerCase()
+    const sortBy = (query.get("sortBy") ?? "createdAt") as keyof AssetEntity
+    const order = query.get("order") === "desc" ? -1 : 1
+    const page = Math.max(1, Number(query.get("page") ?? 1))
+    const pageSize = Math.max(1, Number(query.get("pageSize") ?? 10))
+
+    const sortValue = (asset: AssetEntity) => {
+      const value = asset[sortBy]
+      return value && typeof value === "object" && "seconds" in value
+        ? value.seconds * 1000 + value.nanos / 1e6
+        : (value as string | number | undefined)
+    }
+    const assets = this.assets
+      .filter((asset) => !contractId || asset.contractId === contractId)
+      .filter(
+        (asset) =>
+          !quickFilter || asset.title.toLowerCase().includes(quickFilter),
+      )
+      .sort((a, b) => {
+        const left = sortValue(a) ?? ""
+        const right = sortValue(b) ?? ""
+        return left < right ? -order : left > right ? order : 0
+      })
+
+    return json({
+      status: "ok",
+      ok: {
+        data: assets.slice((page - 1) * pageSize, page * pageSize),
+        meta: {
+          total: assets.length,
+          page,
+          pageSize,
+          countPages: Math.ceil(assets.length / pageSize),
+        },
+      },
+    })
+  }
+
+  private prepareNewFile(params: Record<string, unknown>): Response {
+    const fileSize = Number(params.fileSize ?? 0)
+    if (!(fileSize > 0)) {
+      return apiError("INVALID_INPUT")
+    }
+
+    const fileId = this.generateId("file")
+    const fileUploadId = this.generateId("upload")
+    const chunkCount = Math.max(1, Math.ceil(fileSize / this.chunkSize))
+    this.files.set(fileUploadId, {
+      fileId,
+      fileUploadId,
+      type: params.type as FileType,
+      fileSize,
+      metadata: this.parseJson(String(params.metadata ?? "{}")) ?? {},
+      chunkCount,
+      parts: new Map(),
+      completed: false,
+    })
+
+    return json({
+      status: "ok",
+      fileId,
+      fileUploadId,
+      chunkCount,
+      chunkSize: this.chunkSize,
+      uploadPartUrls: Array.from({ length: chunkCount }, (_, index) => ({
+        partNumber: index + 1,
+        url: `${this.partBaseUrl.replace(/\/+$/, "")}/uploads/${fileUploadId}/${index + 1}?X-Amz-Signature=fake`,
+      })),
+    })
+  }
+
+  private async uploadPart(
+    method: string,
+    fileUploadId: string,
+    partNumber: number,
+    bytes: ArrayBuffer | undefined,
+    missingEtag: boolean,
+  ): Promise<Response> {
+    const file = this.files.get(fileUploadId)
+    if (method !== "PUT" || !file || partNumber > file.chunkCount) {
+      return new Response("NoSuchUpload", { status: 404 })
+    }
+
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      bytes ?? new ArrayBuffer(0),
+    )
+    const eTag = Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("")
+    file.parts.set(partNumber, eTag)
+
+    return new Response(null, {
+      status: 200,
+      headers: missingEtag ? {} : { etag: `"${eTag}"` },
+    })
+  }
+
+  private completeUpload(params: Record<string, unknown>): Response {
+    const file = this.findFile(String(params.fileId ?? ""))
+    if (!file) {
+      return apiError("FILE_NOT_FOUND")
+    }
+
+    const chunks = (params.chunks ?? []) as {
+      partNumber: number
+      eTag: string
+    }[]
+    const complete =
+      chunks.length === file.chunkCount &&
+      chunks.every((chunk) => file.parts.get(chunk.partNumber) === chunk.eTag)
+    if (!complete) {
+      return apiError("UPLOAD_INCOMPLETE")
+    }
+
+    file.completed = true
+    file.mimeType = String(params.mimeType ?? "application/octet-stream")
+    return json({ status: "ok" })
+  }
+
+  private startMinting(params: Record<string, unknown>): Response {
+    const file = this.findFile(String(params.fileId ?? ""))
+    if (!file) {
+      return apiError("FILE_NOT_FOUND")
+    }
+    if (!file.completed) {
+      return apiError("UPLOAD_INCOMPLETE")
+    }
+    if (file.assetId) {
+      return apiError("ALREADY_EXISTS")
+    }
+
+    const contract = params.contractId
+      ? this.contractsById.get(String(params.contractId))
+      : [...this.contractsById.values()].find(
+          (candidate) => candidate.type === CollectionType.DEFAULT,
+        )
+    if (!contract) {
+      return apiError("CONTRACT_NOT_FOUND")
+    }
+
+    const attributes = (
+      (params.metadata as { attributes?: { key: string; value: string }[] })
+        ?.attributes ?? []
+    ).reduce<Record<string, string>>(
+      (values, attribute) => ({ ...values, [attribute.key]: attribute.value }),
+      {},
+    )
+    const now = this.now()
+    const id = this.generateId("asset")
+    const editions = Number(params.editions ?? 1)
+    contract.lastTokenId++
+    contract.count = (contract.count ?? 0) + 1
+    file.assetId = id
+
+    const record: FakeAsset = {
+      mintStartedAt: now,
+      tokenId: contract.lastTokenId,
+      asset: {
+        id,
+        createdAt: toTimestamp(now),
+        updatedAt: toTimestamp(now),
+        mintedAt: null,
+        currentEditions: editions,
+        lockedEditions: 0,
+        isFinal: false,
+        isUranium: true,
+        inTransfer: false,
+        isEncrypted: Boolean(params.isEncrypted),
+        encryptMimeType: (params.encryptMimeType as string | undefined) ?? null,
+        sourceMimeType: file.mimeType ?? "application/octet-stream",
+        collectionName: contract.name,
+        status: AssetSVCStatus.MEDIA_UPLOAD_INITIALIZING,
+        statusIndex: AssetSVCStatus.MEDIA_UPLOAD_INITIALIZING,
+        editions,
+        ercContractType: contract.ercType,
+        title: attributes.title ?? String(file.metadata.title ?? "Untitled"),
+        slug: id,
+        appName: attributes.appName ?? "",
+        appVersion: attributes.appVersion ?? "",
+        authorName: this.user.nickname,
+        description: attributes.description ?? null,
+        source: "upload",
+        sourceUrl: `${this.partBaseUrl}/files/${file.fileId}`,
+        mediaType: file.type ?? FileType.Image,
+        location: attributes.location ?? null,
+        mediaSize: file.fileSize,
+        contractAddress: null,
+        tokenId: null,
+        creatorAddress: this.user.publicKey,
+        creatorName: this.user.nickname,
+        currentOwnerAddress: this.user.publicKey,
+        currentOwnerName: this.user.nickname,
+        isHasSecret: false,
+        contractId: contract.id,
+        fileId: file.fileId,
+        userId: this.user.userId,
+        ownerId: this.user.userId,
+        batchUploadId: (params.batchId as string | undefined) ?? null,
+        slugHash: id,
+        isListed: false,
+      },
+    }
+    this.assetsById.set(id, record)
+
+    const asset = this.assetAt(record)
+    return json({
+      status: "ok",
+      data: {
+        status:
+          UploadStatus[
+            AssetSVCStatus[asset.status] as keyof typeof UploadStatus
+          ],
+        mintProgressInfo: {
+          totalChunks: file.chunkCount,
+          completedChunks: file.parts.size,
+        },
+        contractAddress: asset.contractAddress,
+        tokenId: asset.tokenId,
+      },
+    })
+  }
+
+  private extractFrame(params: Record<string, unknown>): Response {
+    const file = this.findFile(String(params.fileId ?? ""))
+    if (!file) {
+      return apiError("FILE_NOT_FOUND")
+    }
+    if (file.type !== FileType.Video) {
+      return apiError("INVALID_FILE_TYPE")
+    }
+    return json({
+      status: "ok",
+      base64Data: FRAME_WEBP_BASE64,
+      mimeType: "image/webp",
+      width: 1,
+      height: 1,
+    })
+  }
+
+  /**
+   * Answers repeated requests with the same idempotency key with the first response
+   */
+  private async idempotent(
+    route: string,
+    idempotencyKey: string | undefined,
+    handle: () => Response,
+  ): Promise<Response> {
+    const key = idempotencyKey ? `${route}:${idempotencyKey}` : undefined
+    if (key && this.idempotentResponses.has(key)) {
+      return json(this.idempotentResponses.get(key))
+    }
+
+    const response = handle()
+    if (key && response.status === 200) {
+      const body = await response.clone().json()
+      if ((body as { status?: string }).status === "ok") {
+        this.idempotentResponses.set(key, body)
+      }
+    }
+    return response
+  }
+
+  /**
+   * Collection as it is at the current time: deployed one interval after creation
+   */
+  private contractAt(contract: ContractEntity): ContractEntity {
+    if (contract.status === CollectionStatus.PENDING && contract.createdAt) {
+      const createdAt = contract.createdAt.seconds * 1000
+      if (this.now() - createdAt >= this.statusIntervalMs) {
+        contract.status = CollectionStatus.COMPLETE
+        contract.address = fakeAddress(contract.id)
+      }
+    }
+    return contract
+  }
+
+  /**
+   * Asset as it is at the current time: one AssetSVCStatus stage per interval
+   */
+  private assetAt(record: FakeAsset): AssetEntity {
+    const elapsed = this.now() - record.mintStartedAt
+    const status = Math.min(
+      AssetSVCStatus.NFT_ALL_BLOCK_CONFIRMED,
+      Math.floor(elapsed / this.statusIntervalMs),
+    ) as AssetSVCStatus
+    const asset = structuredClone(record.asset)
+    asset.status = status
+    asset.statusIndex = status
+    asset.updatedAt = toTimestamp(
+      record.mintStartedAt + status * this.statusIntervalMs,
+    )
+
+    if (status >= AssetSVCStatus.NFT_CONFIRMED) {
+      const contract = this.contractsById.get(asset.contractId)
+      asset.mintedAt = toTimestamp(
+        record.mintStartedAt +
+          AssetSVCStatus.NFT_CONFIRMED * this.statusIntervalMs,
+      )
+      asset.contractAddress = contract
+        ? this.contractAt(contract).address
+        : null
+      asset.tokenId = String(record.tokenId)
+      asset.isFinal = status === AssetSVCStatus.NFT_ALL_BLOCK_CONFIRMED
+    }
+    return asset
+  }
+
+  private findFile(fileId: string): FakeFile | undefined {
+    for (const file of this.files.values()) {
+      if (file.fileId === fileId) return file
+    }
+    return undefined
+  }
+
+  private parseJson(
+    value: ArrayBuffer | string,
+  ): Record<string, unknown> | undefined {
+    const text =
+      typeof value === "string" ? value : new TextDecoder().decode(value)
+    try {
+      return text ? JSON.parse(text) : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}-${this.nextId++}`
+  }
+}
+
+/**
+ * Running fake API server
+ */
+export interface FakeApiServer {
+  /** Base URL of the server, to pass as `baseUrl` */
+  url: string
+  /** Stops the server */
+  stop(): void
+}
+
+/**
+ * Serves a fake API over HTTP (Bun)
+ *
+ * Presigned part URLs of the fake point to the server afterwards.
+ *
+ * @param api - Fake API to serve
+ * @param port - Port to listen on (0 picks a free port)
+ * @returns Running server
+ *
+ * @example
+ * ```typescript
+ * const server = serveFakeApi(new FakeUraniumApi(), 4010)
+ * const sdk = new UraniumSDK({ apiKey: "test-key", baseUrl: server.url })
+ * ```
+ */
+export const serveFakeApi = (api: FakeUraniumApi, port = 0): FakeApiServer => {
+  const server = Bun.serve({ port, fetch: (request) => api.fetch(request) })
+  const url = `http://${server.hostname}:${server.port}`
+  api.partBaseUrl = url
+  return { url, stop: () => server.stop(true) }
+}
+
+// `bun run fake-api` serves a fake API for local development
+if (import.meta.main) {
+  const server = serveFakeApi(
+    new FakeUraniumApi(),
+    Number(process.env.PORT ?? 4010),
+  )
+  console.log(`Fake Uranium API listening on ${server.url}`)
+}
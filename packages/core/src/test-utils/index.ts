@@ -5,6 +5,15 @@
  * code duplication in test files.
  */
 
+export {
+  FAKE_UPLOAD_PART_ROUTE,
+  type FakeApiServer,
+  type FakeFault,
+  type FakeRequestRecord,
+  FakeUraniumApi,
+  type FakeUraniumApiOptions,
+  serveFakeApi,
+} from "./fake-api"
 export type { MockAxiosClientConfig } from "./mocks"
 export {
   createMockAxiosClient,
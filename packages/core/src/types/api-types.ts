@@ -1,3 +1,5 @@
+// Generated by `bun run codegen` from src/codegen/uranium-api.ts. Do not edit.
+
 import type {
   AssetEntity,
   ContractEntity,
@@ -15,18 +17,18 @@ import type {
 
 // Re-export entities and enums for convenience
 export type {
-  ContractEntity,
   AssetEntity,
-  UserEntity,
-  Timestamp,
+  ContractEntity,
   MintProgressInfoEntity,
+  Timestamp,
+  UserEntity,
 }
 export type {
-  FileType,
+  ERCType,
   FileSource,
+  FileType,
   Metadata_AttributeType,
   UploadStatus,
-  ERCType,
 }
 
 /**
@@ -0,0 +1,24 @@
+/**
+ * Cassette Types
+ *
+ * Request shape shared by HTTP cassettes and CassetteMismatchError.
+ *
+ * @module @uranium/sdk/types/cassette
+ */
+
+/**
+ * Recorded request
+ */
+export interface CassetteRequest {
+  /** HTTP method */
+  method: string
+  /**
+   * Request route: the path relative to the API base URL with sorted query
+   * parameters, or the redacted absolute URL of chunk uploads
+   */
+  route: string
+  /** Normalized request body (binary bodies are recorded by size) */
+  body?: unknown
+  /** Redacted request headers */
+  headers?: Record<string, string>
+}
@@ -2,6 +2,9 @@ import { describe, expect, test } from "bun:test"
 import {
   AuthenticationError,
   BlockchainError,
+  CassetteMismatchError,
+  CircuitOpenError,
+  createErrorFromCode,
   createErrorFromResponse,
   ERROR_CODE_TO_STATUS,
   ErrorCode,
@@ -11,6 +14,8 @@ import {
   MintingError,
   NetworkError,
   NotFoundError,
+  OperationQueuedError,
+  ResponseValidationError,
   UploadError,
   UraniumError,
   ValidationError,
@@ -127,6 +132,17 @@ describe("Error Classes", () => {
       expect(error).toBeInstanceOf(UraniumError)
     })
   })
+
+  describe("SDK error classes", () => {
+    test("should default to their ErrorCode members", () => {
+      expect(new CircuitOpenError().code).toBe(ErrorCode.CIRCUIT_OPEN)
+      expect(new OperationQueuedError().code).toBe(ErrorCode.OPERATION_QUEUED)
+      expect(new CassetteMismatchError().code).toBe(ErrorCode.CASSETTE_MISMATCH)
+      expect(new ResponseValidationError().code).toBe(
+        ErrorCode.RESPONSE_VALIDATION_FAILED,
+      )
+    })
+  })
 })
 
 describe("ErrorCode enum", () => {
@@ -404,6 +420,39 @@ describe("createErrorFromResponse", () => {
     expect(error.code).toBe("CUSTOM_ERROR")
   })
 
+  test("should create NotFoundError for scoped NOT_FOUND codes", () => {
+    const error = createErrorFromResponse(
+      "error",
+      "CONTRACT_NOT_FOUND",
+      "Contract not found",
+    )
+
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error.code).toBe("CONTRACT_NOT_FOUND")
+  })
+
+  test("should create MintingError for INSUFFICIENT_BALANCE", () => {
+    const error = createErrorFromResponse(
+      "error",
+      "INSUFFICIENT_BALANCE",
+      "Insufficient balance",
+    )
+
+    expect(error).toBeInstanceOf(MintingError)
+  })
+
+  test("should pass the context to the created error", () => {
+    const context = { status: 200, requestId: "abc123" }
+    const error = createErrorFromResponse(
+      "error",
+      "MINTING_FAILED",
+      "Minting failed",
+      context,
+    )
+
+    expect(error.context).toEqual(context)
+  })
+
   test("should use default message when not provided", () => {
     const error = createErrorFromResponse("error")
 
@@ -429,6 +478,18 @@ describe("createErrorFromResponse", () => {
   })
 })
 
+describe("createErrorFromCode", () => {
+  test("should return undefined for codes without an error class", () => {
+    expect(createErrorFromCode("MAINTENANCE", "Down")).toBeUndefined()
+  })
+
+  test("should use 403 for PERMISSION_DENIED", () => {
+    expect(
+      createErrorFromCode("PERMISSION_DENIED", "Access denied")?.statusCode,
+    ).toBe(403)
+  })
+})
+
 describe("Error helper functions", () => {
   test("isUraniumError should identify Uranium errors", () => {
     const uraniumError = new UraniumError("test")
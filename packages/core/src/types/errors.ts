@@ -7,6 +7,7 @@ import {
   UraniumError,
   ValidationError,
 } from "@uranium/types"
+import type { CassetteRequest } from "./cassette"
 
 /**
  * Rate limit and quota exceeded errors
@@ -35,6 +36,69 @@ export class LimitExceededError extends UraniumError {
   }
 }
 
+/**
+ * Circuit breaker is open: requests fail fast without reaching the API
+ */
+export class CircuitOpenError extends NetworkError {
+  /** When the circuit breaker allows a trial request again */
+  public readonly retryAt?: Date
+
+  constructor(
+    message: string = "Circuit breaker is open",
+    code: string = ErrorCode.CIRCUIT_OPEN,
+    retryAt?: Date,
+    context?: Record<string, unknown>,
+  ) {
+    super(message, code, false, undefined, context)
+    this.name = "CircuitOpenError"
+    this.retryAt = retryAt
+  }
+}
+
+/**
+ * Operation queued by the offline queue instead of being sent
+ * The operation is replayed once the API can be reached again.
+ */
+export class OperationQueuedError extends NetworkError {
+  /** Id of the queued operation */
+  public readonly operationId: string
+
+  constructor(
+    message: string = "Operation queued until the API can be reached",
+    code: string = ErrorCode.OPERATION_QUEUED,
+    operationId: string = "",
+    originalError?: Error,
+    context?: Record<string, unknown>,
+  ) {
+    super(message, code, false, originalError, { ...context, operationId })
+    this.name = "OperationQueuedError"
+    this.operationId = operationId
+  }
+}
+
+/**
+ * Replayed request matches no interaction recorded in the cassette
+ */
+export class CassetteMismatchError extends UraniumError {
+  /** Request that was not recorded */
+  public readonly request?: CassetteRequest
+  /** Unused recorded requests with the same method and route */
+  public readonly candidates: CassetteRequest[]
+
+  constructor(
+    message: string = "No recorded interaction matches the request",
+    code: string = ErrorCode.CASSETTE_MISMATCH,
+    request?: CassetteRequest,
+    candidates: CassetteRequest[] = [],
+    context?: Record<string, unknown>,
+  ) {
+    super(message, code, undefined, context)
+    this.name = "CassetteMismatchError"
+    this.request = request
+    this.candidates = candidates
+  }
+}
+
 /**
  * File upload errors
  * Re-exported from @uranium/types
@@ -87,6 +151,30 @@ export class MintingError extends UraniumError {
   }
 }
 
+/**
+ * API response does not match the documented schema
+ * Thrown when response validation runs in "strict" mode.
+ */
+export class ResponseValidationError extends UraniumError {
+  /** Router operation that received the response (e.g. "assets.list") */
+  public readonly operation?: string
+  /** Validation messages keyed by field path */
+  public readonly issues: Record<string, string[]>
+
+  constructor(
+    message: string = "API response does not match the expected schema",
+    code: string = ErrorCode.RESPONSE_VALIDATION_FAILED,
+    operation?: string,
+    issues: Record<string, string[]> = {},
+    context?: Record<string, unknown>,
+  ) {
+    super(message, code, 502, context)
+    this.name = "ResponseValidationError"
+    this.operation = operation
+    this.issues = issues
+  }
+}
+
 /**
  * Common error codes used across the SDK
  */
@@ -102,6 +190,7 @@ export enum ErrorCode {
   MISSING_FIELD = "MISSING_FIELD",
   INVALID_FORMAT = "INVALID_FORMAT",
   VALUE_OUT_OF_RANGE = "VALUE_OUT_OF_RANGE",
+  SANDBOX_COLLECTION_REQUIRED = "SANDBOX_COLLECTION_REQUIRED",
 
   // Resource errors (3xxx)
   NOT_FOUND = "NOT_FOUND",
@@ -135,11 +224,18 @@ export enum ErrorCode {
   NETWORK_ERROR = "NETWORK_ERROR",
   TIMEOUT = "TIMEOUT",
   CONNECTION_FAILED = "CONNECTION_FAILED",
+  CIRCUIT_OPEN = "CIRCUIT_OPEN",
+  OPERATION_QUEUED = "OPERATION_QUEUED",
 
   // Server errors (9xxx)
   INTERNAL_ERROR = "INTERNAL_ERROR",
+  SERVER_ERROR = "SERVER_ERROR",
   SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
   MAINTENANCE = "MAINTENANCE",
+  RESPONSE_VALIDATION_FAILED = "RESPONSE_VALIDATION_FAILED",
+
+  // Test tooling errors
+  CASSETTE_MISMATCH = "CASSETTE_MISMATCH",
 
   // Unknown/Other
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
@@ -160,6 +256,7 @@ export const ERROR_CODE_TO_STATUS: Record<ErrorCode, number> = {
   [ErrorCode.MISSING_FIELD]: 400,
   [ErrorCode.INVALID_FORMAT]: 400,
   [ErrorCode.VALUE_OUT_OF_RANGE]: 400,
+  [ErrorCode.SANDBOX_COLLECTION_REQUIRED]: 400,
 
   // 404/409 - Resources
   [ErrorCode.NOT_FOUND]: 404,
@@ -193,42 +290,56 @@ export const ERROR_CODE_TO_STATUS: Record<ErrorCode, number> = {
   [ErrorCode.NETWORK_ERROR]: 500,
   [ErrorCode.TIMEOUT]: 408,
   [ErrorCode.CONNECTION_FAILED]: 503,
+  [ErrorCode.CIRCUIT_OPEN]: 503,
+  [ErrorCode.OPERATION_QUEUED]: 503,
 
   // 500 - Server
   [ErrorCode.INTERNAL_ERROR]: 500,
+  [ErrorCode.SERVER_ERROR]: 500,
   [ErrorCode.SERVICE_UNAVAILABLE]: 503,
   [ErrorCode.MAINTENANCE]: 503,
+  [ErrorCode.RESPONSE_VALIDATION_FAILED]: 502,
+
+  // 500 - Test tooling
+  [ErrorCode.CASSETTE_MISMATCH]: 500,
 
   // 500 - Unknown
   [ErrorCode.UNKNOWN_ERROR]: 500,
 }
 
 /**
- * Creates an appropriate error instance from an API error response
+ * Creates the error class dedicated to a backend error code
+ * @param code - Backend error code (e.g. "MINTING_FAILED")
+ * @param message - Error message
+ * @param context - Error context (HTTP status, request id, response payload)
+ * @returns Typed error, or undefined when no error class matches the code
  */
-export function createErrorFromResponse(
-  _status: string,
-  errorCode?: string | null,
-  message?: string,
-): UraniumError {
-  const msg = message || "An error occurred"
-  const code = errorCode || ErrorCode.UNKNOWN_ERROR
-
-  // Map to specific error types based on code
+export function createErrorFromCode(
+  code: string,
+  message: string,
+  context?: Record<string, unknown>,
+): UraniumError | undefined {
   if (code.startsWith("AUTH_") || code === ErrorCode.PERMISSION_DENIED) {
-    return new AuthenticationError(msg, code)
+    return new AuthenticationError(
+      message,
+      code,
+      ERROR_CODE_TO_STATUS[code as ErrorCode] ?? 401,
+      context,
+    )
   }
 
   if (
     code.startsWith("INVALID_") ||
     code === ErrorCode.MISSING_FIELD ||
-    code === ErrorCode.VALUE_OUT_OF_RANGE
+    code === ErrorCode.VALUE_OUT_OF_RANGE ||
+    code === ErrorCode.SANDBOX_COLLECTION_REQUIRED
   ) {
-    return new ValidationError(msg, code)
+    return new ValidationError(message, code, undefined, context)
   }
 
-  if (code === ErrorCode.NOT_FOUND) {
-    return new NotFoundError(msg, code)
+  // Includes scoped codes such as CONTRACT_NOT_FOUND
+  if (code === ErrorCode.NOT_FOUND || code.endsWith("_NOT_FOUND")) {
+    return new NotFoundError(message, code, undefined, undefined, context)
   }
 
   if (
@@ -236,19 +347,30 @@ export function createErrorFromResponse(
     code === ErrorCode.QUOTA_EXCEEDED ||
     code === ErrorCode.FILE_TOO_LARGE
   ) {
-    return new LimitExceededError(msg, code)
+    return new LimitExceededError(
+      message,
+      code,
+      undefined,
+      undefined,
+      undefined,
+      context,
+    )
   }
 
   if (code.startsWith("UPLOAD_") || code === ErrorCode.CHUNK_UPLOAD_FAILED) {
-    return new UploadError(msg, code)
+    return new UploadError(message, code, undefined, undefined, context)
   }
 
-  if (code.startsWith("MINTING_") || code === ErrorCode.METADATA_INVALID) {
-    return new MintingError(msg, code)
+  if (
+    code.startsWith("MINTING_") ||
+    code === ErrorCode.METADATA_INVALID ||
+    code === ErrorCode.INSUFFICIENT_BALANCE
+  ) {
+    return new MintingError(message, code, undefined, undefined, context)
   }
 
   if (code.startsWith("TRANSACTION_") || code.startsWith("GAS_")) {
-    return new BlockchainError(msg, code)
+    return new BlockchainError(message, code, undefined, undefined, context)
   }
 
   if (
@@ -256,12 +378,34 @@ export function createErrorFromResponse(
     code === ErrorCode.TIMEOUT ||
     code === ErrorCode.CONNECTION_FAILED
   ) {
-    return new NetworkError(msg, code)
+    return new NetworkError(message, code, undefined, undefined, context)
   }
 
+  return undefined
+}
+
+/**
+ * Creates an appropriate error instance from an API error response
+ * @param _status - Response status field ("error")
+ * @param errorCode - Backend error code
+ * @param message - Error message
+ * @param context - Error context (HTTP status, request id, response payload)
+ */
+export function createErrorFromResponse(
+  _status: string,
+  errorCode?: string | null,
+  message?: string,
+  context?: Record<string, unknown>,
+): UraniumError {
+  const msg = message || "An error occurred"
+  const code = errorCode || ErrorCode.UNKNOWN_ERROR
+
   // Default to base UraniumError
   const statusCode = ERROR_CODE_TO_STATUS[code as ErrorCode] || 500
-  return new UraniumError(msg, code, statusCode)
+  return (
+    createErrorFromCode(code, msg, context) ??
+    new UraniumError(msg, code, statusCode, context)
+  )
 }
 
 // Re-export base error classes from @uranium/types
@@ -23,21 +23,6 @@ export {
   ValidationError as ValidationErrorBase,
 } from "@uranium/types"
 
-// ============================================================================
-// Configuration Types
-// ============================================================================
-
-export type {
-  ResolvedUraniumConfig,
-  RetryConfig,
-  UraniumConfig,
-} from "./config"
-
-export {
-  DEFAULT_CONFIG,
-  DEFAULT_RETRY_CONFIG,
-} from "./config"
-
 // ============================================================================
 // Entity Types
 // ============================================================================
@@ -131,6 +116,23 @@ export {
   validateMetadata,
 } from "./metadata"
 
+// ============================================================================
+// Normalized Models
+// ============================================================================
+
+export type { Asset, Contract, LocationCoords } from "./models"
+
+export {
+  dateToTimestamp,
+  formatLocationCoords,
+  fromAsset,
+  fromContract,
+  parseLocationCoords,
+  timestampToDate,
+  toAsset,
+  toContract,
+} from "./models"
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -138,6 +140,9 @@ export {
 export {
   AuthenticationError,
   BlockchainError,
+  CassetteMismatchError,
+  CircuitOpenError,
+  createErrorFromCode,
   createErrorFromResponse,
   ERROR_CODE_TO_STATUS,
   ErrorCode,
@@ -147,6 +152,8 @@ export {
   MintingError,
   NetworkError,
   NotFoundError,
+  OperationQueuedError,
+  ResponseValidationError,
   UploadError,
   UraniumError,
   ValidationError,
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test"
+import { mockData } from "../test-utils/mocks"
+import type { AssetEntity, ContractEntity } from "./entities"
+import {
+  AssetSVCStatus,
+  CollectionStatus,
+  CollectionType,
+  ERCType,
+  FileSource,
+  FileType,
+} from "./enums"
+import {
+  dateToTimestamp,
+  formatLocationCoords,
+  fromAsset,
+  fromContract,
+  parseLocationCoords,
+  timestampToDate,
+  toAsset,
+  toContract,
+} from "./models"
+
+const contractEntity = (): ContractEntity =>
+  mockData.contract({
+    type: CollectionType.CREATED,
+    status: CollectionStatus.COMPLETE,
+    ercType: ERCType.ERC1155,
+    createdAt: { seconds: 1_700_000_000, nanos: 250_000_000 },
+  })
+
+const assetEntity = (overrides: Partial<AssetEntity> = {}): AssetEntity =>
+  mockData.asset({
+    status: AssetSVCStatus.NFT_CONFIRMED,
+    createdAt: { seconds: 1_700_000_000, nanos: 0 },
+    updatedAt: { seconds: 1_700_000_060, nanos: 500_000_000 },
+    mintedAt: null,
+    locationCoords: "38.7223,-9.1393",
+    ...overrides,
+  })
+
+describe("Models", () => {
+  describe("timestampToDate", () => {
+    test("should convert seconds and nanos to a Date", () => {
+      expect(
+        timestampToDate({ seconds: 1_700_000_000, nanos: 123_456_789 }),
+      ).toEqual(new Date(1_700_000_000_123))
+    })
+
+    test("should return null for missing timestamps", () => {
+      expect(timestampToDate(null)).toBeNull()
+      expect(timestampToDate(undefined)).toBeNull()
+    })
+  })
+
+  describe("dateToTimestamp", () => {
+    test("should convert a Date to seconds and nanos", () => {
+      expect(dateToTimestamp(new Date(1_700_000_000_123))).toEqual({
+        seconds: 1_700_000_000,
+        nanos: 123_000_000,
+      })
+    })
+
+    test("should keep nanos non-negative before the epoch", () => {
+      expect(dateToTimestamp(new Date(-1500))).toEqual({
+        seconds: -2,
+        nanos: 500_000_000,
+      })
+      expect(timestampToDate({ seconds: -2, nanos: 500_000_000 })).toEqual(
+        new Date(-1500),
+      )
+    })
+
+    test("should return null for missing dates", () => {
+      expect(dateToTimestamp(null)).toBeNull()
+    })
+  })
+
+  describe("parseLocationCoords", () => {
+    test("should parse lat,lng coordinates", () => {
+      expect(parseLocationCoords("38.7223,-9.1393")).toEqual({
+        lat: 38.7223,
+        lng: -9.1393,
+      })
+      expect(parseLocationCoords(" 0 , 0 ")).toEqual({ lat: 0, lng: 0 })
+    })
+
+    test("should return null for missing, malformed or out of range values", () => {
+      expect(parseLocationCoords(null)).toBeNull()
+      expect(parseLocationCoords("")).toBeNull()
+      expect(parseLocationCoords("38.7223")).toBeNull()
+      expect(parseLocationCoords("38.7223,")).toBeNull()
+      expect(parseLocationCoords("north,west")).toBeNull()
+      expect(parseLocationCoords("91,0")).toBeNull()
+      expect(parseLocationCoords("0,181")).toBeNull()
+    })
+
+    test("should format coordinates back to lat,lng", () => {
+      expect(formatLocationCoords({ lat: 38.7223, lng: -9.1393 })).toBe(
+        "38.7223,-9.1393",
+      )
+      expect(formatLocationCoords(null)).toBeNull()
+    })
+  })
+
+  describe("toContract", () => {
+    test("should type enums and convert the creation date", () => {
+      const contract = toContract(contractEntity())
+
+      expect(contract.type).toBe(CollectionType.CREATED)
+      expect(contract.status).toBe(CollectionStatus.COMPLETE)
+      expect(contract.ercType).toBe(ERCType.ERC1155)
+      expect(contract.createdAt).toEqual(new Date(1_700_000_000_250))
+      expect(contract.name).toBe("MyContract")
+    })
+
+    test("should round-trip to the wire format", () => {
+      const entity = contractEntity()
+
+      expect(fromContract(toContract(entity))).toEqual(entity)
+    })
+  })
+
+  describe("toAsset", () => {
+    test("should convert dates, enums and coordinates", () => {
+      const asset = toAsset(assetEntity())
+
+      expect(asset.createdAt).toEqual(new Date(1_700_000_000_000))
+      expect(asset.updatedAt).toEqual(new Date(1_700_000_060_500))
+      expect(asset.mintedAt).toBeNull()
+      expect(asset.ercContractType).toBe(ERCType.ERC721)
+      expect(asset.source).toBe(FileSource.Upload)
+      expect(asset.mediaType).toBe(FileType.Image)
+      expect(asset.locationCoords).toEqual({ lat: 38.7223, lng: -9.1393 })
+    })
+
+    test("should derive isMinted from the status", () => {
+      expect(toAsset(assetEntity()).isMinted).toBe(true)
+      expect(
+        toAsset(assetEntity({ status: AssetSVCStatus.NFT_ALL_BLOCK_CONFIRMED }))
+          .isMinted,
+      ).toBe(true)
+      expect(
+        toAsset(assetEntity({ status: AssetSVCStatus.NFT_MINTING })).isMinted,
+      ).toBe(false)
+    })
+
+    test("should round-trip to the wire format", () => {
+      const entity = assetEntity()
+
+      expect(fromAsset(toAsset(entity))).toEqual(entity)
+    })
+  })
+})
@@ -0,0 +1,192 @@
+import type { AssetEntity, ContractEntity, Timestamp } from "./entities"
+import {
+  type CollectionStatus,
+  type CollectionType,
+  type ERCType,
+  type FileSource,
+  type FileType,
+  isAssetMinted,
+} from "./enums"
+
+/**
+ * Geographic coordinates parsed from the "lat,lng" wire format
+ */
+export interface LocationCoords {
+  /** Latitude in degrees (-90 to 90) */
+  lat: number
+  /** Longitude in degrees (-180 to 180) */
+  lng: number
+}
+
+/**
+ * Normalized NFT collection/contract
+ * ContractEntity with Date timestamps and enum-typed fields
+ */
+export interface Contract
+  extends Omit<ContractEntity, "type" | "status" | "ercType" | "createdAt"> {
+  /** Collection type */
+  type: CollectionType
+  /** Current status of the collection */
+  status: CollectionStatus
+  /** ERC standard type */
+  ercType: ERCType
+  /** Date when the contract was created */
+  createdAt: Date | null
+}
+
+/**
+ * Normalized NFT asset
+ * AssetEntity with Date timestamps, enum-typed fields, parsed coordinates
+ * and derived flags
+ */
+export interface Asset
+  extends Omit<
+    AssetEntity,
+    | "createdAt"
+    | "updatedAt"
+    | "mintedAt"
+    | "ercContractType"
+    | "source"
+    | "mediaType"
+    | "locationCoords"
+  > {
+  /** Date when the asset was created */
+  createdAt: Date | null
+  /** Date when the asset was last updated */
+  updatedAt: Date | null
+  /** Date when the asset was minted on-chain */
+  mintedAt: Date | null
+  /** ERC type of the contract */
+  ercContractType: ERCType
+  /** Source type */
+  source: FileSource
+  /** Type of media */
+  mediaType: FileType
+  /** Geographic coordinates, null when missing or malformed */
+  locationCoords: LocationCoords | null
+  /** Whether the NFT is minted (status NFT_CONFIRMED or later) */
+  isMinted: boolean
+}
+
+/**
+ * Converts a protobuf timestamp to a Date
+ * @param timestamp - Wire timestamp
+ * @returns Date with millisecond precision, or null when missing
+ */
+export function timestampToDate(
+  timestamp: Timestamp | null | undefined,
+): Date | null {
+  if (!timestamp) return null
+  return new Date(
+    timestamp.seconds * 1000 + Math.floor((timestamp.nanos ?? 0) / 1_000_000),
+  )
+}
+
+/**
+ * Converts a Date to a protobuf timestamp
+ * @param date - Date to convert
+ * @returns Wire timestamp, or null when missing
+ */
+export function dateToTimestamp(
+  date: Date | null | undefined,
+): Timestamp | null {
+  if (!date) return null
+  const milliseconds = date.getTime()
+  const seconds = Math.floor(milliseconds / 1000)
+  return { seconds, nanos: (milliseconds - seconds * 1000) * 1_000_000 }
+}
+
+/**
+ * Parses "lat,lng" coordinates
+ * @param value - Coordinates in "lat,lng" format
+ * @returns Coordinates, or null when missing, malformed or out of range
+ */
+export function parseLocationCoords(
+  value: string | null | undefined,
+): LocationCoords | null {
+  const parts = value?.split(",").map((part) => part.trim())
+  if (parts?.length !== 2 || parts.some((part) => part === "")) return null
+
+  const [lat, lng] = parts.map(Number) as [number, number]
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+  return { lat, lng }
+}
+
+/**
+ * Formats coordinates in the "lat,lng" wire format
+ * @param coords - Coordinates to format
+ * @returns "lat,lng", or null when missing
+ */
+export function formatLocationCoords(
+  coords: LocationCoords | null | undefined,
+): string | null {
+  return coords ? `${coords.lat},${coords.lng}` : null
+}
+
+/**
+ * Converts a wire contract to the normalized model
+ *
+ * Enum fields are typed but not checked: values added by the API after
+ * this SDK version are kept as received.
+ *
+ * @param entity - Contract as returned by the API
+ * @returns Normalized contract
+ */
+export function toContract(entity: ContractEntity): Contract {
+  return {
+    ...entity,
+    type: entity.type as CollectionType,
+    status: entity.status as CollectionStatus,
+    ercType: entity.ercType as ERCType,
+    createdAt: timestampToDate(entity.createdAt),
+  }
+}
+
+/**
+ * Converts a normalized contract back to the wire format
+ * @param contract - Normalized contract
+ * @returns Contract as sent by the API
+ */
+export function fromContract(contract: Contract): ContractEntity {
+  return { ...contract, createdAt: dateToTimestamp(contract.createdAt) }
+}
+
+/**
+ * Converts a wire asset to the normalized model
+ *
+ * Enum fields are typed but not checked: values added by the API after
+ * this SDK version are kept as received.
+ *
+ * @param entity - Asset as returned by the API
+ * @returns Normalized asset
+ */
+export function toAsset(entity: AssetEntity): Asset {
+  return {
+    ...entity,
+    createdAt: timestampToDate(entity.createdAt),
+    updatedAt: timestampToDate(entity.updatedAt),
+    mintedAt: timestampToDate(entity.mintedAt),
+    ercContractType: entity.ercContractType as ERCType,
+    source: entity.source as FileSource,
+    mediaType: entity.mediaType as FileType,
+    locationCoords: parseLocationCoords(entity.locationCoords),
+    isMinted: isAssetMinted(entity.status),
+  }
+}
+
+/**
+ * Converts a normalized asset back to the wire format
+ * @param asset - Normalized asset
+ * @returns Asset as sent by the API
+ */
+export function fromAsset(asset: Asset): AssetEntity {
+  const { isMinted: _, ...fields } = asset
+  return {
+    ...fields,
+    createdAt: dateToTimestamp(asset.createdAt),
+    updatedAt: dateToTimestamp(asset.updatedAt),
+    mintedAt: dateToTimestamp(asset.mintedAt),
+    locationCoords: formatLocationCoords(asset.locationCoords),
+  }
+}
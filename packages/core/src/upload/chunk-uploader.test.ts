@@ -4,8 +4,20 @@
 
 import { beforeEach, describe, expect, mock, test } from "bun:test"
 import axios from "axios"
+import {
+  createLogger,
+  type Logger,
+  type LogRecord,
+  REDACTED,
+} from "../client/logger"
+import { RetryBudget } from "../client/retry"
+import type { HttpTransport } from "../client/transport"
 import { UploadError } from "../types/errors"
-import { type UploadChunkParams, uploadChunk } from "./chunk-uploader"
+import {
+  toChunkRetryConfig,
+  type UploadChunkParams,
+  uploadChunk,
+} from "./chunk-uploader"
 
 describe("uploadChunk", () => {
   beforeEach(() => {
@@ -248,4 +260,133 @@ describe("uploadChunk", () => {
     expect(etag).toBe("success-after-retry")
     expect(attemptCount).toBe(2)
   })
+
+  test("uses the provided transport instead of axios", async () => {
+    const axiosPut = mock(() => Promise.reject(new Error("should not be used")))
+    // @ts-expect-error - mocking axios
+    axios.put = axiosPut
+
+    const transportPut = mock(() =>
+      Promise.resolve({ data: null, status: 200, headers: { etag: '"t1"' } }),
+    )
+    const params: UploadChunkParams = {
+      url: "https://s3.amazonaws.com/test-bucket/test-key",
+      data: new ArrayBuffer(1024),
+      transport: {
+        request: mock(),
+        get: mock(),
+        post: mock(),
+        put: transportPut,
+      },
+    }
+
+    const etag = await uploadChunk(params)
+
+    expect(etag).toBe("t1")
+    expect(transportPut).toHaveBeenCalledTimes(1)
+    expect(axiosPut).not.toHaveBeenCalled()
+  })
+
+  test("uses the configured retry policy", async () => {
+    const delays: number[] = []
+    const mockPut = mock(() => Promise.reject(new Error("Temporary failure")))
+    axios.put = mockPut
+
+    const params: UploadChunkParams = {
+      url: "https://s3.amazonaws.com/test-bucket/test-key",
+      data: new ArrayBuffer(1024),
+      retry: {
+        maxRetries: 4,
+        retryDelay: 1,
+        strategy: "linear",
+        onRetry: (_attempt, _error, delayMs) => {
+          delays.push(delayMs)
+        },
+      },
+    }
+
+    try {
+      await uploadChunk(params)
+      expect(true).toBe(false) // Should not reach here
+    } catch (error) {
+      expect(error).toBeInstanceOf(UploadError)
+      expect((error as UploadError).context?.retryAttempts).toBe(5)
+    }
+    expect(mockPut).toHaveBeenCalledTimes(5)
+    expect(delays).toEqual([1, 2, 3, 4])
+  })
+
+  test("stops retrying when the shared retry budget is exhausted", async () => {
+    const mockPut = mock(() => Promise.reject(new Error("Temporary failure")))
+    axios.put = mockPut
+
+    const params: UploadChunkParams = {
+      url: "https://s3.amazonaws.com/test-bucket/test-key",
+      data: new ArrayBuffer(1024),
+      retry: { retryDelay: 1, budget: new RetryBudget({ maxTokens: 1 }) },
+    }
+
+    await expect(uploadChunk(params)).rejects.toThrow(UploadError)
+    expect(mockPut).toHaveBeenCalledTimes(2)
+  })
+
+  test("logs chunk attempts without the presigned URL signature", async () => {
+    let calls = 0
+    const mockPut = mock(() => {
+      calls++
+      return calls === 1
+        ? Promise.reject(new Error("Temporary failure"))
+        : Promise.resolve({ headers: { etag: '"abc123"' } })
+    })
+    const records: [string, LogRecord | undefined][] = []
+    const target: Logger = {
+      debug: (message, record) => records.push([message, record]),
+      info: (message, record) => records.push([message, record]),
+      warn: (message, record) => records.push([message, record]),
+      error: (message, record) => records.push([message, record]),
+    }
+
+    const params: UploadChunkParams = {
+      url: "https://bucket.s3.amazonaws.com/key?partNumber=1&X-Amz-Signature=secret",
+      data: new ArrayBuffer(1024),
+      transport: { put: mockPut } as unknown as HttpTransport,
+      retry: { retryDelay: 1 },
+      logger: createLogger(target, "debug"),
+    }
+
+    await uploadChunk(params)
+
+    expect(
+      records.map(([message, record]) => [message, record?.attempt]),
+    ).toEqual([
+      ["Uploading chunk", 1],
+      ["Retrying chunk upload", 2],
+      ["Uploading chunk", 2],
+      ["Chunk uploaded", 2],
+    ])
+    expect(records[0]?.[1]).toEqual({
+      method: "PUT",
+      route: `https://bucket.s3.amazonaws.com/key?partNumber=1&X-Amz-Signature=${REDACTED}`,
+      attempt: 1,
+      bytes: 1024,
+    })
+  })
+})
+
+describe("toChunkRetryConfig", () => {
+  test("keeps chunk retries when API retries are disabled", () => {
+    const budget = new RetryBudget()
+
+    expect(
+      toChunkRetryConfig({
+        enabled: false,
+        maxRetries: 0,
+        retryDelay: 5,
+        strategy: "linear",
+        budget,
+        retryableStatuses: [503],
+      }),
+    ).toEqual({ retryDelay: 5, strategy: "linear", budget })
+    expect(toChunkRetryConfig()).toEqual({})
+  })
 })
@@ -2,27 +2,63 @@
  * Chunk Upload Module
  *
  * Handles uploading individual chunks to S3 with retry logic and progress tracking.
- * Implements exponential backoff for failed uploads.
+ * Retries use the SDK retry policy (`withRetry`), with exponential backoff by default.
  *
  * @module @uranium/sdk/upload/chunk-uploader
  */
 
 import type { AxiosError } from "axios"
 import * as axiosModule from "axios"
+import type { RetryConfig } from "../client/config"
+import { type Logger, noopLogger } from "../client/logger"
+import { withRetry } from "../client/retry"
+import type { HttpTransport } from "../client/transport"
 import { UploadError } from "../types/errors"
 import { extractEtagFromHeaders } from "./utils"
 
 const axios = axiosModule.default
 
 /**
- * Maximum number of retry attempts for failed uploads
+ * Default retry policy for chunk uploads: 3 attempts with exponential backoff (1s, 2s)
  */
-const MAX_RETRIES = 3
+export const DEFAULT_CHUNK_RETRY_CONFIG: RetryConfig = {
+  enabled: true,
+  maxRetries: 2,
+  retryDelay: 1000,
+  strategy: "exponential",
+  maxDelay: 30000,
+  retryableStatuses: [],
+  onRetry: undefined,
+}
+
+/**
+ * Options of the SDK retry policy that chunk uploads follow
+ */
+const SHARED_RETRY_OPTIONS = [
+  "strategy",
+  "retryDelay",
+  "maxDelay",
+  "budget",
+] as const
 
 /**
- * Base delay in milliseconds for exponential backoff
+ * Takes the backoff options and retry budget of the SDK retry policy for
+ * chunk uploads. Whether and how often a chunk is retried stays with
+ * DEFAULT_CHUNK_RETRY_CONFIG, so disabling API retries keeps chunk retries.
+ * @param retry - SDK retry policy (`UraniumConfig.retry`)
+ * @returns Retry policy for UploadChunkParams.retry
  */
-const BASE_RETRY_DELAY = 1000
+export const toChunkRetryConfig = (
+  retry: Partial<RetryConfig> = {},
+): Partial<RetryConfig> => {
+  const config: Partial<RetryConfig> = {}
+  for (const option of SHARED_RETRY_OPTIONS) {
+    if (retry[option] !== undefined) {
+      Object.assign(config, { [option]: retry[option] })
+    }
+  }
+  return config
+}
 
 /**
  * Parameters for uploading a single chunk
@@ -36,20 +72,38 @@ export interface UploadChunkParams {
   onProgress?: (progress: number) => void
   /** Optional abort signal for cancellation */
   signal?: AbortSignal
+  /** Optional transport for the PUT request (defaults to Axios) */
+  transport?: HttpTransport
+  /**
+   * Optional retry policy, merged over DEFAULT_CHUNK_RETRY_CONFIG.
+   * Every failure except cancellation is retried; `retryableStatuses` is ignored.
+   */
+  retry?: Partial<RetryConfig>
+  /** Optional logger for chunk attempts (records are passed as-is) */
+  logger?: Logger
 }
 
+/**
+ * Checks if an upload failure was caused by cancellation
+ */
+const isAbortError = (error: unknown): boolean =>
+  (error instanceof UploadError && error.code === "UPLOAD_ABORTED") ||
+  axios.isCancel(error) ||
+  (error as AxiosError)?.code === "ERR_CANCELED"
+
 /**
  * Uploads a single chunk to S3 with retry logic
  *
  * Features:
- * - Automatic retries with exponential backoff (1s, 2s, 4s)
+ * - Automatic retries using the configurable SDK retry policy
+ *   (default: 3 attempts with exponential backoff of 1s, 2s)
  * - Progress tracking via callback
  * - Abort signal support for cancellation
  * - ETag extraction from response headers
  *
  * @param params - Upload parameters
  * @returns ETag of the uploaded chunk
- * @throws {UploadError} After 3 failed attempts or if aborted
+ * @throws {UploadError} After all attempts failed or if aborted
  *
  * @example
  * ```ts
@@ -72,91 +126,132 @@ export interface UploadChunkParams {
  */
 export async function uploadChunk(params: UploadChunkParams): Promise<string> {
   const { url, data, onProgress, signal } = params
+  const transport: HttpTransport = params.transport ?? axios
+  const logger = params.logger ?? noopLogger
+  const retryConfig: RetryConfig = {
+    ...DEFAULT_CHUNK_RETRY_CONFIG,
+    ...params.retry,
+  }
+
+  let attempt = 0
+  let startedAt = 0
+  const record = () => ({
+    method: "PUT",
+    route: url,
+    attempt,
+    bytes: data.byteLength,
+  })
+
+  // Log retries before the configured onRetry callback
+  const { onRetry } = retryConfig
+  retryConfig.onRetry = async (failedAttempt, error, delayMs) => {
+    logger.info("Retrying chunk upload", {
+      ...record(),
+      attempt: failedAttempt + 1,
+      delayMs,
+      error: (error as Error)?.message,
+    })
+    await onRetry?.(failedAttempt, error, delayMs)
+  }
+
+  const attemptUpload = async (): Promise<string> => {
+    attempt++
+    startedAt = Date.now()
 
-  let lastError: Error | undefined
-
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      // Check if abort was requested before starting
-      if (signal?.aborted) {
-        throw new UploadError(
-          "Upload aborted by user",
-          "UPLOAD_ABORTED",
-          undefined,
-          undefined,
-          { url, attempt },
-        )
-      }
-
-      // Perform the upload using axios
-      const response = await axios.put(url, data, {
-        headers: {
-          "Content-Type": "application/octet-stream",
-        },
-        onUploadProgress: (progressEvent) => {
-          if (onProgress && progressEvent.total) {
-            const progress = progressEvent.loaded / progressEvent.total
-            onProgress(progress)
-          }
-        },
-        signal,
-      })
-
-      // Extract ETag from response headers
-      const etag = extractEtagFromHeaders(response.headers)
-
-      if (!etag) {
-        throw new UploadError(
-          "Failed to extract ETag from response",
-          "ETAG_MISSING",
-          undefined,
-          undefined,
-          { url, attempt },
-        )
-      }
-
-      return etag
-    } catch (error) {
-      lastError = error as Error
-
-      // Re-throw UploadError instances immediately (like abort or missing ETag)
-      if (error instanceof UploadError && error.code === "UPLOAD_ABORTED") {
-        throw error
-      }
-
-      // Check if this is an abort error from axios
-      if (
-        axios.isCancel(error) ||
-        (error as AxiosError).code === "ERR_CANCELED"
-      ) {
-        throw new UploadError(
-          "Upload aborted by user",
-          "UPLOAD_ABORTED",
-          undefined,
-          undefined,
-          { url, attempt, originalError: lastError?.message },
-        )
-      }
-
-      // If this is the last attempt, don't retry
-      if (attempt === MAX_RETRIES - 1) {
-        break
-      }
-
-      // Calculate exponential backoff delay: 1000ms, 2000ms, 4000ms
-      const delay = BASE_RETRY_DELAY * 2 ** attempt
-
-      // Wait before retrying
-      await new Promise((resolve) => setTimeout(resolve, delay))
+    // Check if abort was requested before starting
+    if (signal?.aborted) {
+      throw new UploadError(
+        "Upload aborted by user",
+        "UPLOAD_ABORTED",
+        undefined,
+        undefined,
+        { url, attempt },
+      )
     }
+
+    logger.debug("Uploading chunk", record())
+
+    // Perform the upload through the configured transport
+    const response = await transport.put(url, data, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+      },
+      onUploadProgress: (progressEvent) => {
+        if (onProgress && progressEvent.total) {
+          const progress = progressEvent.loaded / progressEvent.total
+          onProgress(progress)
+        }
+      },
+      signal,
+    })
+
+    // Extract ETag from response headers
+    const etag = extractEtagFromHeaders(response.headers)
+
+    if (!etag) {
+      throw new UploadError(
+        "Failed to extract ETag from response",
+        "ETAG_MISSING",
+        undefined,
+        undefined,
+        { url, attempt },
+      )
+    }
+
+    return etag
   }
 
-  // All retries failed
-  throw new UploadError(
-    "Failed to upload chunk after maximum retries",
-    "UPLOAD_FAILED",
-    undefined,
-    undefined,
-    { url, retryAttempts: MAX_RETRIES, originalError: lastError?.message },
-  )
+  try {
+    const etag = await withRetry(
+      attemptUpload,
+      retryConfig,
+      (error) => !isAbortError(error),
+    )
+    retryConfig.budget?.recordSuccess()
+    logger.debug("Chunk uploaded", {
+      ...record(),
+      durationMs: Date.now() - startedAt,
+    })
+    return etag
+  } catch (error) {
+    const failure = {
+      ...record(),
+      durationMs: Date.now() - startedAt,
+      error: (error as Error)?.message,
+    }
+    if (isAbortError(error)) {
+      logger.warn("Chunk upload aborted", failure)
+    } else {
+      logger.error("Chunk upload failed", failure)
+    }
+
+    // Re-throw abort errors raised before sending
+    if (error instanceof UploadError && error.code === "UPLOAD_ABORTED") {
+      throw error
+    }
+
+    // Abort error from the transport
+    if (isAbortError(error)) {
+      throw new UploadError(
+        "Upload aborted by user",
+        "UPLOAD_ABORTED",
+        undefined,
+        undefined,
+        { url, attempt, originalError: (error as Error)?.message },
+      )
+    }
+
+    // All retries failed
+    throw new UploadError(
+      "Failed to upload chunk after maximum retries",
+      "UPLOAD_FAILED",
+      undefined,
+      undefined,
+      {
+        url,
+        retryAttempts: attempt,
+        originalError: (error as Error)?.message,
+      },
+    )
+  }
 }
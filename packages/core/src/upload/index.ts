@@ -8,14 +8,21 @@
  */
 
 // Export chunk uploader for advanced usage
-export { type UploadChunkParams, uploadChunk } from "./chunk-uploader"
+export {
+  DEFAULT_CHUNK_RETRY_CONFIG,
+  toChunkRetryConfig,
+  type UploadChunkParams,
+  uploadChunk,
+} from "./chunk-uploader"
 
 // Export types
 export type {
   ChunkUploadResult,
+  UploadManagerOptions,
   UploadMetadata,
   UploadOptions,
   UploadProgress,
+  UploadResult,
 } from "./types"
 // Export main upload manager
 export { UploadManager } from "./upload-manager"
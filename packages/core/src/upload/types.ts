@@ -8,6 +8,13 @@
  * @module @uranium/sdk/upload/types
  */
 
+import type { RetryConfig } from "../client/config"
+import type { UraniumEnvironment } from "../client/environment"
+import type { Logger } from "../client/logger"
+import type { MetricsCollector } from "../client/metrics"
+import type { Tracer } from "../client/tracing"
+import type { HttpTransport } from "../client/transport"
+import type { AssetEntity } from "../types/entities"
 import type { ClientUploadStage } from "../types/enums"
 
 /**
@@ -148,3 +155,62 @@ export interface ChunkUploadResult {
    */
   eTag: string
 }
+
+/**
+ * Configuration options for the upload manager
+ */
+export interface UploadManagerOptions {
+  /**
+   * Transport used to PUT chunks to presigned S3 URLs
+   * @default Axios
+   */
+  transport?: HttpTransport
+
+  /**
+   * Retry policy for chunk uploads, merged over DEFAULT_CHUNK_RETRY_CONFIG
+   * @default 3 attempts with exponential backoff
+   */
+  retry?: Partial<RetryConfig>
+
+  /**
+   * Logger for upload stages and chunk attempts.
+   * Records are passed as-is: wrap custom loggers with `createLogger` for redaction.
+   * @default No logging
+   */
+  logger?: Logger
+
+  /**
+   * Tracer for the upload span, with child spans per stage and per chunk
+   * @default undefined (tracing disabled)
+   */
+  tracer?: Tracer
+
+  /**
+   * Collector receiving stage durations, chunk throughput and chunk retries
+   * @default undefined (no metrics)
+   */
+  metrics?: MetricsCollector
+
+  /**
+   * Environment the uploads run against, reported on every upload result
+   * @default "production"
+   */
+  environment?: UraniumEnvironment
+
+  /**
+   * Checks that the target collection can be minted into, called while
+   * validating so uploads fail before any file data is sent
+   * @default undefined (no check)
+   */
+  checkCollection?: (contractId: string, signal?: AbortSignal) => Promise<void>
+}
+
+/**
+ * Result of an upload submitted for minting
+ */
+export interface UploadResult extends AssetEntity {
+  /**
+   * Environment the upload ran against (e.g. "sandbox")
+   */
+  environment: UraniumEnvironment
+}
@@ -8,8 +8,21 @@
 import { describe, expect, it, mock, spyOn } from "bun:test"
 import * as axiosModule from "axios"
 import type { AssetsRouter } from "../client/assets"
+import { MetricsCollector } from "../client/metrics"
+import {
+  createTracer,
+  InMemorySpanExporter,
+  SpanStatusCode,
+} from "../client/tracing"
+import type { RequestOptions } from "../client/types"
+import { mockData } from "../test-utils/mocks"
+import type { AssetEntity } from "../types/entities"
 import { ClientUploadStage, FileType, UploadStatus } from "../types/enums"
-import { UploadError, ValidationError } from "../types/errors"
+import {
+  LimitExceededError,
+  UploadError,
+  ValidationError,
+} from "../types/errors"
 import type { UploadOptions, UploadProgress } from "./types"
 import { UploadManager } from "./upload-manager"
 
@@ -32,8 +45,14 @@ const createMockBuffer = (size: number = 1024 * 1024): Buffer => {
   return Buffer.alloc(size)
 }
 
+const MOCK_ASSET = mockData.asset({
+  id: "asset-def-456",
+  fileId: MOCK_FILE_ID,
+  contractId: MOCK_CONTRACT_ID,
+}) as AssetEntity
+
 const createMockAssetsRouter = (): AssetsRouter => ({
-  list: mock(async () => ({ data: [], meta: null })),
+  list: mock(async () => ({ data: [MOCK_ASSET], meta: null })),
   prepareNewFile: mock(async () => ({
     fileId: MOCK_FILE_ID,
     fileUploadId: "upload-123",
@@ -74,7 +93,7 @@ const createMockOptions = (
 })
 
 // Mock axios for chunk uploads
-spyOn(axios, "put").mockResolvedValue({
+const putSpy = spyOn(axios, "put").mockResolvedValue({
   status: 200,
   statusText: "OK",
   headers: {
@@ -422,6 +441,27 @@ describe("UploadManager", () => {
     })
   })
 
+  describe("upload - API errors", () => {
+    it("should keep the translated API error as the cause", async () => {
+      const router = createMockAssetsRouter()
+      const quotaError = new LimitExceededError(
+        "Quota exceeded",
+        "QUOTA_EXCEEDED",
+      )
+      router.startMinting = mock(async () => {
+        throw quotaError
+      })
+      const manager = new UploadManager(router, MOCK_DEVICE_ID)
+
+      const error = await manager
+        .upload(createMockFile(), createMockOptions())
+        .catch((error) => error)
+
+      expect(error).toBeInstanceOf(UploadError)
+      expect(error.originalError).toBe(quotaError)
+    })
+  })
+
   describe("upload - complete flow", () => {
     it("should complete full upload flow with File", async () => {
       const router = createMockAssetsRouter()
@@ -431,11 +471,14 @@ describe("UploadManager", () => {
 
       const result = await manager.upload(file, options)
 
-      expect(result).toBeDefined()
-      expect(result.id).toBe(MOCK_FILE_ID)
+      expect(result).toEqual({ ...MOCK_ASSET, environment: "production" })
       expect(router.prepareNewFile).toHaveBeenCalled()
       expect(router.completeUpload).toHaveBeenCalled()
       expect(router.startMinting).toHaveBeenCalled()
+      expect(router.list).toHaveBeenCalledWith(
+        expect.objectContaining({ contractId: MOCK_CONTRACT_ID }),
+        expect.anything(),
+      )
     })
 
     it("should reject Buffer without MIME type", async () => {
@@ -540,4 +583,224 @@ describe("UploadManager", () => {
       )
     })
   })
+
+  describe("upload - environment", () => {
+    it("should mark results with the production environment by default", async () => {
+      const manager = new UploadManager(
+        createMockAssetsRouter(),
+        MOCK_DEVICE_ID,
+      )
+
+      const result = await manager.upload(createMockFile(), createMockOptions())
+
+      expect(result.environment).toBe("production")
+    })
+
+    it("should mark results with the configured environment", async () => {
+      const manager = new UploadManager(
+        createMockAssetsRouter(),
+        MOCK_DEVICE_ID,
+        { environment: "sandbox" },
+      )
+
+      const result = await manager.upload(createMockFile(), createMockOptions())
+
+      expect(result.environment).toBe("sandbox")
+    })
+
+    it("should check the collection before preparing the file", async () => {
+      const router = createMockAssetsRouter()
+      const checkCollection = mock(async () => {
+        throw new ValidationError("Refusing to mint", "INVALID_INPUT")
+      })
+      const manager = new UploadManager(router, MOCK_DEVICE_ID, {
+        environment: "sandbox",
+        checkCollection,
+      })
+
+      await expect(
+        manager.upload(createMockFile(), createMockOptions()),
+      ).rejects.toThrow(ValidationError)
+      expect(checkCollection).toHaveBeenCalledWith(MOCK_CONTRACT_ID, undefined)
+      expect(router.prepareNewFile).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("upload - logging", () => {
+    const createMockLogger = () => ({
+      debug: mock(() => {}),
+      info: mock(() => {}),
+      warn: mock(() => {}),
+      error: mock(() => {}),
+    })
+
+    it("should log stages, chunk attempts and completion", async () => {
+      const logger = createMockLogger()
+      const manager = new UploadManager(
+        createMockAssetsRouter(),
+        MOCK_DEVICE_ID,
+        { logger },
+      )
+
+      await manager.upload(createMockFile(), createMockOptions())
+
+      expect(logger.debug).toHaveBeenCalledWith("Upload stage started", {
+        stage: ClientUploadStage.UPLOADING,
+        fileId: MOCK_FILE_ID,
+      })
+      expect(logger.debug).toHaveBeenCalledWith(
+        "Chunk uploaded",
+        expect.objectContaining({
+          method: "PUT",
+          route: "https://s3.example.com/part2",
+        }),
+      )
+      expect(logger.info).toHaveBeenCalledWith("Upload completed", {
+        fileId: MOCK_FILE_ID,
+        environment: "production",
+        fileSize: 1024 * 1024,
+        chunks: 2,
+        durationMs: expect.any(Number),
+      })
+    })
+
+    it("should log failures with the current stage", async () => {
+      const logger = createMockLogger()
+      const router = createMockAssetsRouter()
+      router.completeUpload = mock(async () => {
+        throw new Error("Completion failed")
+      })
+      const manager = new UploadManager(router, MOCK_DEVICE_ID, { logger })
+
+      await expect(
+        manager.upload(createMockFile(), createMockOptions()),
+      ).rejects.toThrow(UploadError)
+      expect(logger.error).toHaveBeenCalledWith(
+        "Upload failed",
+        expect.objectContaining({
+          stage: ClientUploadStage.FINALIZING,
+          fileId: MOCK_FILE_ID,
+          error: "Completion failed",
+        }),
+      )
+    })
+  })
+
+  describe("upload - tracing", () => {
+    it("should create an upload span with stage and chunk child spans", async () => {
+      const exporter = new InMemorySpanExporter()
+      const router = createMockAssetsRouter()
+      const manager = new UploadManager(router, MOCK_DEVICE_ID, {
+        tracer: createTracer(exporter),
+      })
+
+      await manager.upload(createMockFile(), createMockOptions())
+
+      const spans = exporter.getFinishedSpans()
+      const byName = (name: string) =>
+        spans.filter((span) => span.name === name)
+      const [upload] = byName("uranium.upload")
+      const [uploading] = byName("uranium.upload.uploading")
+      const [preparing] = byName("uranium.upload.preparing")
+
+      expect(
+        spans
+          .filter((span) => span.parentSpanId === upload?.spanId)
+          .map((span) => span.name),
+      ).toEqual([
+        "uranium.upload.validating",
+        "uranium.upload.preparing",
+        "uranium.upload.processing",
+        "uranium.upload.uploading",
+        "uranium.upload.finalizing",
+        "uranium.upload.requesting_mint",
+      ])
+      expect(
+        byName("uranium.upload.chunk").map((span) => [
+          span.parentSpanId,
+          span.attributes["uranium.chunk.part_number"],
+        ]),
+      ).toEqual([
+        [uploading?.spanId, 1],
+        [uploading?.spanId, 2],
+      ])
+      expect(upload?.attributes).toMatchObject({
+        "uranium.contract_id": MOCK_CONTRACT_ID,
+        "uranium.file_id": MOCK_FILE_ID,
+      })
+      expect(upload?.status.code).toBe(SpanStatusCode.OK)
+
+      // Router calls are nested under the stage span
+      const prepareCall = (router.prepareNewFile as ReturnType<typeof mock>)
+        .mock.calls[0] as unknown[]
+      const parentSpan = (prepareCall[1] as RequestOptions).parentSpan
+      expect(parentSpan?.spanContext().spanId).toBe(preparing?.spanId)
+    })
+
+    it("should mark the stage and upload spans as failed", async () => {
+      const exporter = new InMemorySpanExporter()
+      const router = createMockAssetsRouter()
+      router.startMinting = mock(async () => {
+        throw new Error("Mint rejected")
+      })
+      const manager = new UploadManager(router, MOCK_DEVICE_ID, {
+        tracer: createTracer(exporter),
+      })
+
+      await expect(
+        manager.upload(createMockFile(), createMockOptions()),
+      ).rejects.toThrow(UploadError)
+
+      const failed = exporter
+        .getFinishedSpans()
+        .filter((span) => span.status.code === SpanStatusCode.ERROR)
+        .map((span) => span.name)
+      expect(failed).toEqual([
+        "uranium.upload.requesting_mint",
+        "uranium.upload",
+      ])
+    })
+  })
+
+  describe("upload - metrics", () => {
+    it("should record stage durations and chunk throughput", async () => {
+      const metrics = new MetricsCollector()
+      const manager = new UploadManager(
+        createMockAssetsRouter(),
+        MOCK_DEVICE_ID,
+        { metrics },
+      )
+
+      await manager.upload(createMockFile(), createMockOptions())
+
+      const { uploads } = metrics.snapshot()
+      expect(uploads.chunks).toBe(2)
+      expect(uploads.bytesUploaded).toBe(1024 * 1024)
+      expect(Object.keys(uploads.stages)).toEqual([
+        ClientUploadStage.VALIDATING,
+        ClientUploadStage.PREPARING,
+        ClientUploadStage.PROCESSING,
+        ClientUploadStage.UPLOADING,
+        ClientUploadStage.FINALIZING,
+        ClientUploadStage.REQUESTING_MINT,
+      ])
+    })
+
+    it("should count chunk retries apart from router endpoints", async () => {
+      const metrics = new MetricsCollector()
+      const manager = new UploadManager(
+        createMockAssetsRouter(),
+        MOCK_DEVICE_ID,
+        { metrics, retry: { retryDelay: 1 } },
+      )
+      putSpy.mockRejectedValueOnce(new Error("socket hang up"))
+
+      await manager.upload(createMockFile(), createMockOptions())
+
+      const { endpoints, uploads } = metrics.snapshot()
+      expect(uploads.chunkRetries).toBe(1)
+      expect(uploads.chunks).toBe(2)
+      expect(endpoints).toEqual({})
+    })
+  })
 })
@@ -7,9 +7,13 @@
  * @module @uranium/sdk/upload/upload-manager
  */
 
+import { withAssetLookup } from "../client/asset-lookup"
 import type { AssetsRouter } from "../client/assets"
+import { DEFAULT_ENVIRONMENT } from "../client/environment"
+import { type Logger, noopLogger } from "../client/logger"
+import { recordSpanError, type Span, SpanStatusCode } from "../client/tracing"
+import type { RequestOptions } from "../client/types"
 import { SDK_VERSION } from "../index"
-import type { AssetEntity } from "../types/entities"
 import {
   ClientUploadStage,
   FileSource,
@@ -25,7 +29,12 @@ import {
 } from "../validation/schemas"
 import { validateSchema } from "../validation/utils"
 import { uploadChunk } from "./chunk-uploader"
-import type { UploadOptions, UploadProgress } from "./types"
+import type {
+  UploadManagerOptions,
+  UploadOptions,
+  UploadProgress,
+  UploadResult,
+} from "./types"
 import { detectFileType } from "./utils"
 
 /**
@@ -45,10 +54,15 @@ const MAX_FILE_SIZE = 100 * 1024 * 1024
  * Provides progress callbacks and supports cancellation via AbortSignal.
  */
 export class UploadManager {
+  private readonly logger: Logger
+
   constructor(
     private readonly assetsRouter: AssetsRouter,
     private readonly deviceId: string,
-  ) {}
+    private readonly options: UploadManagerOptions = {},
+  ) {
+    this.logger = options.logger ?? noopLogger
+  }
 
   /**
    * Upload a file and submit it for NFT minting
@@ -59,26 +73,70 @@ export class UploadManager {
    * 3. PROCESSING (12-18%): Convert file to ArrayBuffer and split into chunks
    * 4. UPLOADING (18-75%): Upload chunks to S3 with retry logic and per-chunk progress
    * 5. FINALIZING (75-85%): Call completeUpload API (S3 finalization + thumbnails)
-   * 6. REQUESTING_MINT (85-99%): Call startMinting API to submit NFT to mint queue
+   * 6. REQUESTING_MINT (85-99%): Call startMinting API to submit NFT to mint queue,
+   *    then look up the created asset
    * 7. DONE (100%): Upload complete, NFT submitted to mint queue
    *
    * @param file - File or Buffer to upload
    * @param options - Upload configuration and metadata
-   * @returns Asset entity (Note: NFT will be minted asynchronously on backend)
-   * @throws {ValidationError} If validation fails
+   * @returns Asset created for the upload, with the environment the upload ran against
+   * (Note: NFT will be minted asynchronously on backend)
+   * @throws {ValidationError} If validation fails or the collection is refused
    * @throws {UploadError} If upload fails
    */
   async upload(
     file: File | Buffer,
     options: UploadOptions,
-  ): Promise<AssetEntity> {
+  ): Promise<UploadResult> {
     const { signal, onProgress } = options
+    const environment = this.options.environment ?? DEFAULT_ENVIRONMENT
+    const startedAt = Date.now()
+    let stage = ClientUploadStage.VALIDATING
+    let stageStartedAt = startedAt
+    let fileId: string | undefined
+
+    // Parent span of the upload, with one child span per stage
+    const uploadSpan = this.options.tracer?.startSpan("uranium.upload", {
+      attributes: {
+        "uranium.contract_id": options.contractId,
+        "uranium.environment": environment,
+      },
+    })
+    let stageSpan: Span | undefined
+
+    let stageActive = false
+
+    // Logs, traces and measures the end of the current stage
+    const finishStage = (): void => {
+      if (!stageActive) return
+      stageActive = false
+      const durationMs = Date.now() - stageStartedAt
+      this.logger.debug("Upload stage completed", { stage, fileId, durationMs })
+      this.options.metrics?.recordUploadStage(stage, durationMs)
+      stageSpan?.setStatus({ code: SpanStatusCode.OK })
+      stageSpan?.end()
+    }
+
+    // Finishes the current stage and starts the next one
+    const enterStage = (next: ClientUploadStage): void => {
+      finishStage()
+      stage = next
+      stageStartedAt = Date.now()
+      stageActive = true
+      this.logger.debug("Upload stage started", { stage, fileId })
+      stageSpan = this.options.tracer?.startSpan(
+        `uranium.upload.${stage.toLowerCase()}`,
+        { parent: uploadSpan, attributes: { "uranium.upload.stage": stage } },
+      )
+    }
 
     try {
       // ========================================================================
       // STAGE 1: VALIDATING (0-5%)
       // ========================================================================
 
+      enterStage(ClientUploadStage.VALIDATING)
+
       // Report validation start
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.VALIDATING,
@@ -96,6 +154,9 @@ export class UploadManager {
       // Validate options
       this.validateOptions(options)
 
+      // Refuse collections that cannot be minted into (sandbox environment)
+      await this.options.checkCollection?.(options.contractId, signal)
+
       // Detect file type
       const mimeType = this.getMimeType(file)
       const fileType = detectFileType(mimeType)
@@ -124,6 +185,8 @@ export class UploadManager {
       // STAGE 2: PREPARING (5-12%)
       // ========================================================================
 
+      enterStage(ClientUploadStage.PREPARING)
+
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.PREPARING,
         percent: 5,
@@ -141,16 +204,22 @@ export class UploadManager {
       })
 
       // Prepare upload - API call to get presigned URLs
-      const prepareResponse = await this.assetsRouter.prepareNewFile({
-        deviceId: this.deviceId,
-        metadata: metadataJson,
-        type: fileType,
-        source: FileSource.Upload,
-        fileSize,
-        isPrivate: options.isPrivate,
-      })
+      const prepareResponse = await this.assetsRouter.prepareNewFile(
+        {
+          deviceId: this.deviceId,
+          metadata: metadataJson,
+          type: fileType,
+          source: FileSource.Upload,
+          fileSize,
+          isPrivate: options.isPrivate,
+        },
+        ...this.traceOptions(stageSpan),
+      )
 
-      const { fileId, uploadPartUrls, chunkCount, chunkSize } = prepareResponse
+      const { uploadPartUrls, chunkCount, chunkSize } = prepareResponse
+      fileId = prepareResponse.fileId
+      uploadSpan?.setAttribute("uranium.file_id", fileId)
+      uploadSpan?.setAttribute("uranium.file_size", fileSize)
 
       // Report preparing complete
       this.reportProgress(onProgress, {
@@ -169,6 +238,8 @@ export class UploadManager {
       // STAGE 3: PROCESSING (12-18%)
       // ========================================================================
 
+      enterStage(ClientUploadStage.PROCESSING)
+
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.PROCESSING,
         percent: 12,
@@ -209,19 +280,47 @@ export class UploadManager {
       // STAGE 4: UPLOADING (18-75%)
       // ========================================================================
 
+      enterStage(ClientUploadStage.UPLOADING)
+
       // Upload chunks with progress tracking
       let uploadedChunks = 0
       const uploadResults: Array<{ partNumber: number; eTag: string }> = []
 
+      // Count chunk retries in the metrics before the configured onRetry
+      const { metrics, retry } = this.options
+      const chunkRetry: UploadManagerOptions["retry"] = metrics
+        ? {
+            ...retry,
+            onRetry: async (attempt, error, delayMs) => {
+              metrics.recordChunkRetry()
+              await retry?.onRetry?.(attempt, error, delayMs)
+            },
+          }
+        : retry
+
       for (const chunk of chunks) {
         // Check for abort
         this.checkAbort(signal)
 
-        // Upload chunk with per-chunk progress
+        // Upload chunk with per-chunk progress, in its own span
+        const chunkSpan = this.options.tracer?.startSpan(
+          "uranium.upload.chunk",
+          {
+            parent: stageSpan,
+            attributes: {
+              "uranium.chunk.part_number": chunk.partNumber,
+              "uranium.chunk.bytes": chunk.data.byteLength,
+            },
+          },
+        )
+        const chunkStartedAt = Date.now()
         const eTag = await uploadChunk({
           url: chunk.url,
           data: chunk.data,
           signal,
+          transport: this.options.transport,
+          retry: chunkRetry,
+          logger: this.logger,
           onProgress: (chunkProgress) => {
             // Calculate overall percent based on completed chunks + current chunk progress
             const basePercent = this.calculateProgress(
@@ -243,7 +342,24 @@ export class UploadManager {
               chunkProgress: Math.round(chunkProgress * 100),
             })
           },
-        })
+        }).then(
+          (result) => {
+            metrics?.recordChunk(
+              chunk.data.byteLength,
+              Date.now() - chunkStartedAt,
+            )
+            chunkSpan?.setStatus({ code: SpanStatusCode.OK })
+            chunkSpan?.end()
+            return result
+          },
+          (error: unknown) => {
+            if (chunkSpan) {
+              recordSpanError(chunkSpan, error)
+              chunkSpan.end()
+            }
+            throw error
+          },
+        )
 
         uploadedChunks++
         uploadResults.push({
@@ -275,6 +391,8 @@ export class UploadManager {
       // STAGE 5: FINALIZING (75-85%)
       // ========================================================================
 
+      enterStage(ClientUploadStage.FINALIZING)
+
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.FINALIZING,
         percent: 75,
@@ -285,12 +403,15 @@ export class UploadManager {
       })
 
       // Complete upload - API call for S3 finalization and thumbnail generation
-      await this.assetsRouter.completeUpload({
-        fileId,
-        mimeType,
-        chunks: uploadResults,
-        disableThumbnail: options.disableThumbnail,
-      })
+      await this.assetsRouter.completeUpload(
+        {
+          fileId,
+          mimeType,
+          chunks: uploadResults,
+          disableThumbnail: options.disableThumbnail,
+        },
+        ...this.traceOptions(stageSpan),
+      )
 
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.FINALIZING,
@@ -308,6 +429,8 @@ export class UploadManager {
       // STAGE 6: REQUESTING_MINT (85-99%)
       // ========================================================================
 
+      enterStage(ClientUploadStage.REQUESTING_MINT)
+
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.REQUESTING_MINT,
         percent: 85,
@@ -363,17 +486,26 @@ export class UploadManager {
       })
 
       // Start minting - API call to submit NFT to mint queue
-      const mintingResult = await this.assetsRouter.startMinting({
-        fileId,
-        editions: options.editions,
-        contractId: options.contractId,
-        shareWithCommunity: options.shareWithCommunity,
-        metadata: { attributes },
-      })
+      await this.assetsRouter.startMinting(
+        {
+          fileId,
+          editions: options.editions,
+          contractId: options.contractId,
+          shareWithCommunity: options.shareWithCommunity,
+          metadata: { attributes },
+        },
+        ...this.traceOptions(stageSpan),
+      )
 
       // Check for abort
       this.checkAbort(signal)
 
+      // startMinting does not return the asset it created
+      const asset = await withAssetLookup(this.assetsRouter).getByFileId(
+        fileId,
+        { contractId: options.contractId, parentSpan: stageSpan },
+      )
+
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.REQUESTING_MINT,
         percent: 99,
@@ -387,6 +519,18 @@ export class UploadManager {
       // STAGE 7: DONE (100%)
       // ========================================================================
 
+      this.logger.info("Upload completed", {
+        fileId,
+        environment,
+        fileSize,
+        chunks: chunkCount,
+        durationMs: Date.now() - startedAt,
+      })
+
+      finishStage()
+      uploadSpan?.setStatus({ code: SpanStatusCode.OK })
+      uploadSpan?.end()
+
       this.reportProgress(onProgress, {
         stage: ClientUploadStage.DONE,
         percent: 100,
@@ -396,35 +540,53 @@ export class UploadManager {
         currentStatus: "Complete!",
       })
 
-      // TODO: The API doesn't return AssetEntity directly from startMinting
-      // We need to either fetch the asset or update the API to return it
-      // For now, we'll return a partial asset with the info we have
-      return {
-        id: fileId,
-        status: mintingResult.status as any,
-        contractAddress: mintingResult.contractAddress || undefined,
-        tokenId: mintingResult.tokenId || undefined,
-        // We don't have all the fields, so we'll cast with minimal data
-      } as AssetEntity
+      return { ...asset, environment }
     } catch (error) {
+      const failure = {
+        stage,
+        fileId,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error)?.message,
+      }
+
+      for (const span of [stageSpan, uploadSpan]) {
+        if (span) {
+          recordSpanError(span, error)
+          span.end()
+        }
+      }
+
       // Handle abort
       if (signal?.aborted || (error as any).name === "AbortError") {
+        this.logger.warn("Upload cancelled", failure)
         throw new UploadError("Upload cancelled by user", "UPLOAD_CANCELLED")
       }
 
+      this.logger.error("Upload failed", failure)
+
       // Re-throw known errors
       if (error instanceof ValidationError || error instanceof UploadError) {
         throw error
       }
 
-      // Wrap unknown errors
+      // Wrap other errors, keeping the translated API error as the cause
       throw new UploadError(
         `Upload failed: ${(error as Error).message}`,
         "UPLOAD_FAILED",
+        undefined,
+        error instanceof Error ? error : undefined,
       )
     }
   }
 
+  /**
+   * Request options nesting a router call under the given span
+   * Spread into the call so no options are passed when tracing is disabled.
+   */
+  private traceOptions(span: Span | undefined): [RequestOptions] | [] {
+    return span ? [{ parentSpan: span }] : []
+  }
+
   /**
    * Validate upload options
    */
@@ -0,0 +1,126 @@
+/**
+ * Entity Schemas
+ *
+ * Zod schemas for the entities embedded in Uranium API responses. The
+ * response schemas generated from the API description refer to them.
+ *
+ * Unknown fields are allowed so additive API changes do not fail
+ * validation.
+ *
+ * @module @uranium/sdk/validation/entity-schemas
+ */
+
+import { z } from "zod"
+import type {
+  AssetEntity,
+  ContractEntity,
+  MintProgressInfoEntity,
+  Timestamp,
+  UserEntity,
+} from "../types/entities"
+import { AssetSVCStatus } from "../types/enums"
+
+/**
+ * Schema for protobuf timestamps
+ */
+export const timestampSchema: z.ZodType<Timestamp> = z.object({
+  seconds: z.number(),
+  nanos: z.number(),
+})
+
+/**
+ * Schema for ContractEntity
+ */
+export const contractEntitySchema: z.ZodType<ContractEntity> = z.object({
+  id: z.string(),
+  userId: z.string().nullish(),
+  address: z.string().nullish(),
+  name: z.string(),
+  symbol: z.string(),
+  type: z.string(),
+  status: z.string(),
+  ercType: z.string(),
+  createdAt: timestampSchema.nullable(),
+  lastTokenId: z.number(),
+  count: z.number().nullish(),
+})
+
+/**
+ * Schema for AssetEntity
+ */
+export const assetEntitySchema: z.ZodType<AssetEntity> = z.object({
+  id: z.string(),
+  createdAt: timestampSchema.nullish(),
+  updatedAt: timestampSchema.nullish(),
+  mintedAt: timestampSchema.nullish(),
+  currentEditions: z.number(),
+  lockedEditions: z.number(),
+  isFinal: z.boolean(),
+  isUranium: z.boolean(),
+  inTransfer: z.boolean(),
+  isEncrypted: z.boolean(),
+  encryptMimeType: z.string().nullish(),
+  sourceMimeType: z.string(),
+  collectionName: z.string(),
+  status: z.enum(AssetSVCStatus),
+  statusIndex: z.number(),
+  editions: z.number(),
+  ercContractType: z.string(),
+  title: z.string(),
+  slug: z.string(),
+  appName: z.string(),
+  appVersion: z.string(),
+  authorName: z.string(),
+  description: z.string().nullish(),
+  source: z.string(),
+  sourceUrl: z.string(),
+  thumbnailUrl: z.string().nullish(),
+  thumbnailBigUrl: z.string().nullish(),
+  mediaUrl: z.string().nullish(),
+  mediaType: z.string(),
+  location: z.string().nullish(),
+  locationCoords: z.string().nullish(),
+  mediaSize: z.number(),
+  mediaDuration: z.number().nullish(),
+  contractAddress: z.string().nullish(),
+  tokenId: z.string().nullish(),
+  openSeaUrl: z.string().nullish(),
+  creatorAddress: z.string(),
+  creatorName: z.string(),
+  currentOwnerAddress: z.string(),
+  currentOwnerName: z.string().nullish(),
+  isHasSecret: z.boolean(),
+  contractId: z.string(),
+  fileId: z.string(),
+  userId: z.string().nullish(),
+  ownerId: z.string().nullish(),
+  newOwnerId: z.string().nullish(),
+  batchUploadId: z.string().nullish(),
+  encryptedViewLink: z.string().nullish(),
+  slugHash: z.string(),
+  transferStatus: z.string().nullish(),
+  currentTransferId: z.string().nullish(),
+  isListed: z.boolean(),
+})
+
+/**
+ * Schema for UserEntity
+ */
+export const userEntitySchema: z.ZodType<UserEntity> = z.object({
+  userId: z.string(),
+  enablePushNotifications: z.boolean(),
+  role: z.enum(["USER", "ADMIN"]),
+  nickname: z.string(),
+  phoneNumber: z.string(),
+  publicKey: z.string(),
+  verificationId: z.string(),
+})
+
+/**
+ * Schema for MintProgressInfoEntity
+ */
+export const mintProgressInfoSchema: z.ZodType<MintProgressInfoEntity> =
+  z.object({
+    totalChunks: z.number().optional(),
+    completedChunks: z.number().optional(),
+  })
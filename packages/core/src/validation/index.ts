@@ -6,5 +6,8 @@
  * @module @uranium/sdk/validation
  */
 
+export * from "./entity-schemas"
+export * from "./request-schemas"
+export * from "./response-schemas"
 export * from "./schemas"
 export * from "./utils"
@@ -0,0 +1,101 @@
+// Generated by `bun run codegen` from src/codegen/uranium-api.ts. Do not edit.
+
+/**
+ * Request Schemas
+ *
+ * Zod schemas of the request DTOs. The routers validate their arguments
+ * with them before sending.
+ *
+ * @module @uranium/sdk/validation/request-schemas
+ */
+
+import { z } from "zod"
+import {
+  chunkSchema,
+  contractIdSchema,
+  contractNameSchema,
+  contractSymbolSchema,
+  deviceIdSchema,
+  editionsSchema,
+  ercTypeSchema,
+  fileIdSchema,
+  fileSizeSchema,
+  fileSourceSchema,
+  fileTypeSchema,
+  metadataSchema,
+  mimeTypeSchema,
+  timeInSecondsSchema,
+} from "./schemas"
+
+/**
+ * Schema for GetCurrentUserRequestDto
+ */
+export const getCurrentUserSchema = z.object({
+  deviceId: deviceIdSchema,
+})
+
+/**
+ * Schema for CreateUserContractRequestDto
+ */
+export const createContractSchema = z.object({
+  name: contractNameSchema,
+  symbol: contractSymbolSchema,
+  type: ercTypeSchema,
+})
+
+/**
+ * Schema for FindUserAssetsRequestDto
+ */
+export const findUserAssetsSchema = z.object({
+  contractId: z.string().min(1).optional(),
+  pageSize: z.number().int().positive().optional(),
+  page: z.number().int().positive().optional(),
+  sortBy: z.string().optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+  quickFilter: z.string().optional(),
+})
+
+/**
+ * Schema for PrepareNewFileRequestDto
+ */
+export const prepareNewFileSchema = z.object({
+  deviceId: deviceIdSchema,
+  metadata: z.string().min(1, "Metadata is required"),
+  type: fileTypeSchema,
+  source: fileSourceSchema,
+  fileSize: fileSizeSchema,
+  isPrivate: z.boolean().optional().nullable(),
+})
+
+/**
+ * Schema for CompleteUploadRequestDto
+ */
+export const completeUploadSchema = z.object({
+  fileId: fileIdSchema,
+  mimeType: mimeTypeSchema,
+  chunks: z.array(chunkSchema).min(1, "At least one chunk is required"),
+  disableThumbnail: z.boolean().optional().nullable(),
+})
+
+/**
+ * Schema for StartMintingRequestDto
+ */
+export const startMintingSchema = z.object({
+  fileId: fileIdSchema,
+  editions: editionsSchema.optional().nullable(),
+  batchOrder: z.number().int().optional().nullable(),
+  contractId: contractIdSchema,
+  batchId: z.string().optional().nullable(),
+  shareWithCommunity: z.boolean().optional().nullable(),
+  isEncrypted: z.boolean().optional().nullable(),
+  encryptMimeType: z.string().optional().nullable(),
+  metadata: metadataSchema,
+})
+
+/**
+ * Schema for ExtractFrameSyncRequestDto
+ */
+export const extractFrameSyncSchema = z.object({
+  fileId: fileIdSchema,
+  timeInSeconds: timeInSecondsSchema,
+})
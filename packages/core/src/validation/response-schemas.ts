@@ -0,0 +1,231 @@
+// Generated by `bun run codegen` from src/codegen/uranium-api.ts. Do not edit.
+
+/**
+ * Response Schemas
+ *
+ * Zod schemas for the DTOs returned by the Uranium API.
+ * Used by the response validation transport to detect backend drift
+ * (missing fields, changed types) at the SDK boundary.
+ *
+ * Schemas describe the documented response shape only; unknown fields
+ * are allowed so additive API changes do not fail validation.
+ *
+ * @module @uranium/sdk/validation/response-schemas
+ */
+
+import { z } from "zod"
+import type {
+  CompleteUploadResponseDto,
+  CreateUserContractResponseDto,
+  ExtractFrameSyncResponseDto,
+  FindUserAssetsMetadata,
+  FindUserAssetsResponseData,
+  FindUserAssetsResponseDto,
+  GetCurrentUserResponse_OK,
+  GetCurrentUserResponseDto,
+  Metadata_AttributeDto,
+  MetadataDto,
+  PrepareNewFileResponseDto,
+  StartMintingResponseDataDto,
+  StartMintingResponseDto,
+  UploadPartUrl,
+  UserContractsResponseDto,
+} from "../types/api-types"
+import { Metadata_AttributeType, UploadStatus } from "../types/enums"
+import {
+  assetEntitySchema,
+  contractEntitySchema,
+  mintProgressInfoSchema,
+} from "./entity-schemas"
+
+/**
+ * Fields shared by all API responses
+ */
+const baseApiResponseShape = {
+  status: z.string(),
+  errorCode: z.string().nullish(),
+}
+
+// ============================================================================
+// Account API
+// ============================================================================
+
+/**
+ * Schema for GetCurrentUserResponse_OK
+ */
+export const getCurrentUserOkSchema: z.ZodType<GetCurrentUserResponse_OK> =
+  z.object({
+    userId: z.string(),
+    enablePushNotifications: z.boolean(),
+    role: z.enum(["USER", "ADMIN"]),
+    nickname: z.string(),
+    phoneNumber: z.string(),
+    publicKey: z.string(),
+    verificationId: z.string(),
+  })
+
+/**
+ * Schema for GetCurrentUserResponseDto
+ */
+export const getCurrentUserResponseSchema: z.ZodType<GetCurrentUserResponseDto> =
+  z.object({
+    ...baseApiResponseShape,
+    ok: getCurrentUserOkSchema.nullish(),
+  })
+
+// ============================================================================
+// Contracts API
+// ============================================================================
+
+/**
+ * Schema for CreateUserContractResponseDto
+ */
+export const createUserContractResponseSchema: z.ZodType<CreateUserContractResponseDto> =
+  z.object({
+    ...baseApiResponseShape,
+    data: contractEntitySchema.nullish(),
+  })
+
+/**
+ * Schema for UserContractsResponseDto
+ */
+export const userContractsResponseSchema: z.ZodType<UserContractsResponseDto> =
+  z.object({
+    ...baseApiResponseShape,
+    data: z.array(contractEntitySchema),
+  })
+
+// ============================================================================
+// Assets API
+// ============================================================================
+
+/**
+ * Schema for FindUserAssetsMetadata
+ */
+export const findUserAssetsMetadataSchema: z.ZodType<FindUserAssetsMetadata> =
+  z.object({
+    total: z.number(),
+    page: z.number(),
+    pageSize: z.number(),
+    countPages: z.number(),
+  })
+
+/**
+ * Schema for FindUserAssetsResponseData
+ */
+export const findUserAssetsResponseDataSchema: z.ZodType<FindUserAssetsResponseData> =
+  z.object({
+    data: z.array(assetEntitySchema),
+    meta: findUserAssetsMetadataSchema.nullable(),
+  })
+
+/**
+ * Schema for FindUserAssetsResponseDto
+ */
+export const findUserAssetsResponseSchema: z.ZodType<FindUserAssetsResponseDto> =
+  z.object({
+    ...baseApiResponseShape,
+    ok: findUserAssetsResponseDataSchema.nullish(),
+  })
+
+// ============================================================================
+// File Upload API
+// ============================================================================
+
+/**
+ * Schema for UploadPartUrl
+ */
+export const uploadPartUrlSchema: z.ZodType<UploadPartUrl> = z.object({
+  partNumber: z.number().int().positive(),
+  url: z.string(),
+})
+
+/**
+ * Schema for PrepareNewFileResponseDto
+ */
+export const prepareNewFileResponseSchema: z.ZodType<PrepareNewFileResponseDto> =
+  z.object({
+    ...baseApiResponseShape,
+    fileId: z.string(),
+    fileUploadId: z.string(),
+    chunkCount: z.number().int().nonnegative(),
+    chunkSize: z.number().int().positive(),
+    uploadPartUrls: z.array(uploadPartUrlSchema),
+  })
+
+/**
+ * Schema for CompleteUploadResponseDto
+ */
+export const completeUploadResponseSchema: z.ZodType<CompleteUploadResponseDto> =
+  z.object(baseApiResponseShape)
+
+// ============================================================================
+// Minting API
+// ============================================================================
+
+/**
+ * Schema for Metadata_AttributeDto
+ */
+export const metadataAttributeDtoSchema: z.ZodType<Metadata_AttributeDto> =
+  z.object({
+    key: z.string(),
+    value: z.string(),
+    type: z.enum(Metadata_AttributeType),
+  })
+
+/**
+ * Schema for MetadataDto
+ */
+export const metadataDtoSchema: z.ZodType<MetadataDto> = z.object({
+  attributes: z.array(metadataAttributeDtoSchema),
+})
+
+/**
+ * Schema for StartMintingResponseDataDto
+ */
+export const startMintingResponseDataSchema: z.ZodType<StartMintingResponseDataDto> =
+  z.object({
+    status: z.enum(UploadStatus),
+    mintProgressInfo: mintProgressInfoSchema,
+    contractAddress: z.string().nullish(),
+    tokenId: z.string().nullish(),
+  })
+
+/**
+ * Schema for StartMintingResponseDto
+ */
+export const startMintingResponseSchema: z.ZodType<StartMintingResponseDto> =
+  z.object({
+    ...baseApiResponseShape,
+    data: startMintingResponseDataSchema.nullish(),
+  })
+
+// ============================================================================
+// Frame Extraction API
+// ============================================================================
+
+/**
+ * Schema for ExtractFrameSyncResponseDto
+ */
+export const extractFrameSyncResponseSchema: z.ZodType<ExtractFrameSyncResponseDto> =
+  z.object({
+    ...baseApiResponseShape,
+    base64Data: z.string().nullish(),
+    mimeType: z.string().nullish(),
+    width: z.number().nullish(),
+    height: z.number().nullish(),
+  })
+
+/**
+ * Response schema of each router operation, keyed by "{router}.{operation}"
+ */
+export const RESPONSE_SCHEMAS: Record<string, z.ZodType> = {
+  "account.getMe": getCurrentUserResponseSchema,
+  "contracts.list": userContractsResponseSchema,
+  "contracts.create": createUserContractResponseSchema,
+  "assets.list": findUserAssetsResponseSchema,
+  "assets.prepareNewFile": prepareNewFileResponseSchema,
+  "assets.completeUpload": completeUploadResponseSchema,
+  "assets.startMinting": startMintingResponseSchema,
+  "assets.extractFrameSync": extractFrameSyncResponseSchema,
+}
@@ -1,27 +1,29 @@
 import { describe, expect, test } from "bun:test"
 import { ZodError } from "zod"
+import {
+  completeUploadSchema,
+  createContractSchema,
+  extractFrameSyncSchema,
+  prepareNewFileSchema,
+  startMintingSchema,
+} from "./request-schemas"
 import {
   assetDescriptionSchema,
   assetLocationSchema,
   assetTitleSchema,
   chunkSchema,
-  completeUploadSchema,
   contractIdSchema,
   contractNameSchema,
   contractSymbolSchema,
-  createContractSchema,
   deviceIdSchema,
   editionsSchema,
   ercTypeSchema,
   eTagSchema,
-  extractFrameSyncSchema,
   fileIdSchema,
   fileSizeSchema,
   fileSourceSchema,
   fileTypeSchema,
   mimeTypeSchema,
-  prepareNewFileSchema,
-  startMintingSchema,
   timeInSecondsSchema,
   uploadMetadataSchema,
 } from "./schemas"
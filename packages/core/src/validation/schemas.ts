@@ -1,4 +1,11 @@
 import { z } from "zod"
+import type {
+  completeUploadSchema,
+  createContractSchema,
+  extractFrameSyncSchema,
+  prepareNewFileSchema,
+  startMintingSchema,
+} from "./request-schemas"
 
 /**
  * Regex patterns for validation (from MCP constants)
@@ -83,15 +90,6 @@ export const ercTypeSchema = z.enum(["ERC721", "ERC1155"], {
   message: "Contract type must be either ERC721 or ERC1155",
 })
 
-/**
- * Composite schema for creating a contract
- */
-export const createContractSchema = z.object({
-  name: contractNameSchema,
-  symbol: contractSymbolSchema,
-  type: ercTypeSchema,
-})
-
 /**
  * Schema for metadata attributes
  */
@@ -206,43 +204,6 @@ export const fileSourceSchema = z.enum(["camera", "gallery", "upload"], {
   message: "File source must be one of: camera, gallery, upload",
 })
 
-/**
- * Composite schema for preparing a new file upload
- */
-export const prepareNewFileSchema = z.object({
-  deviceId: deviceIdSchema,
-  metadata: z.string().min(1, "Metadata is required"),
-  type: fileTypeSchema,
-  source: fileSourceSchema,
-  fileSize: fileSizeSchema,
-  isPrivate: z.boolean().optional().nullable(),
-})
-
-/**
- * Composite schema for completing an upload
- */
-export const completeUploadSchema = z.object({
-  fileId: fileIdSchema,
-  mimeType: mimeTypeSchema,
-  chunks: z.array(chunkSchema).min(1, "At least one chunk is required"),
-  disableThumbnail: z.boolean().optional().nullable(),
-})
-
-/**
- * Composite schema for starting the minting process
- */
-export const startMintingSchema = z.object({
-  fileId: fileIdSchema,
-  editions: editionsSchema.optional().nullable(),
-  batchOrder: z.number().int().optional().nullable(),
-  contractId: contractIdSchema,
-  batchId: z.string().optional().nullable(),
-  shareWithCommunity: z.boolean().optional().nullable(),
-  isEncrypted: z.boolean().optional().nullable(),
-  encryptMimeType: z.string().optional().nullable(),
-  metadata: metadataSchema,
-})
-
 /**
  * Schema for time in seconds for frame extraction
  * Must be a non-negative number
@@ -251,14 +212,6 @@ export const timeInSecondsSchema = z
   .number()
   .nonnegative("Time must be 0 or greater")
 
-/**
- * Composite schema for extracting a frame from a video
- */
-export const extractFrameSyncSchema = z.object({
-  fileId: fileIdSchema,
-  timeInSeconds: timeInSecondsSchema,
-})
-
 /**
  * Type exports for convenience
  */
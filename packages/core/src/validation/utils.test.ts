@@ -1,11 +1,8 @@
 import { describe, expect, test } from "bun:test"
 import { ValidationError } from "@uranium/types"
 import { ZodError, z } from "zod"
-import {
-  contractNameSchema,
-  createContractSchema,
-  editionsSchema,
-} from "./schemas"
+import { createContractSchema } from "./request-schemas"
+import { contractNameSchema, editionsSchema } from "./schemas"
 import { handleZodError, validateSchema } from "./utils"
 
 describe("Validation Utils", () => {
@@ -38,7 +38,20 @@ export const handleZodError = (
     ? `${prefix}: ${firstIssue.message}`
     : firstIssue.message
 
-  // Build validation details object
+  return new ValidationError(
+    message,
+    "VALIDATION_ERROR",
+    formatZodIssues(error),
+  )
+}
+
+/**
+ * Group the messages of a ZodError by field path
+ *
+ * @param error - ZodError from schema validation
+ * @returns Messages keyed by dotted field path ("root" for the value itself)
+ */
+export const formatZodIssues = (error: ZodError): Record<string, string[]> => {
   const details: Record<string, string[]> = {}
   for (const issue of error.issues) {
     const path = issue.path.join(".") || "root"
@@ -47,8 +60,7 @@ export const handleZodError = (
     }
     details[path].push(issue.message)
   }
-
-  return new ValidationError(message, "VALIDATION_ERROR", details)
+  return details
 }
 
 /**
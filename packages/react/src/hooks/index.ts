@@ -1,4 +1,5 @@
 export * from "./useAccount"
+export * from "./useAsset"
 export * from "./useAssets"
 export * from "./useContracts"
 export * from "./useCreateCollection"
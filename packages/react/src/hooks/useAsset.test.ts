@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test"
+import { assetsQueryKeys } from "../utils"
+
+describe("useAsset - Query Keys", () => {
+  test("should use the asset detail key", () => {
+    expect(assetsQueryKeys.detail("asset-1")).toEqual([
+      "assets",
+      "detail",
+      "asset-1",
+    ])
+  })
+
+  test("should key lookups by collection", () => {
+    const key = assetsQueryKeys.detail("asset-1", { contractId: "contract-1" })
+
+    expect(key).toEqual([
+      "assets",
+      "detail",
+      "asset-1",
+      { contractId: "contract-1" },
+    ])
+    expect(key).not.toEqual(
+      assetsQueryKeys.detail("asset-1", { contractId: "contract-2" }),
+    )
+    expect(key.slice(0, 3)).toEqual([...assetsQueryKeys.detail("asset-1")])
+  })
+
+  test("should be invalidated with all asset queries", () => {
+    const detailKey = assetsQueryKeys.detail("asset-1")
+    expect(detailKey.slice(0, 1)).toEqual([...assetsQueryKeys.all])
+    expect(detailKey.slice(0, 2)).toEqual([...assetsQueryKeys.details()])
+  })
+})
+
+describe("useAsset - Return Type", () => {
+  test("should export useAsset function", async () => {
+    const { useAsset } = await import("./useAsset")
+    expect(useAsset).toBeDefined()
+    expect(typeof useAsset).toBe("function")
+  })
+})
@@ -0,0 +1,72 @@
+import { useQuery } from "@tanstack/react-query"
+import type { AssetEntity } from "@uranium/sdk"
+import { useUranium } from "../provider"
+import { assetsQueryKeys } from "../utils"
+import { getErrorMessage } from "../utils/error-messages"
+
+export interface UseAssetParams {
+  /** Collection of the asset, narrowing the search */
+  contractId?: string
+  /** Look the asset up by the ID of its uploaded file instead of its ID */
+  byFileId?: boolean
+  /** Enable/disable the query */
+  enabled?: boolean
+}
+
+export interface UseAssetResult {
+  asset: AssetEntity | undefined
+  isLoading: boolean
+  isError: boolean
+  error: Error | null
+  refetch: () => void
+}
+
+/**
+ * Hook to fetch a single asset by ID or file ID
+ *
+ * @example
+ * ```tsx
+ * function AssetPage({ assetId }: { assetId: string }) {
+ *   const { asset, isLoading } = useAsset(assetId);
+ *
+ *   if (isLoading) return <div>Loading...</div>;
+ *
+ *   return <img src={asset?.thumbnailUrl ?? undefined} alt={asset?.title} />;
+ * }
+ * ```
+ */
+export function useAsset(
+  id: string | undefined,
+  params: UseAssetParams = {},
+): UseAssetResult {
+  const sdk = useUranium()
+  const { contractId, byFileId = false, enabled = true } = params
+
+  const query = useQuery({
+    queryKey: assetsQueryKeys.detail(byFileId ? `file:${id}` : `${id}`, {
+      contractId,
+    }),
+    queryFn: async () => {
+      try {
+        const options = { contractId }
+        return byFileId
+          ? await sdk.assets.getByFileId(id as string, options)
+          : await sdk.assets.get(id as string, options)
+      } catch (error) {
+        // Transform error to user-friendly message
+        const message = getErrorMessage(error)
+        throw new Error(message)
+      }
+    },
+    enabled: enabled && Boolean(id),
+    staleTime: 30 * 1000, // 30 seconds
+  })
+
+  return {
+    asset: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+  }
+}
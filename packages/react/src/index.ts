@@ -12,6 +12,8 @@ export { REACT_SDK_VERSION as version }
 export type {
   UploadAssetParams,
   UseAccountResult,
+  UseAssetParams,
+  UseAssetResult,
   UseAssetsParams,
   UseAssetsResult,
   UseContractsResult,
@@ -50,6 +50,7 @@ export const contractsQueryKeys = {
  * - list(filters): ['assets', 'list', filters]
  * - detail: ['assets', 'detail']
  * - detail(id): ['assets', 'detail', id]
+ * - detail(id, filters): ['assets', 'detail', id, filters]
  */
 export const assetsQueryKeys = {
   all: ["assets"] as const,
@@ -57,7 +58,10 @@ export const assetsQueryKeys = {
   list: (filters?: Record<string, unknown>) =>
     [...assetsQueryKeys.lists(), filters] as const,
   details: () => [...assetsQueryKeys.all, "detail"] as const,
-  detail: (id: string) => [...assetsQueryKeys.details(), id] as const,
+  detail: (id: string, filters?: Record<string, unknown>) =>
+    filters
+      ? ([...assetsQueryKeys.details(), id, filters] as const)
+      : ([...assetsQueryKeys.details(), id] as const),
 } as const
 
 /**